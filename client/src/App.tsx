@@ -7,6 +7,7 @@ import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
 import Exercises from "./pages/Exercises";
+import ExerciseDetail from "./pages/ExerciseDetail";
 import Programs from "./pages/Programs";
 import ProgramDetail from "./pages/ProgramDetail";
 import WorkoutSession from "./pages/WorkoutSession";
@@ -14,13 +15,16 @@ import Settings from "./pages/Settings";
 import Analytics from "./pages/Analytics";
 import History from "./pages/History";
 import Templates from "./pages/Templates";
+import TrainingCalendar from "./pages/Calendar";
 import { initializeDatabase } from "./lib/db";
+import { useAutoSync } from "./hooks/useDatabase";
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
       <Route path={"/exercises"} component={Exercises} />
+      <Route path={"/exercises/:id"} component={ExerciseDetail} />
       <Route path={"/programs"} component={Programs} />
       <Route path={"/programs/:id"} component={ProgramDetail} />
       <Route path={"/workout/:id"} component={WorkoutSession} />
@@ -28,6 +32,7 @@ function Router() {
       <Route path={"/analytics"} component={Analytics} />
       <Route path={"/history"} component={History} />
       <Route path={"/templates"} component={Templates} />
+      <Route path={"/calendar"} component={TrainingCalendar} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
@@ -38,6 +43,7 @@ function App() {
   useEffect(() => {
     initializeDatabase().catch(console.error);
   }, []);
+  useAutoSync();
 
   return (
     <ErrorBoundary>
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { Copy, KeyRound, LogOut, Trash2, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApiTokenInfo, CreatedApiToken } from '@shared/auth';
+import { MIN_PASSWORD_LENGTH } from '@shared/auth';
+import type { AccountState } from '@/hooks/useAccount';
+import { syncOperations } from '@/hooks/useDatabase';
+import { createApiToken, deleteApiToken, listApiTokens, logIn, logOut, signUp } from '@/lib/account';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface AccountSettingsProps {
+  account: AccountState;
+}
+
+// Data synced with another account is only sent to this one when asked
+function choosePreviousData(username: string): 'clear' | 'keep' | undefined {
+  if (confirm(`This device has data from another account. Clear it and load ${username}'s data instead?`)) return 'clear';
+  if (confirm(`Add this device's data to ${username}'s account instead? It will be synced there.`)) return 'keep';
+  return undefined;
+}
+
+export function AccountSettings({ account }: AccountSettingsProps) {
+  const { user, status, signedIn } = account;
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (mode: 'login' | 'signup') => {
+    setIsSubmitting(true);
+    try {
+      const credentials = { username: username.trim().toLowerCase(), password };
+      const signedInUser = mode === 'signup' ? await signUp(credentials) : await logIn(credentials);
+      let previousData: 'clear' | 'keep' | undefined;
+      if (await syncOperations.isOtherAccount(signedInUser.id)) {
+        previousData = choosePreviousData(signedInUser.username);
+        if (!previousData) {
+          await logOut();
+          toast.info("Not signed in; this device keeps the other account's data");
+          return;
+        }
+      }
+      await syncOperations.setAccount(signedInUser.id, previousData);
+      signedIn(signedInUser);
+      setPassword('');
+      toast.success(mode === 'signup' ? `Account ${signedInUser.username} created` : `Signed in as ${signedInUser.username}`);
+    } catch (error) {
+      toast.error(mode === 'signup' ? 'Failed to create account' : 'Failed to sign in', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      console.error(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLogOut = async () => {
+    try {
+      await logOut();
+      // Local data stays; syncing stops until someone signs in again
+      await syncOperations.setEnabled(false);
+      signedIn(null);
+      toast.success('Signed out');
+    } catch (error) {
+      toast.error('Failed to sign out');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-indigo-500/10 rounded-lg">
+          <UserRound className="w-6 h-6 text-indigo-500" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold mb-2">Account</h3>
+          {status === 'loading' && (
+            <p className="text-sm text-muted-foreground">Checking account...</p>
+          )}
+          {status === 'unreachable' && (
+            <p className="text-sm text-muted-foreground">
+              Can't reach the sync server. You can keep training offline; sign in once you're back online.
+            </p>
+          )}
+          {status === 'signed-out' && (
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSubmit('login');
+              }}
+            >
+              <p className="text-sm text-muted-foreground">
+                Sign in to this server to sync your training log between devices.
+              </p>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="account-username">Username</Label>
+                  <Input
+                    id="account-username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="account-password">Password</Label>
+                  <Input
+                    id="account-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting || !username || !password}>
+                  Sign In
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleSubmit('signup')}
+                  disabled={isSubmitting || !username || password.length < MIN_PASSWORD_LENGTH}
+                >
+                  Create Account
+                </Button>
+              </div>
+            </form>
+          )}
+          {status === 'signed-in' && user && (
+            <>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <p className="text-sm text-muted-foreground">
+                  Signed in as <span className="font-medium text-foreground">{user.username}</span>
+                </p>
+                <Button size="sm" variant="outline" onClick={handleLogOut}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
+              <ApiTokens />
+            </>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [name, setName] = useState('');
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  useEffect(() => {
+    listApiTokens().then(setTokens).catch(console.error);
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const token = await createApiToken(name.trim());
+      setCreated(token);
+      setTokens(prev => [...prev, token]);
+      setName('');
+    } catch (error) {
+      toast.error('Failed to create token');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+      await deleteApiToken(token.id);
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+      if (created?.id === token.id) setCreated(null);
+    } catch (error) {
+      toast.error('Failed to revoke token');
+      console.error(error);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Token copied');
+    } catch (error) {
+      toast.error('Failed to copy token');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          API Tokens
+        </p>
+        <p className="text-xs text-muted-foreground">
+          For scripts and other apps using the REST API, sent as <code>Authorization: Bearer &lt;token&gt;</code>
+        </p>
+      </div>
+      {created && (
+        <div className="p-3 rounded-lg border border-green-500/30 bg-green-500/5 space-y-2">
+          <p className="text-xs text-muted-foreground">Copy "{created.name}" now; it won't be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={created.token} className="font-mono text-xs" />
+            <Button size="sm" variant="outline" onClick={() => handleCopy(created.token)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+      {tokens.map(token => (
+        <div key={token.id} className="flex items-center justify-between gap-3 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{token.name}</p>
+            <p className="text-xs text-muted-foreground">
+              Created {format(token.created_at, 'MMM d, yyyy')}
+              {token.last_used_at ? ` · last used ${format(token.last_used_at, 'MMM d, yyyy')}` : ' · never used'}
+            </p>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => handleDelete(token)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input placeholder="Token name" value={name} onChange={(e) => setName(e.target.value)} maxLength={64} />
+        <Button variant="outline" onClick={handleCreate} disabled={!name.trim()}>
+          Create Token
+        </Button>
+      </div>
+    </div>
+  );
+}
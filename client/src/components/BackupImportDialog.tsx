@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { backupOperations } from '@/hooks/useDatabase';
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  IMPORT_MODE_DESCRIPTIONS,
+  IMPORT_MODE_LABELS,
+  isDestructiveImport,
+  summarizeImportPlan,
+  type BackupParseResult,
+  type ImportMode,
+  type ImportPlan,
+} from '@/lib/backup';
+import { toast } from 'sonner';
+
+// Skip reasons listed under the preview
+const MAX_SKIP_REASONS = 5;
+
+interface BackupImportDialogProps {
+  fileName: string;
+  result: BackupParseResult | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BackupImportDialog({ fileName, result, open, onOpenChange }: BackupImportDialogProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Dry run: plan against the current data without writing anything
+  useEffect(() => {
+    setPlan(null);
+    if (!open || !result?.success) return;
+
+    let cancelled = false;
+    backupOperations.preview(result.backup, mode)
+      .then(preview => {
+        if (!cancelled) setPlan(preview);
+      })
+      .catch(error => {
+        toast.error('Failed to preview import');
+        console.error(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, result, mode]);
+
+  const summary = plan ? summarizeImportPlan(plan) : [];
+  const skipReasons = plan
+    ? BACKUP_TABLES.flatMap(table =>
+        (plan.tables[table]?.skipped ?? [])
+          .filter(skipped => skipped.reason !== 'Unchanged' && skipped.reason !== 'Already exists')
+          .map(skipped => `${BACKUP_TABLE_LABELS[table]}: ${skipped.reason}`)
+      )
+    : [];
+  const hasChanges = summary.some(row => row.added > 0 || row.updated > 0 || row.deleted > 0);
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsImporting(true);
+    try {
+      await backupOperations.apply(plan, `Before importing ${fileName}`);
+      const added = summary.reduce((sum, row) => sum + row.added, 0);
+      const updated = summary.reduce((sum, row) => sum + row.updated, 0);
+      toast.success('Database imported successfully', {
+        description: `${added} added, ${updated} updated${isDestructiveImport(plan) ? ' · snapshot saved' : ''}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to import database');
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import {fileName}</DialogTitle>
+          <DialogDescription>
+            Review what the backup changes before anything is written
+          </DialogDescription>
+        </DialogHeader>
+
+        {result && !result.success ? (
+          <div className="p-3 rounded-lg border border-red-500/20 bg-red-500/5 text-sm">
+            <p className="font-semibold text-red-500 mb-2">This file is not a valid backup</p>
+            <ul className="space-y-1 text-muted-foreground font-mono text-xs">
+              {result.errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPORT_MODE_LABELS) as ImportMode[]).map(value => (
+                    <SelectItem key={value} value={value}>
+                      {IMPORT_MODE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-2">{IMPORT_MODE_DESCRIPTIONS[mode]}</p>
+            </div>
+
+            {!plan ? (
+              <p className="text-sm text-muted-foreground">Preparing preview...</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead className="text-right">Added</TableHead>
+                      <TableHead className="text-right">Updated</TableHead>
+                      <TableHead className="text-right">Skipped</TableHead>
+                      <TableHead className="text-right">Removed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.map(row => (
+                      <TableRow key={row.table}>
+                        <TableCell>{BACKUP_TABLE_LABELS[row.table]}</TableCell>
+                        <TableCell className="text-right text-green-500">{row.added || '-'}</TableCell>
+                        <TableCell className="text-right text-blue-500">{row.updated || '-'}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{row.skipped || '-'}</TableCell>
+                        <TableCell className="text-right text-red-500">{row.deleted || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {skipReasons.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    <p className="font-semibold text-foreground mb-1">Skipped because of missing references</p>
+                    <ul className="space-y-0.5">
+                      {skipReasons.slice(0, MAX_SKIP_REASONS).map((reason, i) => (
+                        <li key={i}>{reason}</li>
+                      ))}
+                      {skipReasons.length > MAX_SKIP_REASONS && (
+                        <li>...and {skipReasons.length - MAX_SKIP_REASONS} more</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+
+                {isDestructiveImport(plan) && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg border border-yellow-500/20 bg-yellow-500/5 text-sm">
+                    <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 shrink-0" />
+                    <span>
+                      Existing data will be overwritten. A snapshot of your current data is saved first and can be restored from Settings.
+                    </span>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!plan || !hasChanges || isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
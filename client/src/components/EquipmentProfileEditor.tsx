@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { Dumbbell, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { EquipmentProfile } from '@/lib/db';
+import { DEFAULT_EQUIPMENT_PROFILES, validateEquipmentProfile } from '@/lib/plates';
+import { useEquipmentProfile, useSettings, useWeightUnit, settingsOperations } from '@/hooks/useDatabase';
+import { toast } from 'sonner';
+
+interface ProfileForm {
+  bars: string;
+  plates: Array<{ weight: string; count: string }>;
+  dumbbellIncrement: string;
+  cableStep: string;
+}
+
+const toForm = (profile: EquipmentProfile): ProfileForm => ({
+  bars: profile.bar_weights.join(', '),
+  plates: profile.plates.map(plate => ({ weight: plate.weight.toString(), count: plate.count.toString() })),
+  dumbbellIncrement: profile.dumbbell_increment.toString(),
+  cableStep: profile.cable_stack_step.toString(),
+});
+
+export function EquipmentProfileEditor() {
+  const settings = useSettings();
+  const profile = useEquipmentProfile();
+  const weightUnit = useWeightUnit();
+  const [form, setForm] = useState<ProfileForm>(() => toForm(profile));
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Follow the stored profile until the user starts editing
+  useEffect(() => {
+    if (!isDirty) setForm(toForm(profile));
+  }, [profile, isDirty]);
+
+  const updateForm = (changes: Partial<ProfileForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updatePlate = (index: number, key: 'weight' | 'count', value: string) => {
+    updateForm({ plates: form.plates.map((plate, i) => (i === index ? { ...plate, [key]: value } : plate)) });
+  };
+
+  const handleSave = async () => {
+    const edited: EquipmentProfile = {
+      unit: profile.unit,
+      bar_weights: form.bars.split(',').map(s => s.trim()).filter(Boolean).map(parseFloat),
+      plates: form.plates
+        .map(plate => ({ weight: parseFloat(plate.weight), count: Number(plate.count) }))
+        .sort((a, b) => b.weight - a.weight),
+      dumbbell_increment: parseFloat(form.dumbbellIncrement),
+      cable_stack_step: parseFloat(form.cableStep),
+    };
+
+    const error = validateEquipmentProfile(edited);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      await settingsOperations.update({ equipment_profile: edited });
+      setIsDirty(false);
+      toast.success('Equipment profile saved');
+    } catch (error) {
+      toast.error('Failed to save equipment profile');
+      console.error(error);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await settingsOperations.update({ equipment_profile: undefined });
+      setIsDirty(false);
+      setForm(toForm(DEFAULT_EQUIPMENT_PROFILES[weightUnit]));
+      toast.success('Equipment profile reset to defaults');
+    } catch (error) {
+      toast.error('Failed to reset equipment profile');
+      console.error(error);
+    }
+  };
+
+  const unit = profile.unit;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-indigo-500/10 rounded-lg">
+          <Dumbbell className="w-6 h-6 text-indigo-500" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold mb-2">Equipment Profile</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            What your gym has, in {unit}. Recommended weights round to loads you can actually set up, and barbell sets show a plate breakdown.
+          </p>
+
+          <div className="grid md:grid-cols-3 gap-4 mb-4">
+            <div className="space-y-2">
+              <Label htmlFor="bar-weights">Bar weights ({unit})</Label>
+              <Input
+                id="bar-weights"
+                value={form.bars}
+                onChange={(e) => updateForm({ bars: e.target.value })}
+                placeholder="20, 15"
+              />
+              <p className="text-xs text-muted-foreground">Preferred bar first</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dumbbell-increment">Dumbbell increment ({unit})</Label>
+              <Input
+                id="dumbbell-increment"
+                type="number"
+                step="0.5"
+                min="0"
+                value={form.dumbbellIncrement}
+                onChange={(e) => updateForm({ dumbbellIncrement: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cable-step">Cable / machine stack step ({unit})</Label>
+              <Input
+                id="cable-step"
+                type="number"
+                step="0.5"
+                min="0"
+                value={form.cableStep}
+                onChange={(e) => updateForm({ cableStep: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Label className="mb-2 block">Plates</Label>
+          <div className="space-y-2">
+            {form.plates.map((plate, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="0.25"
+                  min="0"
+                  className="w-24 h-8"
+                  value={plate.weight}
+                  onChange={(e) => updatePlate(index, 'weight', e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground w-8">{unit} ×</span>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-20 h-8"
+                  value={plate.count}
+                  onChange={(e) => updatePlate(index, 'count', e.target.value)}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateForm({ plates: form.plates.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={() => updateForm({ plates: [...form.plates, { weight: '', count: '2' }] })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Plate
+          </Button>
+
+          <div className="flex gap-2 mt-4">
+            <Button onClick={handleSave} disabled={!isDirty}>
+              Save Equipment
+            </Button>
+            {settings?.equipment_profile && (
+              <Button variant="outline" onClick={handleReset}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to Defaults
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -3,8 +3,9 @@ import { TrendingUp, TrendingDown, Minus, ChevronDown, ChevronUp } from 'lucide-
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { Exercise, SessionExercise } from '@/lib/db';
-import { useLogs } from '@/hooks/useDatabase';
+import { useLogs, useExercises, useVolumeLandmarks, useLatestMuscleRecovery } from '@/hooks/useDatabase';
 import { getExerciseSetRecommendation } from '@/lib/autoregulation';
+import { getWeeklyHardSets } from '@/lib/volumeLandmarks';
 import { subDays } from 'date-fns';
 
 interface ExerciseAutoregulationProps {
@@ -19,6 +20,9 @@ export function ExerciseAutoregulation({
   onApplyRecommendation,
 }: ExerciseAutoregulationProps) {
   const allLogs = useLogs() || [];
+  const exercises = useExercises();
+  const landmarks = useVolumeLandmarks();
+  const recovery = useLatestMuscleRecovery(exercise.muscle_group);
   const [isExpanded, setIsExpanded] = useState(false);
 
   // Get recent logs for this exercise (last 14 days)
@@ -29,14 +33,26 @@ export function ExerciseAutoregulation({
     );
   }, [allLogs, exercise.id]);
 
+  // This week's hard sets for the muscle, so recommendations stop at MRV
+  const weeklyMuscleSets = useMemo(() => {
+    return getWeeklyHardSets(allLogs, exercises || [])[exercise.muscle_group] ?? 0;
+  }, [allLogs, exercises, exercise.muscle_group]);
+
   const recommendation = useMemo(() => {
     if (recentLogs.length < 2) return null;
     return getExerciseSetRecommendation(
       exercise.id!,
       sessionExercise.target_sets,
-      recentLogs
+      recentLogs,
+      0,
+      {
+        muscleGroup: exercise.muscle_group,
+        weeklySets: weeklyMuscleSets,
+        mrv: landmarks[exercise.muscle_group].mrv,
+      },
+      recovery?.rating
     );
-  }, [exercise.id, sessionExercise.target_sets, recentLogs]);
+  }, [exercise.id, exercise.muscle_group, sessionExercise.target_sets, recentLogs, weeklyMuscleSets, landmarks, recovery?.rating]);
 
   if (!recommendation || recommendation.change === 0) {
     return null; // No recommendation needed
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import type { InjuryRisk } from '@/lib/injuryPrevention';
 import type { Exercise } from '@/lib/db';
+import { BODY_REGION_LABELS } from '@/lib/pain';
 
 interface InjuryPreventionAlertProps {
   risk: InjuryRisk;
@@ -60,6 +61,13 @@ export function InjuryPreventionAlert({
             <p className="text-sm text-muted-foreground">
               Average joint pain: {risk.avgJointPain.toFixed(1)}/5 over last {risk.recentSessions} sessions
             </p>
+            {risk.regions.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {risk.regions.map(region => (
+                  <Badge key={region} variant="outline">{BODY_REGION_LABELS[region]}</Badge>
+                ))}
+              </div>
+            )}
           </div>
           
           <p className="text-sm mb-3">{risk.recommendation}</p>
@@ -0,0 +1,408 @@
+import { useMemo, useState } from 'react';
+import { Wand2, Plus, Trash2, X, TrendingDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Exercise, Mesocycle, MuscleGroup, PhaseType } from '@/lib/db';
+import {
+  SPLIT_PRESETS,
+  PHASE_TARGETS,
+  WEEKDAY_LABELS,
+  generateMesocyclePlan,
+  type MesocyclePlan,
+  type SplitDay,
+} from '@/lib/mesocycleGenerator';
+import { useVolumeLandmarks } from '@/hooks/useDatabase';
+import { format } from 'date-fns';
+
+const phaseTypes: PhaseType[] = ['Hypertrophy', 'Metabolite', 'Resensitization', 'Deload'];
+const steps = ['Split', 'Exercises', 'Volume', 'Review'];
+
+interface MesocycleWizardProps {
+  mesocycle: Mesocycle;
+  exercises: Exercise[];
+  onGenerate: (plan: MesocyclePlan, phaseType: PhaseType) => Promise<void>;
+}
+
+const presetDays = (presetId: string): SplitDay[] =>
+  (SPLIT_PRESETS.find(p => p.id === presetId)?.days || []).map(day => ({ ...day, exerciseIds: [] }));
+
+export function MesocycleWizard({ mesocycle, exercises, onGenerate }: MesocycleWizardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [step, setStep] = useState(0);
+
+  const [presetId, setPresetId] = useState(SPLIT_PRESETS[0].id);
+  const [phaseType, setPhaseType] = useState<PhaseType>(mesocycle.phase_type);
+  const [includeDeload, setIncludeDeload] = useState(true);
+  const [days, setDays] = useState<SplitDay[]>(() => presetDays(SPLIT_PRESETS[0].id));
+  const [startingSets, setStartingSets] = useState<Partial<Record<MuscleGroup, number>>>({});
+  const landmarks = useVolumeLandmarks();
+
+  const weeks = Math.ceil(
+    (mesocycle.end_date.getTime() - mesocycle.start_date.getTime()) / (7 * 24 * 60 * 60 * 1000)
+  );
+
+  const exerciseById = useMemo(() => new Map(exercises.map(ex => [ex.id!, ex])), [exercises]);
+
+  const trainedMuscles = useMemo(() => {
+    const muscles = new Set<MuscleGroup>();
+    days.forEach(day => day.exerciseIds.forEach(id => {
+      const exercise = exerciseById.get(id);
+      if (exercise) muscles.add(exercise.muscle_group);
+    }));
+    return Array.from(muscles);
+  }, [days, exerciseById]);
+
+  // Unedited muscles start at their MEV
+  const resolvedStartingSets = useMemo(() => {
+    const sets: Partial<Record<MuscleGroup, number>> = {};
+    trainedMuscles.forEach(muscle => {
+      sets[muscle] = startingSets[muscle] ?? landmarks[muscle].mev;
+    });
+    return sets;
+  }, [trainedMuscles, startingSets, landmarks]);
+
+  const plan = useMemo(() => generateMesocyclePlan({
+    mesocycleId: mesocycle.id!,
+    startDate: mesocycle.start_date,
+    weeks,
+    phaseType,
+    days,
+    exercises,
+    startingSets: resolvedStartingSets,
+    includeDeload,
+  }), [mesocycle, weeks, phaseType, days, exercises, resolvedStartingSets, includeDeload]);
+
+  const reset = () => {
+    setStep(0);
+    setPresetId(SPLIT_PRESETS[0].id);
+    setPhaseType(mesocycle.phase_type);
+    setIncludeDeload(true);
+    setDays(presetDays(SPLIT_PRESETS[0].id));
+    setStartingSets({});
+  };
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    setDays(presetDays(id));
+  };
+
+  const updateDay = (index: number, changes: Partial<SplitDay>) => {
+    setDays(prev => prev.map((day, i) => (i === index ? { ...day, ...changes } : day)));
+  };
+
+  const addDay = () => {
+    setDays(prev => [...prev, { name: `Day ${prev.length + 1}`, weekday: 1, exerciseIds: [] }]);
+  };
+
+  const removeDay = (index: number) => {
+    setDays(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const canContinue =
+    step === 0 ? days.length > 0 && days.every(day => day.name.trim()) :
+    step === 1 ? days.every(day => day.exerciseIds.length > 0) :
+    true;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(plan, phaseType);
+      setIsOpen(false);
+      reset();
+    } catch (error) {
+      console.error('Failed to generate mesocycle:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const targets = PHASE_TARGETS[phaseType];
+  const firstWeek = plan.microcycles[0];
+  const deloadWeek = plan.microcycles.find(week => week.is_deload);
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Wand2 className="w-4 h-4 mr-2" />
+        Program Wizard
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wand2 className="w-5 h-5 text-primary" />
+              Program Wizard
+            </DialogTitle>
+            <DialogDescription>
+              Step {step + 1} of {steps.length}: {steps[step]}
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Step 1: split, phase and schedule */}
+          {step === 0 && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Weekly Split</Label>
+                  <Select value={presetId} onValueChange={handlePresetChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SPLIT_PRESETS.map(preset => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Phase Type</Label>
+                  <Select value={phaseType} onValueChange={(value) => setPhaseType(value as PhaseType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {phaseTypes.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Training Days</Label>
+                {days.map((day, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={day.name}
+                      onChange={(e) => updateDay(index, { name: e.target.value })}
+                      placeholder="e.g., Upper A"
+                    />
+                    <Select
+                      value={day.weekday.toString()}
+                      onValueChange={(value) => updateDay(index, { weekday: parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_LABELS.map((label, weekday) => (
+                          <SelectItem key={label} value={weekday.toString()}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => removeDay(index)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addDay}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Day
+                </Button>
+              </div>
+
+              <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                <div>
+                  <p className="text-sm font-medium">Finish with a deload week</p>
+                  <p className="text-xs text-muted-foreground">
+                    The last of the {weeks} weeks halves the volume
+                  </p>
+                </div>
+                <Switch checked={includeDeload} onCheckedChange={setIncludeDeload} />
+              </div>
+            </div>
+          )}
+
+          {/* Step 2: exercises per day */}
+          {step === 1 && (
+            <div className="space-y-4">
+              {days.map((day, index) => (
+                <Card key={index} className="p-4">
+                  <h4 className="font-semibold mb-2">
+                    {day.name} <span className="text-sm text-muted-foreground font-normal">· {WEEKDAY_LABELS[day.weekday]}</span>
+                  </h4>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {day.exerciseIds.map((exerciseId, exerciseIndex) => (
+                      <Badge key={`${exerciseId}-${exerciseIndex}`} variant="secondary" className="gap-1">
+                        {exerciseById.get(exerciseId)?.name}
+                        <button
+                          onClick={() => updateDay(index, {
+                            exerciseIds: day.exerciseIds.filter((_, i) => i !== exerciseIndex),
+                          })}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    {day.exerciseIds.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No exercises yet</p>
+                    )}
+                  </div>
+                  <Select
+                    value=""
+                    onValueChange={(value) => updateDay(index, {
+                      exerciseIds: [...day.exerciseIds, parseInt(value)],
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Add exercise" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {exercises.map(exercise => (
+                        <SelectItem key={exercise.id} value={exercise.id!.toString()}>
+                          {exercise.name} ({exercise.muscle_group})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Step 3: starting weekly volume per muscle */}
+          {step === 2 && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Weekly hard sets to start with, defaulting to each muscle's MEV. Sets are split evenly across every exercise that trains the muscle.
+              </p>
+              {trainedMuscles.map(muscle => (
+                <div key={muscle} className="flex items-center justify-between gap-4">
+                  <div className="flex-1">
+                    <Label>{muscle}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      MEV {landmarks[muscle].mev} · MRV {landmarks[muscle].mrv}
+                      {(resolvedStartingSets[muscle] ?? 0) > landmarks[muscle].mrv && (
+                        <span className="text-red-500"> · above MRV</span>
+                      )}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={resolvedStartingSets[muscle]}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      setStartingSets(prev => ({ ...prev, [muscle]: isNaN(value) ? 1 : Math.max(1, value) }));
+                    }}
+                  />
+                  <span className="text-sm text-muted-foreground w-16">sets/wk</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Step 4: review */}
+          {step === 3 && firstWeek && (
+            <div className="space-y-4">
+              <Card className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold">{plan.microcycles.length} weeks · {firstWeek.sessions.length} sessions/week</p>
+                    <p className="text-sm text-muted-foreground">
+                      {phaseType}: {targets.repsMin}-{targets.repsMax} reps @ {targets.rir} RIR
+                    </p>
+                  </div>
+                  <Badge variant="outline">
+                    {format(firstWeek.start_date, 'MMM d')} - {format(plan.microcycles[plan.microcycles.length - 1].end_date, 'MMM d, yyyy')}
+                  </Badge>
+                </div>
+              </Card>
+
+              <Card className="p-4">
+                <h4 className="font-semibold mb-3">Week 1</h4>
+                <div className="space-y-3">
+                  {firstWeek.sessions.map((session, index) => (
+                    <div key={index}>
+                      <p className="text-sm font-medium">
+                        {session.name} <span className="text-muted-foreground font-normal">· {format(session.scheduled_date, 'EEE, MMM d')}</span>
+                      </p>
+                      <ul className="text-sm text-muted-foreground ml-4 list-disc">
+                        {session.exercises.map((ex, i) => (
+                          <li key={i}>
+                            {exerciseById.get(ex.exercise_id)?.name}: {ex.target_sets} × {ex.target_reps_min}-{ex.target_reps_max}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              <Card className="p-4">
+                <h4 className="font-semibold mb-3">Weekly Volume</h4>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(plan.weeklySets).map(([muscle, sets]) => (
+                    <Badge key={muscle} variant="secondary">{muscle}: {sets} sets</Badge>
+                  ))}
+                </div>
+              </Card>
+
+              {deloadWeek && (
+                <Card className="p-4 bg-orange-500/10 border-orange-500/20">
+                  <div className="flex items-start gap-3">
+                    <TrendingDown className="w-5 h-5 text-orange-500 mt-0.5" />
+                    <div>
+                      <h4 className="font-semibold mb-1">Week {deloadWeek.week_number}: Deload</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {format(deloadWeek.start_date, 'MMM d')} - {format(deloadWeek.end_date, 'MMM d, yyyy')} · sets reduced by ~50%
+                      </p>
+                    </div>
+                  </div>
+                </Card>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step > 0 ? (
+              <Button variant="outline" onClick={() => setStep(step - 1)}>
+                Back
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+            )}
+            {step < steps.length - 1 ? (
+              <Button onClick={() => setStep(step + 1)} disabled={!canContinue}>
+                Next
+              </Button>
+            ) : (
+              <Button onClick={handleGenerate} disabled={isGenerating}>
+                {isGenerating ? 'Generating...' : 'Generate Program'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
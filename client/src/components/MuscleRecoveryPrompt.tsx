@@ -0,0 +1,45 @@
+import { HeartPulse } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { MuscleGroup, RecoveryRating } from '@/lib/db';
+import { RECOVERY_RATINGS, RECOVERY_RATING_LABELS } from '@/lib/recovery';
+import { muscleRecoveryOperations } from '@/hooks/useDatabase';
+import { toast } from 'sonner';
+
+interface MuscleRecoveryPromptProps {
+  muscle: MuscleGroup;
+  sessionId: number;
+  trainedSessionId: number;
+  rating?: RecoveryRating; // Answer already given at this session
+}
+
+export function MuscleRecoveryPrompt({ muscle, sessionId, trainedSessionId, rating }: MuscleRecoveryPromptProps) {
+  const handleRate = async (value: RecoveryRating) => {
+    try {
+      await muscleRecoveryOperations.record(sessionId, muscle, trainedSessionId, value);
+    } catch (error) {
+      toast.error('Failed to save recovery rating');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-rose-500/5 border border-rose-500/20 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <HeartPulse className="w-4 h-4 text-rose-500" />
+        <h4 className="font-semibold text-sm">Did your {muscle.toLowerCase()} recover in time since last session?</h4>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {RECOVERY_RATINGS.map(value => (
+          <Button
+            key={value}
+            size="sm"
+            variant={rating === value ? 'default' : 'outline'}
+            onClick={() => handleRate(value)}
+          >
+            {RECOVERY_RATING_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
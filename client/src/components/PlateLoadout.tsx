@@ -0,0 +1,54 @@
+import { Disc } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { EquipmentProfile, Exercise, WeightUnit } from '@/lib/db';
+import { getPlateBreakdown, isLoadable, roundToLoadable } from '@/lib/plates';
+import { formatWeight } from '@/lib/units';
+
+interface PlateLoadoutProps {
+  weight: string;
+  unit: WeightUnit;
+  exercise: Exercise;
+  profile: EquipmentProfile;
+  onUseWeight: (weight: number) => void;
+}
+
+export function PlateLoadout({ weight, unit, exercise, profile, onUseWeight }: PlateLoadoutProps) {
+  const value = parseFloat(weight);
+  if (!(value > 0)) return null;
+
+  const breakdown = getPlateBreakdown(value, unit, exercise.equipment, profile);
+  const loadable = isLoadable(value, unit, exercise.equipment, profile);
+  const closest = roundToLoadable(value, unit, exercise.equipment, profile);
+
+  if (!breakdown && loadable) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-muted/50 rounded-lg text-sm">
+      {breakdown && (
+        <div className="flex items-start gap-2">
+          <Disc className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <div>
+            <p className="font-medium">
+              {breakdown.bar !== undefined
+                ? `${breakdown.bar} ${breakdown.unit} bar + per side:`
+                : 'Added plates:'}
+            </p>
+            <p className="text-muted-foreground">
+              {breakdown.plates.length > 0 ? breakdown.plates.join(' · ') : 'No plates'}
+            </p>
+          </div>
+        </div>
+      )}
+      {!loadable && (
+        <div className={`flex items-center justify-between gap-2${breakdown ? ' mt-2' : ''}`}>
+          <span className="text-muted-foreground">
+            Can't load {formatWeight(value, unit)} exactly. Closest: {formatWeight(closest, unit, 2)}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => onUseWeight(closest)}>
+            Use
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
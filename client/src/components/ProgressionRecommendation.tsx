@@ -17,7 +17,7 @@ export function ProgressionRecommendation({
   onAccept,
   onDismiss,
 }: ProgressionRecommendationProps) {
-  const { shouldProgress, recommendedWeight, currentWeight, confidence, reason, increasePercent } = recommendation;
+  const { shouldProgress, recommendedWeight, currentWeight, confidence, reason, increasePercent, unit } = recommendation;
 
   const confidenceColor = {
     high: 'text-green-500 bg-green-500/10 border-green-500/20',
@@ -50,11 +50,11 @@ export function ProgressionRecommendation({
             <div className="space-y-2 mb-3">
               <div className="flex items-baseline gap-2 text-sm">
                 <span className="text-muted-foreground">Current weight:</span>
-                <span className="font-semibold">{currentWeight} kg</span>
+                <span className="font-semibold">{currentWeight} {unit}</span>
               </div>
               <div className="flex items-baseline gap-2 text-sm">
                 <span className="text-muted-foreground">Recommended:</span>
-                <span className="font-semibold text-lg">{recommendedWeight} kg</span>
+                <span className="font-semibold text-lg">{recommendedWeight} {unit}</span>
                 <Badge variant="secondary" className="text-xs">
                   +{increasePercent}%
                 </Badge>
@@ -70,7 +70,7 @@ export function ProgressionRecommendation({
                 className="flex-1"
               >
                 <CheckCircle className="w-4 h-4 mr-2" />
-                Apply {recommendedWeight} kg
+                Apply {recommendedWeight} {unit}
               </Button>
               {onDismiss && (
                 <Button
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Battery, ClipboardCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Exercise, MuscleGroup, SessionExercise, WorkoutSession } from '@/lib/db';
+import {
+  READINESS_LEVEL_LABELS,
+  describeReadinessAdjustments,
+  getReadinessLevel,
+} from '@/lib/readiness';
+import { workoutSessionOperations } from '@/hooks/useDatabase';
+import { toast } from 'sonner';
+
+interface ReadinessCheckInProps {
+  session: WorkoutSession;
+  sessionExercises: SessionExercise[];
+  exercises: Exercise[];
+  canCheckIn: boolean; // Only before the first set is logged
+}
+
+const scaleQuestions = [
+  { key: 'sleep', label: 'Sleep quality', low: 'Poor', high: 'Great' },
+  { key: 'energy', label: 'Energy', low: 'Drained', high: 'Energized' },
+  { key: 'stress', label: 'Stress', low: 'Calm', high: 'Very stressed' },
+] as const;
+
+type ScaleKey = typeof scaleQuestions[number]['key'];
+
+const levelColor = {
+  high: 'text-green-500 border-green-500/40',
+  moderate: 'text-yellow-500 border-yellow-500/40',
+  low: 'text-orange-500 border-orange-500/40',
+  very_low: 'text-red-500 border-red-500/40',
+};
+
+export function ReadinessCheckIn({ session, sessionExercises, exercises, canCheckIn }: ReadinessCheckInProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [scales, setScales] = useState<Record<ScaleKey, string>>({ sleep: '3', energy: '3', stress: '3' });
+  const [soreness, setSoreness] = useState<Partial<Record<MuscleGroup, string>>>({});
+
+  // Muscles trained today, in session order
+  const muscles = Array.from(new Set(
+    sessionExercises
+      .map(se => exercises.find(ex => ex.id === se.exercise_id)?.muscle_group)
+      .filter((m): m is MuscleGroup => m !== undefined)
+  ));
+
+  const handleSubmit = async () => {
+    if (!session.id) return;
+
+    try {
+      const readiness = await workoutSessionOperations.checkIn(session.id, {
+        sleep: parseInt(scales.sleep),
+        energy: parseInt(scales.energy),
+        stress: parseInt(scales.stress),
+        soreness: Object.fromEntries(muscles.map(muscle => [muscle, parseInt(soreness[muscle] ?? '1')])),
+      });
+      setIsOpen(false);
+      if (readiness) {
+        toast.success(`Readiness ${readiness.score}: ${READINESS_LEVEL_LABELS[getReadinessLevel(readiness.score)]}`, {
+          description: describeReadinessAdjustments(readiness.adjustments),
+        });
+      }
+    } catch (error) {
+      toast.error('Failed to save readiness check-in');
+      console.error(error);
+    }
+  };
+
+  const readiness = session.readiness;
+  if (!readiness && (!canCheckIn || isDismissed)) return null;
+
+  return (
+    <>
+      {readiness ? (
+        <div className="flex items-center justify-between gap-3 mb-6 p-3 bg-card border rounded-lg">
+          <div className="flex items-center gap-3">
+            <Battery className="w-5 h-5 text-muted-foreground" />
+            <Badge variant="outline" className={levelColor[getReadinessLevel(readiness.score)]}>
+              Readiness {readiness.score}
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              {READINESS_LEVEL_LABELS[getReadinessLevel(readiness.score)]} · {describeReadinessAdjustments(readiness.adjustments)}
+            </span>
+          </div>
+          {canCheckIn && (
+            <Button size="sm" variant="ghost" onClick={() => setIsOpen(true)}>
+              Redo
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Card className="p-4 mb-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <ClipboardCheck className="w-5 h-5 text-primary" />
+              <div>
+                <p className="font-semibold">How ready are you today?</p>
+                <p className="text-sm text-muted-foreground">
+                  A quick check-in scales today's sets and RIR to your recovery.
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setIsDismissed(true)}>
+                Skip
+              </Button>
+              <Button size="sm" onClick={() => setIsOpen(true)}>
+                Check In
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Readiness Check-in</DialogTitle>
+            <DialogDescription>
+              Rate how you feel before training. Targets are adjusted before your first set.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {scaleQuestions.map(question => (
+              <div key={question.key} className="space-y-2">
+                <Label>{question.label}</Label>
+                <Select
+                  value={scales[question.key]}
+                  onValueChange={(v) => setScales(prev => ({ ...prev, [question.key]: v }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map(value => (
+                      <SelectItem key={value} value={value.toString()}>
+                        {value}{value === 1 ? ` - ${question.low}` : value === 5 ? ` - ${question.high}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            {muscles.length > 0 && (
+              <div className="space-y-2">
+                <Label>Soreness (1-5)</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {muscles.map(muscle => (
+                    <div key={muscle} className="flex items-center justify-between gap-2">
+                      <span className="text-sm">{muscle}</span>
+                      <Select
+                        value={soreness[muscle] ?? '1'}
+                        onValueChange={(v) => setSoreness(prev => ({ ...prev, [muscle]: v }))}
+                      >
+                        <SelectTrigger className="w-20 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 2, 3, 4, 5].map(value => (
+                            <SelectItem key={value} value={value.toString()}>{value}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>Save Check-in</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
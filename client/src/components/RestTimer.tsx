@@ -7,13 +7,27 @@ import { toast } from 'sonner';
 
 interface RestTimerProps {
   defaultDuration?: number; // in seconds
+  startSignal?: number; // Restarts the countdown whenever this value changes
+  resumeEndsAt?: Date; // Continue a countdown that was running before a reload
   onComplete?: () => void;
+  onStateChange?: (state: { endsAt: Date | null; duration: number }) => void;
 }
 
-export function RestTimer({ defaultDuration = 120, onComplete }: RestTimerProps) {
+const secondsUntil = (endsAt: Date) => Math.max(0, Math.ceil((endsAt.getTime() - Date.now()) / 1000));
+
+export function RestTimer({
+  defaultDuration = 120,
+  startSignal,
+  resumeEndsAt,
+  onComplete,
+  onStateChange,
+}: RestTimerProps) {
+  const resumable = resumeEndsAt && resumeEndsAt.getTime() > Date.now() ? resumeEndsAt : null;
   const [duration, setDuration] = useState(defaultDuration);
-  const [timeRemaining, setTimeRemaining] = useState(duration);
-  const [isRunning, setIsRunning] = useState(false);
+  const [timeRemaining, setTimeRemaining] = useState(resumable ? secondsUntil(resumable) : duration);
+  // Counting down against an end time keeps the timer right after reloads and backgrounding
+  const [endsAt, setEndsAt] = useState<Date | null>(resumable);
+  const isRunning = endsAt !== null;
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
 
   // Request notification permission
@@ -62,43 +76,48 @@ export function RestTimer({ defaultDuration = 120, onComplete }: RestTimerProps)
     }
   }, [notificationsEnabled]);
 
+  // Start a fresh rest period when the parent signals (e.g. after a superset round)
+  useEffect(() => {
+    if (!startSignal) return;
+    setTimeRemaining(duration);
+    setEndsAt(new Date(Date.now() + duration * 1000));
+  }, [startSignal]);
+
+  useEffect(() => {
+    onStateChange?.({ endsAt, duration });
+  }, [endsAt, duration]);
+
   // Timer logic
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-
-    if (isRunning && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining((prev) => {
-          if (prev <= 1) {
-            setIsRunning(false);
-            sendNotification();
-            onComplete?.();
-            toast.success('Rest period complete!');
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
+    if (!endsAt) return;
 
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isRunning, timeRemaining, sendNotification, onComplete]);
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(endsAt);
+      setTimeRemaining(remaining);
+      if (remaining === 0) {
+        setEndsAt(null);
+        sendNotification();
+        onComplete?.();
+        toast.success('Rest period complete!');
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [endsAt, sendNotification, onComplete]);
 
   const startTimer = () => {
-    if (timeRemaining === 0) {
-      setTimeRemaining(duration);
-    }
-    setIsRunning(true);
+    const seconds = timeRemaining === 0 ? duration : timeRemaining;
+    setTimeRemaining(seconds);
+    setEndsAt(new Date(Date.now() + seconds * 1000));
   };
 
   const pauseTimer = () => {
-    setIsRunning(false);
+    if (endsAt) setTimeRemaining(secondsUntil(endsAt));
+    setEndsAt(null);
   };
 
   const resetTimer = () => {
-    setIsRunning(false);
+    setEndsAt(null);
     setTimeRemaining(duration);
   };
 
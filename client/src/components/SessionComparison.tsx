@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { X, TrendingUp, TrendingDown, Minus, Dumbbell, Clock } from 'lucide-react';
 import type { WorkoutSession, Log, Exercise } from '@/lib/db';
 import { format } from 'date-fns';
+import { useWeightUnit } from '@/hooks/useDatabase';
+import { getLogE1RM, getLogVolume } from '@/lib/units';
 
 interface SessionComparisonProps {
   session1: WorkoutSession;
@@ -23,19 +25,21 @@ export function SessionComparison({
   exercises,
   onClose,
 }: SessionComparisonProps) {
+  const weightUnit = useWeightUnit();
+
   const comparison = useMemo(() => {
     // Calculate session-level stats
     const stats1 = {
-      totalVolume: logs1.reduce((sum, log) => sum + log.weight * log.reps, 0),
+      totalVolume: logs1.reduce((sum, log) => sum + getLogVolume(log, weightUnit), 0),
       totalSets: logs1.length,
-      avgE1RM: logs1.reduce((sum, log) => sum + (log.e1rm || 0), 0) / logs1.length || 0,
+      avgE1RM: logs1.reduce((sum, log) => sum + (getLogE1RM(log, weightUnit) || 0), 0) / logs1.length || 0,
       uniqueExercises: new Set(logs1.map(log => log.exercise_id)).size,
     };
 
     const stats2 = {
-      totalVolume: logs2.reduce((sum, log) => sum + log.weight * log.reps, 0),
+      totalVolume: logs2.reduce((sum, log) => sum + getLogVolume(log, weightUnit), 0),
       totalSets: logs2.length,
-      avgE1RM: logs2.reduce((sum, log) => sum + (log.e1rm || 0), 0) / logs2.length || 0,
+      avgE1RM: logs2.reduce((sum, log) => sum + (getLogE1RM(log, weightUnit) || 0), 0) / logs2.length || 0,
       uniqueExercises: new Set(logs2.map(log => log.exercise_id)).size,
     };
 
@@ -77,7 +81,7 @@ export function SessionComparison({
       e1rmDeltaPercent,
       exerciseComparisons,
     };
-  }, [session1, session2, logs1, logs2, exercises]);
+  }, [session1, session2, logs1, logs2, exercises, weightUnit]);
 
   const DeltaIndicator = ({ value, percent }: { value: number; percent: number }) => {
     if (Math.abs(value) < 0.01) {
@@ -144,7 +148,7 @@ export function SessionComparison({
               <Card className="p-4">
                 <div className="flex items-center gap-2 mb-2">
                   <Dumbbell className="w-5 h-5 text-primary" />
-                  <span className="font-medium">Total Volume</span>
+                  <span className="font-medium">Total Volume ({weightUnit})</span>
                 </div>
                 <div className="grid grid-cols-2 gap-4 mb-2">
                   <div>
@@ -166,7 +170,7 @@ export function SessionComparison({
               <Card className="p-4">
                 <div className="flex items-center gap-2 mb-2">
                   <TrendingUp className="w-5 h-5 text-primary" />
-                  <span className="font-medium">Average e1RM</span>
+                  <span className="font-medium">Average e1RM ({weightUnit})</span>
                 </div>
                 <div className="grid grid-cols-2 gap-4 mb-2">
                   <div>
@@ -227,10 +231,10 @@ export function SessionComparison({
             <h3 className="text-lg font-semibold mb-4">Exercise Breakdown</h3>
             <div className="space-y-3">
               {Object.values(comparison.exerciseComparisons).map(({ exercise, logs1, logs2 }) => {
-                const volume1 = logs1.reduce((sum, log) => sum + log.weight * log.reps, 0);
-                const volume2 = logs2.reduce((sum, log) => sum + log.weight * log.reps, 0);
-                const avgE1RM1 = logs1.reduce((sum, log) => sum + (log.e1rm || 0), 0) / logs1.length || 0;
-                const avgE1RM2 = logs2.reduce((sum, log) => sum + (log.e1rm || 0), 0) / logs2.length || 0;
+                const volume1 = logs1.reduce((sum, log) => sum + getLogVolume(log, weightUnit), 0);
+                const volume2 = logs2.reduce((sum, log) => sum + getLogVolume(log, weightUnit), 0);
+                const avgE1RM1 = logs1.reduce((sum, log) => sum + (getLogE1RM(log, weightUnit) || 0), 0) / logs1.length || 0;
+                const avgE1RM2 = logs2.reduce((sum, log) => sum + (getLogE1RM(log, weightUnit) || 0), 0) / logs2.length || 0;
 
                 const volumeDelta = volume2 - volume1;
                 const e1rmDelta = avgE1RM2 - avgE1RM1;
@@ -247,19 +251,19 @@ export function SessionComparison({
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                       <div>
                         <p className="text-muted-foreground mb-1">Session 1 Volume</p>
-                        <p className="font-semibold">{volume1.toFixed(0)} kg</p>
+                        <p className="font-semibold">{volume1.toFixed(0)} {weightUnit}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground mb-1">Session 2 Volume</p>
-                        <p className="font-semibold">{volume2.toFixed(0)} kg</p>
+                        <p className="font-semibold">{volume2.toFixed(0)} {weightUnit}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground mb-1">Session 1 e1RM</p>
-                        <p className="font-semibold">{avgE1RM1.toFixed(1)} kg</p>
+                        <p className="font-semibold">{avgE1RM1.toFixed(1)} {weightUnit}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground mb-1">Session 2 e1RM</p>
-                        <p className="font-semibold">{avgE1RM2.toFixed(1)} kg</p>
+                        <p className="font-semibold">{avgE1RM2.toFixed(1)} {weightUnit}</p>
                       </div>
                     </div>
 
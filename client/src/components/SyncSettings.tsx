@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { CloudUpload, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { syncOperations, useSyncMeta } from '@/hooks/useDatabase';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+interface SyncSettingsProps {
+  signedIn: boolean;
+}
+
+export function SyncSettings({ signedIn }: SyncSettingsProps) {
+  const meta = useSyncMeta();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const enabled = (meta?.enabled ?? false) && signedIn;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncOperations.sync();
+      toast.success('Synced', {
+        description: `${result.pushed} sent · ${result.pulled} received${result.conflicts > 0 ? ` · ${result.conflicts} overruled by newer changes` : ''}`,
+      });
+    } catch (error) {
+      toast.error('Sync failed', { description: error instanceof Error ? error.message : undefined });
+      console.error(error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleToggle = async (checked: boolean) => {
+    try {
+      await syncOperations.setEnabled(checked);
+      if (checked) await handleSync();
+    } catch (error) {
+      toast.error('Failed to update sync');
+      console.error(error);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Forget what has been synced? The next sync sends all your data again and merges in everything on the server.')) return;
+    try {
+      await syncOperations.reset();
+      toast.success('Sync state cleared');
+    } catch (error) {
+      toast.error('Failed to clear sync state');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-teal-500/10 rounded-lg">
+          <CloudUpload className="w-6 h-6 text-teal-500" />
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h3 className="font-semibold">Sync Across Devices</h3>
+            <Switch checked={enabled} onCheckedChange={handleToggle} disabled={isSyncing || !signedIn} />
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Keeps your data on this app's server so every device you train on has the same log. Works offline; changes are sent when you're back online.
+            {!signedIn && ' Sign in to turn it on.'}
+          </p>
+          {enabled && (
+            <>
+              <div className="text-xs text-muted-foreground space-y-1 mb-4">
+                <p>
+                  {meta?.last_synced_at
+                    ? `Last synced ${formatDistanceToNow(meta.last_synced_at, { addSuffix: true })}`
+                    : 'Not synced yet'}
+                  {meta && meta.conflicts > 0 && ` · ${meta.conflicts} change${meta.conflicts === 1 ? '' : 's'} overruled by another device`}
+                </p>
+                {meta?.last_error && <p className="text-red-500">Last sync failed: {meta.last_error}</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleSync} disabled={isSyncing}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                  {isSyncing ? 'Syncing...' : 'Sync Now'}
+                </Button>
+                <Button variant="ghost" onClick={handleReset} disabled={isSyncing}>
+                  Resync Everything
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
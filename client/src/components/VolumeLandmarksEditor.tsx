@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Target, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { MuscleGroup } from '@/lib/db';
+import {
+  MUSCLE_GROUPS,
+  DEFAULT_VOLUME_LANDMARKS,
+  validateLandmarks,
+  type LandmarkValues,
+} from '@/lib/volumeLandmarks';
+import { useVolumeLandmarks, volumeLandmarkOperations } from '@/hooks/useDatabase';
+import { toast } from 'sonner';
+
+const landmarkKeys: Array<keyof LandmarkValues> = ['mv', 'mev', 'mav', 'mrv'];
+
+export function VolumeLandmarksEditor() {
+  const landmarks = useVolumeLandmarks();
+  const [edits, setEdits] = useState<Partial<Record<MuscleGroup, Partial<Record<keyof LandmarkValues, string>>>>>({});
+
+  const setEdit = (muscle: MuscleGroup, key: keyof LandmarkValues, value: string) => {
+    setEdits(prev => ({ ...prev, [muscle]: { ...prev[muscle], [key]: value } }));
+  };
+
+  const handleSave = async () => {
+    const changed = Object.keys(edits) as MuscleGroup[];
+    const updates: Array<[MuscleGroup, LandmarkValues]> = [];
+
+    for (const muscle of changed) {
+      const values = { ...landmarks[muscle] };
+      for (const key of landmarkKeys) {
+        const edited = edits[muscle]?.[key];
+        if (edited !== undefined) values[key] = parseInt(edited);
+      }
+
+      const error = validateLandmarks(values);
+      if (error) {
+        toast.error(`${muscle}: ${error}`);
+        return;
+      }
+      updates.push([muscle, values]);
+    }
+
+    try {
+      for (const [muscle, values] of updates) {
+        await volumeLandmarkOperations.upsert(muscle, values);
+      }
+      setEdits({});
+      toast.success('Volume landmarks saved');
+    } catch (error) {
+      toast.error('Failed to save volume landmarks');
+      console.error(error);
+    }
+  };
+
+  const handleReset = async (muscle: MuscleGroup) => {
+    try {
+      await volumeLandmarkOperations.reset(muscle);
+      setEdits(({ [muscle]: _, ...rest }) => rest);
+      toast.success(`${muscle} landmarks reset to defaults`);
+    } catch (error) {
+      toast.error('Failed to reset landmarks');
+      console.error(error);
+    }
+  };
+
+  const isDefault = (muscle: MuscleGroup) =>
+    landmarkKeys.every(key => landmarks[muscle][key] === DEFAULT_VOLUME_LANDMARKS[muscle][key]);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-green-500/10 rounded-lg">
+          <Target className="w-6 h-6 text-green-500" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold mb-2">Volume Landmarks</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Weekly hard sets per muscle: maintenance (MV), minimum effective (MEV), maximum adaptive (MAV) and maximum recoverable (MRV). Set recommendations never go past MRV.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Muscle</TableHead>
+                {landmarkKeys.map(key => (
+                  <TableHead key={key}>{key.toUpperCase()}</TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MUSCLE_GROUPS.map(muscle => (
+                <TableRow key={muscle}>
+                  <TableCell className="font-medium">{muscle}</TableCell>
+                  {landmarkKeys.map(key => (
+                    <TableCell key={key}>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-16 h-8"
+                        value={edits[muscle]?.[key] ?? landmarks[muscle][key].toString()}
+                        onChange={(e) => setEdit(muscle, key, e.target.value)}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    {!isDefault(muscle) && (
+                      <Button variant="ghost" size="icon" onClick={() => handleReset(muscle)}>
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button className="mt-4" onClick={handleSave} disabled={Object.keys(edits).length === 0}>
+            Save Landmarks
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
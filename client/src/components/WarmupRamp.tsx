@@ -0,0 +1,55 @@
+import { Flame, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { WeightUnit } from '@/lib/db';
+import type { WarmupSet } from '@/lib/warmups';
+import { formatWeight } from '@/lib/units';
+
+interface WarmupRampProps {
+  warmups: WarmupSet[];
+  workingWeight: number;
+  loggedCount: number; // Warm-up sets already logged for this exercise
+  unit: WeightUnit;
+  onLog: (sets: WarmupSet[]) => void;
+}
+
+export function WarmupRamp({ warmups, workingWeight, loggedCount, unit, onLog }: WarmupRampProps) {
+  const remaining = warmups.slice(loggedCount);
+  if (warmups.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-4 bg-orange-500/5 border border-orange-500/20 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Flame className="w-4 h-4 text-orange-500" />
+          <h4 className="font-semibold text-sm">Warm-up Ramp</h4>
+          <span className="text-xs text-muted-foreground">to {formatWeight(workingWeight, unit, 2)}</span>
+        </div>
+        {remaining.length > 1 && (
+          <Button size="sm" variant="outline" onClick={() => onLog(remaining)}>
+            Log All
+          </Button>
+        )}
+      </div>
+      <div className="space-y-1">
+        {warmups.map((warmup, index) => {
+          const isDone = index < loggedCount;
+          const isNext = index === loggedCount;
+          return (
+            <div key={index} className="flex items-center justify-between text-sm">
+              <span className={isDone ? 'text-muted-foreground line-through' : ''}>
+                {warmup.percent === 0 ? 'Light' : `${warmup.percent}%`} · {formatWeight(warmup.weight, unit, 2)} × {warmup.reps}
+              </span>
+              {isDone ? (
+                <Check className="w-4 h-4 text-green-500" />
+              ) : isNext ? (
+                <Button size="sm" variant="ghost" className="h-7" onClick={() => onLog([warmup])}>
+                  Log
+                </Button>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Exercise, Mesocycle, Microcycle } from '@/lib/db';
+import { planWeekProgression, isSetAdditionWeek } from '@/lib/weeklyProgression';
+import { useEarlierWeekPlans, useMicrocycleWeekData, useVolumeLandmarks, microcycleOperations } from '@/hooks/useDatabase';
+import { toast } from 'sonner';
+
+interface WeekProgressionDialogProps {
+  mesocycle: Mesocycle;
+  microcycle: Microcycle; // The week whose targets are being set
+  previousMicrocycle: Microcycle;
+  accumulationWeeks: number;
+  exercises: Exercise[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WeekProgressionDialog({
+  mesocycle,
+  microcycle,
+  previousMicrocycle,
+  accumulationWeeks,
+  exercises,
+  open,
+  onOpenChange,
+}: WeekProgressionDialogProps) {
+  const completedWeek = useMicrocycleWeekData(previousMicrocycle.id);
+  const nextWeek = useMicrocycleWeekData(microcycle.id);
+  const earlierWeeks = useEarlierWeekPlans(mesocycle.id, previousMicrocycle.week_number);
+  const landmarks = useVolumeLandmarks();
+  const [edits, setEdits] = useState<Record<number, { sets?: string; rir?: string }>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updates = useMemo(() => {
+    if (!completedWeek || !nextWeek || !earlierWeeks) return [];
+    return planWeekProgression({
+      completedWeek,
+      nextWeek,
+      earlierWeeks,
+      nextWeekNumber: microcycle.week_number,
+      accumulationWeeks,
+      phaseType: mesocycle.phase_type,
+      setAdditionFrequency: mesocycle.set_addition_frequency,
+      isDeload: !!microcycle.is_deload,
+      volume: {
+        muscleByExercise: new Map(exercises.map(ex => [ex.id!, ex.muscle_group])),
+        landmarks,
+      },
+    });
+  }, [completedWeek, nextWeek, earlierWeeks, microcycle, accumulationWeeks, mesocycle, exercises, landmarks]);
+
+  const exerciseName = (id: number) => exercises.find(e => e.id === id)?.name ?? 'Unknown exercise';
+
+  const setEdit = (sessionExerciseId: number, field: 'sets' | 'rir', value: string) => {
+    setEdits(prev => ({ ...prev, [sessionExerciseId]: { ...prev[sessionExerciseId], [field]: value } }));
+  };
+
+  const handleAccept = async () => {
+    const resolved = updates.map(update => {
+      const edit = edits[update.sessionExerciseId] || {};
+      const sets = parseInt(edit.sets ?? update.recommendedSets.toString());
+      const rir = parseInt(edit.rir ?? update.recommendedRIR.toString());
+      return {
+        sessionExerciseId: update.sessionExerciseId,
+        target_sets: isNaN(sets) ? update.recommendedSets : Math.max(1, sets),
+        target_rir: isNaN(rir) ? update.recommendedRIR : Math.max(0, rir),
+      };
+    });
+
+    setIsSaving(true);
+    try {
+      await microcycleOperations.applyProgression(microcycle.id!, resolved);
+      toast.success(`Week ${microcycle.week_number} targets updated`);
+      setEdits({});
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to update targets');
+      console.error(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sessionNames = Array.from(new Set(updates.map(u => u.sessionName)));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      onOpenChange(isOpen);
+      if (!isOpen) setEdits({});
+    }}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            Week {microcycle.week_number} Targets
+          </DialogTitle>
+          <DialogDescription>
+            Based on week {previousMicrocycle.week_number}.{' '}
+            {microcycle.is_deload
+              ? 'This is a deload week.'
+              : isSetAdditionWeek(microcycle.week_number, mesocycle.set_addition_frequency)
+                ? 'Sets can be added this week.'
+                : `Sets are added every ${mesocycle.set_addition_frequency} weeks.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {sessionNames.map(sessionName => (
+            <div key={sessionName}>
+              <h4 className="font-semibold mb-2">{sessionName}</h4>
+              <div className="space-y-2">
+                {updates.filter(u => u.sessionName === sessionName).map(update => {
+                  const edit = edits[update.sessionExerciseId] || {};
+                  const setChange = update.recommendedSets - update.currentSets;
+
+                  return (
+                    <div key={update.sessionExerciseId} className="p-3 bg-background border rounded-lg">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="flex-1">
+                          <p className="font-medium text-sm">{exerciseName(update.exerciseId)}</p>
+                          <p className="text-xs text-muted-foreground">{update.reason}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {setChange !== 0 && (
+                            <Badge variant={setChange > 0 ? 'default' : 'destructive'}>
+                              {setChange > 0 ? '+' : ''}{setChange}
+                            </Badge>
+                          )}
+                          <Input
+                            type="number"
+                            min="1"
+                            className="w-16 h-8"
+                            value={edit.sets ?? update.recommendedSets.toString()}
+                            onChange={(e) => setEdit(update.sessionExerciseId, 'sets', e.target.value)}
+                          />
+                          <span className="text-xs text-muted-foreground">sets @</span>
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-16 h-8"
+                            value={edit.rir ?? update.recommendedRIR.toString()}
+                            onChange={(e) => setEdit(update.sessionExerciseId, 'rir', e.target.value)}
+                          />
+                          <span className="text-xs text-muted-foreground">RIR</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {updates.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No exercises scheduled for this week
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Not Now
+          </Button>
+          <Button onClick={handleAccept} disabled={isSaving || updates.length === 0}>
+            {isSaving ? 'Saving...' : 'Accept Targets'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
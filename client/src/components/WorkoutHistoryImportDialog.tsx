@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { MuscleGroup, WeightUnit } from '@/lib/db';
+import { useExercises, workoutHistoryImportOperations } from '@/hooks/useDatabase';
+import {
+  CSV_SOURCE_LABELS,
+  getImportedExerciseNames,
+  type ExerciseChoice,
+  type ImportedExerciseName,
+  type ParsedWorkoutCSV,
+} from '@/lib/csvImport';
+import { MUSCLE_GROUPS } from '@/lib/volumeLandmarks';
+import { WEIGHT_UNIT_LABELS } from '@/lib/units';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface WorkoutHistoryImportDialogProps {
+  fileName: string;
+  result: ParsedWorkoutCSV;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const defaultChoice = (name: ImportedExerciseName): ExerciseChoice => {
+  if (name.match.exerciseId !== undefined) return { type: 'existing', exerciseId: name.match.exerciseId };
+  if (name.muscleGroup) return { type: 'new', muscleGroup: name.muscleGroup };
+  return { type: 'skip' };
+};
+
+export function WorkoutHistoryImportDialog({ fileName, result, open, onOpenChange }: WorkoutHistoryImportDialogProps) {
+  const exercises = useExercises();
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(result.weightUnit);
+  // Choices made in the review; other names keep their best match
+  const [overrides, setOverrides] = useState<Record<string, ExerciseChoice>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  const names = useMemo(
+    () => exercises ? getImportedExerciseNames(result.workouts, exercises) : [],
+    [exercises, result]
+  );
+
+  const choices = useMemo(
+    () => Object.fromEntries(names.map(name => [name.name, overrides[name.name] ?? defaultChoice(name)])),
+    [names, overrides]
+  );
+
+  const sortedExercises = useMemo(
+    () => [...(exercises || [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [exercises]
+  );
+
+  const setChoice = (name: string, value: string) => {
+    const current = choices[name];
+    const choice: ExerciseChoice = value === 'skip'
+      ? { type: 'skip' }
+      : value === 'new'
+        ? { type: 'new', muscleGroup: current?.type === 'new' ? current.muscleGroup : names.find(n => n.name === name)?.muscleGroup ?? 'Chest' }
+        : { type: 'existing', exerciseId: parseInt(value) };
+    setOverrides(prev => ({ ...prev, [name]: choice }));
+  };
+
+  const choiceValue = (choice: ExerciseChoice | undefined) =>
+    !choice || choice.type === 'skip' ? 'skip' : choice.type === 'new' ? 'new' : choice.exerciseId.toString();
+
+  const workouts = result.workouts;
+  const importedSets = names
+    .filter(name => choices[name.name] && choices[name.name].type !== 'skip')
+    .reduce((sum, name) => sum + name.setCount, 0);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const imported = await workoutHistoryImportOperations.importWorkouts(workouts, result.source, weightUnit, choices);
+      toast.success(`Imported ${imported.sessions} workout${imported.sessions === 1 ? '' : 's'}`, {
+        description: `${imported.sets} sets${imported.duplicates > 0 ? ` · ${imported.duplicates} already imported` : ''}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error('Failed to import workout history');
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import {CSV_SOURCE_LABELS[result.source]} History</DialogTitle>
+          <DialogDescription>
+            {fileName} · {workouts.length} workout{workouts.length === 1 ? '' : 's'}
+            {workouts.length > 0 && ` from ${format(workouts[0].startedAt, 'MMM d, yyyy')} to ${format(workouts[workouts.length - 1].startedAt, 'MMM d, yyyy')}`}
+            {result.skippedRows.length > 0 && ` · ${result.skippedRows.length} rows skipped`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-medium">Weights in</span>
+          <Select value={weightUnit} onValueChange={(value) => setWeightUnit(value as WeightUnit)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WEIGHT_UNIT_LABELS) as WeightUnit[]).map(unit => (
+                <SelectItem key={unit} value={unit}>{WEIGHT_UNIT_LABELS[unit]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          <p className="text-sm font-medium">Exercises</p>
+          {names.map(name => {
+            const choice = choices[name.name];
+            return (
+              <div key={name.name} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{name.name}</p>
+                    <p className="text-xs text-muted-foreground">{name.setCount} sets</p>
+                  </div>
+                  {name.match.exact ? (
+                    <Badge variant="outline" className="text-green-500">Matched</Badge>
+                  ) : name.match.exerciseId !== undefined ? (
+                    <Badge variant="outline" className="text-yellow-500">Suggested</Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-red-500">No match</Badge>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Select value={choiceValue(choice)} onValueChange={(value) => setChoice(name.name, value)}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Don't import</SelectItem>
+                      <SelectItem value="new">New exercise</SelectItem>
+                      {sortedExercises.map(exercise => (
+                        <SelectItem key={exercise.id} value={exercise.id!.toString()}>
+                          {exercise.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {choice?.type === 'new' && (
+                    <Select
+                      value={choice.muscleGroup}
+                      onValueChange={(value) => setOverrides(prev => ({ ...prev, [name.name]: { type: 'new', muscleGroup: value as MuscleGroup } }))}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MUSCLE_GROUPS.map(group => (
+                          <SelectItem key={group} value={group}>{group}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importedSets === 0 || isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importing...' : `Import ${importedSets} Sets`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AccountUser } from '@shared/auth';
+import { getCurrentUser } from '@/lib/account';
+
+export type AccountStatus = 'loading' | 'signed-in' | 'signed-out' | 'unreachable';
+
+/**
+ * The account signed in to the sync server. `unreachable` while offline
+ * or when the app isn't served by a HypertrophyOS server.
+ */
+export function useAccount() {
+  const [user, setUser] = useState<AccountUser | null>(null);
+  const [status, setStatus] = useState<AccountStatus>('loading');
+
+  const refresh = useCallback(async () => {
+    try {
+      const current = await getCurrentUser();
+      setUser(current);
+      setStatus(current ? 'signed-in' : 'signed-out');
+    } catch (error) {
+      setStatus('unreachable');
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signedIn = useCallback((account: AccountUser | null) => {
+    setUser(account);
+    setStatus(account ? 'signed-in' : 'signed-out');
+  }, []);
+
+  return { user, status, refresh, signedIn };
+}
+
+export type AccountState = ReturnType<typeof useAccount>;
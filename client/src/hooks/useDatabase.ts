@@ -1,5 +1,21 @@
+import { useEffect, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, type Exercise, type Mesocycle, type Microcycle, type WorkoutSession, type SessionExercise, type Log, type WorkoutTemplate, type PhaseType, type MuscleGroup, calculateE1RM } from '@/lib/db';
+import { db, type Exercise, type Mesocycle, type Microcycle, type WorkoutSession, type SessionExercise, type Log, type WorkoutTemplate, type UserSettings, type ActiveSession, type PersonalRecord, type WeightUnit, type PhaseType, type MuscleGroup, type E1RMFormula, type EquipmentProfile, type ReadinessCheckIn, type MuscleRecovery, type RecoveryRating, type BodyRegion, type PainReport, type SyncMeta, DEFAULT_SETTINGS, SCHEMA_VERSION, seedExercises } from '@/lib/db';
+import { calculateE1RM, DEFAULT_E1RM_FORMULA } from '@/lib/e1rm';
+import type { MesocyclePlan } from '@/lib/mesocycleGenerator';
+import type { WeekData, WeekPlan } from '@/lib/weeklyProgression';
+import { resolveLandmarks, type LandmarkValues } from '@/lib/volumeLandmarks';
+import { isClusterSet, planSetRemoval } from '@/lib/setTypes';
+import { isSessionPaused } from '@/lib/sessionTiming';
+import { detectNewRecords, replayPersonalRecords } from '@/lib/personalRecords';
+import { DEFAULT_EQUIPMENT_PROFILES } from '@/lib/plates';
+import { calculateReadinessScore, scaleSessionTargets, type ReadinessInput } from '@/lib/readiness';
+import { moveToDay, planWeekShift } from '@/lib/schedule';
+import { planCSVImport, type CSVSource, type ExerciseChoice, type ImportedWorkout } from '@/lib/csvImport';
+import { BACKUP_TABLES, isDestructiveImport, parseBackup, planImport, type Backup, type BackupData, type ImportPlan } from '@/lib/backup';
+import { getCurrentUser } from '@/lib/account';
+import { applyPushResponse, planPull, planPush, pullChanges, pushChanges, type SyncStateUpdate } from '@/lib/sync';
+import { SYNC_PAGE_SIZE, SYNC_TABLES, type SyncRecord, type SyncTable } from '@shared/sync';
 
 // Exercise hooks
 export function useExercises() {
@@ -55,6 +71,22 @@ export function useMicrocycle(id?: number) {
   );
 }
 
+export function useMicrocycleWeekData(microcycleId?: number) {
+  return useLiveQuery(
+    () => microcycleId ? microcycleOperations.getWeekData(microcycleId) : undefined,
+    [microcycleId]
+  );
+}
+
+export function useEarlierWeekPlans(mesocycleId?: number, beforeWeekNumber?: number) {
+  return useLiveQuery(
+    () => mesocycleId && beforeWeekNumber
+      ? microcycleOperations.getEarlierWeekPlans(mesocycleId, beforeWeekNumber)
+      : undefined,
+    [mesocycleId, beforeWeekNumber]
+  );
+}
+
 // Workout session hooks
 export function useWorkoutSessions(microcycleId?: number) {
   return useLiveQuery(
@@ -155,16 +187,64 @@ export const mesocycleOperations = {
       for (const session of sessions) {
         await db.session_exercises.where('session_id').equals(session.id!).delete();
         await db.logs.where('session_id').equals(session.id!).delete();
+        await db.active_sessions.where('session_id').equals(session.id!).delete();
+        await muscleRecoveryOperations.deleteForSession(session.id!);
+        await painReportOperations.deleteForSession(session.id!);
       }
       await db.workout_sessions.where('microcycle_id').equals(micro.id!).delete();
+      await db.deload_events.where('microcycle_id').equals(micro.id!).delete();
     }
     await db.microcycles.where('mesocycle_id').equals(id).delete();
-    return await db.mesocycles.delete(id);
+    await db.mesocycles.delete(id);
+    // Removed sets can change which later sets were records
+    await personalRecordOperations.rebuild();
   },
   
   async activate(id: number) {
     await db.mesocycles.where('is_active').equals(1).modify({ is_active: false });
     return await db.mesocycles.update(id, { is_active: true });
+  },
+
+  async applyPlan(id: number, plan: MesocyclePlan, phaseType: PhaseType) {
+    // Write every week, session and session exercise of a generated plan
+    return await db.transaction('rw', [db.mesocycles, db.microcycles, db.workout_sessions, db.session_exercises, db.deload_events], async () => {
+      const now = new Date();
+      for (const week of plan.microcycles) {
+        const microcycleId = await db.microcycles.add({
+          mesocycle_id: id,
+          week_number: week.week_number,
+          start_date: week.start_date,
+          end_date: week.end_date,
+          is_deload: week.is_deload,
+          created_at: now,
+        });
+        if (week.is_deload) {
+          await db.deload_events.add({
+            microcycle_id: microcycleId as number,
+            start_date: week.start_date,
+            end_date: week.end_date,
+            source: 'planned',
+            created_at: now,
+          });
+        }
+
+        for (const session of week.sessions) {
+          const sessionId = await db.workout_sessions.add({
+            microcycle_id: microcycleId as number,
+            name: session.name,
+            scheduled_date: session.scheduled_date,
+            is_completed: false,
+            created_at: now,
+          });
+
+          await db.session_exercises.bulkAdd(
+            session.exercises.map(ex => ({ ...ex, session_id: sessionId as number, created_at: now }))
+          );
+        }
+      }
+
+      await db.mesocycles.update(id, { phase_type: phaseType });
+    });
   }
 };
 
@@ -174,8 +254,83 @@ export const microcycleOperations = {
   },
   
   async update(id: number, changes: Partial<Microcycle>) {
+    if (changes.start_date || changes.end_date) {
+      // A moved deload week moves its event with it
+      const { start_date, end_date } = changes;
+      await db.deload_events.where('microcycle_id').equals(id).modify(event => {
+        if (start_date) event.start_date = start_date;
+        if (end_date) event.end_date = end_date;
+      });
+    }
     return await db.microcycles.update(id, changes);
   },
+
+  async getWeekData(id: number): Promise<WeekData> {
+    const sessions = await db.workout_sessions.where('microcycle_id').equals(id).toArray();
+    const sessionIds = sessions.map(s => s.id!);
+    const sessionExercises = await db.session_exercises.where('session_id').anyOf(sessionIds).toArray();
+    const logs = await db.logs.where('session_id').anyOf(sessionIds).toArray();
+    return { sessions, sessionExercises, logs };
+  },
+
+  async getEarlierWeekPlans(mesocycleId: number, beforeWeekNumber: number): Promise<WeekPlan[]> {
+    // Sessions and targets of the weeks before `beforeWeekNumber`, oldest first
+    const microcycles = (await db.microcycles.where('mesocycle_id').equals(mesocycleId).sortBy('week_number'))
+      .filter(m => m.week_number < beforeWeekNumber);
+    return Promise.all(microcycles.map(async m => {
+      const sessions = await db.workout_sessions.where('microcycle_id').equals(m.id!).toArray();
+      const sessionExercises = await db.session_exercises.where('session_id').anyOf(sessions.map(s => s.id!)).toArray();
+      return { sessions, sessionExercises };
+    }));
+  },
+
+  async getNextIfComplete(id: number) {
+    // The following week, once every session of this week is completed
+    const microcycle = await db.microcycles.get(id);
+    if (!microcycle) return undefined;
+    const sessions = await db.workout_sessions.where('microcycle_id').equals(id).toArray();
+    if (sessions.length === 0 || !sessions.every(s => s.is_completed)) return undefined;
+
+    return await db.microcycles
+      .where('mesocycle_id').equals(microcycle.mesocycle_id)
+      .filter(m => m.week_number === microcycle.week_number + 1)
+      .first();
+  },
+
+  /**
+   * Mark a week as a deload (or not) after the fact, keeping its deload
+   * event in step so the rebound is measured
+   */
+  async setDeload(id: number, isDeload: boolean) {
+    return await db.transaction('rw', [db.microcycles, db.deload_events], async () => {
+      const microcycle = await db.microcycles.get(id);
+      if (!microcycle) return;
+
+      await db.microcycles.update(id, { is_deload: isDeload });
+      await db.deload_events.where('microcycle_id').equals(id).delete();
+      if (isDeload) {
+        await db.deload_events.add({
+          microcycle_id: id,
+          start_date: microcycle.start_date,
+          end_date: microcycle.end_date,
+          source: 'marked',
+          created_at: new Date(),
+        });
+      }
+    });
+  },
+
+  async applyProgression(id: number, updates: Array<{ sessionExerciseId: number; target_sets: number; target_rir: number }>) {
+    return await db.transaction('rw', [db.microcycles, db.session_exercises], async () => {
+      for (const update of updates) {
+        await db.session_exercises.update(update.sessionExerciseId, {
+          target_sets: update.target_sets,
+          target_rir: update.target_rir,
+        });
+      }
+      await db.microcycles.update(id, { progression_applied_at: new Date() });
+    });
+  },
   
   async delete(id: number) {
     // Delete associated sessions
@@ -183,9 +338,14 @@ export const microcycleOperations = {
     for (const session of sessions) {
       await db.session_exercises.where('session_id').equals(session.id!).delete();
       await db.logs.where('session_id').equals(session.id!).delete();
+      await db.active_sessions.where('session_id').equals(session.id!).delete();
+      await muscleRecoveryOperations.deleteForSession(session.id!);
+      await painReportOperations.deleteForSession(session.id!);
     }
     await db.workout_sessions.where('microcycle_id').equals(id).delete();
-    return await db.microcycles.delete(id);
+    await db.deload_events.where('microcycle_id').equals(id).delete();
+    await db.microcycles.delete(id);
+    await personalRecordOperations.rebuild();
   }
 };
 
@@ -193,12 +353,103 @@ export const workoutSessionOperations = {
   async create(session: Omit<WorkoutSession, 'id'>) {
     return await db.workout_sessions.add(session);
   },
+
+  async reschedule(id: number, day: Date) {
+    const session = await db.workout_sessions.get(id);
+    if (!session) return;
+    return await db.workout_sessions.update(id, { scheduled_date: moveToDay(session.scheduled_date, day) });
+  },
+
+  /**
+   * Move a missed session to today along with the rest of its week
+   */
+  async shiftRemainingWeek(id: number) {
+    return await db.transaction('rw', [db.workout_sessions, db.microcycles, db.deload_events], async () => {
+      const missed = await db.workout_sessions.get(id);
+      if (!missed) return;
+
+      const weekSessions = await db.workout_sessions.where('microcycle_id').equals(missed.microcycle_id).toArray();
+      const microcycle = await db.microcycles.get(missed.microcycle_id);
+      const shift = planWeekShift(missed, weekSessions, microcycle);
+      for (const change of shift.changes) {
+        await db.workout_sessions.update(change.sessionId, { scheduled_date: change.scheduled_date });
+      }
+      if (microcycle && shift.end_date) {
+        await microcycleOperations.update(microcycle.id!, { end_date: shift.end_date });
+      }
+      return shift;
+    });
+  },
   
   async update(id: number, changes: Partial<WorkoutSession>) {
     return await db.workout_sessions.update(id, changes);
   },
   
+  async start(id: number, at: Date = new Date()) {
+    return await db.workout_sessions.update(id, { started_at: at });
+  },
+
+  async pause(id: number) {
+    const session = await db.workout_sessions.get(id);
+    if (!session?.started_at || isSessionPaused(session)) return;
+    return await db.workout_sessions.update(id, {
+      pauses: [...(session.pauses || []), { started_at: new Date() }]
+    });
+  },
+
+  async resume(id: number) {
+    const session = await db.workout_sessions.get(id);
+    if (!session || !isSessionPaused(session)) return;
+    return await db.workout_sessions.update(id, {
+      pauses: session.pauses!.map(p => (p.ended_at ? p : { ...p, ended_at: new Date() }))
+    });
+  },
+
+  /**
+   * Store a pre-session check-in and scale the day's targets. Redoing it
+   * first restores the targets the previous check-in changed.
+   */
+  async checkIn(id: number, input: ReadinessInput): Promise<ReadinessCheckIn | undefined> {
+    return await db.transaction('rw', [db.workout_sessions, db.session_exercises, db.logs, db.exercises], async () => {
+      const session = await db.workout_sessions.get(id);
+      if (!session) return undefined;
+      if (await db.logs.where('session_id').equals(id).count() > 0) {
+        throw new Error('Readiness can only be checked in before the first set');
+      }
+
+      for (const adj of session.readiness?.adjustments ?? []) {
+        await db.session_exercises.update(adj.session_exercise_id, {
+          target_sets: adj.original_sets,
+          target_rir: adj.original_rir,
+        });
+      }
+
+      const sessionExercises = await db.session_exercises.where('session_id').equals(id).toArray();
+      const exercises = await db.exercises.bulkGet(sessionExercises.map(se => se.exercise_id));
+      const score = calculateReadinessScore(input);
+      const adjustments = scaleSessionTargets(
+        score,
+        input.soreness,
+        sessionExercises,
+        exercises.filter((ex): ex is Exercise => ex !== undefined)
+      );
+
+      for (const adj of adjustments) {
+        await db.session_exercises.update(adj.session_exercise_id, {
+          target_sets: adj.target_sets,
+          target_rir: adj.target_rir,
+        });
+      }
+
+      const readiness: ReadinessCheckIn = { ...input, score, adjustments, recorded_at: new Date() };
+      await db.workout_sessions.update(id, { readiness });
+      return readiness;
+    });
+  },
+
   async complete(id: number) {
+    await activeSessionOperations.clear(id);
+    await workoutSessionOperations.resume(id);
     return await db.workout_sessions.update(id, {
       is_completed: true,
       completed_date: new Date()
@@ -208,7 +459,11 @@ export const workoutSessionOperations = {
   async delete(id: number) {
     await db.session_exercises.where('session_id').equals(id).delete();
     await db.logs.where('session_id').equals(id).delete();
-    return await db.workout_sessions.delete(id);
+    await activeSessionOperations.clear(id);
+    await muscleRecoveryOperations.deleteForSession(id);
+    await painReportOperations.deleteForSession(id);
+    await db.workout_sessions.delete(id);
+    await personalRecordOperations.rebuild();
   }
 };
 
@@ -222,8 +477,10 @@ export const sessionExerciseOperations = {
   },
   
   async delete(id: number) {
+    const sessionExercise = await db.session_exercises.get(id);
     await db.logs.where('session_exercise_id').equals(id).delete();
-    return await db.session_exercises.delete(id);
+    await db.session_exercises.delete(id);
+    if (sessionExercise) await personalRecordOperations.rebuild(sessionExercise.exercise_id);
   }
 };
 
@@ -254,6 +511,7 @@ export const workoutTemplateOperations = {
         target_reps_min: ex.target_reps_min,
         target_reps_max: ex.target_reps_max,
         target_rir: ex.target_rir,
+        superset_group: ex.superset_group,
         created_at: new Date(),
       });
     }
@@ -273,24 +531,697 @@ export function useWorkoutTemplate(id?: number) {
 
 export const logOperations = {
   async create(log: Omit<Log, 'id' | 'e1rm'>) {
-    const e1rm = calculateE1RM(log.weight, log.reps);
-    return await db.logs.add({ ...log, e1rm });
+    const formula = await settingsOperations.getE1RMFormula();
+    const e1rm = calculateE1RM(log.weight, log.reps, log.rir, formula);
+    const id = await db.logs.add({ ...log, e1rm }) as number;
+    const records = await personalRecordOperations.recordLog(id);
+    return { id, records };
   },
   
   async update(id: number, changes: Partial<Log>) {
-    // Recalculate e1RM if weight or reps changed
-    if (changes.weight !== undefined || changes.reps !== undefined) {
+    // Recalculate e1RM if weight, reps or RIR changed
+    if (changes.weight !== undefined || changes.reps !== undefined || changes.rir !== undefined) {
       const log = await db.logs.get(id);
       if (log) {
-        const weight = changes.weight ?? log.weight;
-        const reps = changes.reps ?? log.reps;
-        changes.e1rm = calculateE1RM(weight, reps);
+        const formula = await settingsOperations.getE1RMFormula();
+        changes.e1rm = calculateE1RM(
+          changes.weight ?? log.weight,
+          changes.reps ?? log.reps,
+          changes.rir ?? log.rir,
+          formula
+        );
       }
     }
-    return await db.logs.update(id, changes);
+    const updated = await db.logs.update(id, changes);
+    // Later records were judged against this set, so rebuild the exercise
+    const log = await db.logs.get(id);
+    if (log) await personalRecordOperations.rebuild(log.exercise_id);
+    return updated;
   },
   
   async delete(id: number) {
-    return await db.logs.delete(id);
+    return await db.transaction('rw', db.logs, db.pain_reports, async () => {
+      const log = await db.logs.get(id);
+      if (!log) return;
+
+      // Cluster sets go with their working set; later sets move up
+      const exerciseLogs = await db.logs.where('session_exercise_id').equals(log.session_exercise_id).toArray();
+      const painReports = await db.pain_reports.where('log_id').anyOf(exerciseLogs.map(l => l.id!)).toArray();
+      const { removedIds, removedPainReportIds, renumbered } = planSetRemoval(exerciseLogs, id, painReports);
+      await db.logs.bulkDelete(removedIds);
+      await db.pain_reports.bulkDelete(removedPainReportIds);
+      for (const { id: logId, set_number } of renumbered) {
+        await db.logs.update(logId, { set_number });
+      }
+      return log.exercise_id;
+    }).then(async exerciseId => {
+      if (exerciseId !== undefined) await personalRecordOperations.rebuild(exerciseId);
+    });
+  }
+};
+
+// Personal record hooks
+export function useExercisePersonalRecords(exerciseId?: number) {
+  return useLiveQuery(
+    () => exerciseId
+      ? db.personal_records.where('exercise_id').equals(exerciseId).sortBy('achieved_at')
+      : [],
+    [exerciseId]
+  );
+}
+
+export function useSessionPersonalRecords(sessionId?: number) {
+  return useLiveQuery(
+    () => sessionId ? db.personal_records.where('session_id').equals(sessionId).toArray() : [],
+    [sessionId]
+  );
+}
+
+export const personalRecordOperations = {
+  /**
+   * Store the PRs a just-logged set achieved and return the ones worth
+   * celebrating (a session volume record is only announced once)
+   */
+  async recordLog(logId: number): Promise<PersonalRecord[]> {
+    return await db.transaction('rw', db.logs, db.personal_records, async () => {
+      const log = await db.logs.get(logId);
+      if (!log) return [];
+
+      const priorLogs = await db.logs.where('exercise_id').equals(log.exercise_id).toArray();
+      const records = detectNewRecords(log, priorLogs);
+      const existingSessionRecords = await db.personal_records
+        .where('session_id').equals(log.session_id)
+        .filter(r => r.exercise_id === log.exercise_id && r.type === 'session_volume')
+        .toArray();
+
+      if (records.some(r => r.type === 'session_volume')) {
+        await db.personal_records.bulkDelete(existingSessionRecords.map(r => r.id!));
+      }
+      await db.personal_records.bulkAdd(records);
+
+      return records.filter(r => r.type !== 'session_volume' || existingSessionRecords.length === 0);
+    });
+  },
+
+  async rebuild(exerciseId?: number) {
+    return await db.transaction('rw', db.logs, db.personal_records, async () => {
+      const logs = exerciseId !== undefined
+        ? await db.logs.where('exercise_id').equals(exerciseId).toArray()
+        : await db.logs.toArray();
+      if (exerciseId !== undefined) {
+        await db.personal_records.where('exercise_id').equals(exerciseId).delete();
+      } else {
+        await db.personal_records.clear();
+      }
+      await db.personal_records.bulkAdd(replayPersonalRecords(logs));
+    });
+  }
+};
+
+// Settings hooks
+export function useSettings() {
+  return useLiveQuery(() => settingsOperations.get());
+}
+
+export function useWeightUnit(): WeightUnit {
+  const settings = useSettings();
+  return settings?.weight_unit ?? DEFAULT_SETTINGS.weight_unit;
+}
+
+export function useE1RMFormula(): E1RMFormula {
+  const settings = useSettings();
+  return settings?.e1rm_formula ?? DEFAULT_E1RM_FORMULA;
+}
+
+export function useEquipmentProfile(): EquipmentProfile {
+  const settings = useSettings();
+  const weightUnit = settings?.weight_unit ?? DEFAULT_SETTINGS.weight_unit;
+  return settings?.equipment_profile ?? DEFAULT_EQUIPMENT_PROFILES[weightUnit];
+}
+
+export const settingsOperations = {
+  async get(): Promise<UserSettings> {
+    const settings = await db.settings.toCollection().first();
+    return settings ?? { ...DEFAULT_SETTINGS, updated_at: new Date() };
+  },
+
+  async getE1RMFormula(): Promise<E1RMFormula> {
+    const settings = await settingsOperations.get();
+    return settings.e1rm_formula ?? DEFAULT_E1RM_FORMULA;
+  },
+
+  /**
+   * Switch e1RM formula and recompute every stored estimate (and the PRs
+   * judged on them) so history stays comparable
+   */
+  async setE1RMFormula(formula: E1RMFormula) {
+    await settingsOperations.update({ e1rm_formula: formula });
+    await db.logs.toCollection().modify(log => {
+      log.e1rm = calculateE1RM(log.weight, log.reps, log.rir, formula);
+    });
+    await personalRecordOperations.rebuild();
+  },
+
+  async update(changes: Partial<Omit<UserSettings, 'id'>>) {
+    const existing = await db.settings.toCollection().first();
+    if (existing) {
+      return await db.settings.update(existing.id!, { ...changes, updated_at: new Date() });
+    }
+    return await db.settings.add({ ...DEFAULT_SETTINGS, ...changes, updated_at: new Date() });
+  }
+};
+
+// Muscle recovery hooks
+export function useMuscleRecovery() {
+  return useLiveQuery(() => db.muscle_recovery.toArray());
+}
+
+export function useSessionMuscleRecovery(sessionId: number | undefined) {
+  return useLiveQuery(
+    () => sessionId ? db.muscle_recovery.where('session_id').equals(sessionId).toArray() : [],
+    [sessionId]
+  );
+}
+
+export function useLatestMuscleRecovery(muscleGroup: MuscleGroup | undefined) {
+  return useLiveQuery(
+    async () => {
+      if (!muscleGroup) return undefined;
+      const entries = await db.muscle_recovery.where('muscle_group').equals(muscleGroup).sortBy('recorded_at');
+      return entries[entries.length - 1];
+    },
+    [muscleGroup]
+  );
+}
+
+export const muscleRecoveryOperations = {
+  /**
+   * Rate how a muscle recovered since trainedSessionId; re-rating at the
+   * same session replaces the earlier answer
+   */
+  async record(sessionId: number, muscleGroup: MuscleGroup, trainedSessionId: number, rating: RecoveryRating) {
+    const existing = await db.muscle_recovery.where('[session_id+muscle_group]').equals([sessionId, muscleGroup]).first();
+    const entry: Omit<MuscleRecovery, 'id'> = {
+      muscle_group: muscleGroup,
+      session_id: sessionId,
+      trained_session_id: trainedSessionId,
+      rating,
+      recorded_at: new Date(),
+    };
+    if (existing) return await db.muscle_recovery.put({ ...entry, id: existing.id });
+    return await db.muscle_recovery.add(entry);
+  },
+
+  async deleteForSession(sessionId: number) {
+    await db.muscle_recovery.where('session_id').equals(sessionId).delete();
+    await db.muscle_recovery.where('trained_session_id').equals(sessionId).delete();
+  }
+};
+
+// Deload event hooks
+export function useDeloadEvents() {
+  return useLiveQuery(() => db.deload_events.orderBy('start_date').toArray());
+}
+
+// Pain report hooks
+export function usePainReports() {
+  return useLiveQuery(() => db.pain_reports.orderBy('reported_at').toArray());
+}
+
+export const painReportOperations = {
+  /**
+   * Record pain at each region for a set's feedback; saving feedback for
+   * the same set again replaces its earlier reports
+   */
+  async recordForLog(log: Log, severity: number, regions: BodyRegion[]) {
+    return await db.transaction('rw', db.pain_reports, async () => {
+      await db.pain_reports.where('log_id').equals(log.id!).delete();
+      const reportedAt = new Date();
+      const reports: Omit<PainReport, 'id'>[] = regions.map(region => ({
+        region,
+        severity,
+        exercise_id: log.exercise_id,
+        session_id: log.session_id,
+        log_id: log.id,
+        reported_at: reportedAt,
+      }));
+      await db.pain_reports.bulkAdd(reports);
+    });
+  },
+
+  async delete(id: number) {
+    return await db.pain_reports.delete(id);
+  },
+
+  async deleteForSession(sessionId: number) {
+    await db.pain_reports.where('session_id').equals(sessionId).delete();
+  }
+};
+
+// Volume landmark hooks
+export function useVolumeLandmarks() {
+  const stored = useLiveQuery(() => db.volume_landmarks.toArray());
+  return useMemo(() => resolveLandmarks(stored || []), [stored]);
+}
+
+export const volumeLandmarkOperations = {
+  async upsert(muscleGroup: MuscleGroup, values: LandmarkValues) {
+    const existing = await db.volume_landmarks.where('muscle_group').equals(muscleGroup).first();
+    if (existing) {
+      return await db.volume_landmarks.update(existing.id!, { ...values, updated_at: new Date() });
+    }
+    return await db.volume_landmarks.add({ muscle_group: muscleGroup, ...values, updated_at: new Date() });
+  },
+
+  async reset(muscleGroup: MuscleGroup) {
+    // Fall back to the default landmarks
+    return await db.volume_landmarks.where('muscle_group').equals(muscleGroup).delete();
+  }
+};
+
+// Active (in-progress) workout hooks
+export function useLatestActiveSession() {
+  return useLiveQuery(async () => {
+    const active = await db.active_sessions.orderBy('updated_at').reverse().toArray();
+    for (const record of active) {
+      const session = await db.workout_sessions.get(record.session_id);
+      if (session && !session.is_completed) return { active: record, session };
+    }
+    return null;
+  });
+}
+
+export const activeSessionOperations = {
+  async get(sessionId: number) {
+    return await db.active_sessions.where('session_id').equals(sessionId).first();
+  },
+
+  async save(sessionId: number, state: Omit<ActiveSession, 'id' | 'session_id' | 'updated_at'>) {
+    const existing = await activeSessionOperations.get(sessionId);
+    const record = { ...state, session_id: sessionId, updated_at: new Date() };
+    if (existing) {
+      // put() so cleared optional fields (e.g. a stopped rest timer) are removed
+      return await db.active_sessions.put({ ...record, id: existing.id });
+    }
+    return await db.active_sessions.add(record);
+  },
+
+  async clear(sessionId: number) {
+    return await db.active_sessions.where('session_id').equals(sessionId).delete();
+  }
+};
+
+// Backup hooks
+export function useBackupSnapshots() {
+  return useLiveQuery(() => db.backup_snapshots.orderBy('created_at').reverse().toArray());
+}
+
+// Snapshots kept before older ones are pruned
+const BACKUP_SNAPSHOT_LIMIT = 5;
+
+export const backupOperations = {
+  async export(): Promise<Backup> {
+    const data = await backupOperations.readAll();
+    return {
+      version: SCHEMA_VERSION,
+      exportDate: new Date(),
+      e1rm_formula: await settingsOperations.getE1RMFormula(),
+      ...data,
+    };
+  },
+
+  async readAll(): Promise<Required<BackupData>> {
+    return await db.transaction('r', BACKUP_TABLES.map(table => db.table(table)), async () => {
+      const data = {} as Record<string, unknown[]>;
+      for (const table of BACKUP_TABLES) {
+        data[table] = await db.table(table).toArray();
+      }
+      return data as unknown as Required<BackupData>;
+    });
+  },
+
+  async preview(backup: Backup, mode: ImportPlan['mode']): Promise<ImportPlan> {
+    return planImport(backup, await backupOperations.readAll(), mode);
+  },
+
+  /**
+   * Keep a copy of the current data; only the latest few are kept
+   */
+  async snapshot(reason: string) {
+    const data = JSON.stringify(await backupOperations.export());
+    const id = await db.backup_snapshots.add({ reason, data, created_at: new Date() });
+    const stale = await db.backup_snapshots.orderBy('created_at').reverse().offset(BACKUP_SNAPSHOT_LIMIT).primaryKeys();
+    await db.backup_snapshots.bulkDelete(stale);
+    return id;
+  },
+
+  /**
+   * Write a planned import. A snapshot is taken first when the import
+   * would overwrite or remove data.
+   */
+  async apply(plan: ImportPlan, snapshotReason: string) {
+    if (isDestructiveImport(plan)) await backupOperations.snapshot(snapshotReason);
+
+    await db.transaction('rw', BACKUP_TABLES.map(table => db.table(table)), async () => {
+      for (const table of BACKUP_TABLES) {
+        const tablePlan = plan.tables[table];
+        if (!tablePlan) continue;
+        if (plan.mode === 'replace') await db.table(table).clear();
+        await db.table(table).bulkPut([...tablePlan.added, ...tablePlan.updated]);
+      }
+    });
+
+    // Estimates from a backup made with another formula are recomputed;
+    // records are always derived from the imported logs
+    const formula = await settingsOperations.getE1RMFormula();
+    if (plan.e1rm_formula !== formula) {
+      await settingsOperations.setE1RMFormula(formula);
+    } else {
+      await personalRecordOperations.rebuild();
+    }
+  },
+
+  async restore(snapshotId: number) {
+    const snapshot = await db.backup_snapshots.get(snapshotId);
+    if (!snapshot) throw new Error('Snapshot not found');
+
+    const result = parseBackup(JSON.parse(snapshot.data));
+    if (!result.success) throw new Error(result.errors.join('; '));
+
+    const plan = await backupOperations.preview(result.backup, 'replace');
+    await backupOperations.apply(plan, `Before restoring the snapshot from ${snapshot.created_at.toLocaleString()}`);
+    return plan;
+  },
+
+  async deleteSnapshot(id: number) {
+    return await db.backup_snapshots.delete(id);
+  }
+};
+
+export const workoutHistoryImportOperations = {
+  /**
+   * Add workouts exported from another app. New exercises are created as
+   * chosen, and workouts already imported (same name and start) are skipped.
+   */
+  async importWorkouts(
+    workouts: ImportedWorkout[],
+    source: CSVSource,
+    weightUnit: WeightUnit,
+    choices: Record<string, ExerciseChoice>
+  ) {
+    const formula = await settingsOperations.getE1RMFormula();
+
+    const result = await db.transaction('rw', [db.exercises, db.mesocycles, db.microcycles, db.workout_sessions, db.session_exercises, db.logs], async () => {
+      const existingStarts = new Set(
+        (await db.workout_sessions.toArray())
+          .filter(session => session.started_at)
+          .map(session => `${session.name}|${session.started_at!.getTime()}`)
+      );
+      const fresh = workouts.filter(workout => !existingStarts.has(`${workout.name}|${workout.startedAt.getTime()}`));
+
+      const exerciseIds = new Map<string, number>();
+      for (const [name, choice] of Object.entries(choices)) {
+        if (choice.type === 'existing') {
+          exerciseIds.set(name, choice.exerciseId);
+        } else if (choice.type === 'new' && fresh.some(w => w.sets.some(set => set.exerciseName === name))) {
+          const id = await db.exercises.add({ name, muscle_group: choice.muscleGroup, is_custom: true, created_at: new Date() }) as number;
+          exerciseIds.set(name, id);
+        }
+      }
+
+      const plan = planCSVImport(fresh, source, weightUnit, exerciseIds, formula);
+      const duplicates = workouts.length - fresh.length;
+      if (!plan) return { sessions: 0, sets: 0, duplicates };
+
+      const mesocycleId = await db.mesocycles.add(plan.mesocycle) as number;
+      let sessionCount = 0;
+      for (const week of plan.weeks) {
+        const microcycleId = await db.microcycles.add({ ...week.microcycle, mesocycle_id: mesocycleId }) as number;
+        for (const planned of week.sessions) {
+          const sessionId = await db.workout_sessions.add({ ...planned.session, microcycle_id: microcycleId }) as number;
+          sessionCount++;
+          for (const { sessionExercise, logs } of planned.exercises) {
+            const sessionExerciseId = await db.session_exercises.add({ ...sessionExercise, session_id: sessionId }) as number;
+            // Drop sets belong to the working set before them
+            let parentLogId: number | undefined;
+            for (const log of logs) {
+              const cluster = isClusterSet(log);
+              const id = await db.logs.add({
+                ...log,
+                session_exercise_id: sessionExerciseId,
+                session_id: sessionId,
+                parent_log_id: cluster ? parentLogId : undefined,
+              }) as number;
+              if (!cluster && log.set_type !== 'warmup') parentLogId = id;
+            }
+          }
+        }
+      }
+
+      return { sessions: sessionCount, sets: plan.setCount, duplicates };
+    });
+
+    if (result.sets > 0) await personalRecordOperations.rebuild();
+    return result;
+  }
+};
+
+// Sync hooks
+export function useSyncMeta() {
+  return useLiveQuery(() => db.sync_meta.toCollection().first());
+}
+
+// Time between background syncs while sync is on
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Sync in the background while sync is on: at startup, every few
+ * minutes, and whenever the device comes back online or the app is
+ * brought back to the foreground
+ */
+export function useAutoSync() {
+  const enabled = useSyncMeta()?.enabled ?? false;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const run = () => {
+      if (navigator.onLine) syncOperations.sync().catch(console.error);
+    };
+    const runWhenVisible = () => {
+      if (document.visibilityState === 'visible') run();
+    };
+
+    run();
+    const interval = window.setInterval(run, AUTO_SYNC_INTERVAL);
+    window.addEventListener('online', run);
+    document.addEventListener('visibilitychange', runWhenVisible);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', run);
+      document.removeEventListener('visibilitychange', runWhenVisible);
+    };
+  }, [enabled]);
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number; // Local changes overruled by a newer change from another device
+}
+
+const DEFAULT_SYNC_META: SyncMeta = { enabled: false, cursor: 0, conflicts: 0 };
+
+// Sync in progress, shared by everything that asks for one
+let activeSync: Promise<SyncResult> | undefined;
+
+export const syncOperations = {
+  async getMeta(): Promise<SyncMeta> {
+    return (await db.sync_meta.toCollection().first()) ?? DEFAULT_SYNC_META;
+  },
+
+  async updateMeta(updates: Partial<SyncMeta>) {
+    const meta = await syncOperations.getMeta();
+    return await db.sync_meta.put({ ...meta, ...updates });
+  },
+
+  async setEnabled(enabled: boolean) {
+    return await syncOperations.updateMeta({ enabled });
+  },
+
+  /**
+   * Push local changes, then pull everything other devices pushed since
+   * the last sync. The first sync after a reset pulls before it pushes, so
+   * local copies are merged with the server's instead of pushed over them.
+   * Nothing is sent while signed in to an account other than the one this
+   * device syncs with. Only one sync runs at a time.
+   */
+  sync(): Promise<SyncResult> {
+    activeSync ??= syncOperations.runSync().finally(() => {
+      activeSync = undefined;
+    });
+    return activeSync;
+  },
+
+  async runSync(): Promise<SyncResult> {
+    try {
+      // Someone else may have signed in since, e.g. in another tab
+      const [user, meta] = await Promise.all([getCurrentUser(), syncOperations.getMeta()]);
+      if (!user) throw new Error('Sign in to sync');
+      if (user.id !== meta.account_id) throw new Error(`Signed in as ${user.username}, not the account this device syncs with. Sign out and in again to switch`);
+
+      let pulled = 0;
+      let logsChanged = false;
+      if (meta.cursor === 0) {
+        ({ pulled, logsChanged } = await syncOperations.pullAll());
+      }
+
+      const tables = [...SYNC_TABLES.map(table => db.table(table)), db.sync_state, db.local_changes];
+      const { data, states, localChanges } = await db.transaction('r', tables, async () => ({
+        data: await backupOperations.readAll(),
+        states: await db.sync_state.toArray(),
+        localChanges: await db.local_changes.toArray(),
+      }));
+
+      const plan = planPush(data, states, () => crypto.randomUUID(), localChanges);
+      const accepted: SyncRecord[] = [];
+      const overruled: SyncRecord[] = [];
+      try {
+        // Batches keep referenced records ahead of the records pointing at them
+        for (let i = 0; i < plan.changes.length; i += SYNC_PAGE_SIZE) {
+          const response = await pushChanges(plan.changes.slice(i, i + SYNC_PAGE_SIZE));
+          accepted.push(...response.accepted);
+          overruled.push(...response.conflicts.filter(c => c.resolution === 'server').map(c => c.current));
+        }
+      } finally {
+        // Batches that made it are synced even if a later one failed
+        await syncOperations.saveStates(applyPushResponse(plan, accepted));
+      }
+
+      const pull = await syncOperations.pullAll(overruled);
+      pulled += pull.pulled;
+      logsChanged ||= pull.logsChanged;
+
+      if (logsChanged) await personalRecordOperations.rebuild();
+
+      const result = { pushed: accepted.length, pulled, conflicts: overruled.length };
+      await syncOperations.updateMeta({ last_synced_at: new Date(), last_error: undefined, conflicts: result.conflicts });
+      return result;
+    } catch (error) {
+      await syncOperations.updateMeta({ last_error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  },
+
+  /**
+   * Pull every page since the cursor, applying `overruled` (records the
+   * server kept over a push) with the first page
+   */
+  async pullAll(overruled: SyncRecord[] = []): Promise<{ pulled: number; logsChanged: boolean }> {
+    let { cursor } = await syncOperations.getMeta();
+    let pulled = 0;
+    let logsChanged = false;
+    let pending = overruled;
+    for (;;) {
+      const page = await pullChanges(cursor);
+      const changes = [...pending, ...page.changes];
+      pending = [];
+      pulled += await syncOperations.applyPulled(changes, page.cursor);
+      logsChanged ||= changes.some(record => record.table === 'logs');
+      cursor = page.cursor;
+      if (!page.has_more) break;
+    }
+    return { pulled, logsChanged };
+  },
+
+  async saveStates(update: SyncStateUpdate) {
+    await db.transaction('rw', db.sync_state, db.local_changes, async () => {
+      const removed = update.remove.map(state => [state.table, state.local_id] as [typeof state.table, number]);
+      await db.sync_state.bulkDelete(removed);
+      await db.local_changes.bulkDelete(removed);
+      await db.sync_state.bulkPut(update.put);
+    });
+  },
+
+  /**
+   * Write pulled changes and move the cursor past them in one transaction,
+   * planned against the data as it is now
+   */
+  async applyPulled(changes: SyncRecord[], cursor: number): Promise<number> {
+    const tables = [...SYNC_TABLES.map(table => db.table(table)), db.sync_state, db.sync_meta, db.local_changes];
+    return await db.transaction('rw', tables, async () => {
+      const plan = planPull(changes, await backupOperations.readAll(), await db.sync_state.toArray(), await db.local_changes.toArray());
+
+      for (const table of [...SYNC_TABLES].reverse()) {
+        const deletes = plan.deletes[table];
+        if (deletes) await db.table(table).bulkDelete(deletes);
+      }
+      for (const table of SYNC_TABLES) {
+        const puts = plan.puts[table];
+        if (puts) await db.table(table).bulkPut(puts);
+      }
+      // Pulled writes aren't local edits
+      await db.local_changes.bulkDelete(
+        SYNC_TABLES.flatMap(table => (plan.puts[table] ?? []).map(record => [table, record.id!] as [SyncTable, number]))
+      );
+      await syncOperations.saveStates(plan.states);
+      await syncOperations.updateMeta({ cursor });
+
+      if (plan.skipped.length > 0) console.warn(`Sync skipped ${plan.skipped.length} records with missing references`, plan.skipped);
+      return plan.states.put.length - plan.overwritten.length + plan.states.remove.length;
+    });
+  },
+
+  /**
+   * Whether this device last synced with an account other than `accountId`
+   */
+  async isOtherAccount(accountId: string): Promise<boolean> {
+    const { account_id } = await syncOperations.getMeta();
+    return account_id !== undefined && account_id !== accountId;
+  },
+
+  /**
+   * Sync as `accountId` from now on. When the device last synced with
+   * another account, `previousData` has to say whether that account's
+   * data is cleared from the device or sent to the new account.
+   */
+  async setAccount(accountId: string, previousData?: 'clear' | 'keep') {
+    const meta = await syncOperations.getMeta();
+    if (meta.account_id === accountId) return;
+    if (meta.account_id !== undefined) {
+      if (!previousData) throw new Error("Choose whether to clear or keep the other account's data");
+      if (previousData === 'clear') await syncOperations.clearLocalData();
+    }
+    await syncOperations.reset();
+    await syncOperations.updateMeta({ account_id: accountId });
+  },
+
+  /**
+   * Remove every synced record, and what's derived from them, from this
+   * device. A snapshot is taken first; the exercise library is seeded again.
+   */
+  async clearLocalData() {
+    await backupOperations.snapshot('Before switching accounts');
+    // local_changes last, after the deletes have been recorded in it
+    const tables = [...SYNC_TABLES, 'personal_records', 'active_sessions', 'sync_state', 'local_changes'].map(table => db.table(table));
+    await db.transaction('rw', tables, async () => {
+      for (const table of tables) await table.clear();
+    });
+    await seedExercises();
+  },
+
+  /**
+   * Forget what has been synced. The next sync pushes every record again
+   * and pulls everything; sync ids are kept so records already on the
+   * server aren't duplicated.
+   */
+  async reset() {
+    await db.transaction('rw', db.sync_state, db.sync_meta, async () => {
+      await db.sync_state.toCollection().modify(state => {
+        state.hash = '';
+        delete state.revision;
+      });
+      await syncOperations.updateMeta({ cursor: 0, last_synced_at: undefined, last_error: undefined, conflicts: 0 });
+    });
   }
 };
@@ -0,0 +1,47 @@
+import type { AccountUser, ApiTokenInfo, CreatedApiToken, Credentials } from '@shared/auth';
+import { ApiError, apiRequest } from './api';
+
+/**
+ * Account requests for HypertrophyOS
+ * Signing in sets the session cookie the sync API is authorized with.
+ */
+
+export async function signUp(credentials: Credentials): Promise<AccountUser> {
+  const { user } = await apiRequest<{ user: AccountUser }>('/auth/signup', { method: 'POST', body: JSON.stringify(credentials) });
+  return user;
+}
+
+export async function logIn(credentials: Credentials): Promise<AccountUser> {
+  const { user } = await apiRequest<{ user: AccountUser }>('/auth/login', { method: 'POST', body: JSON.stringify(credentials) });
+  return user;
+}
+
+export async function logOut() {
+  await apiRequest<void>('/auth/logout', { method: 'POST' });
+}
+
+/**
+ * The signed-in account, or null when signed out
+ */
+export async function getCurrentUser(): Promise<AccountUser | null> {
+  try {
+    const { user } = await apiRequest<{ user: AccountUser }>('/auth/me');
+    return user;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) return null;
+    throw error;
+  }
+}
+
+export async function listApiTokens(): Promise<ApiTokenInfo[]> {
+  const { tokens } = await apiRequest<{ tokens: ApiTokenInfo[] }>('/auth/tokens');
+  return tokens;
+}
+
+export async function createApiToken(name: string): Promise<CreatedApiToken> {
+  return await apiRequest<CreatedApiToken>('/auth/tokens', { method: 'POST', body: JSON.stringify({ name }) });
+}
+
+export async function deleteApiToken(id: string) {
+  await apiRequest<void>(`/auth/tokens/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
@@ -1,50 +1,88 @@
 import type { Log, WorkoutSession, Exercise } from './db';
+import { isHardSet, isWarmupSet } from './setTypes';
+import { getMuscleContributions } from './muscleContributions';
+import { getSessionDurationSeconds, getSetDurationSeconds } from './sessionTiming';
+import { getLegacySoreness, type SorenessLookup } from './recovery';
 
 /**
  * Training Density Metrics
- * Measure workout efficiency and intensity
+ * Measure workout efficiency and intensity from recorded session and set times
  */
 
 export interface TrainingDensityMetrics {
-  totalWorkTime: number; // seconds
-  totalRestTime: number; // seconds
+  sessionDuration: number; // seconds, excluding pauses
+  totalWorkTime: number; // seconds spent performing timed sets
+  totalRestTime: number; // seconds of recorded rest between sets
   densityScore: number; // work/total ratio (0-1)
   avgRestBetweenSets: number; // seconds
-  timeUnderTension: number; // seconds (estimated)
+  timedSets: number; // sets with both a start and end time
 }
 
+/**
+ * Density of a completed session, or null when it wasn't timed
+ */
 export function calculateTrainingDensity(
-  logs: Log[],
-  sessionDuration: number // minutes
-): TrainingDensityMetrics {
-  const totalSets = logs.length;
-  
-  // Estimate time under tension: ~3-5 seconds per rep (using 4s average)
-  const totalReps = logs.reduce((sum, log) => sum + log.reps, 0);
-  const timeUnderTension = totalReps * 4; // seconds
-  
-  // Estimate rest time: session duration - work time
-  const sessionDurationSeconds = sessionDuration * 60;
-  const totalWorkTime = timeUnderTension + (totalSets * 10); // Add 10s per set for setup
-  const totalRestTime = Math.max(0, sessionDurationSeconds - totalWorkTime);
-  
-  // Average rest between sets
-  const avgRestBetweenSets = totalSets > 1 ? totalRestTime / (totalSets - 1) : 0;
-  
-  // Density score: work time / total time
-  const densityScore = sessionDurationSeconds > 0 
-    ? totalWorkTime / sessionDurationSeconds 
-    : 0;
-  
+  session: WorkoutSession,
+  logs: Log[]
+): TrainingDensityMetrics | null {
+  const sessionDuration = session.completed_date ? getSessionDurationSeconds(session) : undefined;
+  if (!sessionDuration) return null;
+
+  const setDurations = logs
+    .map(getSetDurationSeconds)
+    .filter((duration): duration is number => duration !== undefined);
+  const rests = logs
+    .map(log => log.rest_seconds)
+    .filter((rest): rest is number => rest !== undefined);
+
+  const totalWorkTime = setDurations.reduce((sum, duration) => sum + duration, 0);
+  const totalRestTime = rests.reduce((sum, rest) => sum + rest, 0);
+
   return {
+    sessionDuration,
     totalWorkTime,
     totalRestTime,
-    densityScore,
-    avgRestBetweenSets,
-    timeUnderTension,
+    densityScore: Math.min(1, totalWorkTime / sessionDuration),
+    avgRestBetweenSets: rests.length > 0 ? totalRestTime / rests.length : 0,
+    timedSets: setDurations.length,
   };
 }
 
+export interface SessionTimingPoint {
+  sessionId: number;
+  name: string;
+  date: Date;
+  durationMinutes: number;
+  density: number; // percent of the session spent working
+  avgRest: number; // seconds
+}
+
+/**
+ * Duration, density and rest for each timed, completed session (oldest first)
+ */
+export function getSessionTimingTrend(sessions: WorkoutSession[], logs: Log[]): SessionTimingPoint[] {
+  const logsBySession = new Map<number, Log[]>();
+  for (const log of logs) {
+    logsBySession.set(log.session_id, [...(logsBySession.get(log.session_id) || []), log]);
+  }
+
+  return sessions
+    .filter(session => session.is_completed && session.completed_date)
+    .sort((a, b) => a.completed_date!.getTime() - b.completed_date!.getTime())
+    .flatMap(session => {
+      const metrics = calculateTrainingDensity(session, logsBySession.get(session.id!) || []);
+      if (!metrics) return [];
+      return [{
+        sessionId: session.id!,
+        name: session.name,
+        date: session.completed_date!,
+        durationMinutes: metrics.sessionDuration / 60,
+        density: metrics.densityScore * 100,
+        avgRest: metrics.avgRestBetweenSets,
+      }];
+    });
+}
+
 /**
  * Fatigue Index
  * Track cumulative fatigue and recovery needs
@@ -62,7 +100,8 @@ export interface FatigueMetrics {
 
 export function calculateFatigueIndex(
   recentLogs: Log[], // Last 2 weeks
-  weeklyVolumeTrend: number[] // Volume for last 4 weeks
+  weeklyVolumeTrend: number[], // Volume for last 4 weeks
+  getSoreness: SorenessLookup = getLegacySoreness // Normally from the muscles' recovery ratings
 ): FatigueMetrics {
   if (recentLogs.length === 0) {
     return {
@@ -77,7 +116,10 @@ export function calculateFatigueIndex(
   }
 
   // Calculate average soreness and joint pain
-  const avgSoreness = recentLogs.reduce((sum, log) => sum + (log.feedback_soreness || 0), 0) / recentLogs.length;
+  const sorenessRatings = recentLogs.map(getSoreness).filter((rating): rating is number => rating !== undefined);
+  const avgSoreness = sorenessRatings.length > 0
+    ? sorenessRatings.reduce((sum, rating) => sum + rating, 0) / sorenessRatings.length
+    : 0;
   const avgJointPain = recentLogs.reduce((sum, log) => sum + (log.feedback_joint_pain || 0), 0) / recentLogs.length;
   
   // Calculate weekly volume (reps × weight per set)
@@ -171,20 +213,23 @@ export function analyzeMuscleGroupBalance(
   logs: Log[],
   exercises: Exercise[]
 ): BalanceAnalysis {
-  // Group logs by muscle group
+  // Group logs by muscle group, crediting secondary muscles fractionally
   const muscleGroupData = new Map<string, { sets: number; volume: number }>();
   
   for (const log of logs) {
+    if (isWarmupSet(log)) continue;
+
     const exercise = exercises.find(e => e.id === log.exercise_id);
     if (!exercise) continue;
     
-    const mg = exercise.muscle_group;
-    const current = muscleGroupData.get(mg) || { sets: 0, volume: 0 };
-    
-    muscleGroupData.set(mg, {
-      sets: current.sets + 1, // Each log entry is one set
-      volume: current.volume + (log.reps * log.weight),
-    });
+    for (const { muscle_group: mg, weight } of getMuscleContributions(exercise)) {
+      const current = muscleGroupData.get(mg) || { sets: 0, volume: 0 };
+
+      muscleGroupData.set(mg, {
+        sets: current.sets + (isHardSet(log) ? weight : 0), // Only working sets count as hard sets
+        volume: current.volume + (log.reps * log.weight * weight),
+      });
+    }
   }
   
   // Calculate total for percentages
@@ -0,0 +1,22 @@
+/**
+ * Requests to the HypertrophyOS server API. The session cookie rides
+ * along with every request; failures throw an ApiError carrying the
+ * server's message.
+ */
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) throw new ApiError(response.status, body?.error ?? `Server responded with ${response.status}`);
+  return body as T;
+}
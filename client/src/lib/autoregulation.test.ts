@@ -48,6 +48,29 @@ describe('Autoregulation Logic', () => {
       const metrics = calculatePerformanceMetrics([]);
       expect(metrics).toBeNull();
     });
+
+    it('should ignore warm-up and cluster sets', () => {
+      const logs: Partial<Log>[] = [
+        { exercise_id: 1, set_type: 'warmup', rir: 6, target_rir: 2 },
+        { exercise_id: 1, set_type: 'working', rir: 2, target_rir: 2 },
+        { exercise_id: 1, rir: 1, target_rir: 2 },
+        { exercise_id: 1, set_type: 'drop', rir: 0, target_rir: 2 },
+        { exercise_id: 1, set_type: 'myo_rep', rir: 0, target_rir: 2 },
+      ];
+
+      const metrics = calculatePerformanceMetrics(logs as Log[]);
+
+      expect(metrics!.sessionsAnalyzed).toBe(2);
+      expect(metrics!.avgRIR).toBe(1.5);
+    });
+
+    it('should return null when only warm-ups were logged', () => {
+      const logs: Partial<Log>[] = [
+        { exercise_id: 1, set_type: 'warmup', rir: 5, target_rir: 2 },
+      ];
+
+      expect(calculatePerformanceMetrics(logs as Log[])).toBeNull();
+    });
   });
 
   describe('generateSetRecommendation', () => {
@@ -170,6 +193,25 @@ describe('Autoregulation Logic', () => {
       expect(recommendation.change).toBe(1);
     });
 
+    it('should use the muscle recovery rating over logged soreness', () => {
+      const metrics = {
+        avgRIR: 0.5,
+        targetRIR: 2,
+        rirDeviation: -1.5,
+        avgSoreness: 2,
+        avgPump: 4,
+        avgJointPain: 1,
+        sessionsAnalyzed: 3,
+      };
+
+      const stillSore = generateSetRecommendation(3, { ...metrics, recovery: 'still_sore' });
+      expect(stillSore.change).toBe(0);
+      expect(stillSore.reason).toContain('Still sore');
+
+      const healedEarly = generateSetRecommendation(3, { ...metrics, avgSoreness: 4, recovery: 'healed_early' });
+      expect(healedEarly.change).toBe(1);
+    });
+
     it('should return low confidence for insufficient data', () => {
       const metrics = {
         avgRIR: 2,
@@ -1,4 +1,8 @@
-import type { Log } from './db';
+import type { Log, MuscleGroup, RecoveryRating } from './db';
+import { getHardSets } from './setTypes';
+import { capSetIncrease } from './volumeLandmarks';
+import { formatSetCount } from './muscleContributions';
+import { RECOVERY_SORENESS } from './recovery';
 
 /**
  * Autoregulation Logic for HypertrophyOS
@@ -21,12 +25,28 @@ export interface PerformanceMetrics {
   avgPump: number;
   avgJointPain: number;
   sessionsAnalyzed: number;
+  recovery?: RecoveryRating; // Latest per-muscle rating; used instead of avgSoreness when present
+}
+
+// Average soreness (1-5) at which recovery takes priority over more volume
+export const HIGH_SORENESS = 4;
+
+/**
+ * Current weekly volume of the exercise's muscle, used to keep
+ * recommendations at or below its MRV
+ */
+export interface MuscleVolumeContext {
+  muscleGroup: MuscleGroup;
+  weeklySets: number;
+  mrv: number;
 }
 
 /**
  * Calculate performance metrics from recent logs
+ * Only working (hard) sets are analyzed; warm-ups and cluster sets are ignored
  */
-export function calculatePerformanceMetrics(logs: Log[]): PerformanceMetrics | null {
+export function calculatePerformanceMetrics(allLogs: Log[]): PerformanceMetrics | null {
+  const logs = getHardSets(allLogs);
   if (logs.length === 0) return null;
 
   const totalRIR = logs.reduce((sum, log) => sum + log.rir, 0);
@@ -67,14 +87,17 @@ export function calculatePerformanceMetrics(logs: Log[]): PerformanceMetrics | n
  * 
  * Algorithm:
  * 1. RIR Performance: If consistently hitting RIR < target, add sets
- * 2. Feedback Modulation: High soreness or joint pain = reduce/maintain
+ * 2. Feedback Modulation: High soreness or joint pain = reduce/maintain.
+ *    Soreness comes from the muscle's latest recovery rating when there is
+ *    one, falling back to the per-log average for older data.
  * 3. Pump Quality: Good pump + low RIR = ready for volume increase
  * 4. Progressive Overload: Gradual increases (1 set at a time)
  */
 export function generateSetRecommendation(
   currentSets: number,
   metrics: PerformanceMetrics,
-  weeksSinceLastIncrease: number = 0
+  weeksSinceLastIncrease: number = 0,
+  volume?: MuscleVolumeContext
 ): SetRecommendation {
   let recommendedSets = currentSets;
   let reason = '';
@@ -95,8 +118,9 @@ export function generateSetRecommendation(
   const rirMargin = metrics.rirDeviation;
 
   // Check for recovery issues
-  const hasRecoveryIssues = metrics.avgSoreness >= 4 || metrics.avgJointPain >= 3;
-  const hasGoodRecovery = metrics.avgSoreness <= 2 && metrics.avgJointPain <= 1;
+  const soreness = metrics.recovery ? RECOVERY_SORENESS[metrics.recovery] : metrics.avgSoreness;
+  const hasRecoveryIssues = soreness >= HIGH_SORENESS || metrics.avgJointPain >= 3;
+  const hasGoodRecovery = soreness <= 2 && metrics.avgJointPain <= 1;
   const hasGoodPump = metrics.avgPump >= 4;
 
   // Decision logic
@@ -108,7 +132,9 @@ export function generateSetRecommendation(
       confidence = 'high';
     } else {
       recommendedSets = currentSets;
-      reason = 'High soreness detected. Maintaining current volume for recovery.';
+      reason = metrics.recovery === 'still_sore'
+        ? 'Still sore from the last session. Maintaining current volume for recovery.'
+        : 'High soreness detected. Maintaining current volume for recovery.';
       confidence = 'high';
     }
   } else if (rirMargin <= -1.5 && hasGoodRecovery && hasGoodPump) {
@@ -124,7 +150,7 @@ export function generateSetRecommendation(
     confidence = 'medium';
   } else if (rirMargin >= 1.5) {
     // Consistently failing to hit RIR targets (going too close to failure)
-    if (metrics.avgSoreness >= 3) {
+    if (soreness >= 3) {
       recommendedSets = Math.max(1, currentSets - 1);
       reason = 'Pushing too hard relative to targets with elevated soreness. Reduce volume.';
       confidence: 'high';
@@ -151,6 +177,15 @@ export function generateSetRecommendation(
     reason += ' (Capped at +2 sets for safety)';
   }
 
+  // Volume cap: never push the muscle past its MRV
+  if (volume && recommendedSets > currentSets) {
+    const allowed = capSetIncrease(recommendedSets - currentSets, volume.weeklySets, volume.mrv);
+    if (allowed < recommendedSets - currentSets) {
+      recommendedSets = currentSets + allowed;
+      reason += ` (Capped: ${volume.muscleGroup} is at ${formatSetCount(volume.weeklySets)}/${volume.mrv} sets, its MRV)`;
+    }
+  }
+
   // Don't go below 1 set
   if (recommendedSets < 1) {
     recommendedSets = 1;
@@ -172,7 +207,9 @@ export function getExerciseSetRecommendation(
   exerciseId: number,
   currentSets: number,
   recentLogs: Log[],
-  weeksSinceLastIncrease: number = 0
+  weeksSinceLastIncrease: number = 0,
+  volume?: MuscleVolumeContext,
+  recovery?: RecoveryRating
 ): SetRecommendation | null {
   // Filter logs for this exercise
   const exerciseLogs = recentLogs.filter(log => log.exercise_id === exerciseId);
@@ -186,5 +223,5 @@ export function getExerciseSetRecommendation(
     return null;
   }
 
-  return generateSetRecommendation(currentSets, metrics, weeksSinceLastIncrease);
+  return generateSetRecommendation(currentSets, { ...metrics, recovery }, weeksSinceLastIncrease, volume);
 }
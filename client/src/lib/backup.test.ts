@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { isDestructiveImport, parseBackup, planImport, summarizeImportPlan, type Backup, type BackupData } from './backup';
+import { SCHEMA_VERSION, type Exercise, type Log, type Mesocycle, type Microcycle, type SessionExercise, type WorkoutSession, type WorkoutTemplate } from './db';
+
+const created = new Date(2024, 0, 1);
+
+const exercise = (id: number, name: string): Exercise => ({
+  id,
+  name,
+  muscle_group: 'Chest',
+  is_custom: false,
+  created_at: created,
+});
+
+const mesocycle: Mesocycle = {
+  id: 1,
+  name: 'Block 1',
+  phase_type: 'Hypertrophy',
+  start_date: created,
+  end_date: new Date(2024, 1, 1),
+  set_addition_frequency: 1,
+  is_active: true,
+  created_at: created,
+};
+
+const microcycle: Microcycle = {
+  id: 1,
+  mesocycle_id: 1,
+  week_number: 1,
+  start_date: created,
+  end_date: new Date(2024, 0, 7),
+  created_at: created,
+};
+
+const session: WorkoutSession = {
+  id: 1,
+  microcycle_id: 1,
+  name: 'Upper A',
+  scheduled_date: new Date(2024, 0, 2),
+  is_completed: true,
+  created_at: created,
+};
+
+const sessionExercise = (id: number, exerciseId: number): SessionExercise => ({
+  id,
+  session_id: 1,
+  exercise_id: exerciseId,
+  order_index: id - 1,
+  target_sets: 3,
+  target_reps_min: 8,
+  target_reps_max: 12,
+  target_rir: 2,
+  created_at: created,
+});
+
+const log = (id: number, overrides: Partial<Log> = {}): Log => ({
+  id,
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id: 1,
+  set_number: id,
+  weight: 100,
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: new Date(2024, 0, 2),
+  created_at: new Date(2024, 0, 2, 18, id),
+  ...overrides,
+});
+
+// A current backup as it comes out of JSON.parse
+const toJSON = (backup: Backup): unknown => JSON.parse(JSON.stringify({ version: SCHEMA_VERSION, ...backup }));
+
+const parse = (backup: Backup): Backup => {
+  const result = parseBackup(toJSON(backup));
+  if (!result.success) throw new Error(result.errors.join('\n'));
+  return result.backup;
+};
+
+describe('Backup Validation', () => {
+  it('should turn date strings back into dates', () => {
+    const backup = parse({
+      workout_sessions: [{ ...session, pauses: [{ started_at: new Date(2024, 0, 2, 18), ended_at: new Date(2024, 0, 2, 18, 5) }] }],
+    });
+
+    expect(backup.workout_sessions?.[0].scheduled_date).toEqual(session.scheduled_date);
+    expect(backup.workout_sessions?.[0].pauses?.[0].ended_at).toEqual(new Date(2024, 0, 2, 18, 5));
+  });
+
+  it('should name the records that fail validation', () => {
+    const result = parseBackup({ logs: [log(1), { ...log(2), reps: 'eight' }] });
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors[0]).toMatch(/^logs\[1\]\.reps: /);
+  });
+
+  it('should reject files without any data', () => {
+    expect(parseBackup({ hello: 'world' }).success).toBe(false);
+    expect(parseBackup([]).success).toBe(false);
+  });
+});
+
+describe('Import Planning', () => {
+  const existing: BackupData = {
+    exercises: [exercise(1, 'Bench Press'), exercise(2, 'Cable Fly')],
+    mesocycles: [],
+    microcycles: [],
+    workout_sessions: [],
+    session_exercises: [],
+    logs: [],
+  };
+
+  const backup = (): Backup => parse({
+    exercises: [exercise(1, 'Cable Fly'), exercise(2, 'Pec Deck')],
+    mesocycles: [mesocycle],
+    microcycles: [microcycle],
+    workout_sessions: [session],
+    session_exercises: [sessionExercise(1, 1), sessionExercise(2, 2)],
+    logs: [log(1), log(2, { set_type: 'drop', parent_log_id: 1 })],
+  });
+
+  it('should replace only the tables the backup contains', () => {
+    const plan = planImport(backup(), { ...existing, volume_landmarks: [] }, 'replace');
+
+    expect(plan.tables.exercises).toMatchObject({ deleted: 2, updated: [] });
+    expect(plan.tables.exercises?.added.map(e => e.id)).toEqual([1, 2]);
+    expect(plan.tables.volume_landmarks).toBeUndefined();
+    expect(isDestructiveImport(plan)).toBe(true);
+  });
+
+  it('should clear tables the backup leaves out that refer to a replaced one', () => {
+    const current: BackupData = {
+      ...existing,
+      session_exercises: [sessionExercise(1, 1)],
+      logs: [log(1)],
+      pain_reports: [{ id: 1, region: 'elbow_left', severity: 2, exercise_id: 1, reported_at: created }],
+      volume_landmarks: [],
+    };
+    const plan = planImport(parse({ exercises: [exercise(1, 'Pec Deck')] }), current, 'replace');
+
+    expect(plan.tables.session_exercises).toEqual({ added: [], updated: [], skipped: [], deleted: 1 });
+    expect(plan.tables.logs?.deleted).toBe(1);
+    expect(plan.tables.pain_reports?.deleted).toBe(1);
+    expect(plan.tables.workout_sessions).toBeUndefined();
+    expect(plan.tables.volume_landmarks).toBeUndefined();
+  });
+
+  it('should match exercises by name and remap references to them', () => {
+    const plan = planImport(backup(), existing, 'merge');
+
+    // Cable Fly already exists as #2, Pec Deck is new
+    expect(plan.tables.exercises?.skipped.map(s => s.reason)).toEqual(['Unchanged']);
+    expect(plan.tables.exercises?.added).toMatchObject([{ id: 3, name: 'Pec Deck' }]);
+    expect(plan.tables.session_exercises?.added.map(se => se.exercise_id)).toEqual([2, 3]);
+    expect(plan.tables.logs?.added.map(l => l.exercise_id)).toEqual([2, 2]);
+    expect(isDestructiveImport(plan)).toBe(false);
+  });
+
+  it('should remap cluster sets to their imported parent', () => {
+    const plan = planImport(backup(), { ...existing, logs: [log(1, { session_exercise_id: 99 })] }, 'skip');
+    const [parent, drop] = plan.tables.logs!.added;
+
+    expect(parent.id).toBe(3);
+    expect(drop.parent_log_id).toBe(3);
+  });
+
+  it('should update matching records when merging but not when skipping duplicates', () => {
+    const renamed = parse({ exercises: [{ ...exercise(7, 'bench press'), notes: 'Pause at chest' }] });
+
+    expect(planImport(renamed, existing, 'merge').tables.exercises?.updated).toMatchObject([
+      { id: 1, name: 'bench press', notes: 'Pause at chest' },
+    ]);
+    const skipped = planImport(renamed, existing, 'skip');
+    expect(skipped.tables.exercises?.skipped.map(s => s.reason)).toEqual(['Already exists']);
+    expect(isDestructiveImport(skipped)).toBe(false);
+  });
+
+  it('should update records that differ only in nested values', () => {
+    const template = (targetSets: number): WorkoutTemplate => ({
+      id: 1,
+      name: 'Push',
+      exercises: [{ exercise_id: 1, order_index: 0, target_sets: targetSets, target_reps_min: 8, target_reps_max: 12, target_rir: 2 }],
+      created_at: created,
+    });
+    const current = { ...existing, workout_templates: [template(3)] };
+
+    expect(planImport(parse({ workout_templates: [template(3)] }), current, 'merge').tables.workout_templates).toMatchObject({
+      updated: [],
+      skipped: [{ reason: 'Unchanged' }],
+    });
+    expect(planImport(parse({ workout_templates: [template(4)] }), current, 'merge').tables.workout_templates?.updated).toMatchObject([
+      { id: 1, exercises: [{ target_sets: 4 }] },
+    ]);
+  });
+
+  it('should skip records whose required references are missing', () => {
+    const orphan = parse({ session_exercises: [sessionExercise(1, 1)] });
+    const plan = planImport(orphan, existing, 'merge');
+
+    expect(plan.tables.session_exercises?.added).toEqual([]);
+    expect(plan.tables.session_exercises?.skipped[0].reason).toBe('Missing sessions #1');
+  });
+
+  it('should keep references into tables the backup leaves out', () => {
+    const logsOnly = parse({ logs: [log(1)] });
+    const current = { ...existing, workout_sessions: [session], session_exercises: [sessionExercise(1, 1)] };
+
+    expect(planImport(logsOnly, current, 'merge').tables.logs?.added).toMatchObject([
+      { session_exercise_id: 1, session_id: 1, exercise_id: 1 },
+    ]);
+  });
+
+  it('should summarize each table in the backup', () => {
+    expect(summarizeImportPlan(planImport(backup(), existing, 'merge'))[0]).toEqual({
+      table: 'exercises',
+      added: 1,
+      updated: 0,
+      skipped: 1,
+      deleted: 0,
+    });
+  });
+});
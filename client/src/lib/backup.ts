@@ -0,0 +1,643 @@
+import { z } from 'zod';
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  type DeloadEvent,
+  type E1RMFormula,
+  type Exercise,
+  type Log,
+  type Mesocycle,
+  type Microcycle,
+  type MuscleGroup,
+  type MigrationData,
+  type MuscleRecovery,
+  type PainReport,
+  type SessionExercise,
+  type UserSettings,
+  type VolumeLandmarks,
+  type WorkoutSession,
+  type WorkoutTemplate,
+} from './db';
+import { E1RM_FORMULAS } from './e1rm';
+import { SET_TYPES, getSetType } from './setTypes';
+import { MUSCLE_GROUPS } from './volumeLandmarks';
+import { BODY_REGIONS } from './pain';
+import { RECOVERY_RATINGS } from './recovery';
+
+/**
+ * Backup import for HypertrophyOS
+ * Validates a JSON backup, then plans how it lands in the current data:
+ * replace the tables it contains, merge records matched by a natural key,
+ * or only add what isn't there yet. Records get their final IDs while
+ * planning, so foreign keys can be remapped and the plan previewed
+ * before anything is written.
+ */
+
+export type ImportMode = 'replace' | 'merge' | 'skip';
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  replace: 'Replace',
+  merge: 'Merge',
+  skip: 'Skip duplicates',
+};
+
+export const IMPORT_MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  replace: 'Tables in the backup replace the current ones; tables it leaves out are kept unless they refer to a replaced one',
+  merge: 'Matching records are updated from the backup, new ones are added',
+  skip: 'Only records that are not already here are added',
+};
+
+export interface BackupData {
+  exercises?: Exercise[];
+  mesocycles?: Mesocycle[];
+  microcycles?: Microcycle[];
+  workout_sessions?: WorkoutSession[];
+  session_exercises?: SessionExercise[];
+  logs?: Log[];
+  workout_templates?: WorkoutTemplate[];
+  settings?: UserSettings[];
+  volume_landmarks?: VolumeLandmarks[];
+  muscle_recovery?: MuscleRecovery[];
+  pain_reports?: PainReport[];
+  deload_events?: DeloadEvent[];
+}
+
+export type BackupTable = keyof BackupData;
+
+export interface Backup extends BackupData {
+  version?: number; // Schema version the data follows
+  exportDate?: Date;
+  e1rm_formula?: E1RMFormula; // Formula the logs' e1rm values were computed with
+}
+
+// Referenced tables before the tables that point at them
+export const BACKUP_TABLES: BackupTable[] = [
+  'exercises',
+  'mesocycles',
+  'microcycles',
+  'workout_sessions',
+  'session_exercises',
+  'logs',
+  'workout_templates',
+  'settings',
+  'volume_landmarks',
+  'muscle_recovery',
+  'pain_reports',
+  'deload_events',
+];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  exercises: 'Exercises',
+  mesocycles: 'Mesocycles',
+  microcycles: 'Weeks',
+  workout_sessions: 'Sessions',
+  session_exercises: 'Session exercises',
+  logs: 'Sets',
+  workout_templates: 'Templates',
+  settings: 'Settings',
+  volume_landmarks: 'Volume landmarks',
+  muscle_recovery: 'Recovery ratings',
+  pain_reports: 'Pain reports',
+  deload_events: 'Deloads',
+};
+
+// Schemas check what the app relies on and turn JSON date strings back into
+// Dates; other fields are kept as they are
+const id = z.number().int().positive();
+const date = z.coerce.date();
+const createdAt = z.coerce.date().default(() => new Date());
+const muscleGroup = z.enum(MUSCLE_GROUPS as [MuscleGroup, ...MuscleGroup[]]);
+
+const exerciseSchema = z.looseObject({
+  id: id.optional(),
+  name: z.string().min(1),
+  muscle_group: muscleGroup,
+  is_custom: z.boolean().default(true),
+  created_at: createdAt,
+});
+
+const mesocycleSchema = z.looseObject({
+  id: id.optional(),
+  name: z.string().min(1),
+  phase_type: z.enum(['Hypertrophy', 'Metabolite', 'Resensitization', 'Deload']),
+  start_date: date,
+  end_date: date,
+  is_active: z.boolean().default(false),
+  created_at: createdAt,
+});
+
+const microcycleSchema = z.looseObject({
+  id: id.optional(),
+  mesocycle_id: id,
+  week_number: z.number().int().positive(),
+  start_date: date,
+  end_date: date,
+  progression_applied_at: date.optional(),
+  created_at: createdAt,
+});
+
+const workoutSessionSchema = z.looseObject({
+  id: id.optional(),
+  microcycle_id: id,
+  name: z.string(),
+  scheduled_date: date,
+  started_at: date.optional(),
+  completed_date: date.optional(),
+  pauses: z.array(z.looseObject({ started_at: date, ended_at: date.optional() })).optional(),
+  readiness: z.looseObject({
+    adjustments: z.array(z.looseObject({ session_exercise_id: id })),
+    recorded_at: date,
+  }).optional(),
+  is_completed: z.boolean().default(false),
+  created_at: createdAt,
+});
+
+const sessionExerciseSchema = z.looseObject({
+  id: id.optional(),
+  session_id: id,
+  exercise_id: id,
+  order_index: z.number().int().nonnegative(),
+  target_sets: z.number().int().positive(),
+  created_at: createdAt,
+});
+
+const logSchema = z.looseObject({
+  id: id.optional(),
+  session_exercise_id: id,
+  session_id: id,
+  exercise_id: id,
+  set_number: z.number().int().positive(),
+  set_type: z.enum(SET_TYPES as [string, ...string[]]).optional(),
+  parent_log_id: id.optional(),
+  weight: z.number().nonnegative(),
+  weight_unit: z.enum(['kg', 'lb']).optional(),
+  reps: z.number().int().nonnegative(),
+  rir: z.number(),
+  session_date: date,
+  started_at: date.optional(),
+  ended_at: date.optional(),
+  created_at: createdAt,
+});
+
+const workoutTemplateSchema = z.looseObject({
+  id: id.optional(),
+  name: z.string().min(1),
+  exercises: z.array(z.looseObject({ exercise_id: id, order_index: z.number().int().nonnegative() })),
+  created_at: createdAt,
+});
+
+const settingsSchema = z.looseObject({
+  id: id.optional(),
+  weight_unit: z.enum(['kg', 'lb']),
+  e1rm_formula: z.enum(E1RM_FORMULAS as [E1RMFormula, ...E1RMFormula[]]).optional(),
+  updated_at: createdAt,
+});
+
+const volumeLandmarksSchema = z.looseObject({
+  id: id.optional(),
+  muscle_group: muscleGroup,
+  mv: z.number().nonnegative(),
+  mev: z.number().nonnegative(),
+  mav: z.number().nonnegative(),
+  mrv: z.number().nonnegative(),
+  updated_at: createdAt,
+});
+
+const muscleRecoverySchema = z.looseObject({
+  id: id.optional(),
+  muscle_group: muscleGroup,
+  session_id: id,
+  trained_session_id: id,
+  rating: z.enum(RECOVERY_RATINGS as [string, ...string[]]),
+  recorded_at: date,
+});
+
+const painReportSchema = z.looseObject({
+  id: id.optional(),
+  region: z.enum(BODY_REGIONS as [string, ...string[]]),
+  severity: z.number().min(1).max(5),
+  exercise_id: id.optional(),
+  session_id: id.optional(),
+  log_id: id.optional(),
+  reported_at: date,
+});
+
+const deloadEventSchema = z.looseObject({
+  id: id.optional(),
+  microcycle_id: id.optional(),
+  start_date: date,
+  end_date: date,
+  source: z.enum(['planned', 'marked']).default('marked'),
+  created_at: createdAt,
+});
+
+const RECORD_SCHEMAS: Record<BackupTable, z.ZodType> = {
+  exercises: exerciseSchema,
+  mesocycles: mesocycleSchema,
+  microcycles: microcycleSchema,
+  workout_sessions: workoutSessionSchema,
+  session_exercises: sessionExerciseSchema,
+  logs: logSchema,
+  workout_templates: workoutTemplateSchema,
+  settings: settingsSchema,
+  volume_landmarks: volumeLandmarksSchema,
+  muscle_recovery: muscleRecoverySchema,
+  pain_reports: painReportSchema,
+  deload_events: deloadEventSchema,
+};
+
+const backupSchema = z.looseObject({
+  version: z.number().int().optional(),
+  exportDate: date.optional(),
+  e1rm_formula: z.enum(E1RM_FORMULAS as [E1RMFormula, ...E1RMFormula[]]).optional(),
+  ...Object.fromEntries(BACKUP_TABLES.map(table => [table, z.array(RECORD_SCHEMAS[table]).optional()])),
+});
+
+export type BackupParseResult =
+  | { success: true; backup: Backup }
+  | { success: false; errors: string[] };
+
+// Issues listed to the user before the rest are summarized
+const MAX_REPORTED_ISSUES = 5;
+
+/**
+ * Validate parsed backup JSON, upgrading backups from older versions
+ * first. Errors name the offending record, e.g.
+ * "logs[12].reps: Invalid input: expected number, received string".
+ */
+export function parseBackup(json: unknown): BackupParseResult {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { success: false, errors: ['The file does not contain any HypertrophyOS data'] };
+  }
+
+  const version = getBackupVersion(json as Record<string, unknown>);
+  if (version > SCHEMA_VERSION) {
+    return { success: false, errors: [`The backup was made by a newer version of HypertrophyOS (schema ${version}); update the app to import it`] };
+  }
+
+  const result = backupSchema.safeParse(upgradeBackup(json as Record<string, unknown>, version));
+  if (result.success) {
+    const backup = result.data as unknown as Backup;
+    if (!BACKUP_TABLES.some(table => backup[table] !== undefined)) {
+      return { success: false, errors: ['The file does not contain any HypertrophyOS data'] };
+    }
+    return { success: true, backup };
+  }
+
+  const errors = result.error.issues.slice(0, MAX_REPORTED_ISSUES).map(issue => {
+    const path = issue.path.reduce<string>(
+      (text, part) => typeof part === 'number' ? `${text}[${part}]` : text ? `${text}.${String(part)}` : String(part),
+      ''
+    );
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+  const remaining = result.error.issues.length - errors.length;
+  if (remaining > 0) errors.push(`...and ${remaining} more`);
+  return { success: false, errors };
+}
+
+// Exports made before the format version followed the schema all say "1.0";
+// the newest data they contain tells which schema they were made with
+const LEGACY_VERSION_MARKERS: [string, number][] = [
+  ['deload_events', 11],
+  ['pain_reports', 10],
+  ['muscle_recovery', 9],
+  ['e1rm_formula', 8],
+];
+
+/**
+ * Schema version a backup's data follows
+ */
+export function getBackupVersion(json: Record<string, unknown>): number {
+  if (typeof json.version === 'number') return json.version;
+  return LEGACY_VERSION_MARKERS.find(([key]) => json[key] !== undefined)?.[1] ?? 1;
+}
+
+/**
+ * Run a backup's raw JSON through every migration newer than its version,
+ * the same steps the database takes when it upgrades
+ */
+export function upgradeBackup(json: Record<string, unknown>, version: number = getBackupVersion(json)): Record<string, unknown> {
+  const data = structuredClone(json) as MigrationData;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) migration.upgrade?.(data);
+  }
+  return { ...data, version: SCHEMA_VERSION };
+}
+
+export type AnyRecord = { id?: number } & Record<string, unknown>;
+
+export function isRecord(value: unknown): value is AnyRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Records nested in a field, such as a template's exercises; anything
+ * that isn't a list of records reads as empty
+ */
+export function getNestedRecords(value: unknown): AnyRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * A table's records as plain objects, for code that handles every table alike
+ */
+export function getTableRecords(data: BackupData, table: BackupTable): AnyRecord[] {
+  const records: readonly object[] = data[table] ?? [];
+  return records as AnyRecord[];
+}
+
+/**
+ * Validate one record of a table in JSON form, with dates restored
+ */
+export function parseBackupRecord(table: BackupTable, json: unknown): AnyRecord | undefined {
+  const result = RECORD_SCHEMAS[table].safeParse(json);
+  return result.success ? result.data as AnyRecord : undefined;
+}
+
+const time = (value: unknown) => (value instanceof Date ? value.getTime() : '');
+
+// How the same record is recognized in both the backup and the current data,
+// after foreign keys have been remapped
+const NATURAL_KEYS: Record<BackupTable, (record: AnyRecord) => string> = {
+  exercises: r => String(r.name).trim().toLowerCase(),
+  mesocycles: r => `${r.name}|${time(r.start_date)}`,
+  microcycles: r => `${r.mesocycle_id}|${r.week_number}`,
+  workout_sessions: r => `${r.microcycle_id}|${r.name}|${time(r.scheduled_date)}`,
+  session_exercises: r => `${r.session_id}|${r.order_index}|${r.exercise_id}`,
+  logs: r => `${r.session_exercise_id}|${getSetType(r as Pick<Log, 'set_type'>)}|${r.set_number}|${time(r.created_at)}`,
+  workout_templates: r => String(r.name).trim().toLowerCase(),
+  settings: () => 'settings',
+  volume_landmarks: r => String(r.muscle_group),
+  muscle_recovery: r => `${r.session_id}|${r.muscle_group}`,
+  pain_reports: r => `${r.region}|${time(r.reported_at)}|${r.log_id ?? ''}`,
+  deload_events: r => `${time(r.start_date)}`,
+};
+
+export interface ForeignKey {
+  field: string;
+  table: BackupTable;
+  required: boolean;
+}
+
+export const FOREIGN_KEYS: Partial<Record<BackupTable, ForeignKey[]>> = {
+  microcycles: [{ field: 'mesocycle_id', table: 'mesocycles', required: true }],
+  workout_sessions: [{ field: 'microcycle_id', table: 'microcycles', required: true }],
+  session_exercises: [
+    { field: 'session_id', table: 'workout_sessions', required: true },
+    { field: 'exercise_id', table: 'exercises', required: true },
+  ],
+  logs: [
+    { field: 'session_exercise_id', table: 'session_exercises', required: true },
+    { field: 'session_id', table: 'workout_sessions', required: true },
+    { field: 'exercise_id', table: 'exercises', required: true },
+  ],
+  muscle_recovery: [
+    { field: 'session_id', table: 'workout_sessions', required: true },
+    { field: 'trained_session_id', table: 'workout_sessions', required: true },
+  ],
+  pain_reports: [
+    { field: 'exercise_id', table: 'exercises', required: false },
+    { field: 'session_id', table: 'workout_sessions', required: false },
+    { field: 'log_id', table: 'logs', required: false },
+  ],
+  deload_events: [{ field: 'microcycle_id', table: 'microcycles', required: false }],
+};
+
+// Tables a table's records refer to
+const referencedTables = (table: BackupTable): BackupTable[] => [
+  ...(FOREIGN_KEYS[table] ?? []).map(fk => fk.table),
+  ...(table === 'workout_templates' ? ['exercises' as const] : []),
+];
+
+export interface SkippedRecord {
+  record: AnyRecord;
+  reason: string;
+}
+
+export interface TablePlan {
+  added: AnyRecord[];
+  updated: AnyRecord[];
+  skipped: SkippedRecord[];
+  deleted: number; // Current records cleared by a replace
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  tables: Partial<Record<BackupTable, TablePlan>>;
+  e1rm_formula?: E1RMFormula;
+}
+
+/**
+ * Work out every write an import would make, without making it. `existing`
+ * is the current data; the returned records carry their final IDs.
+ */
+export function planImport(backup: Backup, existing: BackupData, mode: ImportMode): ImportPlan {
+  const idMaps = {} as Record<BackupTable, Map<number, number>>;
+  const tables: ImportPlan['tables'] = {};
+
+  // A reference into a table the backup doesn't include points at current data
+  const resolve = (table: BackupTable, refId: unknown): number | undefined => {
+    if (typeof refId !== 'number') return undefined;
+    const mapped = idMaps[table]?.get(refId);
+    if (mapped !== undefined) return mapped;
+    if (backup[table] === undefined && (existing[table] ?? []).some(r => r.id === refId)) return refId;
+    return undefined;
+  };
+
+  for (const table of BACKUP_TABLES) {
+    if (!backup[table]) continue;
+    const incoming = getTableRecords(backup, table);
+    const current = getTableRecords(existing, table);
+    const replacing = mode === 'replace';
+    const plan: TablePlan = { added: [], updated: [], skipped: [], deleted: replacing ? current.length : 0 };
+    const idMap = new Map<number, number>();
+    idMaps[table] = idMap;
+
+    const byKey = new Map<string, AnyRecord>();
+    if (!replacing) {
+      for (const record of current) byKey.set(NATURAL_KEYS[table](record), record);
+    }
+    const usedIds = new Set(replacing ? [] : current.map(r => r.id!));
+    let nextId = Math.max(0, ...(replacing ? incoming : [...current, ...incoming]).map(r => r.id ?? 0)) + 1;
+
+    for (const source of incoming) {
+      const remapped = remapReferences(table, source, resolve);
+      if (typeof remapped === 'string') {
+        plan.skipped.push({ record: source, reason: remapped });
+        continue;
+      }
+
+      const key = NATURAL_KEYS[table](remapped);
+      const match = byKey.get(key);
+      if (match) {
+        if (source.id !== undefined) idMap.set(source.id, match.id!);
+        const merged = { ...match, ...remapped, id: match.id };
+        if (mode === 'skip') {
+          plan.skipped.push({ record: source, reason: 'Already exists' });
+        } else if (isSameRecord(match, merged)) {
+          plan.skipped.push({ record: source, reason: 'Unchanged' });
+        } else {
+          plan.updated.push(merged);
+        }
+        continue;
+      }
+
+      // Replacing keeps the backup's IDs; otherwise new records go after the current ones
+      let newId = replacing && source.id !== undefined && !usedIds.has(source.id) ? source.id : nextId++;
+      while (usedIds.has(newId)) newId = nextId++;
+      usedIds.add(newId);
+      if (source.id !== undefined) idMap.set(source.id, newId);
+
+      const added = { ...remapped, id: newId };
+      byKey.set(key, added);
+      plan.added.push(added);
+    }
+
+    tables[table] = plan;
+  }
+
+  remapLateReferences(tables, backup, resolve);
+
+  // A replaced table gets new IDs, so records the backup leaves out that
+  // refer to it would point at the wrong records; they're cleared too
+  if (mode === 'replace') {
+    for (const table of BACKUP_TABLES) {
+      if (tables[table] || !referencedTables(table).some(ref => tables[ref])) continue;
+      tables[table] = { added: [], updated: [], skipped: [], deleted: getTableRecords(existing, table).length };
+    }
+  }
+
+  return { mode, tables, e1rm_formula: backup.e1rm_formula };
+}
+
+/**
+ * Foreign keys pointed at planned IDs, or the reason the record can't be
+ * imported when a required reference is missing
+ */
+function remapReferences(
+  table: BackupTable,
+  source: AnyRecord,
+  resolve: (table: BackupTable, refId: unknown) => number | undefined
+): AnyRecord | string {
+  const { id: _id, ...record } = source;
+
+  for (const fk of FOREIGN_KEYS[table] ?? []) {
+    const refId = record[fk.field];
+    if (refId === undefined) continue;
+
+    const mapped = resolve(fk.table, refId);
+    if (mapped !== undefined) {
+      record[fk.field] = mapped;
+    } else if (fk.required) {
+      return `Missing ${BACKUP_TABLE_LABELS[fk.table].toLowerCase()} #${refId}`;
+    } else {
+      delete record[fk.field];
+    }
+  }
+
+  // Parents logged earlier are already planned; later ones are fixed up afterwards
+  if (table === 'logs' && record.parent_log_id !== undefined) {
+    const parentId = resolve('logs', record.parent_log_id);
+    if (parentId !== undefined) record.parent_log_id = parentId;
+  }
+
+  if (table === 'workout_templates') {
+    const templateExercises = getNestedRecords(record.exercises);
+    const exercises = templateExercises.flatMap(ex => {
+      const exerciseId = resolve('exercises', ex.exercise_id);
+      return exerciseId !== undefined ? [{ ...ex, exercise_id: exerciseId }] : [];
+    });
+    if (exercises.length < templateExercises.length) {
+      return 'Missing exercises';
+    }
+    record.exercises = exercises;
+  }
+
+  return record;
+}
+
+/**
+ * References that can only be resolved once their own table is planned:
+ * a cluster set's parent set, and the session exercises a readiness
+ * check-in adjusted (sessions are planned before their exercises)
+ */
+function remapLateReferences(
+  tables: ImportPlan['tables'],
+  backup: Backup,
+  resolve: (table: BackupTable, refId: unknown) => number | undefined
+) {
+  const logs = tables.logs;
+  if (logs && backup.logs) {
+    const planned = new Map([...logs.added, ...logs.updated].map(log => [log.id!, log]));
+    for (const source of backup.logs) {
+      if (source.id === undefined || source.parent_log_id === undefined) continue;
+      const log = planned.get(resolve('logs', source.id) ?? -1);
+      if (!log) continue;
+      const parentId = resolve('logs', source.parent_log_id);
+      if (parentId !== undefined) log.parent_log_id = parentId;
+      else delete log.parent_log_id;
+    }
+  }
+
+  const sessions = tables.workout_sessions;
+  if (sessions) {
+    for (const session of [...sessions.added, ...sessions.updated]) {
+      if (!isRecord(session.readiness)) continue;
+      session.readiness = {
+        ...session.readiness,
+        adjustments: getNestedRecords(session.readiness.adjustments).flatMap(adj => {
+          const sessionExerciseId = resolve('session_exercises', adj.session_exercise_id);
+          return sessionExerciseId !== undefined ? [{ ...adj, session_exercise_id: sessionExerciseId }] : [];
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * JSON with keys sorted at every level, so equal records always serialize
+ * the same
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).sort().filter(key => record[key] !== undefined);
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isSameRecord(a: AnyRecord, b: AnyRecord): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+export interface ImportSummaryRow {
+  table: BackupTable;
+  added: number;
+  updated: number;
+  skipped: number;
+  deleted: number;
+}
+
+export function summarizeImportPlan(plan: ImportPlan): ImportSummaryRow[] {
+  return BACKUP_TABLES.flatMap(table => {
+    const tablePlan = plan.tables[table];
+    if (!tablePlan) return [];
+    return [{
+      table,
+      added: tablePlan.added.length,
+      updated: tablePlan.updated.length,
+      skipped: tablePlan.skipped.length,
+      deleted: tablePlan.deleted,
+    }];
+  });
+}
+
+/**
+ * Whether applying the plan would overwrite or remove current data
+ */
+export function isDestructiveImport(plan: ImportPlan): boolean {
+  return Object.values(plan.tables).some(table => table.deleted > 0 || table.updated.length > 0);
+}
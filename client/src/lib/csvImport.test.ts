@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectCSVSource,
+  getImportedExerciseNames,
+  matchExerciseName,
+  parseCSV,
+  parseWorkoutCSV,
+  planCSVImport,
+  rpeToRIR,
+  DEFAULT_IMPORTED_RIR,
+} from './csvImport';
+import { calculateE1RM } from './e1rm';
+import type { Exercise } from './db';
+
+const exercise = (id: number, name: string): Exercise => ({
+  id,
+  name,
+  muscle_group: 'Chest',
+  is_custom: false,
+  created_at: new Date(2024, 0, 1),
+});
+
+const library = [
+  exercise(1, 'Barbell Bench Press'),
+  exercise(2, 'Pull-ups'),
+  exercise(3, 'Lateral Raise'),
+  exercise(4, 'Barbell Squat'),
+];
+
+const STRONG = [
+  'Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE',
+  '2024-01-02 18:00:00,Push,1h 5m,Bench Press (Barbell),W,60,10,0,0,,,',
+  '2024-01-02 18:00:00,Push,1h 5m,Bench Press (Barbell),1,100,8,0,0,"Paused, felt good",,8',
+  '2024-01-02 18:00:00,Push,1h 5m,Bench Press (Barbell),D,80,6,0,0,,,',
+  '2024-01-02 18:00:00,Push,1h 5m,Running,1,0,0,5,1800,,,',
+  '2024-01-09 18:00:00,Push,45m,Bench Press (Barbell),1,102.5,8,0,0,,,9.5',
+].join('\n');
+
+const HEVY = [
+  '"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_lbs","reps","distance_miles","duration_seconds","rpe"',
+  '"Pull","15 Jan 2024, 07:30","15 Jan 2024, 08:20","","Pull Up","0","","0","normal","","10","","",""',
+  '"Pull","15 Jan 2024, 07:30","15 Jan 2024, 08:20","","Lateral Raise (Dumbbell)","0","","0","failure","25","15","","",""',
+].join('\n');
+
+const FITNOTES = [
+  'Date,Exercise,Category,Weight (kgs),Reps,Distance,Distance Unit,Time,Comment',
+  '2024-01-03,Squat (Barbell),Legs,120.0,5,,,,',
+  '2024-01-03,Cable Crossover,Chest,20.0,12,,,,',
+].join('\n');
+
+describe('CSV Parsing', () => {
+  it('should handle quoted fields, doubled quotes and line breaks', () => {
+    expect(parseCSV('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('should detect semicolon-separated files', () => {
+    expect(parseCSV('a;b\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  it('should recognize each app by its header', () => {
+    expect(detectCSVSource(parseCSV(STRONG)[0])).toBe('strong');
+    expect(detectCSVSource(parseCSV(HEVY)[0])).toBe('hevy');
+    expect(detectCSVSource(parseCSV(FITNOTES)[0])).toBe('fitnotes');
+    expect(detectCSVSource(['foo', 'bar'])).toBeUndefined();
+  });
+
+  it('should convert RPE to RIR', () => {
+    expect(rpeToRIR(10)).toBe(0);
+    expect(rpeToRIR(8)).toBe(2);
+    expect(rpeToRIR(7.5)).toBe(3);
+    expect(rpeToRIR(5)).toBe(5);
+  });
+});
+
+describe('Workout Exports', () => {
+  it('should read Strong workouts with set types, RPE and duration', () => {
+    const result = parseWorkoutCSV(STRONG, 'kg');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.source).toBe('strong');
+    expect(result.workouts).toHaveLength(2);
+    const [first] = result.workouts;
+    expect(first.endedAt).toEqual(new Date(2024, 0, 2, 19, 5));
+    expect(first.sets.map(s => [s.setType, s.weight, s.reps, s.rir])).toEqual([
+      ['warmup', 60, 10, undefined],
+      ['working', 100, 8, 2],
+      ['drop', 80, 6, undefined],
+    ]);
+    expect(first.sets[1].notes).toBe('Paused, felt good');
+    expect(result.skippedRows).toEqual([{ row: 5, reason: 'No reps (cardio or timed set)' }]);
+  });
+
+  it('should report skipped rows by the line they start on', () => {
+    const lines = STRONG.split('\n');
+    const text = [
+      lines[0],
+      '',
+      lines[2].replace('"Paused, felt good"', '"Paused,\nfelt good"'),
+      lines[4],
+      '',
+      lines[1].replace('Bench Press (Barbell)', ''),
+    ].join('\r\n');
+    const result = parseWorkoutCSV(text, 'kg');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.workouts[0].sets[0].notes).toBe('Paused,\nfelt good');
+    expect(result.skippedRows).toEqual([
+      { row: 5, reason: 'No reps (cardio or timed set)' },
+      { row: 7, reason: 'No exercise' },
+    ]);
+  });
+
+  it('should read Hevy workouts in the unit named by the weight column', () => {
+    const result = parseWorkoutCSV(HEVY, 'kg');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.weightUnit).toBe('lb');
+    expect(result.workouts[0]).toMatchObject({
+      name: 'Pull',
+      startedAt: new Date(2024, 0, 15, 7, 30),
+      endedAt: new Date(2024, 0, 15, 8, 20),
+    });
+    // Failure sets have no reps left; bodyweight sets have no load
+    expect(result.workouts[0].sets.map(s => [s.weight, s.rir, s.supersetId])).toEqual([[0, undefined, '0'], [25, 0, '0']]);
+  });
+
+  it('should group FitNotes sets by day and name the workout by category', () => {
+    const result = parseWorkoutCSV(FITNOTES, 'lb');
+    if (!result.success) throw new Error(result.error);
+
+    expect(result.weightUnit).toBe('kg');
+    expect(result.workouts).toHaveLength(1);
+    expect(result.workouts[0].name).toBe('Legs & Chest');
+  });
+
+  it('should reject files from other apps', () => {
+    expect(parseWorkoutCSV('foo,bar\n1,2', 'kg')).toEqual({ success: false, error: 'Not a Strong, Hevy or FitNotes export' });
+  });
+});
+
+describe('Exercise Name Matching', () => {
+  it('should match names regardless of word order and equipment notes', () => {
+    expect(matchExerciseName('Bench Press (Barbell)', library)).toEqual({ exerciseId: 1, exact: true });
+    expect(matchExerciseName('Pull Up', library)).toEqual({ exerciseId: 2, exact: true });
+    expect(matchExerciseName('Squat (Barbell)', library)).toEqual({ exerciseId: 4, exact: true });
+  });
+
+  it('should only suggest close names and leave unrelated ones unmatched', () => {
+    expect(matchExerciseName('Lateral Raise (Dumbbell)', library)).toEqual({ exerciseId: 3, exact: false });
+    expect(matchExerciseName('Cable Crossover', library)).toEqual({ exact: false });
+  });
+
+  it('should list names needing review first with a guessed muscle group', () => {
+    const result = parseWorkoutCSV(FITNOTES, 'kg');
+    if (!result.success) throw new Error(result.error);
+    const names = getImportedExerciseNames(result.workouts, library);
+
+    expect(names.map(n => n.name)).toEqual(['Cable Crossover', 'Squat (Barbell)']);
+    expect(names[0].muscleGroup).toBe('Chest');
+  });
+});
+
+describe('CSV Import Planning', () => {
+  const result = parseWorkoutCSV(STRONG, 'kg');
+  if (!result.success) throw new Error(result.error);
+  const plan = planCSVImport(result.workouts, 'strong', 'kg', new Map([['Bench Press (Barbell)', 1]]), 'epley', new Date(2024, 1, 1))!;
+
+  it('should put each calendar week trained into its own microcycle', () => {
+    expect(plan.mesocycle).toMatchObject({ name: 'Strong history', is_active: false, start_date: new Date(2024, 0, 1) });
+    expect(plan.weeks.map(w => w.microcycle.week_number)).toEqual([1, 2]);
+    expect(plan.setCount).toBe(4);
+  });
+
+  it('should rebuild logs with e1RM and targets from the sets done', () => {
+    const [{ sessionExercise, logs }] = plan.weeks[0].sessions[0].exercises;
+
+    expect(plan.weeks[0].sessions[0].session).toMatchObject({ name: 'Push', is_completed: true });
+    expect(sessionExercise).toMatchObject({ exercise_id: 1, target_sets: 1, target_reps_min: 8, target_rir: 2 });
+    expect(logs.map(l => [l.set_number, l.set_type])).toEqual([[1, 'warmup'], [2, undefined], [3, 'drop']]);
+    expect(logs[1].e1rm).toBeCloseTo(calculateE1RM(100, 8, 2, 'epley'));
+    expect(logs[2].rir).toBe(DEFAULT_IMPORTED_RIR);
+    expect(logs[1].created_at > logs[0].created_at).toBe(true);
+  });
+
+  it('should leave out unmapped exercises', () => {
+    expect(planCSVImport(result.workouts, 'strong', 'kg', new Map(), 'epley')).toBeUndefined();
+  });
+});
@@ -0,0 +1,562 @@
+import { addDays, addSeconds, differenceInCalendarWeeks, isValid, parse, startOfWeek } from 'date-fns';
+import type {
+  E1RMFormula,
+  Exercise,
+  Log,
+  Mesocycle,
+  Microcycle,
+  MuscleGroup,
+  SessionExercise,
+  SetType,
+  WeightUnit,
+  WorkoutSession,
+} from './db';
+import { calculateE1RM } from './e1rm';
+import { SUPERSET_GROUP_LABELS } from './supersets';
+
+/**
+ * Workout history import for HypertrophyOS
+ * Reads the CSV exports of Strong, Hevy and FitNotes, matches their
+ * exercise names to the library and rebuilds them as sessions, session
+ * exercises and logs.
+ */
+
+export type CSVSource = 'strong' | 'hevy' | 'fitnotes';
+
+export const CSV_SOURCE_LABELS: Record<CSVSource, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  fitnotes: 'FitNotes',
+};
+
+// RIR assumed for sets exported without an RPE
+export const DEFAULT_IMPORTED_RIR = 2;
+
+// Token overlap needed before a library exercise is suggested for a name
+const MIN_MATCH_SCORE = 0.5;
+
+interface CSVRow {
+  line: number; // 1-based line in the file the row starts on
+  values: string[];
+}
+
+/**
+ * Rows of a CSV file. Quoted fields may contain the delimiter, doubled
+ * quotes and line breaks; the delimiter (comma or semicolon) is taken
+ * from the header line.
+ */
+export function parseCSV(text: string): string[][] {
+  return parseCSVRows(text).map(row => row.values);
+}
+
+/**
+ * Rows of a CSV file with the line each starts on, which blank lines and
+ * line breaks inside quoted fields keep from matching the row's index
+ */
+function parseCSVRows(text: string): CSVRow[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+
+  const rows: CSVRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, values: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, values: row });
+  }
+
+  return rows.filter(r => r.values.some(value => value.trim() !== ''));
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+export function detectCSVSource(header: string[]): CSVSource | undefined {
+  const columns = header.map(normalizeHeader);
+  if (columns.includes('exercise_title') && columns.includes('set_index')) return 'hevy';
+  if (columns.includes('exercise name') && columns.includes('set order')) return 'strong';
+  if (columns.includes('exercise') && columns.includes('category')) return 'fitnotes';
+  return undefined;
+}
+
+export interface ImportedSet {
+  exerciseName: string;
+  category?: string; // FitNotes' own muscle category
+  setType: SetType;
+  weight: number;
+  reps: number;
+  rir?: number; // From RPE, when the app recorded one
+  notes?: string;
+  supersetId?: string;
+}
+
+export interface ImportedWorkout {
+  name: string;
+  startedAt: Date;
+  endedAt?: Date;
+  sets: ImportedSet[]; // In the order they were performed
+}
+
+export interface SkippedRow {
+  row: number; // 1-based row in the file, header included
+  reason: string;
+}
+
+export interface ParsedWorkoutCSV {
+  success: true;
+  source: CSVSource;
+  weightUnit: WeightUnit;
+  workouts: ImportedWorkout[];
+  skippedRows: SkippedRow[];
+}
+
+export type WorkoutCSVResult = ParsedWorkoutCSV | { success: false; error: string };
+
+/**
+ * RIR implied by an RPE (RPE 10 = no reps left)
+ */
+export function rpeToRIR(rpe: number): number {
+  return Math.max(0, Math.round(10 - rpe));
+}
+
+const DATE_FORMATS: Record<CSVSource, string[]> = {
+  strong: ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm'],
+  hevy: ['d MMM yyyy, HH:mm', 'd MMM yyyy HH:mm', 'yyyy-MM-dd HH:mm:ss'],
+  fitnotes: ['yyyy-MM-dd'],
+};
+
+function parseDate(value: string, source: CSVSource): Date | undefined {
+  for (const format of DATE_FORMATS[source]) {
+    const date = parse(value.trim(), format, new Date(0));
+    if (isValid(date)) return date;
+  }
+  const fallback = new Date(value);
+  return isValid(fallback) ? fallback : undefined;
+}
+
+/**
+ * Seconds in a Strong duration: plain seconds or "1h 5m"
+ */
+function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+  const hours = trimmed.match(/(\d+)\s*h/);
+  const minutes = trimmed.match(/(\d+)\s*m(?!s)/);
+  const seconds = trimmed.match(/(\d+)\s*s/);
+  if (!hours && !minutes && !seconds) return undefined;
+  return (parseInt(hours?.[1] ?? '0') * 60 + parseInt(minutes?.[1] ?? '0')) * 60 + parseInt(seconds?.[1] ?? '0');
+}
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = parseFloat(value.replace(',', '.'));
+  return isNaN(number) ? undefined : number;
+};
+
+/**
+ * Unit named in a weight column, e.g. "Weight (kgs)" or "weight_lbs"
+ */
+function getColumnUnit(column: string): WeightUnit | undefined {
+  if (/\b(kg|kgs)\b|_kg$/.test(column)) return 'kg';
+  if (/\b(lb|lbs)\b|_lbs?$/.test(column)) return 'lb';
+  return undefined;
+}
+
+const STRONG_SET_TYPES: Record<string, SetType> = { w: 'warmup', d: 'drop' };
+const HEVY_SET_TYPES: Record<string, SetType> = { warmup: 'warmup', dropset: 'drop' };
+
+interface ColumnReader {
+  (row: string[], ...names: string[]): string | undefined;
+}
+
+/**
+ * Workouts in a Strong, Hevy or FitNotes export. `fallbackUnit` is used
+ * when the weight column doesn't name its unit.
+ */
+export function parseWorkoutCSV(text: string, fallbackUnit: WeightUnit, source?: CSVSource): WorkoutCSVResult {
+  const [headerRow, ...rows] = parseCSVRows(text);
+  const header = headerRow?.values;
+  if (!header) return { success: false, error: 'The file is empty' };
+
+  const detected = source ?? detectCSVSource(header);
+  if (!detected) return { success: false, error: 'Not a Strong, Hevy or FitNotes export' };
+
+  const columns = header.map(normalizeHeader);
+  const read: ColumnReader = (row, ...names) => {
+    for (const name of names) {
+      const index = columns.indexOf(name);
+      if (index >= 0) return row[index]?.trim();
+    }
+    return undefined;
+  };
+  const weightColumn = columns.find(c => c.startsWith('weight'));
+  const weightUnit = (weightColumn && getColumnUnit(weightColumn)) || fallbackUnit;
+
+  const workouts = new Map<string, ImportedWorkout>();
+  const skippedRows: SkippedRow[] = [];
+
+  rows.forEach(({ line, values: row }) => {
+    const exerciseName = read(row, 'exercise name', 'exercise_title', 'exercise');
+    const dateValue = read(row, 'date', 'start_time');
+    const date = dateValue ? parseDate(dateValue, detected) : undefined;
+    if (!exerciseName || !date) {
+      skippedRows.push({ row: line, reason: !exerciseName ? 'No exercise' : 'Unreadable date' });
+      return;
+    }
+
+    const reps = parseNumber(read(row, 'reps'));
+    if (!reps) {
+      skippedRows.push({ row: line, reason: 'No reps (cardio or timed set)' });
+      return;
+    }
+
+    let setType: SetType = 'working';
+    let rir: number | undefined;
+    const rpe = parseNumber(read(row, 'rpe'));
+    if (rpe !== undefined) rir = rpeToRIR(rpe);
+    if (detected === 'strong') {
+      const order = read(row, 'set order')?.toLowerCase() ?? '';
+      setType = STRONG_SET_TYPES[order] ?? 'working';
+      if (order === 'f') rir = 0;
+    } else if (detected === 'hevy') {
+      const type = read(row, 'set_type')?.toLowerCase() ?? '';
+      setType = HEVY_SET_TYPES[type] ?? 'working';
+      if (type === 'failure') rir = 0;
+    }
+
+    const workoutName = detected === 'fitnotes' ? 'Workout' : read(row, 'workout name', 'title') || 'Workout';
+    const key = `${workoutName}|${date.getTime()}`;
+    let workout = workouts.get(key);
+    if (!workout) {
+      workout = { name: workoutName, startedAt: date, sets: [] };
+      if (detected === 'hevy') {
+        const end = read(row, 'end_time');
+        workout.endedAt = end ? parseDate(end, detected) : undefined;
+      } else if (detected === 'strong') {
+        const duration = parseDuration(read(row, 'duration', 'duration (sec)') ?? '');
+        if (duration) workout.endedAt = addSeconds(date, duration);
+      }
+      workouts.set(key, workout);
+    }
+
+    const supersetId = detected === 'hevy' ? read(row, 'superset_id') : undefined;
+    workout.sets.push({
+      exerciseName,
+      category: detected === 'fitnotes' ? read(row, 'category') : undefined,
+      setType,
+      weight: parseNumber(weightColumn ? read(row, weightColumn) : undefined) ?? 0,
+      reps: Math.round(reps),
+      rir,
+      notes: read(row, 'notes', 'exercise_notes', 'comment') || undefined,
+      supersetId: supersetId || undefined,
+    });
+  });
+
+  // FitNotes has no workout names; use the categories trained that day
+  if (detected === 'fitnotes') {
+    for (const workout of Array.from(workouts.values())) {
+      const categories = Array.from(new Set(workout.sets.map(s => s.category).filter(Boolean)));
+      if (categories.length > 0) workout.name = categories.join(' & ');
+    }
+  }
+
+  return {
+    success: true,
+    source: detected,
+    weightUnit,
+    workouts: Array.from(workouts.values()).sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime()),
+    skippedRows,
+  };
+}
+
+const NAME_SYNONYMS: Record<string, string> = {
+  db: 'dumbbell',
+  bb: 'barbell',
+  ohp: 'overhead press',
+  rdl: 'romanian deadlift',
+  pullup: 'pull up',
+  chinup: 'chin up',
+  pushdown: 'push down',
+};
+
+const IGNORED_TOKENS = new Set(['the', 'with', 'on', 'a']);
+
+/**
+ * Words of an exercise name, order-free, so "Bench Press (Barbell)" and
+ * "Barbell Bench Press" compare equal
+ */
+export function getNameTokens(name: string): string[] {
+  const words = name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap(word => (NAME_SYNONYMS[word] ?? word).split(' '))
+    .filter(word => !IGNORED_TOKENS.has(word))
+    .map(word => word.length > 2 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  return Array.from(new Set(words)).sort();
+}
+
+export interface ExerciseMatch {
+  exerciseId?: number;
+  exact: boolean; // Same words; anything else is only a suggestion to review
+}
+
+export function matchExerciseName(name: string, exercises: Exercise[]): ExerciseMatch {
+  const tokens = getNameTokens(name);
+  let best: { exercise: Exercise; score: number } | undefined;
+
+  for (const exercise of exercises) {
+    const candidate = getNameTokens(exercise.name);
+    const shared = candidate.filter(token => tokens.includes(token)).length;
+    const score = shared / new Set([...tokens, ...candidate]).size;
+    if (score === 1) return { exerciseId: exercise.id, exact: true };
+    if (!best || score > best.score) best = { exercise, score };
+  }
+
+  return best && best.score >= MIN_MATCH_SCORE
+    ? { exerciseId: best.exercise.id, exact: false }
+    : { exact: false };
+}
+
+// How an imported name is brought in: as a library exercise, as a new
+// custom exercise, or not at all
+export type ExerciseChoice =
+  | { type: 'existing'; exerciseId: number }
+  | { type: 'new'; muscleGroup: MuscleGroup }
+  | { type: 'skip' };
+
+export interface ImportedExerciseName {
+  name: string;
+  setCount: number;
+  muscleGroup?: MuscleGroup; // Guessed from the exporting app's category
+  match: ExerciseMatch;
+}
+
+const CATEGORY_MUSCLE_GROUPS: Record<string, MuscleGroup> = {
+  chest: 'Chest',
+  back: 'Back',
+  shoulders: 'Shoulders',
+  biceps: 'Biceps',
+  triceps: 'Triceps',
+  legs: 'Quads',
+  quads: 'Quads',
+  hamstrings: 'Hamstrings',
+  glutes: 'Glutes',
+  calves: 'Calves',
+  abs: 'Abs',
+  core: 'Abs',
+  forearms: 'Forearms',
+};
+
+/**
+ * Every exercise name in the import with its best library match, names
+ * needing review first
+ */
+export function getImportedExerciseNames(workouts: ImportedWorkout[], exercises: Exercise[]): ImportedExerciseName[] {
+  const names = new Map<string, ImportedExerciseName>();
+  for (const set of workouts.flatMap(w => w.sets)) {
+    const entry = names.get(set.exerciseName);
+    if (entry) {
+      entry.setCount++;
+    } else {
+      names.set(set.exerciseName, {
+        name: set.exerciseName,
+        setCount: 1,
+        muscleGroup: set.category ? CATEGORY_MUSCLE_GROUPS[set.category.toLowerCase()] : undefined,
+        match: matchExerciseName(set.exerciseName, exercises),
+      });
+    }
+  }
+
+  const rank = ({ match }: ImportedExerciseName) => match.exact ? 2 : match.exerciseId !== undefined ? 1 : 0;
+  return Array.from(names.values()).sort((a, b) => rank(a) - rank(b) || b.setCount - a.setCount);
+}
+
+export interface PlannedSessionExercise {
+  sessionExercise: Omit<SessionExercise, 'id' | 'session_id'>;
+  logs: Omit<Log, 'id' | 'session_exercise_id' | 'session_id' | 'parent_log_id'>[];
+}
+
+export interface PlannedSession {
+  session: Omit<WorkoutSession, 'id' | 'microcycle_id'>;
+  exercises: PlannedSessionExercise[];
+}
+
+export interface PlannedWeek {
+  microcycle: Omit<Microcycle, 'id' | 'mesocycle_id'>;
+  sessions: PlannedSession[];
+}
+
+export interface CSVImportPlan {
+  mesocycle: Omit<Mesocycle, 'id'>;
+  weeks: PlannedWeek[];
+  setCount: number;
+}
+
+/**
+ * Sessions, session exercises and logs for the imported workouts, grouped
+ * into one mesocycle with a week per calendar week trained. Sets of names
+ * missing from `exerciseIds` are left out.
+ */
+export function planCSVImport(
+  workouts: ImportedWorkout[],
+  source: CSVSource,
+  weightUnit: WeightUnit,
+  exerciseIds: Map<string, number>,
+  formula: E1RMFormula,
+  now: Date = new Date()
+): CSVImportPlan | undefined {
+  const sessions = workouts
+    .map(workout => planSession(workout, weightUnit, exerciseIds, formula))
+    .filter(session => session.exercises.length > 0);
+  if (sessions.length === 0) return undefined;
+
+  const firstWeek = startOfWeek(sessions[0].session.scheduled_date, { weekStartsOn: 1 });
+  const weeks = new Map<number, PlannedWeek>();
+  for (const planned of sessions) {
+    const weekNumber = differenceInCalendarWeeks(planned.session.scheduled_date, firstWeek, { weekStartsOn: 1 }) + 1;
+    let week = weeks.get(weekNumber);
+    if (!week) {
+      const start = startOfWeek(planned.session.scheduled_date, { weekStartsOn: 1 });
+      week = {
+        microcycle: {
+          week_number: weekNumber,
+          start_date: start,
+          end_date: addDays(start, 6),
+          created_at: now,
+        },
+        sessions: [],
+      };
+      weeks.set(weekNumber, week);
+    }
+    week.sessions.push(planned);
+  }
+
+  const plannedWeeks = Array.from(weeks.values());
+  const last = sessions[sessions.length - 1].session;
+  return {
+    mesocycle: {
+      name: `${CSV_SOURCE_LABELS[source]} history`,
+      phase_type: 'Hypertrophy',
+      start_date: firstWeek,
+      end_date: last.completed_date ?? last.scheduled_date,
+      set_addition_frequency: 1,
+      is_active: false,
+      created_at: now,
+    },
+    weeks: plannedWeeks,
+    setCount: sessions.reduce((sum, s) => sum + s.exercises.reduce((n, ex) => n + ex.logs.length, 0), 0),
+  };
+}
+
+function planSession(
+  workout: ImportedWorkout,
+  weightUnit: WeightUnit,
+  exerciseIds: Map<string, number>,
+  formula: E1RMFormula
+): PlannedSession {
+  const exercises: PlannedSessionExercise[] = [];
+  const byName = new Map<string, PlannedSessionExercise>();
+  const supersetLabels = new Map<string, string>();
+  let setIndex = 0;
+
+  for (const set of workout.sets) {
+    const exerciseId = exerciseIds.get(set.exerciseName);
+    if (exerciseId === undefined) continue;
+
+    let planned = byName.get(set.exerciseName);
+    if (!planned) {
+      if (set.supersetId && !supersetLabels.has(set.supersetId)) {
+        supersetLabels.set(set.supersetId, SUPERSET_GROUP_LABELS[supersetLabels.size % SUPERSET_GROUP_LABELS.length]);
+      }
+      planned = {
+        sessionExercise: {
+          exercise_id: exerciseId,
+          order_index: exercises.length,
+          target_sets: 0,
+          target_reps_min: set.reps,
+          target_reps_max: set.reps,
+          target_rir: DEFAULT_IMPORTED_RIR,
+          superset_group: set.supersetId ? supersetLabels.get(set.supersetId) : undefined,
+          created_at: workout.startedAt,
+        },
+        logs: [],
+      };
+      byName.set(set.exerciseName, planned);
+      exercises.push(planned);
+    }
+
+    const rir = set.rir ?? DEFAULT_IMPORTED_RIR;
+    // Keeps the original set order when logs are sorted by time
+    const loggedAt = addSeconds(workout.startedAt, setIndex++);
+    planned.logs.push({
+      exercise_id: exerciseId,
+      set_number: planned.logs.length + 1,
+      set_type: set.setType === 'working' ? undefined : set.setType,
+      weight: set.weight,
+      weight_unit: weightUnit,
+      reps: set.reps,
+      rir,
+      target_rir: rir,
+      e1rm: calculateE1RM(set.weight, set.reps, rir, formula),
+      session_date: workout.startedAt,
+      ended_at: loggedAt,
+      notes: set.notes,
+      created_at: loggedAt,
+    });
+  }
+
+  // Targets reflect what was done
+  for (const { sessionExercise, logs } of exercises) {
+    const working = logs.filter(log => !log.set_type);
+    const measured = working.length > 0 ? working : logs;
+    sessionExercise.target_sets = Math.max(1, working.length);
+    sessionExercise.target_reps_min = Math.min(...measured.map(log => log.reps));
+    sessionExercise.target_reps_max = Math.max(...measured.map(log => log.reps));
+    sessionExercise.target_rir = Math.round(measured.reduce((sum, log) => sum + log.rir, 0) / measured.length);
+  }
+
+  return {
+    session: {
+      name: workout.name,
+      scheduled_date: workout.startedAt,
+      started_at: workout.startedAt,
+      completed_date: workout.endedAt ?? workout.startedAt,
+      is_completed: true,
+      created_at: workout.startedAt,
+    },
+    exercises,
+  };
+}
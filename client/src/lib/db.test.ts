@@ -0,0 +1,234 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, it, expect } from 'vitest';
+import Dexie from 'dexie';
+import {
+  declareMigrations,
+  HypertrophyDatabase,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  type Exercise,
+  type Log,
+  type Microcycle,
+} from './db';
+import { getBackupVersion, parseBackup, upgradeBackup } from './backup';
+
+const created = new Date(2024, 0, 1);
+
+const exercises: Exercise[] = [
+  { id: 1, name: 'Deadlift', muscle_group: 'Back', is_custom: false, created_at: created },
+  { id: 2, name: 'Deadlift', muscle_group: 'Back', is_custom: true, created_at: created },
+];
+
+const microcycles: Microcycle[] = [
+  { id: 1, mesocycle_id: 1, week_number: 1, start_date: created, end_date: new Date(2024, 0, 7), created_at: created },
+  { id: 2, mesocycle_id: 1, week_number: 2, start_date: new Date(2024, 0, 8), end_date: new Date(2024, 0, 14), is_deload: true, created_at: created },
+];
+
+const logs: Log[] = [
+  {
+    id: 1,
+    session_exercise_id: 1,
+    session_id: 1,
+    exercise_id: 1,
+    set_number: 1,
+    weight: 140,
+    reps: 5,
+    rir: 2,
+    target_rir: 2,
+    e1rm: 157.5, // Brzycki without RIR, as stored before version 8
+    session_date: created,
+    created_at: created,
+  },
+  {
+    id: 2,
+    session_exercise_id: 2,
+    session_id: 2,
+    exercise_id: 1,
+    set_number: 1,
+    weight: 150,
+    reps: 5,
+    rir: 2,
+    target_rir: 2,
+    session_date: new Date(2024, 0, 4),
+    created_at: new Date(2024, 0, 4),
+  },
+];
+
+let databaseCount = 0;
+const openDatabases: Dexie[] = [];
+
+/**
+ * A database created at `version` with fixture data in the tables that
+ * existed then, closed so it can be reopened at the current schema
+ */
+async function createDatabaseAt(version: number): Promise<string> {
+  const name = `HypertrophyOS-migration-${++databaseCount}`;
+  const old = new Dexie(name);
+  declareMigrations(old, MIGRATIONS.filter(m => m.version <= version));
+  await old.open();
+
+  await old.table('exercises').bulkAdd(exercises);
+  await old.table('microcycles').bulkAdd(microcycles);
+  await old.table('logs').bulkAdd(logs);
+  old.close();
+  return name;
+}
+
+async function openCurrent(name: string): Promise<HypertrophyDatabase> {
+  const database = new HypertrophyDatabase(name);
+  openDatabases.push(database);
+  await database.open();
+  return database;
+}
+
+afterEach(async () => {
+  for (const database of openDatabases.splice(0)) {
+    database.close();
+    await Dexie.delete(database.name);
+  }
+});
+
+// What v8 makes of the 140 × 5 @ 2 RIR log
+const V8_E1RM = 140 * (1 + 7 / 30);
+
+describe('Database Migrations', () => {
+  it('should number migrations in order without gaps', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('should declare the tables each upgrade touches', () => {
+    const tablesByVersion = new Set<string>();
+    for (const migration of MIGRATIONS) {
+      Object.keys(migration.stores).forEach(table => tablesByVersion.add(table));
+      if (migration.upgrade) expect(migration.tables?.length).toBeGreaterThan(0);
+      for (const table of migration.tables ?? []) expect(tablesByVersion.has(table)).toBe(true);
+    }
+  });
+
+  // Every version a user could still be on upgrades to the current schema
+  for (const migration of MIGRATIONS.slice(0, -1)) {
+    it(`should upgrade a version ${migration.version} database`, async () => {
+      const database = await openCurrent(await createDatabaseAt(migration.version));
+
+      expect(database.verno).toBe(SCHEMA_VERSION);
+      expect(database.tables.map(t => t.name).sort()).toEqual(
+        Array.from(new Set(MIGRATIONS.flatMap(m => Object.keys(m.stores)))).sort()
+      );
+      expect(await database.exercises.count()).toBe(exercises.length);
+      expect(await database.microcycles.count()).toBe(microcycles.length);
+
+      const [library, custom] = await database.exercises.toArray();
+      if (migration.version < 4) expect(library.secondary_muscles).toBeDefined();
+      if (migration.version < 5) expect(library.movement_pattern).toBe('hinge');
+      expect(custom.secondary_muscles).toBeUndefined();
+
+      const log = await database.logs.get(1);
+      if (migration.version < 8) {
+        // Epley on reps + RIR, as v8 computed it whatever the current default
+        expect(log?.e1rm).toBeCloseTo(V8_E1RM);
+      } else {
+        expect(log?.e1rm).toBe(157.5);
+      }
+      if (migration.version < 7) expect(await database.personal_records.count()).toBeGreaterThan(0);
+
+      const events = await database.deload_events.toArray();
+      expect(events).toHaveLength(migration.version < 11 ? 1 : 0);
+      if (migration.version < 11) {
+        expect(events[0]).toMatchObject({ microcycle_id: 2, source: 'planned', start_date: new Date(2024, 0, 8) });
+      }
+    });
+  }
+
+  it('should open a new database at the current schema', async () => {
+    const database = await openCurrent(`HypertrophyOS-migration-${++databaseCount}`);
+
+    expect(database.verno).toBe(SCHEMA_VERSION);
+    expect(await database.exercises.count()).toBe(0);
+  });
+});
+
+describe('Backup Upgrades', () => {
+  // A backup as exported before the format version followed the schema
+  const legacy = JSON.parse(JSON.stringify({
+    version: '1.0',
+    exercises,
+    microcycles,
+    logs,
+  }));
+
+  it('should infer the schema of legacy backups from their contents', () => {
+    expect(getBackupVersion(legacy)).toBe(1);
+    expect(getBackupVersion({ ...legacy, e1rm_formula: 'epley' })).toBe(8);
+    expect(getBackupVersion({ ...legacy, muscle_recovery: [] })).toBe(9);
+    expect(getBackupVersion({ ...legacy, deload_events: [] })).toBe(11);
+    expect(getBackupVersion({ version: SCHEMA_VERSION })).toBe(SCHEMA_VERSION);
+  });
+
+  it('should run old backups through the same migrations as the database', () => {
+    const upgraded = upgradeBackup(legacy);
+
+    expect(upgraded.version).toBe(SCHEMA_VERSION);
+    expect((upgraded.exercises as Exercise[])[0].movement_pattern).toBe('hinge');
+    expect((upgraded.logs as Log[])[0].e1rm).toBeCloseTo(V8_E1RM);
+    expect(upgraded.deload_events).toMatchObject([{ microcycle_id: 2, source: 'planned' }]);
+    // Personal records are rebuilt on import rather than carried in backups
+    expect(upgraded.personal_records).toBeUndefined();
+    // The parsed file itself is left alone
+    expect(legacy.deload_events).toBeUndefined();
+  });
+
+  it('should not re-run migrations a backup already has', () => {
+    const current = { ...legacy, version: SCHEMA_VERSION };
+
+    expect((upgradeBackup(current).logs as Log[])[0].e1rm).toBe(157.5);
+  });
+
+  it('should refuse backups from a newer schema', () => {
+    const result = parseBackup({ ...legacy, version: SCHEMA_VERSION + 1 });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should parse upgraded backups with dates restored', () => {
+    const result = parseBackup(legacy);
+    if (!result.success) throw new Error(result.errors.join('\n'));
+
+    expect(result.backup.version).toBe(SCHEMA_VERSION);
+    expect(result.backup.deload_events?.[0].start_date).toEqual(new Date(2024, 0, 8));
+  });
+});
+
+describe('Local Changes', () => {
+  const changedAt = async (database: HypertrophyDatabase, table: 'exercises' | 'logs', id: number) =>
+    (await database.local_changes.get([table, id]))?.modified_at;
+
+  it('should record when synced records are written or deleted', async () => {
+    const database = await openCurrent(`HypertrophyOS-changes-${++databaseCount}`);
+    const before = Date.now();
+
+    await database.exercises.bulkAdd(exercises);
+    await database.transaction('rw', database.logs, async () => {
+      await database.logs.add(logs[0]);
+      await database.logs.update(1, { reps: 6 });
+    });
+    expect(await changedAt(database, 'exercises', 2)).toBeGreaterThanOrEqual(before);
+    expect(await changedAt(database, 'logs', 1)).toBeGreaterThanOrEqual(before);
+
+    await database.local_changes.clear();
+    await database.exercises.where('id').equals(2).delete();
+    await database.logs.clear();
+    await database.exercises.update(1, { notes: 'Straps' });
+
+    expect(await database.local_changes.count()).toBe(3);
+    expect(await changedAt(database, 'logs', 1)).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should not count schema upgrades as changes', async () => {
+    const database = await openCurrent(await createDatabaseAt(3));
+
+    expect(await database.local_changes.count()).toBe(0);
+    await database.settings.add({ weight_unit: 'kg', updated_at: created });
+    expect(await database.local_changes.count()).toBe(1);
+  });
+});
@@ -1,13 +1,36 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type DBCore, type DBCoreTransaction, type EntityTable, type Middleware, type Table } from 'dexie';
+import { isSyncTable, type SyncTable } from '@shared/sync';
+import { DEFAULT_E1RM_FORMULA } from './e1rm';
 
 // Type definitions for database tables
 export type PhaseType = 'Hypertrophy' | 'Metabolite' | 'Resensitization' | 'Deload';
 export type MuscleGroup = 'Chest' | 'Back' | 'Shoulders' | 'Biceps' | 'Triceps' | 'Quads' | 'Hamstrings' | 'Glutes' | 'Calves' | 'Abs' | 'Forearms';
+export type WeightUnit = 'kg' | 'lb';
+export type SetType = 'warmup' | 'working' | 'drop' | 'myo_rep' | 'rest_pause';
+export type E1RMFormula = 'epley' | 'brzycki' | 'lombardi' | 'mayhew' | 'rts';
+
+export type Equipment = 'barbell' | 'dumbbell' | 'cable' | 'machine' | 'bodyweight';
+export type MovementPattern =
+  | 'horizontal_push' | 'vertical_push' | 'horizontal_pull' | 'vertical_pull'
+  | 'squat' | 'hinge' | 'lunge' | 'hip_thrust'
+  | 'knee_extension' | 'knee_flexion' | 'elbow_flexion' | 'elbow_extension'
+  | 'chest_fly' | 'lateral_raise' | 'rear_delt' | 'calf_raise' | 'core_flexion';
+export type Laterality = 'bilateral' | 'unilateral';
+
+export interface MuscleContribution {
+  muscle_group: MuscleGroup;
+  weight: number; // Fraction of a set credited to this muscle (primary = 1.0)
+}
 
 export interface Exercise {
   id?: number;
   name: string;
-  muscle_group: MuscleGroup;
+  muscle_group: MuscleGroup; // Primary muscle
+  secondary_muscles?: MuscleContribution[];
+  equipment?: Equipment;
+  movement_pattern?: MovementPattern;
+  laterality?: Laterality;
+  is_bodyweight?: boolean; // Bodyweight-loaded (logged weight is added load)
   is_custom: boolean;
   video_url?: string;
   notes?: string;
@@ -31,14 +54,42 @@ export interface Microcycle {
   week_number: number;
   start_date: Date;
   end_date: Date;
+  is_deload?: boolean;
+  progression_applied_at?: Date; // Set once targets were progressed from the previous week
   created_at: Date;
 }
 
+export interface SessionPause {
+  started_at: Date;
+  ended_at?: Date; // Missing while the session is paused
+}
+
+export interface ReadinessAdjustment {
+  session_exercise_id: number;
+  original_sets: number;
+  original_rir: number;
+  target_sets: number;
+  target_rir: number;
+}
+
+export interface ReadinessCheckIn {
+  sleep: number; // 1 (poor) - 5 (great)
+  stress: number; // 1 (calm) - 5 (very stressed)
+  energy: number; // 1 (drained) - 5 (energized)
+  soreness: Partial<Record<MuscleGroup, number>>; // 1 (none) - 5 (very sore)
+  score: number; // 0-100
+  adjustments: ReadinessAdjustment[]; // Targets changed by the check-in
+  recorded_at: Date;
+}
+
 export interface WorkoutSession {
   id?: number;
   microcycle_id: number;
   name: string; // e.g., "Upper A", "Lower B"
   scheduled_date: Date;
+  started_at?: Date;
+  pauses?: SessionPause[];
+  readiness?: ReadinessCheckIn; // Pre-session check-in
   completed_date?: Date;
   is_completed: boolean;
   created_at: Date;
@@ -53,6 +104,7 @@ export interface SessionExercise {
   target_reps_min: number;
   target_reps_max: number;
   target_rir: number;
+  superset_group?: string; // Exercises sharing a label are performed as a superset/giant set/circuit
   created_at: Date;
 }
 
@@ -67,6 +119,7 @@ export interface WorkoutTemplate {
     target_reps_min: number;
     target_reps_max: number;
     target_rir: number;
+    superset_group?: string;
   }[];
   created_at: Date;
 }
@@ -77,33 +130,314 @@ export interface Log {
   session_id: number;
   exercise_id: number;
   set_number: number;
+  set_type?: SetType; // Missing = working set
+  parent_log_id?: number; // Drop/myo-rep/rest-pause sets point at their working set
   weight: number;
+  weight_unit?: WeightUnit; // Unit the weight was entered in (missing = kg)
   reps: number;
   rir: number;
   target_rir: number;
   e1rm?: number; // Calculated estimated 1RM
   session_date: Date;
-  feedback_soreness?: number; // 1-5 scale
+  started_at?: Date; // When the set began (missing if it wasn't started explicitly)
+  ended_at?: Date; // When the set was logged
+  rest_seconds?: number; // Rest since the previous set ended, excluding pauses
+  feedback_soreness?: number; // 1-5 scale; legacy, soreness is now rated per muscle (MuscleRecovery)
   feedback_pump?: number; // 1-5 scale
   feedback_joint_pain?: number; // 1-5 scale
   notes?: string;
   created_at: Date;
 }
 
-// Database class
-class HypertrophyDatabase extends Dexie {
-  exercises!: EntityTable<Exercise, 'id'>;
-  mesocycles!: EntityTable<Mesocycle, 'id'>;
-  microcycles!: EntityTable<Microcycle, 'id'>;
-  workout_sessions!: EntityTable<WorkoutSession, 'id'>;
-  session_exercises!: EntityTable<SessionExercise, 'id'>;
-  logs!: EntityTable<Log, 'id'>;
-  workout_templates!: EntityTable<WorkoutTemplate, 'id'>;
+export type PRType = 'rep_max' | 'e1rm' | 'set_volume' | 'session_volume';
 
-  constructor() {
-    super('HypertrophyOS');
-    
-    this.version(1).stores({
+export interface PersonalRecord {
+  id?: number;
+  exercise_id: number;
+  log_id: number; // Set that achieved the record
+  session_id: number;
+  type: PRType;
+  reps?: number; // Rep count for rep-max records
+  value: number; // kg (volumes in kg × reps)
+  previous_value: number; // Record that was beaten, in the same units
+  achieved_at: Date;
+}
+
+export interface VolumeLandmarks {
+  id?: number;
+  muscle_group: MuscleGroup;
+  mv: number; // Maintenance volume (weekly hard sets)
+  mev: number; // Minimum effective volume
+  mav: number; // Maximum adaptive volume
+  mrv: number; // Maximum recoverable volume
+  updated_at: Date;
+}
+
+export interface ActiveSession {
+  id?: number;
+  session_id: number;
+  current_exercise_index: number;
+  draft: {
+    weight: string;
+    reps: string;
+    rir: string;
+    set_type: SetType;
+  };
+  feedback_session_exercise_id?: number; // Set while the feedback dialog is open
+  rest_ends_at?: Date; // Running rest timer's end time
+  rest_duration: number; // Rest timer duration in seconds
+  set_started_at?: Date; // Start of the set currently being performed
+  updated_at: Date;
+}
+
+export interface PlateCount {
+  weight: number;
+  count: number; // Plates owned; barbells load them in pairs
+}
+
+export interface EquipmentProfile {
+  unit: WeightUnit; // Unit every weight below is expressed in
+  bar_weights: number[]; // Preferred bar first
+  plates: PlateCount[];
+  dumbbell_increment: number;
+  cable_stack_step: number; // Also used for selectorized machines
+}
+
+export type RecoveryRating = 'never_sore' | 'healed_early' | 'healed_on_time' | 'still_sore';
+
+// "Did you recover in time?", asked per muscle at the start of its next session
+export interface MuscleRecovery {
+  id?: number;
+  muscle_group: MuscleGroup;
+  session_id: number; // Session the question was asked at
+  trained_session_id: number; // Earlier session whose training is being rated
+  rating: RecoveryRating;
+  recorded_at: Date;
+}
+
+export type BodyRegion =
+  | 'neck' | 'upper_back' | 'lower_back'
+  | 'shoulder_left' | 'shoulder_right' | 'elbow_left' | 'elbow_right' | 'wrist_left' | 'wrist_right'
+  | 'hip_left' | 'hip_right' | 'knee_left' | 'knee_right' | 'ankle_left' | 'ankle_right';
+
+// Pain at a specific body region, linked to the exercise that caused it
+export interface PainReport {
+  id?: number;
+  region: BodyRegion;
+  severity: number; // 1-5 scale, same as feedback_joint_pain
+  exercise_id?: number;
+  session_id?: number;
+  log_id?: number; // Set whose feedback reported it
+  notes?: string;
+  reported_at: Date;
+}
+
+export type DeloadSource = 'planned' | 'marked';
+
+// A deload week, kept as its own event so its rebound can be measured
+export interface DeloadEvent {
+  id?: number;
+  microcycle_id?: number;
+  start_date: Date;
+  end_date: Date;
+  source: DeloadSource; // Generated with the program, or marked by hand afterwards
+  created_at: Date;
+}
+
+// Copy of the data taken before an import overwrites it
+export interface BackupSnapshot {
+  id?: number;
+  reason: string;
+  data: string; // Backup JSON, same format as an export
+  created_at: Date;
+}
+
+// Sync id and last synced version of a local record
+export interface SyncState {
+  table: SyncTable;
+  local_id: number;
+  sync_id: string;
+  hash: string; // Hash of the record as last pushed or pulled
+  revision?: number; // Server revision; missing until first accepted
+  modified_at?: number; // When the version last pushed or pulled was made
+}
+
+// When this device last wrote or deleted a synced record
+export interface LocalChange {
+  table: SyncTable;
+  local_id: number;
+  modified_at: number;
+}
+
+export interface SyncMeta {
+  id?: number;
+  enabled: boolean;
+  account_id?: string; // Account the sync state belongs to
+  cursor: number; // Server revision pulled up to
+  last_synced_at?: Date;
+  last_error?: string;
+  conflicts: number; // Changes overruled by another device in the last sync
+}
+
+export interface UserSettings {
+  id?: number;
+  weight_unit: WeightUnit;
+  e1rm_formula?: E1RMFormula; // Missing = DEFAULT_E1RM_FORMULA
+  equipment_profile?: EquipmentProfile; // Missing = default profile for weight_unit
+  updated_at: Date;
+}
+
+export const DEFAULT_SETTINGS: Omit<UserSettings, 'id' | 'updated_at'> = {
+  weight_unit: 'kg',
+  e1rm_formula: DEFAULT_E1RM_FORMULA,
+};
+
+// Secondary muscles for the seeded exercise library, keyed by exercise name
+export const SEEDED_SECONDARY_MUSCLES: Record<string, MuscleContribution[]> = {
+  'Barbell Bench Press': [{ muscle_group: 'Triceps', weight: 0.5 }, { muscle_group: 'Shoulders', weight: 0.5 }],
+  'Incline Dumbbell Press': [{ muscle_group: 'Shoulders', weight: 0.5 }, { muscle_group: 'Triceps', weight: 0.5 }],
+  'Dips (Chest Focus)': [{ muscle_group: 'Triceps', weight: 0.5 }, { muscle_group: 'Shoulders', weight: 0.5 }],
+  'Barbell Row': [{ muscle_group: 'Biceps', weight: 0.5 }, { muscle_group: 'Shoulders', weight: 0.25 }],
+  'Pull-ups': [{ muscle_group: 'Biceps', weight: 0.5 }],
+  'Lat Pulldown': [{ muscle_group: 'Biceps', weight: 0.5 }],
+  'Seated Cable Row': [{ muscle_group: 'Biceps', weight: 0.5 }],
+  'Deadlift': [
+    { muscle_group: 'Glutes', weight: 0.5 },
+    { muscle_group: 'Hamstrings', weight: 0.5 },
+    { muscle_group: 'Forearms', weight: 0.25 },
+  ],
+  'Overhead Press': [{ muscle_group: 'Triceps', weight: 0.5 }],
+  'Face Pull': [{ muscle_group: 'Back', weight: 0.25 }],
+  'Arnold Press': [{ muscle_group: 'Triceps', weight: 0.5 }],
+  'Hammer Curl': [{ muscle_group: 'Forearms', weight: 0.5 }],
+  'Close-Grip Bench Press': [{ muscle_group: 'Chest', weight: 0.5 }, { muscle_group: 'Shoulders', weight: 0.25 }],
+  'Barbell Squat': [{ muscle_group: 'Glutes', weight: 0.5 }],
+  'Leg Press': [{ muscle_group: 'Glutes', weight: 0.5 }],
+  'Bulgarian Split Squat': [{ muscle_group: 'Glutes', weight: 0.5 }],
+  'Romanian Deadlift': [{ muscle_group: 'Glutes', weight: 0.5 }, { muscle_group: 'Back', weight: 0.25 }],
+  'Hip Thrust': [{ muscle_group: 'Hamstrings', weight: 0.25 }],
+  'Glute Bridge': [{ muscle_group: 'Hamstrings', weight: 0.25 }],
+};
+
+export type ExerciseTaxonomy = Required<Pick<Exercise, 'equipment' | 'movement_pattern' | 'laterality' | 'is_bodyweight'>>;
+
+const taxonomy = (
+  equipment: Equipment,
+  movement_pattern: MovementPattern,
+  laterality: Laterality = 'bilateral'
+): ExerciseTaxonomy => ({ equipment, movement_pattern, laterality, is_bodyweight: equipment === 'bodyweight' });
+
+// Equipment, movement pattern and laterality for the seeded exercise library
+export const SEEDED_EXERCISE_TAXONOMY: Record<string, ExerciseTaxonomy> = {
+  'Barbell Bench Press': taxonomy('barbell', 'horizontal_push'),
+  'Incline Dumbbell Press': taxonomy('dumbbell', 'horizontal_push'),
+  'Cable Fly': taxonomy('cable', 'chest_fly'),
+  'Dips (Chest Focus)': taxonomy('bodyweight', 'vertical_push'),
+  'Barbell Row': taxonomy('barbell', 'horizontal_pull'),
+  'Pull-ups': taxonomy('bodyweight', 'vertical_pull'),
+  'Lat Pulldown': taxonomy('cable', 'vertical_pull'),
+  'Seated Cable Row': taxonomy('cable', 'horizontal_pull'),
+  'Deadlift': taxonomy('barbell', 'hinge'),
+  'Overhead Press': taxonomy('barbell', 'vertical_push'),
+  'Lateral Raise': taxonomy('dumbbell', 'lateral_raise'),
+  'Face Pull': taxonomy('cable', 'rear_delt'),
+  'Arnold Press': taxonomy('dumbbell', 'vertical_push'),
+  'Barbell Curl': taxonomy('barbell', 'elbow_flexion'),
+  'Hammer Curl': taxonomy('dumbbell', 'elbow_flexion'),
+  'Preacher Curl': taxonomy('barbell', 'elbow_flexion'),
+  'Close-Grip Bench Press': taxonomy('barbell', 'horizontal_push'),
+  'Overhead Tricep Extension': taxonomy('dumbbell', 'elbow_extension'),
+  'Cable Pushdown': taxonomy('cable', 'elbow_extension'),
+  'Barbell Squat': taxonomy('barbell', 'squat'),
+  'Leg Press': taxonomy('machine', 'squat'),
+  'Leg Extension': taxonomy('machine', 'knee_extension'),
+  'Bulgarian Split Squat': taxonomy('dumbbell', 'lunge', 'unilateral'),
+  'Romanian Deadlift': taxonomy('barbell', 'hinge'),
+  'Leg Curl': taxonomy('machine', 'knee_flexion'),
+  'Nordic Curl': taxonomy('bodyweight', 'knee_flexion'),
+  'Hip Thrust': taxonomy('barbell', 'hip_thrust'),
+  'Glute Bridge': taxonomy('bodyweight', 'hip_thrust'),
+  'Standing Calf Raise': taxonomy('machine', 'calf_raise'),
+  'Seated Calf Raise': taxonomy('machine', 'calf_raise'),
+  'Cable Crunch': taxonomy('cable', 'core_flexion'),
+  'Hanging Leg Raise': taxonomy('bodyweight', 'core_flexion'),
+};
+
+// Records of each table, keyed by table name, as a migration sees them
+export type MigrationData = Record<string, unknown[] | undefined>;
+
+export interface Migration {
+  version: number;
+  stores: Record<string, string>;
+  // Tables the upgrade reads and rewrites
+  tables?: string[];
+  /**
+   * Data changes for this version. The same step runs when the database
+   * opens at an older version and when an older backup file is imported,
+   * where tables the backup doesn't contain are missing.
+   */
+  upgrade?: (data: MigrationData) => void;
+}
+
+// The e1RM and PR logic of released steps, copied as it was when they
+// shipped so later changes to the app's helpers don't change what an old
+// database or backup upgrades to
+const MIGRATION_KG_PER_LB = 0.45359237;
+const MIGRATION_MAX_REP_MAX = 20;
+
+// Epley on reps + RIR, capped at 30 reps to failure
+function migrationE1RM(weight: number, reps: number, rir: number = 0): number {
+  const effectiveReps = Math.min(30, reps + Math.max(0, rir));
+  return effectiveReps <= 1 ? weight : weight * (1 + effectiveReps / 30);
+}
+
+// Every PR in a log history, compared in kg; a session keeps its final volume record
+function migrationReplayPersonalRecords(logs: Log[]): Omit<PersonalRecord, 'id'>[] {
+  const toKg = (value: number, log: Log) => (log.weight_unit === 'lb' ? value * MIGRATION_KG_PER_LB : value);
+  const time = (log: Log) => (log.ended_at ?? log.created_at).getTime();
+  const states = new Map<number, { repMax: Map<number, number>; e1rm?: number; setVolume?: number; sessionVolumes: Map<number, number> }>();
+  const records: Omit<PersonalRecord, 'id'>[] = [];
+
+  for (const log of [...logs].sort((a, b) => time(a) - time(b) || (a.id ?? 0) - (b.id ?? 0))) {
+    if ((log.set_type ?? 'working') !== 'working' || log.weight <= 0 || log.reps <= 0) continue;
+    if (!states.has(log.exercise_id)) states.set(log.exercise_id, { repMax: new Map(), sessionVolumes: new Map() });
+    const state = states.get(log.exercise_id)!;
+
+    const base = { exercise_id: log.exercise_id, log_id: log.id!, session_id: log.session_id, achieved_at: log.ended_at ?? log.created_at };
+    const check = (type: PRType, value: number, previous: number | undefined, reps?: number) => {
+      if (previous !== undefined && value > previous + 1e-6) records.push({ ...base, type, reps, value, previous_value: previous });
+    };
+
+    const weight = toKg(log.weight, log);
+    const setVolume = weight * log.reps;
+    const e1rm = log.e1rm === undefined ? undefined : toKg(log.e1rm, log);
+    const previousSessionBest = Math.max(
+      -Infinity,
+      ...Array.from(state.sessionVolumes.entries()).filter(([sessionId]) => sessionId !== log.session_id).map(([, volume]) => volume)
+    );
+    const sessionVolume = (state.sessionVolumes.get(log.session_id) ?? 0) + setVolume;
+
+    if (log.reps <= MIGRATION_MAX_REP_MAX) check('rep_max', weight, state.repMax.get(log.reps), log.reps);
+    if (e1rm !== undefined) check('e1rm', e1rm, state.e1rm);
+    check('set_volume', setVolume, state.setVolume);
+    if (isFinite(previousSessionBest)) check('session_volume', sessionVolume, previousSessionBest);
+
+    if (log.reps <= MIGRATION_MAX_REP_MAX) state.repMax.set(log.reps, Math.max(state.repMax.get(log.reps) ?? 0, weight));
+    if (e1rm !== undefined) state.e1rm = Math.max(state.e1rm ?? 0, e1rm);
+    state.setVolume = Math.max(state.setVolume ?? 0, setVolume);
+    state.sessionVolumes.set(log.session_id, sessionVolume);
+  }
+
+  const sessionKey = (r: Omit<PersonalRecord, 'id'>) => `${r.exercise_id}:${r.session_id}`;
+  const lastSessionRecord = new Map(records.filter(r => r.type === 'session_volume').map(r => [sessionKey(r), r]));
+  return records.filter(r => r.type !== 'session_volume' || lastSessionRecord.get(sessionKey(r)) === r);
+}
+
+// Schema history, oldest first. Never edit a released step; add a new one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    stores: {
       exercises: '++id, name, muscle_group, is_custom, video_url, notes, created_at',
       mesocycles: '++id, name, phase_type, start_date, end_date, is_active, created_at',
       microcycles: '++id, mesocycle_id, week_number, start_date, created_at',
@@ -111,10 +445,214 @@ class HypertrophyDatabase extends Dexie {
       session_exercises: '++id, session_id, exercise_id, order_index, created_at',
       logs: '++id, session_exercise_id, session_id, exercise_id, session_date, created_at',
       workout_templates: '++id, name, created_at'
+    },
+  },
+  {
+    version: 2,
+    stores: { settings: '++id' },
+  },
+  {
+    version: 3,
+    stores: { volume_landmarks: '++id, &muscle_group' },
+  },
+  // Give already-seeded library exercises their secondary muscles
+  {
+    version: 4,
+    stores: {},
+    tables: ['exercises'],
+    upgrade: data => {
+      for (const exercise of (data.exercises ?? []) as Exercise[]) {
+        const secondary = SEEDED_SECONDARY_MUSCLES[exercise.name];
+        if (!exercise.is_custom && !exercise.secondary_muscles && secondary) {
+          exercise.secondary_muscles = secondary;
+        }
+      }
+    },
+  },
+  // Tag already-seeded library exercises with their taxonomy
+  {
+    version: 5,
+    stores: {},
+    tables: ['exercises'],
+    upgrade: data => {
+      for (const exercise of (data.exercises ?? []) as Exercise[]) {
+        const seeded = SEEDED_EXERCISE_TAXONOMY[exercise.name];
+        if (!exercise.is_custom && !exercise.movement_pattern && seeded) {
+          Object.assign(exercise, seeded);
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    stores: { active_sessions: '++id, &session_id, updated_at' },
+  },
+  // Build the PR history from existing logs
+  {
+    version: 7,
+    stores: { personal_records: '++id, exercise_id, log_id, session_id, achieved_at' },
+    tables: ['logs', 'personal_records'],
+    upgrade: data => {
+      if (data.personal_records) data.personal_records = migrationReplayPersonalRecords((data.logs ?? []) as Log[]);
+    },
+  },
+  // Brzycki without RIR -> RIR-adjusted estimates with the default formula
+  {
+    version: 8,
+    stores: {},
+    tables: ['logs', 'personal_records'],
+    upgrade: data => {
+      for (const log of (data.logs ?? []) as Log[]) {
+        log.e1rm = migrationE1RM(log.weight, log.reps, log.rir);
+      }
+      if (data.personal_records) data.personal_records = migrationReplayPersonalRecords((data.logs ?? []) as Log[]);
+    },
+  },
+  {
+    version: 9,
+    stores: { muscle_recovery: '++id, muscle_group, session_id, trained_session_id, recorded_at, [session_id+muscle_group]' },
+  },
+  {
+    version: 10,
+    stores: { pain_reports: '++id, region, exercise_id, session_id, log_id, reported_at' },
+  },
+  // Existing deload weeks become events
+  {
+    version: 11,
+    stores: { deload_events: '++id, microcycle_id, start_date' },
+    tables: ['microcycles', 'deload_events'],
+    upgrade: data => {
+      if (!data.microcycles) return;
+      const deloadWeeks = (data.microcycles as Microcycle[]).filter(week => !!week.is_deload);
+      data.deload_events = [
+        ...(data.deload_events ?? []),
+        ...deloadWeeks.map(week => ({
+          microcycle_id: week.id,
+          start_date: week.start_date,
+          end_date: week.end_date,
+          source: 'planned',
+          created_at: week.created_at,
+        })),
+      ];
+    },
+  },
+  {
+    version: 12,
+    stores: { backup_snapshots: '++id, created_at' },
+  },
+  {
+    version: 13,
+    stores: {
+      sync_state: '[table+local_id], &[table+sync_id]',
+      sync_meta: '++id',
+    },
+  },
+  {
+    version: 14,
+    stores: { local_changes: '[table+local_id]' },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Declare every schema version on a Dexie instance. Upgrades load the
+ * tables they touch, transform them in memory and write them back.
+ */
+export function declareMigrations(database: Dexie, migrations: Migration[] = MIGRATIONS) {
+  for (const migration of migrations) {
+    const version = database.version(migration.version).stores(migration.stores);
+    const { tables = [], upgrade } = migration;
+    if (!upgrade) continue;
+
+    version.upgrade(async tx => {
+      const data: MigrationData = {};
+      for (const table of tables) {
+        data[table] = await tx.table(table).toArray();
+      }
+      upgrade(data);
+      for (const table of tables) {
+        await tx.table(table).clear();
+        await tx.table(table).bulkPut(data[table] ?? []);
+      }
     });
   }
 }
 
+/**
+ * Records the time of every write to a synced table in `local_changes`,
+ * in the same transaction, so sync can tell whose edit is newer. Schema
+ * upgrades aren't edits and aren't recorded.
+ */
+const localChangesMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'LocalChanges',
+  create: down => {
+    const tracked = new WeakSet<DBCoreTransaction>();
+    return {
+      ...down,
+      transaction(stores, mode, options) {
+        if (mode !== 'readwrite' || !stores.some(isSyncTable)) return down.transaction(stores, mode, options);
+        const trans = down.transaction(Array.from(new Set([...stores, 'local_changes'])), mode, options);
+        tracked.add(trans);
+        return trans;
+      },
+      table(name) {
+        const table = down.table(name);
+        if (!isSyncTable(name)) return table;
+        return {
+          ...table,
+          async mutate(req) {
+            if (!tracked.has(req.trans)) return table.mutate(req);
+            const rangeKeys = req.type === 'deleteRange'
+              ? (await table.query({ trans: req.trans, values: false, query: { index: table.schema.primaryKey, range: req.range } })).result
+              : [];
+            const response = await table.mutate(req);
+
+            const keys: unknown[] = req.type === 'delete' ? req.keys : req.type === 'deleteRange' ? rangeKeys : response.results ?? [];
+            const modified_at = Date.now();
+            const changes: LocalChange[] = keys
+              .filter((key): key is number => typeof key === 'number')
+              .map(local_id => ({ table: name, local_id, modified_at }));
+            if (changes.length > 0) {
+              await down.table('local_changes').mutate({ type: 'put', trans: req.trans, values: changes });
+            }
+            return response;
+          },
+        };
+      },
+    };
+  },
+};
+
+// Database class
+export class HypertrophyDatabase extends Dexie {
+  exercises!: EntityTable<Exercise, 'id'>;
+  mesocycles!: EntityTable<Mesocycle, 'id'>;
+  microcycles!: EntityTable<Microcycle, 'id'>;
+  workout_sessions!: EntityTable<WorkoutSession, 'id'>;
+  session_exercises!: EntityTable<SessionExercise, 'id'>;
+  logs!: EntityTable<Log, 'id'>;
+  workout_templates!: EntityTable<WorkoutTemplate, 'id'>;
+  settings!: EntityTable<UserSettings, 'id'>;
+  volume_landmarks!: EntityTable<VolumeLandmarks, 'id'>;
+  active_sessions!: EntityTable<ActiveSession, 'id'>;
+  personal_records!: EntityTable<PersonalRecord, 'id'>;
+  muscle_recovery!: EntityTable<MuscleRecovery, 'id'>;
+  pain_reports!: EntityTable<PainReport, 'id'>;
+  deload_events!: EntityTable<DeloadEvent, 'id'>;
+  backup_snapshots!: EntityTable<BackupSnapshot, 'id'>;
+  sync_state!: Table<SyncState, [SyncTable, number]>;
+  sync_meta!: EntityTable<SyncMeta, 'id'>;
+  local_changes!: Table<LocalChange, [SyncTable, number]>;
+
+  constructor(name: string = 'HypertrophyOS') {
+    super(name);
+    declareMigrations(this);
+    this.use(localChangesMiddleware);
+  }
+}
+
 export const db = new HypertrophyDatabase();
 
 // Seed initial exercise library
@@ -176,13 +714,11 @@ export async function seedExercises() {
     { name: 'Hanging Leg Raise', muscle_group: 'Abs', is_custom: false, created_at: new Date() },
   ];
 
-  await db.exercises.bulkAdd(defaultExercises);
-}
-
-// Utility function to calculate e1RM using Brzycki formula
-export function calculateE1RM(weight: number, reps: number): number {
-  if (reps === 1) return weight;
-  return weight * (36 / (37 - reps));
+  await db.exercises.bulkAdd(defaultExercises.map(exercise => ({
+    ...exercise,
+    ...SEEDED_EXERCISE_TAXONOMY[exercise.name],
+    secondary_muscles: SEEDED_SECONDARY_MUSCLES[exercise.name],
+  })));
 }
 
 // Initialize database and seed data
@@ -1,4 +1,9 @@
 import type { Log } from './db';
+import { isHardSet } from './setTypes';
+import type { MuscleVolumeStatus } from './volumeLandmarks';
+import { formatSetCount } from './muscleContributions';
+import { shouldRecommendDeload } from './deloadGenerator';
+import { getLegacySoreness, type SorenessLookup } from './recovery';
 import { subDays } from 'date-fns';
 
 /**
@@ -25,21 +30,26 @@ export interface FatigueMetrics {
 }
 
 /**
- * Calculate fatigue metrics from recent logs
+ * Calculate fatigue metrics from recent logs (working sets only). Soreness
+ * comes from `getSoreness`, normally the muscles' recovery ratings.
  */
-export function calculateFatigueMetrics(logs: Log[], days: number = 14): FatigueMetrics | null {
+export function calculateFatigueMetrics(
+  logs: Log[],
+  days: number = 14,
+  getSoreness: SorenessLookup = getLegacySoreness
+): FatigueMetrics | null {
   const cutoffDate = subDays(new Date(), days);
-  const recentLogs = logs.filter(log => log.session_date >= cutoffDate);
+  const recentLogs = logs.filter(log => log.session_date >= cutoffDate && isHardSet(log));
 
   if (recentLogs.length < 3) return null;
 
   // Calculate averages
-  const logsWithSoreness = recentLogs.filter(log => log.feedback_soreness !== null && log.feedback_soreness !== undefined);
+  const sorenessRatings = recentLogs.map(getSoreness).filter((rating): rating is number => rating !== undefined);
   const logsWithJointPain = recentLogs.filter(log => log.feedback_joint_pain !== null && log.feedback_joint_pain !== undefined);
   const logsWithPump = recentLogs.filter(log => log.feedback_pump !== null && log.feedback_pump !== undefined);
 
-  const avgSoreness = logsWithSoreness.length > 0
-    ? logsWithSoreness.reduce((sum, log) => sum + log.feedback_soreness!, 0) / logsWithSoreness.length
+  const avgSoreness = sorenessRatings.length > 0
+    ? sorenessRatings.reduce((sum, rating) => sum + rating, 0) / sorenessRatings.length
     : 0;
 
   const avgJointPain = logsWithJointPain.length > 0
@@ -71,7 +81,7 @@ export function calculateFatigueMetrics(logs: Log[], days: number = 14): Fatigue
   let consecutiveHighFatigue = 0;
   for (let i = recentLogs.length - 1; i >= 0; i--) {
     const log = recentLogs[i];
-    const isFatigued = (log.feedback_soreness || 0) >= 4 || (log.feedback_joint_pain || 0) >= 3;
+    const isFatigued = (getSoreness(log) ?? 0) >= 4 || (log.feedback_joint_pain || 0) >= 3;
     if (isFatigued) {
       consecutiveHighFatigue++;
     } else {
@@ -93,7 +103,10 @@ export function calculateFatigueMetrics(logs: Log[], days: number = 14): Fatigue
 /**
  * Generate deload recommendation based on fatigue metrics
  */
-export function generateDeloadRecommendation(metrics: FatigueMetrics): DeloadRecommendation {
+export function generateDeloadRecommendation(
+  metrics: FatigueMetrics,
+  volumeStatus: MuscleVolumeStatus[] = []
+): DeloadRecommendation {
   const indicators: string[] = [];
   let severity: 'none' | 'mild' | 'moderate' | 'high' = 'none';
   let needsDeload = false;
@@ -139,6 +152,15 @@ export function generateDeloadRecommendation(metrics: FatigueMetrics): DeloadRec
     indicators.push('Consistently training too close to failure');
   }
 
+  // Volume past MRV can't be recovered from week to week
+  const overMRV = volumeStatus.filter(status => status.zone === 'over_mrv');
+  if (overMRV.length > 0) {
+    indicators.push(
+      `Weekly volume above MRV: ${overMRV.map(s => `${s.muscleGroup} (${formatSetCount(s.sets)}/${s.landmarks.mrv})`).join(', ')}`
+    );
+    severity = severity === 'none' || severity === 'mild' ? 'moderate' : 'high';
+  }
+
   // Decision logic
   if (severity === 'high') {
     needsDeload = true;
@@ -169,12 +191,50 @@ export function generateDeloadRecommendation(metrics: FatigueMetrics): DeloadRec
   };
 }
 
+export interface DeloadSchedule {
+  weeksSinceLastDeload: number;
+  deloadFrequency?: number; // Learned from past rebounds (getOptimalDeloadFrequency)
+}
+
+const URGENCY_SEVERITY = { high: 'high', medium: 'moderate', low: 'mild' } as const;
+
 /**
- * Check if user needs a deload based on recent training
+ * Check if user needs a deload based on recent training. With a deload
+ * schedule, time since the last deload is weighed against the lifter's
+ * learned frequency as well.
  */
-export function checkDeloadNeed(logs: Log[]): DeloadRecommendation | null {
-  const metrics = calculateFatigueMetrics(logs, 14);
+export function checkDeloadNeed(
+  logs: Log[],
+  volumeStatus: MuscleVolumeStatus[] = [],
+  schedule?: DeloadSchedule,
+  getSoreness?: SorenessLookup
+): DeloadRecommendation | null {
+  const metrics = calculateFatigueMetrics(logs, 14, getSoreness);
   if (!metrics) return null;
   
-  return generateDeloadRecommendation(metrics);
+  const recommendation = generateDeloadRecommendation(metrics, volumeStatus);
+  if (!schedule || metrics.sessionsAnalyzed < 3) return recommendation;
+
+  const timing = shouldRecommendDeload(
+    schedule.weeksSinceLastDeload,
+    metrics.avgSoreness,
+    metrics.avgJointPain,
+    metrics.performanceDecline ? 'declining' : 'stable',
+    schedule.deloadFrequency
+  );
+  if (!timing.shouldDeload) return recommendation;
+
+  const indicators = [
+    ...recommendation.indicators,
+    `${schedule.weeksSinceLastDeload} weeks since last deload${schedule.deloadFrequency ? ` (learned interval: ~${schedule.deloadFrequency} weeks)` : ''}`,
+  ];
+  if (recommendation.needsDeload) return { ...recommendation, indicators };
+
+  return {
+    needsDeload: true,
+    severity: URGENCY_SEVERITY[timing.urgency],
+    reason: timing.reason,
+    indicators,
+    confidence: timing.urgency === 'high' ? 'high' : 'medium',
+  };
 }
@@ -1,4 +1,5 @@
 import type { Microcycle, SessionExercise } from './db';
+import { DEFAULT_DELOAD_FREQUENCY } from './deloadRebound';
 
 /**
  * Generate a deload week by reducing volume by 50%
@@ -16,14 +17,20 @@ export interface DeloadWeekPlan {
   totalVolumeReduction: number;
 }
 
+/**
+ * Deload volume for an exercise: half the sets, minimum 1
+ */
+export function getDeloadSets(originalSets: number): number {
+  return Math.max(1, Math.round(originalSets * 0.5));
+}
+
 export function generateDeloadWeek(
   microcycle: Microcycle,
   sessionExercises: SessionExercise[]
 ): DeloadWeekPlan {
   const exerciseAdjustments = sessionExercises.map(se => {
     const originalSets = se.target_sets;
-    // Reduce sets by 50%, minimum 1 set
-    const deloadSets = Math.max(1, Math.round(originalSets * 0.5));
+    const deloadSets = getDeloadSets(originalSets);
     const reduction = ((originalSets - deloadSets) / originalSets) * 100;
 
     return {
@@ -76,13 +83,16 @@ export function applyDeloadToExercises(
 }
 
 /**
- * Check if a deload week is recommended based on fatigue metrics
+ * Check if a deload week is recommended based on fatigue metrics. Time
+ * thresholds scale with the lifter's learned deload frequency
+ * (getOptimalDeloadFrequency); the default keeps them at 4/6/8 weeks.
  */
 export function shouldRecommendDeload(
   weeksSinceLastDeload: number,
   avgSoreness: number,
   avgJointPain: number,
-  performanceTrend: 'improving' | 'stable' | 'declining'
+  performanceTrend: 'improving' | 'stable' | 'declining',
+  deloadFrequency: number = DEFAULT_DELOAD_FREQUENCY
 ): {
   shouldDeload: boolean;
   urgency: 'high' | 'medium' | 'low';
@@ -92,11 +102,15 @@ export function shouldRecommendDeload(
   let urgency: 'high' | 'medium' | 'low' = 'low';
   let reason = '';
 
+  const dueWeeks = deloadFrequency;
+  const warningWeeks = Math.max(1, deloadFrequency - 2);
+  const earlyWeeks = Math.max(1, deloadFrequency - 4);
+
   // High urgency: Multiple red flags
   if (
-    (weeksSinceLastDeload >= 6 && avgSoreness >= 4) ||
+    (weeksSinceLastDeload >= warningWeeks && avgSoreness >= 4) ||
     avgJointPain >= 4 ||
-    (weeksSinceLastDeload >= 8 && performanceTrend === 'declining')
+    (weeksSinceLastDeload >= dueWeeks && performanceTrend === 'declining')
   ) {
     shouldDeload = true;
     urgency = 'high';
@@ -104,19 +118,19 @@ export function shouldRecommendDeload(
   }
   // Medium urgency: Some warning signs
   else if (
-    (weeksSinceLastDeload >= 4 && avgSoreness >= 3.5) ||
-    (weeksSinceLastDeload >= 6 && avgJointPain >= 3) ||
-    (weeksSinceLastDeload >= 6 && performanceTrend === 'declining')
+    (weeksSinceLastDeload >= earlyWeeks && avgSoreness >= 3.5) ||
+    (weeksSinceLastDeload >= warningWeeks && avgJointPain >= 3) ||
+    (weeksSinceLastDeload >= warningWeeks && performanceTrend === 'declining')
   ) {
     shouldDeload = true;
     urgency = 'medium';
     reason = 'Fatigue is building up. Consider scheduling a deload week to optimize recovery and performance.';
   }
   // Low urgency: Time-based recommendation
-  else if (weeksSinceLastDeload >= 8) {
+  else if (weeksSinceLastDeload >= dueWeeks) {
     shouldDeload = true;
     urgency = 'low';
-    reason = '8+ weeks since last deload. Proactive deload recommended for long-term progress.';
+    reason = `${dueWeeks}+ weeks since last deload. Proactive deload recommended for long-term progress.`;
   }
   // No deload needed
   else {
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDeloadRebound,
+  analyzeDeloadRebounds,
+  getOptimalDeloadFrequency,
+  getWeeksSinceLastDeload,
+  DEFAULT_DELOAD_FREQUENCY,
+} from './deloadRebound';
+import { shouldRecommendDeload } from './deloadGenerator';
+import type { DeloadEvent, Log } from './db';
+
+// Mondays in 2024: Jan 1, 8, 15, ...
+const day = (d: number) => new Date(2024, 0, d);
+
+const deload = (startDay: number): DeloadEvent => ({
+  start_date: day(startDay),
+  end_date: day(startDay + 6),
+  source: 'planned',
+  created_at: day(startDay),
+});
+
+const log = (exercise_id: number, d: number, e1rm: number, overrides: Partial<Log> = {}): Log => ({
+  session_id: d,
+  exercise_id,
+  set_number: 1,
+  weight: 100,
+  weight_unit: 'kg',
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  e1rm,
+  session_date: day(d),
+  created_at: day(d),
+  ...overrides,
+});
+
+describe('Deload Rebound', () => {
+  it('should compare best e1RM in the weeks before and after a deload', () => {
+    const logs = [
+      log(1, 10, 100, { feedback_joint_pain: 3 }),
+      log(1, 12, 98),
+      log(2, 12, 50),
+      log(1, 25, 110, { feedback_joint_pain: 1 }),
+      log(2, 40, 60), // Outside the window after
+    ];
+    const rebound = analyzeDeloadRebound(deload(15), logs, undefined, day(60));
+
+    expect(rebound.exercises).toEqual([{ exerciseId: 1, preE1RM: 100, postE1RM: 110, change: 10 }]);
+    expect(rebound.avgE1RMChange).toBe(10);
+    expect(rebound.pre.avgJointPain).toBe(3);
+    expect(rebound.post.avgJointPain).toBe(1);
+    expect(rebound.isComplete).toBe(true);
+  });
+
+  it('should ignore warm-up sets', () => {
+    const logs = [log(1, 10, 100), log(1, 25, 140, { set_type: 'warmup' }), log(1, 26, 102)];
+
+    expect(analyzeDeloadRebound(deload(15), logs, undefined, day(60)).avgE1RMChange).toBeCloseTo(2);
+  });
+
+  it('should count training weeks between deloads', () => {
+    const rebounds = analyzeDeloadRebounds([deload(57), deload(1)], [], day(100));
+
+    expect(rebounds.map(r => r.weeksSincePreviousDeload)).toEqual([undefined, 7]);
+  });
+});
+
+describe('Optimal Deload Frequency', () => {
+  const measured = (weeks: number, change: number) => ({
+    ...analyzeDeloadRebound(deload(1), [], undefined, day(100)),
+    weeksSincePreviousDeload: weeks,
+    avgE1RMChange: change,
+  });
+
+  it('should need a measured deload with a known lead-in', () => {
+    expect(getOptimalDeloadFrequency([analyzeDeloadRebound(deload(1), [], undefined, day(100))])).toBeUndefined();
+  });
+
+  it('should shorten blocks after strong rebounds', () => {
+    expect(getOptimalDeloadFrequency([measured(6, 5), measured(6, 4)])?.weeks).toBe(5);
+  });
+
+  it('should lengthen blocks after flat rebounds', () => {
+    const frequency = getOptimalDeloadFrequency([measured(6, -1)]);
+
+    expect(frequency?.weeks).toBe(7);
+    expect(frequency?.confidence).toBe('low');
+  });
+});
+
+describe('Deload Timing', () => {
+  it('should count weeks since the last deload, or since training began', () => {
+    expect(getWeeksSinceLastDeload([deload(1)], [], day(24))).toBe(3);
+    expect(getWeeksSinceLastDeload([], [log(1, 3, 100)], day(17))).toBe(3);
+    expect(getWeeksSinceLastDeload([], [], day(17))).toBeUndefined();
+  });
+
+  it('should scale the time-based recommendation with the learned frequency', () => {
+    expect(shouldRecommendDeload(6, 0, 0, 'stable').shouldDeload).toBe(false);
+    expect(shouldRecommendDeload(DEFAULT_DELOAD_FREQUENCY, 0, 0, 'stable').shouldDeload).toBe(true);
+    expect(shouldRecommendDeload(6, 0, 0, 'stable', 6)).toMatchObject({ shouldDeload: true, urgency: 'low' });
+  });
+});
@@ -0,0 +1,176 @@
+import { addDays, differenceInCalendarWeeks, subDays } from 'date-fns';
+import type { DeloadEvent, Log } from './db';
+import { getHardSets } from './setTypes';
+import { getLogE1RM } from './units';
+
+/**
+ * Deload rebound tracking for HypertrophyOS
+ * Compares each exercise's e1RM and the fatigue feedback in the weeks
+ * before a deload with the weeks after it, and learns from past rebounds
+ * how many training weeks between deloads suit the lifter.
+ */
+
+// Weeks on either side of a deload that are compared
+export const REBOUND_WINDOW_WEEKS = 2;
+
+// Used until enough deloads have been measured
+export const DEFAULT_DELOAD_FREQUENCY = 8;
+export const MIN_DELOAD_FREQUENCY = 3;
+export const MAX_DELOAD_FREQUENCY = 12;
+
+// e1RM changes (%) that mark a deload as well timed
+const STRONG_REBOUND = 3;
+const FLAT_REBOUND = 0;
+
+export interface FatigueSnapshot {
+  avgJointPain?: number;
+  avgPump?: number;
+  sets: number;
+}
+
+export interface ExerciseRebound {
+  exerciseId: number;
+  preE1RM: number; // Best in the window before, kg
+  postE1RM: number; // Best in the window after, kg
+  change: number; // %
+}
+
+export interface DeloadRebound {
+  event: DeloadEvent;
+  exercises: ExerciseRebound[];
+  avgE1RMChange?: number; // % across exercises trained on both sides
+  pre: FatigueSnapshot;
+  post: FatigueSnapshot;
+  weeksSincePreviousDeload?: number; // Training weeks that led into this deload
+  isComplete: boolean; // The window after the deload has passed
+}
+
+export interface DeloadFrequency {
+  weeks: number;
+  basedOn: number; // Deloads with a measured rebound and a known lead-in
+  confidence: 'low' | 'medium' | 'high';
+  reason: string;
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+function getFatigueSnapshot(logs: Log[]): FatigueSnapshot {
+  return {
+    avgJointPain: average(logs.flatMap(log => log.feedback_joint_pain ?? [])),
+    avgPump: average(logs.flatMap(log => log.feedback_pump ?? [])),
+    sets: logs.length,
+  };
+}
+
+function getBestE1RMs(logs: Log[]): Map<number, number> {
+  const best = new Map<number, number>();
+  for (const log of logs) {
+    const e1rm = getLogE1RM(log, 'kg');
+    if (e1rm === undefined) continue;
+    best.set(log.exercise_id, Math.max(best.get(log.exercise_id) ?? 0, e1rm));
+  }
+  return best;
+}
+
+/**
+ * Pre vs post comparison for one deload. Deloads are passed oldest first
+ * so the lead-in from the previous deload can be measured.
+ */
+export function analyzeDeloadRebound(
+  event: DeloadEvent,
+  logs: Log[],
+  previous?: DeloadEvent,
+  now: Date = new Date(),
+  windowWeeks: number = REBOUND_WINDOW_WEEKS
+): DeloadRebound {
+  const hardSets = getHardSets(logs);
+  const preStart = subDays(event.start_date, windowWeeks * 7);
+  const postEnd = addDays(event.end_date, windowWeeks * 7);
+
+  const preLogs = hardSets.filter(log => log.session_date >= preStart && log.session_date < event.start_date);
+  const postLogs = hardSets.filter(log => log.session_date > event.end_date && log.session_date <= postEnd);
+
+  const preBest = getBestE1RMs(preLogs);
+  const postBest = getBestE1RMs(postLogs);
+  const exercises = Array.from(preBest.entries()).flatMap(([exerciseId, preE1RM]) => {
+    const postE1RM = postBest.get(exerciseId);
+    if (postE1RM === undefined || preE1RM <= 0) return [];
+    return [{ exerciseId, preE1RM, postE1RM, change: ((postE1RM - preE1RM) / preE1RM) * 100 }];
+  });
+
+  return {
+    event,
+    exercises,
+    avgE1RMChange: average(exercises.map(ex => ex.change)),
+    pre: getFatigueSnapshot(preLogs),
+    post: getFatigueSnapshot(postLogs),
+    // Calendar weeks strictly between the two deload weeks
+    weeksSincePreviousDeload: previous
+      ? differenceInCalendarWeeks(event.start_date, previous.end_date, { weekStartsOn: 1 }) - 1
+      : undefined,
+    isComplete: postEnd <= now,
+  };
+}
+
+/**
+ * Rebounds for every deload, oldest first
+ */
+export function analyzeDeloadRebounds(events: DeloadEvent[], logs: Log[], now: Date = new Date()): DeloadRebound[] {
+  const sorted = [...events].sort((a, b) => a.start_date.getTime() - b.start_date.getTime());
+  return sorted.map((event, index) => analyzeDeloadRebound(event, logs, sorted[index - 1], now));
+}
+
+/**
+ * Weeks between deloads that suit this lifter. A strong rebound means
+ * fatigue was masking fitness, so the next block should be a week
+ * shorter; a flat or negative one means the deload came before it was
+ * needed, so the next block can run a week longer. Recent deloads weigh more.
+ */
+export function getOptimalDeloadFrequency(rebounds: DeloadRebound[]): DeloadFrequency | undefined {
+  const measured = rebounds.filter(
+    (r): r is DeloadRebound & { avgE1RMChange: number; weeksSincePreviousDeload: number } =>
+      r.isComplete && r.avgE1RMChange !== undefined && r.weeksSincePreviousDeload !== undefined
+  );
+  if (measured.length === 0) return undefined;
+
+  let weightedWeeks = 0;
+  let totalWeight = 0;
+  measured.forEach((rebound, index) => {
+    let suggested = rebound.weeksSincePreviousDeload;
+    if (rebound.avgE1RMChange >= STRONG_REBOUND) suggested -= 1;
+    else if (rebound.avgE1RMChange <= FLAT_REBOUND) suggested += 1;
+
+    const weight = index + 1;
+    weightedWeeks += suggested * weight;
+    totalWeight += weight;
+  });
+
+  const weeks = Math.min(MAX_DELOAD_FREQUENCY, Math.max(MIN_DELOAD_FREQUENCY, Math.round(weightedWeeks / totalWeight)));
+  const avgChange = average(measured.map(r => r.avgE1RMChange))!;
+
+  return {
+    weeks,
+    basedOn: measured.length,
+    confidence: measured.length >= 4 ? 'high' : measured.length >= 2 ? 'medium' : 'low',
+    reason: `Based on ${measured.length} deload${measured.length === 1 ? '' : 's'} with an average e1RM rebound of ${avgChange >= 0 ? '+' : ''}${avgChange.toFixed(1)}%`,
+  };
+}
+
+/**
+ * Training weeks since the most recent deload, counting the current one,
+ * or since training began if there hasn't been a deload (undefined with
+ * no training either)
+ */
+export function getWeeksSinceLastDeload(events: DeloadEvent[], logs: Log[], now: Date = new Date()): number | undefined {
+  const past = events.filter(event => event.end_date <= now);
+  if (past.length > 0) {
+    const lastEnd = past.reduce((latest, event) => (event.end_date > latest ? event.end_date : latest), past[0].end_date);
+    return differenceInCalendarWeeks(now, lastEnd, { weekStartsOn: 1 });
+  }
+
+  if (logs.length === 0) return undefined;
+  const firstSession = logs.reduce((first, log) => (log.session_date < first ? log.session_date : first), logs[0].session_date);
+  return differenceInCalendarWeeks(now, firstSession, { weekStartsOn: 1 }) + 1;
+}
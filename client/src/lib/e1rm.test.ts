@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { calculateE1RM, getEffectiveReps, E1RM_FORMULAS, MAX_EFFECTIVE_REPS } from './e1rm';
+
+describe('e1RM Formulas', () => {
+  it('should return the weight for a true single', () => {
+    for (const formula of E1RM_FORMULAS) {
+      expect(calculateE1RM(140, 1, 0, formula)).toBe(140);
+    }
+  });
+
+  it('should match the published formulas', () => {
+    expect(calculateE1RM(100, 10, 0, 'epley')).toBeCloseTo(133.33, 2);
+    expect(calculateE1RM(100, 10, 0, 'brzycki')).toBeCloseTo(133.33, 2);
+    expect(calculateE1RM(100, 10, 0, 'lombardi')).toBeCloseTo(125.89, 2);
+    expect(calculateE1RM(100, 10, 0, 'mayhew')).toBeCloseTo(130.93, 2);
+    expect(calculateE1RM(100, 5, 0, 'rts')).toBeCloseTo(115.87, 2);
+  });
+
+  it('should treat RIR as extra reps to failure', () => {
+    expect(calculateE1RM(100, 8, 2, 'epley')).toBe(calculateE1RM(100, 10, 0, 'epley'));
+    // One RIR moves one row down the RTS chart
+    expect(calculateE1RM(100, 1, 1, 'rts')).toBeCloseTo(100 / 0.955, 2);
+  });
+
+  it('should cap effective reps so Brzycki stays finite', () => {
+    expect(getEffectiveReps(30, 10)).toBe(MAX_EFFECTIVE_REPS);
+    expect(Number.isFinite(calculateE1RM(50, 40, 0, 'brzycki'))).toBe(true);
+  });
+
+  it('should fall back to Epley past the RTS chart', () => {
+    expect(calculateE1RM(60, 15, 0, 'rts')).toBe(calculateE1RM(60, 15, 0, 'epley'));
+  });
+});
@@ -0,0 +1,65 @@
+import type { E1RMFormula } from './db';
+
+/**
+ * Estimated 1RM formulas for HypertrophyOS
+ * Every estimate uses reps + RIR as the effective reps to failure, so a set
+ * of 8 left at 2 RIR is estimated like a set of 10 taken to failure.
+ */
+
+export const DEFAULT_E1RM_FORMULA: E1RMFormula = 'epley';
+
+export const E1RM_FORMULA_LABELS: Record<E1RMFormula, string> = {
+  epley: 'Epley',
+  brzycki: 'Brzycki',
+  lombardi: 'Lombardi',
+  mayhew: 'Mayhew',
+  rts: 'RTS RPE Chart',
+};
+
+export const E1RM_FORMULA_DESCRIPTIONS: Record<E1RMFormula, string> = {
+  epley: 'weight × (1 + reps / 30). A solid all-rounder.',
+  brzycki: 'weight × 36 / (37 − reps). Accurate under ~10 reps, overestimates badly above ~12.',
+  lombardi: 'weight × reps^0.1. Conservative at high reps.',
+  mayhew: '100 × weight / (52.2 + 41.9e^(−0.055 × reps)). Derived from high-rep bench testing.',
+  rts: 'Reactive Training Systems RPE chart; falls back to Epley past 12 reps to failure.',
+};
+
+export const E1RM_FORMULAS = Object.keys(E1RM_FORMULA_LABELS) as E1RMFormula[];
+
+// Beyond this many reps to failure no formula says much about a single
+export const MAX_EFFECTIVE_REPS = 30;
+
+// %1RM for 1–12 reps to failure (RPE 10 column); each RIR shifts one row
+const RTS_PERCENTAGES = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68.0];
+
+const FORMULAS: Record<E1RMFormula, (weight: number, reps: number) => number> = {
+  epley: (weight, reps) => weight * (1 + reps / 30),
+  brzycki: (weight, reps) => weight * (36 / (37 - reps)),
+  lombardi: (weight, reps) => weight * Math.pow(reps, 0.1),
+  mayhew: (weight, reps) => (100 * weight) / (52.2 + 41.9 * Math.exp(-0.055 * reps)),
+  rts: (weight, reps) =>
+    reps <= RTS_PERCENTAGES.length
+      ? weight / (RTS_PERCENTAGES[Math.round(reps) - 1] / 100)
+      : FORMULAS.epley(weight, reps),
+};
+
+/**
+ * Reps to failure implied by a set (reps + RIR), capped at MAX_EFFECTIVE_REPS
+ */
+export function getEffectiveReps(reps: number, rir: number = 0): number {
+  return Math.min(MAX_EFFECTIVE_REPS, reps + Math.max(0, rir));
+}
+
+/**
+ * Estimated 1RM in the unit the weight was given in
+ */
+export function calculateE1RM(
+  weight: number,
+  reps: number,
+  rir: number = 0,
+  formula: E1RMFormula = DEFAULT_E1RM_FORMULA
+): number {
+  const effectiveReps = getEffectiveReps(reps, rir);
+  if (effectiveReps <= 1) return weight;
+  return FORMULAS[formula](weight, effectiveReps);
+}
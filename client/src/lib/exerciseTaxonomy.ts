@@ -0,0 +1,86 @@
+import type { Equipment, Exercise, Laterality, MovementPattern } from './db';
+
+/**
+ * Exercise taxonomy for HypertrophyOS
+ * Structured equipment, movement pattern, laterality and loading metadata
+ * used for filtering the library and ranking substitutions.
+ */
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  barbell: 'Barbell',
+  dumbbell: 'Dumbbell',
+  cable: 'Cable',
+  machine: 'Machine',
+  bodyweight: 'Bodyweight',
+};
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  horizontal_push: 'Horizontal Push',
+  vertical_push: 'Vertical Push',
+  horizontal_pull: 'Horizontal Pull',
+  vertical_pull: 'Vertical Pull',
+  squat: 'Squat',
+  hinge: 'Hinge',
+  lunge: 'Lunge',
+  hip_thrust: 'Hip Thrust',
+  knee_extension: 'Knee Extension',
+  knee_flexion: 'Knee Flexion',
+  elbow_flexion: 'Elbow Flexion',
+  elbow_extension: 'Elbow Extension',
+  chest_fly: 'Chest Fly',
+  lateral_raise: 'Lateral Raise',
+  rear_delt: 'Rear Delt',
+  calf_raise: 'Calf Raise',
+  core_flexion: 'Core Flexion',
+};
+
+export const LATERALITY_LABELS: Record<Laterality, string> = {
+  bilateral: 'Bilateral',
+  unilateral: 'Unilateral',
+};
+
+export const EQUIPMENT_OPTIONS = Object.keys(EQUIPMENT_LABELS) as Equipment[];
+export const MOVEMENT_PATTERN_OPTIONS = Object.keys(MOVEMENT_PATTERN_LABELS) as MovementPattern[];
+export const LATERALITY_OPTIONS = Object.keys(LATERALITY_LABELS) as Laterality[];
+
+const COMPOUND_PATTERNS: MovementPattern[] = [
+  'horizontal_push', 'vertical_push', 'horizontal_pull', 'vertical_pull',
+  'squat', 'hinge', 'lunge', 'hip_thrust',
+];
+
+/**
+ * Relative joint stress of each equipment type (lower = easier to load
+ * around an injury: fixed paths and adjustable resistance)
+ */
+export const EQUIPMENT_STRESS: Record<Equipment, number> = {
+  machine: 0,
+  cable: 0,
+  dumbbell: 1,
+  bodyweight: 1,
+  barbell: 2,
+};
+
+/**
+ * Multi-joint movement pattern (undefined when the pattern isn't set)
+ */
+export function isCompoundExercise(exercise: Pick<Exercise, 'movement_pattern'>): boolean | undefined {
+  if (!exercise.movement_pattern) return undefined;
+  return COMPOUND_PATTERNS.includes(exercise.movement_pattern);
+}
+
+export interface ExerciseFilters {
+  equipment?: Equipment;
+  movementPattern?: MovementPattern;
+  laterality?: Laterality;
+}
+
+/**
+ * Whether an exercise matches every set filter. Exercises without
+ * laterality are treated as bilateral.
+ */
+export function matchesTaxonomyFilters(exercise: Exercise, filters: ExerciseFilters): boolean {
+  if (filters.equipment && exercise.equipment !== filters.equipment) return false;
+  if (filters.movementPattern && exercise.movement_pattern !== filters.movementPattern) return false;
+  if (filters.laterality && (exercise.laterality ?? 'bilateral') !== filters.laterality) return false;
+  return true;
+}
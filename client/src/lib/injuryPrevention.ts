@@ -1,4 +1,5 @@
-import type { Log, Exercise } from './db';
+import type { Log, Exercise, BodyRegion, PainReport } from './db';
+import { BODY_REGION_LABELS, getJointStress, type Joint } from './pain';
 
 export interface InjuryRisk {
   exerciseId: number;
@@ -7,6 +8,7 @@ export interface InjuryRisk {
   avgJointPain: number;
   recentSessions: number;
   recommendation: string;
+  regions: BodyRegion[]; // Where it hurts, from pain reports linked to the exercise
   alternatives?: Exercise[];
 }
 
@@ -17,7 +19,8 @@ export interface InjuryRisk {
 export function analyzeInjuryRisk(
   logs: Log[],
   exerciseId: number,
-  exerciseName: string
+  exerciseName: string,
+  painReports: PainReport[] = []
 ): InjuryRisk | null {
   // Filter logs for this exercise from recent sessions
   const recentLogs = logs
@@ -55,6 +58,17 @@ export function analyzeInjuryRisk(
     return null;
   }
 
+  // Regions reported over the same window of sessions
+  const since = recentLogs[recentLogs.length - 1].session_date;
+  const regions = Array.from(new Set(
+    painReports
+      .filter(report => report.exercise_id === exerciseId && report.reported_at >= since)
+      .map(report => report.region)
+  ));
+  if (regions.length > 0) {
+    recommendation += ` Pain reported at: ${regions.map(region => BODY_REGION_LABELS[region]).join(', ')}.`;
+  }
+
   return {
     exerciseId,
     exerciseName,
@@ -62,6 +76,7 @@ export function analyzeInjuryRisk(
     avgJointPain,
     recentSessions,
     recommendation,
+    regions,
   };
 }
 
@@ -70,7 +85,8 @@ export function analyzeInjuryRisk(
  */
 export function getAllInjuryRisks(
   logs: Log[],
-  exercises: Exercise[]
+  exercises: Exercise[],
+  painReports: PainReport[] = []
 ): InjuryRisk[] {
   const risks: InjuryRisk[] = [];
 
@@ -81,7 +97,7 @@ export function getAllInjuryRisks(
     const exercise = exercises.find(e => e.id === exerciseId);
     if (!exercise) continue;
 
-    const risk = analyzeInjuryRisk(logs, exerciseId, exercise.name);
+    const risk = analyzeInjuryRisk(logs, exerciseId, exercise.name, painReports);
     if (risk) {
       risks.push(risk);
     }
@@ -97,11 +113,14 @@ export function getAllInjuryRisks(
 }
 
 /**
- * Suggest lower-stress alternatives for high-risk exercises
+ * Suggest lower-stress alternatives for high-risk exercises. When the
+ * painful joints are known, alternatives that load them least come first;
+ * name keywords break ties and rank exercises without a movement pattern.
  */
 export function suggestLowerStressAlternatives(
   exercise: Exercise,
-  allExercises: Exercise[]
+  allExercises: Exercise[],
+  painfulJoints: Joint[] = []
 ): Exercise[] {
   // Filter same muscle group
   const sameMuscleGroup = allExercises.filter(
@@ -120,11 +139,20 @@ export function suggestLowerStressAlternatives(
       
       return {
         exercise: alt,
+        jointStress: getPainfulJointStress(alt, painfulJoints),
         score: isLowerStress ? 2 : isHighStress ? 0 : 1,
       };
     })
-    .sort((a, b) => b.score - a.score)
+    .sort((a, b) => a.jointStress - b.jointStress || b.score - a.score)
     .map(item => item.exercise);
 
   return alternatives.slice(0, 3);
 }
+
+// Above any pattern + equipment stress, so unknown movement patterns rank last
+const UNKNOWN_JOINT_STRESS = 5;
+
+// Total stress on the painful joints
+function getPainfulJointStress(exercise: Exercise, joints: Joint[]): number {
+  return joints.reduce((sum, joint) => sum + (getJointStress(exercise, joint) ?? UNKNOWN_JOINT_STRESS), 0);
+}
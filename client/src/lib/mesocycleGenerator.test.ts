@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { getDay } from 'date-fns';
+import { distributeWeeklySets, generateMesocyclePlan, getScheduledDate, type SplitDay } from './mesocycleGenerator';
+import type { Exercise, MuscleGroup } from './db';
+
+const makeExercise = (id: number, muscle_group: MuscleGroup): Exercise => ({
+  id,
+  name: `Exercise ${id}`,
+  muscle_group,
+  is_custom: false,
+  created_at: new Date(),
+});
+
+describe('Mesocycle Generator', () => {
+  const exercises = [
+    makeExercise(1, 'Chest'),
+    makeExercise(2, 'Back'),
+    makeExercise(3, 'Quads'),
+    makeExercise(4, 'Chest'),
+  ];
+
+  const days: SplitDay[] = [
+    { name: 'Upper A', weekday: 1, exerciseIds: [1, 2] },
+    { name: 'Lower A', weekday: 2, exerciseIds: [3] },
+    { name: 'Upper B', weekday: 4, exerciseIds: [4, 2] },
+  ];
+
+  describe('getScheduledDate', () => {
+    it('should return the first matching weekday on or after the week start', () => {
+      const wednesday = new Date(2024, 0, 3);
+
+      expect(getScheduledDate(wednesday, 3)).toEqual(wednesday);
+      expect(getDay(getScheduledDate(wednesday, 1))).toBe(1);
+      expect(getScheduledDate(wednesday, 1).getDate()).toBe(8);
+    });
+  });
+
+  describe('distributeWeeklySets', () => {
+    it('should split weekly sets across slots with the remainder first', () => {
+      const sets = distributeWeeklySets(days, exercises, { Chest: 9, Back: 8, Quads: 6 });
+
+      expect(sets['0:0']).toBe(5);
+      expect(sets['2:0']).toBe(4);
+      expect(sets['0:1']).toBe(4);
+      expect(sets['2:1']).toBe(4);
+      expect(sets['1:0']).toBe(6);
+    });
+  });
+
+  describe('generateMesocyclePlan', () => {
+    const plan = generateMesocyclePlan({
+      mesocycleId: 1,
+      startDate: new Date(2024, 0, 1), // Monday
+      weeks: 5,
+      phaseType: 'Hypertrophy',
+      days,
+      exercises,
+      startingSets: { Chest: 8, Back: 8, Quads: 6 },
+      includeDeload: true,
+    });
+
+    it('should build accumulation weeks followed by one deload week', () => {
+      expect(plan.microcycles).toHaveLength(5);
+      expect(plan.microcycles.filter(week => week.is_deload)).toHaveLength(1);
+      expect(plan.microcycles[4].is_deload).toBe(true);
+      expect(plan.microcycles[4].week_number).toBe(5);
+    });
+
+    it('should schedule sessions on the chosen weekdays', () => {
+      const week2 = plan.microcycles[1];
+
+      expect(week2.sessions.map(s => getDay(s.scheduled_date))).toEqual([1, 2, 4]);
+      expect(week2.sessions[0].scheduled_date.getDate()).toBe(8);
+    });
+
+    it('should halve the sets in the deload week', () => {
+      const lastAccumulation = plan.microcycles[3].sessions[0].exercises;
+      const deload = plan.microcycles[4].sessions[0].exercises;
+
+      expect(lastAccumulation[0].target_sets).toBe(4);
+      expect(deload[0].target_sets).toBe(2);
+      expect(deload[0].target_rir).toBe(4);
+    });
+
+    it('should step RIR down across the accumulation weeks', () => {
+      const rirByWeek = plan.microcycles.slice(0, 4).map(week => week.sessions[0].exercises[0].target_rir);
+
+      expect(rirByWeek).toEqual([3, 2, 1, 0]);
+    });
+
+    it('should report the weekly sets per muscle', () => {
+      expect(plan.weeklySets).toEqual({ Chest: 8, Back: 8, Quads: 6 });
+    });
+  });
+});
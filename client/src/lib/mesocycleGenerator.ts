@@ -0,0 +1,264 @@
+import { addDays, getDay } from 'date-fns';
+import type { Exercise, Microcycle, MuscleGroup, PhaseType, SessionExercise } from './db';
+import { generateDeloadWeek } from './deloadGenerator';
+import { DEFAULT_VOLUME_LANDMARKS } from './volumeLandmarks';
+
+/**
+ * Mesocycle generator for HypertrophyOS
+ * Builds every week, session and session exercise of a mesocycle from a
+ * weekly split, the phase type and per-muscle starting volume, finishing
+ * with a deload week.
+ */
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface SplitDay {
+  name: string;
+  weekday: number; // 0 = Sunday, matches date-fns getDay()
+  exerciseIds: number[];
+}
+
+export interface SplitPreset {
+  id: string;
+  name: string;
+  days: Array<{ name: string; weekday: number }>;
+}
+
+export const SPLIT_PRESETS: SplitPreset[] = [
+  {
+    id: 'upper_lower_x2',
+    name: 'Upper/Lower x2',
+    days: [
+      { name: 'Upper A', weekday: 1 },
+      { name: 'Lower A', weekday: 2 },
+      { name: 'Upper B', weekday: 4 },
+      { name: 'Lower B', weekday: 5 },
+    ],
+  },
+  {
+    id: 'push_pull_legs',
+    name: 'Push/Pull/Legs',
+    days: [
+      { name: 'Push', weekday: 1 },
+      { name: 'Pull', weekday: 3 },
+      { name: 'Legs', weekday: 5 },
+    ],
+  },
+  {
+    id: 'push_pull_legs_x2',
+    name: 'Push/Pull/Legs x2',
+    days: [
+      { name: 'Push A', weekday: 1 },
+      { name: 'Pull A', weekday: 2 },
+      { name: 'Legs A', weekday: 3 },
+      { name: 'Push B', weekday: 4 },
+      { name: 'Pull B', weekday: 5 },
+      { name: 'Legs B', weekday: 6 },
+    ],
+  },
+  {
+    id: 'full_body_x3',
+    name: 'Full Body x3',
+    days: [
+      { name: 'Full Body A', weekday: 1 },
+      { name: 'Full Body B', weekday: 3 },
+      { name: 'Full Body C', weekday: 5 },
+    ],
+  },
+];
+
+/**
+ * Rep ranges and starting RIR for each phase
+ */
+export const PHASE_TARGETS: Record<PhaseType, { repsMin: number; repsMax: number; rir: number }> = {
+  Hypertrophy: { repsMin: 8, repsMax: 12, rir: 3 },
+  Metabolite: { repsMin: 15, repsMax: 30, rir: 2 },
+  Resensitization: { repsMin: 3, repsMax: 6, rir: 3 },
+  Deload: { repsMin: 8, repsMax: 12, rir: 4 },
+};
+
+export interface MesocyclePlanInput {
+  mesocycleId: number;
+  startDate: Date;
+  weeks: number; // Total weeks including the deload
+  phaseType: PhaseType;
+  days: SplitDay[];
+  exercises: Exercise[];
+  startingSets: Partial<Record<MuscleGroup, number>>; // Weekly hard sets per muscle (defaults to MEV)
+  includeDeload: boolean;
+}
+
+export type PlannedSessionExercise = Omit<SessionExercise, 'id' | 'session_id' | 'created_at'>;
+
+export interface PlannedSession {
+  name: string;
+  scheduled_date: Date;
+  exercises: PlannedSessionExercise[];
+}
+
+export interface PlannedMicrocycle {
+  week_number: number;
+  start_date: Date;
+  end_date: Date;
+  is_deload: boolean;
+  sessions: PlannedSession[];
+}
+
+export interface MesocyclePlan {
+  microcycles: PlannedMicrocycle[];
+  weeklySets: Partial<Record<MuscleGroup, number>>; // Accumulation week sets per muscle
+}
+
+/**
+ * Target RIR for an accumulation week, stepping down evenly from the
+ * phase's starting RIR in week 1 to 0 in the last week (e.g. 3→2→1→0)
+ */
+export function getWeekTargetRIR(weekIndex: number, accumulationWeeks: number, startRIR: number): number {
+  if (accumulationWeeks <= 1) return startRIR;
+  const progress = Math.min(1, weekIndex / (accumulationWeeks - 1));
+  return Math.round(startRIR * (1 - progress));
+}
+
+/**
+ * First date on or after weekStart that falls on the given weekday
+ */
+export function getScheduledDate(weekStart: Date, weekday: number): Date {
+  return addDays(weekStart, (weekday - getDay(weekStart) + 7) % 7);
+}
+
+/**
+ * Split each muscle's weekly sets across every slot that trains it.
+ * Remainders go to the earliest slots; every slot gets at least one set.
+ * Returns target sets keyed by `${dayIndex}:${exerciseIndex}`.
+ */
+export function distributeWeeklySets(
+  days: SplitDay[],
+  exercises: Exercise[],
+  startingSets: Partial<Record<MuscleGroup, number>>
+): Record<string, number> {
+  const exerciseById = new Map(exercises.map(ex => [ex.id!, ex]));
+  const slotsByMuscle = new Map<MuscleGroup, string[]>();
+
+  days.forEach((day, dayIndex) => {
+    day.exerciseIds.forEach((exerciseId, exerciseIndex) => {
+      const exercise = exerciseById.get(exerciseId);
+      if (!exercise) return;
+      const slots = slotsByMuscle.get(exercise.muscle_group) || [];
+      slots.push(`${dayIndex}:${exerciseIndex}`);
+      slotsByMuscle.set(exercise.muscle_group, slots);
+    });
+  });
+
+  const setsBySlot: Record<string, number> = {};
+  slotsByMuscle.forEach((slots, muscle) => {
+    const weeklySets = startingSets[muscle] ?? DEFAULT_VOLUME_LANDMARKS[muscle].mev;
+    const base = Math.floor(weeklySets / slots.length);
+    const remainder = weeklySets % slots.length;
+    slots.forEach((slot, i) => {
+      setsBySlot[slot] = Math.max(1, base + (i < remainder ? 1 : 0));
+    });
+  });
+
+  return setsBySlot;
+}
+
+/**
+ * Build the full mesocycle plan. Accumulation weeks repeat the split with
+ * the starting volume while RIR steps down; sets are added week by week as
+ * microcycles are completed (see weeklyProgression). The final week (if
+ * requested) is a deload generated from the last accumulation week.
+ */
+export function generateMesocyclePlan(input: MesocyclePlanInput): MesocyclePlan {
+  const { startDate, phaseType, days, exercises, startingSets } = input;
+  const targets = PHASE_TARGETS[phaseType];
+  const setsBySlot = distributeWeeklySets(days, exercises, startingSets);
+  const exerciseById = new Map(exercises.map(ex => [ex.id!, ex]));
+  const orderedDays = days
+    .map((day, dayIndex) => ({ day, dayIndex }))
+    .sort((a, b) => ((a.day.weekday + 6) % 7) - ((b.day.weekday + 6) % 7)); // Monday-first
+
+  const deloadWeeks = input.includeDeload && input.weeks > 1 ? 1 : 0;
+  const accumulationWeeks = Math.max(1, input.weeks - deloadWeeks);
+
+  const buildWeek = (weekIndex: number): PlannedMicrocycle => {
+    const weekStart = addDays(startDate, weekIndex * 7);
+    return {
+      week_number: weekIndex + 1,
+      start_date: weekStart,
+      end_date: addDays(weekStart, 6),
+      is_deload: false,
+      sessions: orderedDays.map(({ day, dayIndex }) => ({
+        name: day.name,
+        scheduled_date: getScheduledDate(weekStart, day.weekday),
+        exercises: day.exerciseIds
+          .map((exerciseId, exerciseIndex) => ({ exerciseId, slot: `${dayIndex}:${exerciseIndex}` }))
+          .filter(({ exerciseId }) => exerciseById.has(exerciseId))
+          .map(({ exerciseId, slot }, orderIndex) => ({
+            exercise_id: exerciseId,
+            order_index: orderIndex,
+            target_sets: setsBySlot[slot] ?? 1,
+            target_reps_min: targets.repsMin,
+            target_reps_max: targets.repsMax,
+            target_rir: getWeekTargetRIR(weekIndex, accumulationWeeks, targets.rir),
+          })),
+      })),
+    };
+  };
+
+  const microcycles: PlannedMicrocycle[] = [];
+  for (let week = 0; week < accumulationWeeks; week++) {
+    microcycles.push(buildWeek(week));
+  }
+
+  if (deloadWeeks > 0) {
+    const lastWeek = microcycles[microcycles.length - 1];
+    const lastMicrocycle: Microcycle = {
+      mesocycle_id: input.mesocycleId,
+      week_number: lastWeek.week_number,
+      start_date: lastWeek.start_date,
+      end_date: lastWeek.end_date,
+      created_at: new Date(),
+    };
+
+    let deloadStart = addDays(lastWeek.end_date, 1);
+    let deloadEnd = addDays(deloadStart, 6);
+    const sessions = lastWeek.sessions.map(session => {
+      const deload = generateDeloadWeek(
+        lastMicrocycle,
+        session.exercises.map(ex => ({ ...ex, session_id: 0, created_at: new Date() }))
+      );
+      deloadStart = deload.deloadMicrocycle.start_date ?? deloadStart;
+      deloadEnd = deload.deloadMicrocycle.end_date ?? deloadEnd;
+
+      return {
+        name: `${session.name} (Deload)`,
+        scheduled_date: addDays(session.scheduled_date, 7),
+        exercises: session.exercises.map((ex, i) => ({
+          ...ex,
+          target_sets: deload.exerciseAdjustments[i].deloadSets,
+          target_rir: PHASE_TARGETS.Deload.rir,
+        })),
+      };
+    });
+
+    microcycles.push({
+      week_number: lastWeek.week_number + 1,
+      start_date: deloadStart,
+      end_date: deloadEnd,
+      is_deload: true,
+      sessions,
+    });
+  }
+
+  const weeklySets: Partial<Record<MuscleGroup, number>> = {};
+  days.forEach((day, dayIndex) => {
+    day.exerciseIds.forEach((exerciseId, exerciseIndex) => {
+      const exercise = exerciseById.get(exerciseId);
+      if (!exercise) return;
+      weeklySets[exercise.muscle_group] =
+        (weeklySets[exercise.muscle_group] ?? 0) + (setsBySlot[`${dayIndex}:${exerciseIndex}`] ?? 0);
+    });
+  });
+
+  return { microcycles, weeklySets };
+}
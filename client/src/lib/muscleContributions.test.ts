@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getMuscleContributions, getFractionalSets, formatSetCount } from './muscleContributions';
+import { analyzeMuscleGroupBalance } from './advancedAnalytics';
+import { SEEDED_SECONDARY_MUSCLES, type Exercise, type Log } from './db';
+
+const deadlift: Exercise = {
+  id: 1,
+  name: 'Deadlift',
+  muscle_group: 'Back',
+  secondary_muscles: SEEDED_SECONDARY_MUSCLES['Deadlift'],
+  is_custom: false,
+  created_at: new Date(),
+};
+
+const legCurl: Exercise = {
+  id: 2,
+  name: 'Leg Curl',
+  muscle_group: 'Hamstrings',
+  is_custom: false,
+  created_at: new Date(),
+};
+
+const makeLog = (exercise_id: number, set_type?: Log['set_type']): Log => ({
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id,
+  set_number: 1,
+  set_type,
+  weight: 100,
+  reps: 5,
+  rir: 2,
+  target_rir: 2,
+  session_date: new Date(),
+  created_at: new Date(),
+});
+
+describe('Muscle Contributions', () => {
+  it('should credit the primary muscle fully and secondaries fractionally', () => {
+    expect(getMuscleContributions(deadlift)).toEqual([
+      { muscle_group: 'Back', weight: 1 },
+      { muscle_group: 'Glutes', weight: 0.5 },
+      { muscle_group: 'Hamstrings', weight: 0.5 },
+      { muscle_group: 'Forearms', weight: 0.25 },
+    ]);
+  });
+
+  it('should ignore a secondary that repeats the primary muscle', () => {
+    const exercise = { muscle_group: 'Chest' as const, secondary_muscles: [{ muscle_group: 'Chest' as const, weight: 0.5 }] };
+
+    expect(getMuscleContributions(exercise)).toHaveLength(1);
+  });
+
+  it('should sum fractional hard sets and skip warm-ups', () => {
+    const logs = [makeLog(1), makeLog(1), makeLog(1, 'warmup'), makeLog(2)];
+
+    expect(getFractionalSets(logs, [deadlift, legCurl])).toEqual({
+      Back: 2,
+      Glutes: 1,
+      Hamstrings: 2,
+      Forearms: 0.5,
+    });
+  });
+
+  it('should count fractional sets in the muscle group balance', () => {
+    const balance = analyzeMuscleGroupBalance([makeLog(1)], [deadlift]);
+    const glutes = balance.distribution.find(d => d.muscleGroup === 'Glutes');
+
+    expect(glutes?.totalSets).toBe(0.5);
+    expect(glutes?.totalVolume).toBe(250);
+  });
+
+  it('should format fractional counts without trailing zeros', () => {
+    expect(formatSetCount(7.5)).toBe('7.5');
+    expect(formatSetCount(12)).toBe('12');
+    expect(formatSetCount(0.25 * 3)).toBe('0.75');
+  });
+});
@@ -0,0 +1,51 @@
+import type { Exercise, Log, MuscleContribution, MuscleGroup } from './db';
+import { isHardSet } from './setTypes';
+
+/**
+ * Muscle contributions for HypertrophyOS
+ * Each set credits its exercise's primary muscle in full and any secondary
+ * muscles fractionally (e.g. a Deadlift set = 1 Back + 0.5 Glutes + 0.5 Hamstrings).
+ */
+
+export const PRIMARY_MUSCLE_WEIGHT = 1;
+
+export const SECONDARY_WEIGHT_OPTIONS = [0.25, 0.5, 0.75];
+
+/**
+ * Primary muscle plus secondaries (a secondary matching the primary is ignored)
+ */
+export function getMuscleContributions(
+  exercise: Pick<Exercise, 'muscle_group' | 'secondary_muscles'>
+): MuscleContribution[] {
+  const secondary = (exercise.secondary_muscles || []).filter(
+    contribution => contribution.muscle_group !== exercise.muscle_group && contribution.weight > 0
+  );
+  return [{ muscle_group: exercise.muscle_group, weight: PRIMARY_MUSCLE_WEIGHT }, ...secondary];
+}
+
+/**
+ * Fractional hard sets per muscle group
+ */
+export function getFractionalSets(
+  logs: Log[],
+  exercises: Exercise[]
+): Partial<Record<MuscleGroup, number>> {
+  const contributionsById = new Map(exercises.map(ex => [ex.id!, getMuscleContributions(ex)]));
+  const sets: Partial<Record<MuscleGroup, number>> = {};
+
+  for (const log of logs) {
+    if (!isHardSet(log)) continue;
+    for (const { muscle_group, weight } of contributionsById.get(log.exercise_id) || []) {
+      sets[muscle_group] = (sets[muscle_group] ?? 0) + weight;
+    }
+  }
+
+  return sets;
+}
+
+/**
+ * Format a fractional set count without trailing zeros (e.g. 7.5, 12)
+ */
+export function formatSetCount(sets: number): string {
+  return parseFloat(sets.toFixed(2)).toString();
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { getJoint, getJointStress, getPainCulprits, getPainfulJoints, getPainTrend } from './pain';
+import { suggestLowerStressAlternatives } from './injuryPrevention';
+import type { Exercise, PainReport } from './db';
+
+const exercises = [
+  { id: 1, name: 'Barbell Bench Press', muscle_group: 'Chest', equipment: 'barbell', movement_pattern: 'horizontal_push' },
+  { id: 2, name: 'Dumbbell Fly', muscle_group: 'Chest', equipment: 'dumbbell', movement_pattern: 'chest_fly' },
+  { id: 3, name: 'Dips (Chest Focus)', muscle_group: 'Chest', equipment: 'bodyweight', movement_pattern: 'vertical_push' },
+  { id: 4, name: 'Machine Press', muscle_group: 'Chest', equipment: 'machine', movement_pattern: 'horizontal_push' },
+  { id: 5, name: 'Chest Thing', muscle_group: 'Chest' },
+] as Exercise[];
+
+const report = (region: PainReport['region'], severity: number, day: number, exercise_id?: number): PainReport => ({
+  region,
+  severity,
+  exercise_id,
+  reported_at: new Date(2024, 0, day),
+});
+
+describe('Body Region Pain', () => {
+  it('should map sided regions to their joint', () => {
+    expect(getJoint('shoulder_left')).toBe('shoulder');
+    expect(getJoint('knee_right')).toBe('knee');
+    expect(getJoint('lower_back')).toBe('lower_back');
+  });
+
+  it('should combine movement pattern and equipment stress', () => {
+    expect(getJointStress(exercises[0], 'shoulder')).toBe(4);
+    expect(getJointStress(exercises[3], 'shoulder')).toBe(2);
+    expect(getJointStress(exercises[1], 'elbow')).toBe(0);
+    expect(getJointStress(exercises[4], 'shoulder')).toBeUndefined();
+  });
+
+  it('should list recently painful joints, worst first', () => {
+    const reports = [
+      report('elbow_left', 2, 20, 1),
+      report('shoulder_right', 4, 25, 1),
+      report('shoulder_left', 3, 26, 2),
+      report('knee_left', 5, 1, 3),
+    ];
+    const now = new Date(2024, 1, 5);
+
+    expect(getPainfulJoints(reports, { now })).toEqual(['shoulder', 'elbow']);
+    expect(getPainfulJoints(reports, { now, exerciseId: 2 })).toEqual(['shoulder']);
+  });
+
+  it('should average severity per region by week', () => {
+    // Jan 1 2024 is a Monday
+    const trend = getPainTrend([
+      report('shoulder_left', 2, 9),
+      report('knee_left', 3, 2),
+      report('shoulder_left', 4, 10),
+    ]);
+
+    expect(trend.map(point => point.weekStart)).toEqual([new Date(2024, 0, 1), new Date(2024, 0, 8)]);
+    expect(trend[0].regions).toEqual({ knee_left: 3 });
+    expect(trend[1].regions).toEqual({ shoulder_left: 3 });
+  });
+
+  it('should rank exercises linked to pain', () => {
+    const culprits = getPainCulprits([
+      report('shoulder_left', 2, 1, 2),
+      report('shoulder_left', 3, 2, 1),
+      report('elbow_left', 5, 2, 1),
+      report('knee_left', 4, 3),
+    ], exercises);
+
+    expect(culprits.map(c => c.exercise.id)).toEqual([1, 2]);
+    expect(culprits[0]).toMatchObject({ regions: ['shoulder_left', 'elbow_left'], reports: 2, avgSeverity: 4 });
+  });
+});
+
+describe('Joint-Aware Alternatives', () => {
+  it('should prefer exercises that load the painful joint least', () => {
+    const alternatives = suggestLowerStressAlternatives(exercises[0], exercises, ['shoulder']);
+
+    expect(alternatives.map(ex => ex.id)).toEqual([4, 2, 3]);
+  });
+
+  it('should fall back to name keywords without painful joints', () => {
+    const alternatives = suggestLowerStressAlternatives(exercises[0], exercises);
+
+    expect(alternatives.map(ex => ex.id)).toEqual([2, 4, 3]);
+  });
+});
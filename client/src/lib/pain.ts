@@ -0,0 +1,169 @@
+import { startOfWeek, subDays } from 'date-fns';
+import type { BodyRegion, Exercise, MovementPattern, PainReport } from './db';
+import { EQUIPMENT_STRESS } from './exerciseTaxonomy';
+
+/**
+ * Joint and body-region pain for HypertrophyOS
+ * Pain is reported per region (left/right where it matters) and linked to
+ * the exercise that caused it, so trends can be charted by region and
+ * swaps chosen by how hard an exercise loads the joint that hurts.
+ */
+
+export type Joint =
+  | 'neck' | 'upper_back' | 'lower_back'
+  | 'shoulder' | 'elbow' | 'wrist' | 'hip' | 'knee' | 'ankle';
+
+export const BODY_REGION_LABELS: Record<BodyRegion, string> = {
+  neck: 'Neck',
+  upper_back: 'Upper Back',
+  lower_back: 'Lower Back',
+  shoulder_left: 'Left Shoulder',
+  shoulder_right: 'Right Shoulder',
+  elbow_left: 'Left Elbow',
+  elbow_right: 'Right Elbow',
+  wrist_left: 'Left Wrist',
+  wrist_right: 'Right Wrist',
+  hip_left: 'Left Hip',
+  hip_right: 'Right Hip',
+  knee_left: 'Left Knee',
+  knee_right: 'Right Knee',
+  ankle_left: 'Left Ankle',
+  ankle_right: 'Right Ankle',
+};
+
+export const BODY_REGIONS = Object.keys(BODY_REGION_LABELS) as BodyRegion[];
+
+export const JOINT_LABELS: Record<Joint, string> = {
+  neck: 'Neck',
+  upper_back: 'Upper Back',
+  lower_back: 'Lower Back',
+  shoulder: 'Shoulder',
+  elbow: 'Elbow',
+  wrist: 'Wrist',
+  hip: 'Hip',
+  knee: 'Knee',
+  ankle: 'Ankle',
+};
+
+// Joints each movement pattern loads (1 = some, 2 = a lot)
+const PATTERN_JOINT_STRESS: Record<MovementPattern, Partial<Record<Joint, number>>> = {
+  horizontal_push: { shoulder: 2, elbow: 1, wrist: 1 },
+  vertical_push: { shoulder: 2, elbow: 1, wrist: 1, lower_back: 1 },
+  horizontal_pull: { shoulder: 1, elbow: 1, lower_back: 1, upper_back: 1 },
+  vertical_pull: { shoulder: 2, elbow: 2 },
+  squat: { knee: 2, hip: 2, lower_back: 1, ankle: 1 },
+  hinge: { lower_back: 2, hip: 2, knee: 1 },
+  lunge: { knee: 2, hip: 1, ankle: 1 },
+  hip_thrust: { hip: 1, lower_back: 1 },
+  knee_extension: { knee: 2 },
+  knee_flexion: { knee: 1 },
+  elbow_flexion: { elbow: 2, wrist: 1 },
+  elbow_extension: { elbow: 2 },
+  chest_fly: { shoulder: 2 },
+  lateral_raise: { shoulder: 1 },
+  rear_delt: { shoulder: 1 },
+  calf_raise: { ankle: 2 },
+  core_flexion: { lower_back: 1, neck: 1 },
+};
+
+export function getJoint(region: BodyRegion): Joint {
+  return region.replace(/_(left|right)$/, '') as Joint;
+}
+
+/**
+ * How hard an exercise loads a joint: the movement pattern's stress plus
+ * the equipment's when the joint is loaded at all. Undefined when the
+ * exercise has no movement pattern to judge by.
+ */
+export function getJointStress(exercise: Exercise, joint: Joint): number | undefined {
+  if (!exercise.movement_pattern) return undefined;
+
+  const stress = PATTERN_JOINT_STRESS[exercise.movement_pattern][joint] ?? 0;
+  if (stress === 0) return 0;
+  return stress + (exercise.equipment ? EQUIPMENT_STRESS[exercise.equipment] : 1);
+}
+
+/**
+ * Joints with pain reported in the last `days` days, optionally only for
+ * one exercise, most severe first
+ */
+export function getPainfulJoints(
+  reports: PainReport[],
+  options: { exerciseId?: number; days?: number; now?: Date } = {}
+): Joint[] {
+  const cutoff = subDays(options.now ?? new Date(), options.days ?? 28);
+  const worst = new Map<Joint, number>();
+
+  for (const report of reports) {
+    if (report.reported_at < cutoff) continue;
+    if (options.exerciseId !== undefined && report.exercise_id !== options.exerciseId) continue;
+    const joint = getJoint(report.region);
+    worst.set(joint, Math.max(worst.get(joint) ?? 0, report.severity));
+  }
+
+  return Array.from(worst.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([joint]) => joint);
+}
+
+export interface PainTrendPoint {
+  weekStart: Date;
+  regions: Partial<Record<BodyRegion, number>>; // Average severity that week
+}
+
+/**
+ * Average severity per region for each week with reports, oldest first
+ */
+export function getPainTrend(reports: PainReport[]): PainTrendPoint[] {
+  const weeks = new Map<number, Map<BodyRegion, number[]>>();
+
+  for (const report of reports) {
+    const key = startOfWeek(report.reported_at, { weekStartsOn: 1 }).getTime();
+    const week = weeks.get(key) ?? new Map<BodyRegion, number[]>();
+    week.set(report.region, [...(week.get(report.region) ?? []), report.severity]);
+    weeks.set(key, week);
+  }
+
+  return Array.from(weeks.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([key, week]) => ({
+      weekStart: new Date(key),
+      regions: Object.fromEntries(
+        Array.from(week.entries()).map(([region, severities]) => [
+          region,
+          severities.reduce((sum, v) => sum + v, 0) / severities.length,
+        ])
+      ),
+    }));
+}
+
+export interface PainCulprit {
+  exercise: Exercise;
+  regions: BodyRegion[];
+  reports: number;
+  avgSeverity: number;
+}
+
+/**
+ * Exercises linked to pain reports, most reported first
+ */
+export function getPainCulprits(reports: PainReport[], exercises: Exercise[]): PainCulprit[] {
+  const byExercise = new Map<number, PainReport[]>();
+  for (const report of reports) {
+    if (report.exercise_id === undefined) continue;
+    byExercise.set(report.exercise_id, [...(byExercise.get(report.exercise_id) ?? []), report]);
+  }
+
+  return Array.from(byExercise.entries())
+    .flatMap(([exerciseId, linked]) => {
+      const exercise = exercises.find(ex => ex.id === exerciseId);
+      if (!exercise) return [];
+      return [{
+        exercise,
+        regions: Array.from(new Set(linked.map(report => report.region))),
+        reports: linked.length,
+        avgSeverity: linked.reduce((sum, report) => sum + report.severity, 0) / linked.length,
+      }];
+    })
+    .sort((a, b) => b.reports - a.reports || b.avgSeverity - a.avgSeverity);
+}
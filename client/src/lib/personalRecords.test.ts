@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectNewRecords,
+  replayPersonalRecords,
+  getRepMaxTable,
+  getRecordSummary,
+} from './personalRecords';
+import type { Log } from './db';
+import { calculateE1RM } from './e1rm';
+
+let nextId = 1;
+const makeLog = (
+  session_id: number,
+  weight: number,
+  reps: number,
+  overrides: Partial<Log> = {}
+): Log => {
+  const id = nextId++;
+  const date = new Date(2026, 0, session_id, 18, 0, id);
+  return {
+    id,
+    session_exercise_id: session_id,
+    session_id,
+    exercise_id: 1,
+    set_number: 1,
+    weight,
+    reps,
+    rir: 2,
+    target_rir: 2,
+    e1rm: calculateE1RM(weight, reps),
+    session_date: date,
+    created_at: date,
+    ...overrides,
+  };
+};
+
+describe('Personal Records', () => {
+  it('should not treat the first set of an exercise as a PR', () => {
+    expect(detectNewRecords(makeLog(1, 100, 8), [])).toEqual([]);
+  });
+
+  it('should detect rep-max, e1RM and set volume PRs', () => {
+    const prior = [makeLog(1, 100, 8)];
+    const records = detectNewRecords(makeLog(2, 105, 8), prior);
+
+    expect(records.map(r => r.type).sort()).toEqual(['e1rm', 'rep_max', 'session_volume', 'set_volume']);
+    expect(records.find(r => r.type === 'rep_max')).toMatchObject({ reps: 8, value: 105, previous_value: 100 });
+  });
+
+  it('should compare rep maxes only at the same rep count', () => {
+    const prior = [makeLog(1, 100, 8), makeLog(1, 120, 3)];
+    const records = detectNewRecords(makeLog(2, 110, 3), prior);
+    expect(records.some(r => r.type === 'rep_max')).toBe(false);
+  });
+
+  it('should compare across units in kg', () => {
+    const prior = [makeLog(1, 100, 5)];
+    // 225 lb ≈ 102 kg
+    const records = detectNewRecords(makeLog(2, 225, 5, { weight_unit: 'lb', e1rm: calculateE1RM(225, 5) }), prior);
+    expect(records.find(r => r.type === 'rep_max')?.value).toBeCloseTo(102.06, 1);
+  });
+
+  it('should ignore warm-up sets', () => {
+    const prior = [makeLog(1, 100, 8)];
+    expect(detectNewRecords(makeLog(2, 140, 8, { set_type: 'warmup' }), prior)).toEqual([]);
+  });
+
+  it('should keep one session volume record per session when replaying', () => {
+    const logs = [
+      makeLog(1, 100, 8),
+      makeLog(2, 100, 8),
+      makeLog(2, 100, 8),
+      makeLog(2, 100, 8),
+    ];
+    const sessionRecords = replayPersonalRecords(logs).filter(r => r.type === 'session_volume');
+
+    expect(sessionRecords).toHaveLength(1);
+    expect(sessionRecords[0]).toMatchObject({ session_id: 2, value: 2400, previous_value: 800 });
+  });
+
+  it('should build a rep-max table and summary', () => {
+    const logs = [makeLog(1, 100, 8), makeLog(2, 110, 8), makeLog(2, 130, 1)];
+    const table = getRepMaxTable(logs, 'kg');
+
+    expect(table).toHaveLength(20);
+    expect(table[0].weight).toBe(130);
+    expect(table[7].weight).toBe(110);
+    expect(table[4].weight).toBeUndefined();
+    expect(getRecordSummary(logs).sessionVolume).toBe(1010);
+  });
+});
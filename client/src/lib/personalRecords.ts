@@ -0,0 +1,170 @@
+import type { Log, PersonalRecord, PRType, WeightUnit } from './db';
+import { convertWeight, getLogE1RM, getLogWeight } from './units';
+import { isHardSet } from './setTypes';
+
+/**
+ * Personal records for HypertrophyOS
+ * Per exercise: best weight at each rep count (1RM–20RM), best e1RM, best
+ * single-set volume and best session volume. Only working sets count, and
+ * everything is compared in kg so mixed-unit history stays consistent.
+ */
+
+export const MAX_REP_MAX = 20;
+
+export const PR_TYPE_LABELS: Record<PRType, string> = {
+  rep_max: 'Rep Max',
+  e1rm: 'Estimated 1RM',
+  set_volume: 'Set Volume',
+  session_volume: 'Session Volume',
+};
+
+export type NewPersonalRecord = Omit<PersonalRecord, 'id'>;
+
+// Float noise from unit conversion shouldn't count as a record
+const EPSILON = 1e-6;
+
+interface RecordState {
+  repMax: Map<number, number>;
+  e1rm?: number;
+  setVolume?: number;
+  sessionVolumes: Map<number, number>;
+}
+
+const createRecordState = (): RecordState => ({ repMax: new Map(), sessionVolumes: new Map() });
+
+const countsForRecords = (log: Log) => isHardSet(log) && log.weight > 0 && log.reps > 0;
+
+const logTime = (log: Log) => (log.ended_at ?? log.created_at).getTime();
+
+/**
+ * Logs in the order they were performed
+ */
+function sortChronologically(logs: Log[]): Log[] {
+  return [...logs].sort((a, b) => logTime(a) - logTime(b) || (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Records a log beats, then fold it into the running bests. The first value
+ * of each kind only sets a baseline.
+ */
+function recordLog(state: RecordState, log: Log): NewPersonalRecord[] {
+  if (!countsForRecords(log)) return [];
+
+  const records: NewPersonalRecord[] = [];
+  const base = {
+    exercise_id: log.exercise_id,
+    log_id: log.id!,
+    session_id: log.session_id,
+    achieved_at: log.ended_at ?? log.created_at,
+  };
+  const check = (type: PRType, value: number, previous: number | undefined, reps?: number) => {
+    if (previous !== undefined && value > previous + EPSILON) {
+      records.push({ ...base, type, reps, value, previous_value: previous });
+    }
+  };
+
+  const weight = getLogWeight(log, 'kg');
+  const setVolume = weight * log.reps;
+  const e1rm = getLogE1RM(log, 'kg');
+  const previousSessionBest = Math.max(
+    -Infinity,
+    ...Array.from(state.sessionVolumes.entries())
+      .filter(([sessionId]) => sessionId !== log.session_id)
+      .map(([, volume]) => volume)
+  );
+  const sessionVolume = (state.sessionVolumes.get(log.session_id) ?? 0) + setVolume;
+
+  if (log.reps <= MAX_REP_MAX) check('rep_max', weight, state.repMax.get(log.reps), log.reps);
+  if (e1rm !== undefined) check('e1rm', e1rm, state.e1rm);
+  check('set_volume', setVolume, state.setVolume);
+  // Every set past the old best raises the session's record again
+  if (isFinite(previousSessionBest)) check('session_volume', sessionVolume, previousSessionBest);
+
+  if (log.reps <= MAX_REP_MAX) state.repMax.set(log.reps, Math.max(state.repMax.get(log.reps) ?? 0, weight));
+  if (e1rm !== undefined) state.e1rm = Math.max(state.e1rm ?? 0, e1rm);
+  state.setVolume = Math.max(state.setVolume ?? 0, setVolume);
+  state.sessionVolumes.set(log.session_id, sessionVolume);
+
+  return records;
+}
+
+/**
+ * PRs set by a newly logged set, given the exercise's earlier logs
+ */
+export function detectNewRecords(log: Log, priorLogs: Log[]): NewPersonalRecord[] {
+  const state = createRecordState();
+  for (const prior of sortChronologically(priorLogs)) {
+    if (prior.exercise_id === log.exercise_id && prior.id !== log.id) recordLog(state, prior);
+  }
+  return recordLog(state, log);
+}
+
+/**
+ * Every PR in a log history, oldest first. A session keeps one session
+ * volume record: its final total.
+ */
+export function replayPersonalRecords(logs: Log[]): NewPersonalRecord[] {
+  const states = new Map<number, RecordState>();
+  const records = sortChronologically(logs).flatMap(log => {
+    if (!states.has(log.exercise_id)) states.set(log.exercise_id, createRecordState());
+    return recordLog(states.get(log.exercise_id)!, log);
+  });
+
+  const sessionKey = (r: NewPersonalRecord) => `${r.exercise_id}:${r.session_id}`;
+  const lastSessionRecord = new Map(
+    records.filter(r => r.type === 'session_volume').map(r => [sessionKey(r), r])
+  );
+  return records.filter(r => r.type !== 'session_volume' || lastSessionRecord.get(sessionKey(r)) === r);
+}
+
+export interface RepMaxEntry {
+  reps: number;
+  weight?: number; // In the requested unit; missing if never performed
+  date?: Date;
+}
+
+/**
+ * Heaviest working set at each rep count from 1 to MAX_REP_MAX
+ */
+export function getRepMaxTable(logs: Log[], unit: WeightUnit): RepMaxEntry[] {
+  const best = new Map<number, { kg: number; date: Date }>();
+  for (const log of logs) {
+    if (!countsForRecords(log) || log.reps > MAX_REP_MAX) continue;
+    const kg = getLogWeight(log, 'kg');
+    const current = best.get(log.reps);
+    if (!current || kg > current.kg + EPSILON) best.set(log.reps, { kg, date: log.session_date });
+  }
+
+  return Array.from({ length: MAX_REP_MAX }, (_, i) => {
+    const entry = best.get(i + 1);
+    return { reps: i + 1, weight: entry && convertWeight(entry.kg, 'kg', unit), date: entry?.date };
+  });
+}
+
+/**
+ * Best e1RM, set volume and session volume (kg) across the history
+ */
+export function getRecordSummary(logs: Log[]): { e1rm?: number; setVolume?: number; sessionVolume?: number } {
+  const state = createRecordState();
+  for (const log of sortChronologically(logs)) recordLog(state, log);
+  const sessionVolumes = Array.from(state.sessionVolumes.values());
+  return {
+    e1rm: state.e1rm,
+    setVolume: state.setVolume,
+    sessionVolume: sessionVolumes.length > 0 ? Math.max(...sessionVolumes) : undefined,
+  };
+}
+
+/**
+ * Human-readable PR value in the display unit
+ */
+export function formatRecordValue(record: Pick<PersonalRecord, 'type' | 'reps'>, value: number, unit: WeightUnit): string {
+  const converted = Math.round(convertWeight(value, 'kg', unit) * 10) / 10;
+  if (record.type === 'rep_max') return `${converted} ${unit} × ${record.reps}`;
+  if (record.type === 'e1rm') return `${converted} ${unit}`;
+  return `${converted.toLocaleString()} ${unit}`;
+}
+
+export function describeRecord(record: Pick<PersonalRecord, 'type' | 'reps'>): string {
+  return record.type === 'rep_max' ? `${record.reps}RM` : PR_TYPE_LABELS[record.type];
+}
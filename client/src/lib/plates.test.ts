@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EQUIPMENT_PROFILES,
+  getPlateBreakdown,
+  isLoadable,
+  roundToLoadable,
+  validateEquipmentProfile,
+} from './plates';
+import { analyzeProgression } from './progression';
+import type { EquipmentProfile, Log } from './db';
+
+const kgProfile = DEFAULT_EQUIPMENT_PROFILES.kg;
+
+const homeGym: EquipmentProfile = {
+  unit: 'kg',
+  bar_weights: [20],
+  plates: [
+    { weight: 20, count: 2 },
+    { weight: 10, count: 2 },
+    { weight: 5, count: 2 },
+  ],
+  dumbbell_increment: 2.5,
+  cable_stack_step: 7,
+};
+
+describe('Loadable Weights', () => {
+  it('should round barbell weights to bar plus plate pairs', () => {
+    expect(roundToLoadable(61, 'kg', 'barbell', homeGym)).toBe(60);
+    expect(roundToLoadable(61, 'kg', 'barbell', homeGym, 'up')).toBe(70);
+    expect(isLoadable(62.5, 'kg', 'barbell', kgProfile)).toBe(true);
+    expect(isLoadable(62.5, 'kg', 'barbell', homeGym)).toBe(false);
+  });
+
+  it('should cap barbell weights at the heaviest loadable', () => {
+    // 20 bar + 2 × (20 + 10 + 5)
+    expect(roundToLoadable(200, 'kg', 'barbell', homeGym, 'up')).toBe(90);
+  });
+
+  it('should use fixed steps for dumbbells and cable stacks', () => {
+    expect(roundToLoadable(23, 'kg', 'dumbbell', homeGym, 'up')).toBe(25);
+    expect(roundToLoadable(30, 'kg', 'cable', homeGym)).toBe(28);
+    expect(roundToLoadable(30, 'kg', 'machine', homeGym, 'up')).toBe(35);
+  });
+
+  it('should fall back to the unit increment without equipment', () => {
+    expect(roundToLoadable(61, 'kg', undefined, homeGym, 'up')).toBe(62.5);
+  });
+
+  it('should convert between the display unit and the profile unit', () => {
+    // 135 lb ≈ 61.2 kg → 60 kg on the home gym → 132.3 lb
+    expect(roundToLoadable(135, 'lb', 'barbell', homeGym)).toBe(132.3);
+  });
+});
+
+describe('Plate Breakdown', () => {
+  it('should list plates per side with the fewest plates', () => {
+    const breakdown = getPlateBreakdown(100, 'kg', 'barbell', kgProfile);
+
+    expect(breakdown).toMatchObject({ bar: 20, total: 100, exact: true });
+    expect(breakdown?.plates).toEqual([20, 20]);
+  });
+
+  it('should fall back to the closest load when the weight is not loadable', () => {
+    const breakdown = getPlateBreakdown(52, 'kg', 'barbell', homeGym);
+
+    expect(breakdown).toMatchObject({ total: 50, exact: false });
+    expect(breakdown?.plates).toEqual([10, 5]);
+  });
+
+  it('should load bodyweight movements with single plates', () => {
+    const breakdown = getPlateBreakdown(15, 'kg', 'bodyweight', homeGym);
+    expect(breakdown).toMatchObject({ plates: [10, 5], exact: true });
+    expect(breakdown?.bar).toBeUndefined();
+  });
+
+  it('should have no breakdown for dumbbells', () => {
+    expect(getPlateBreakdown(20, 'kg', 'dumbbell', kgProfile)).toBeNull();
+  });
+});
+
+describe('Equipment Profile Validation', () => {
+  it('should accept the defaults', () => {
+    expect(validateEquipmentProfile(DEFAULT_EQUIPMENT_PROFILES.kg)).toBeNull();
+    expect(validateEquipmentProfile(DEFAULT_EQUIPMENT_PROFILES.lb)).toBeNull();
+  });
+
+  it('should reject fractional plate counts and zero steps', () => {
+    expect(validateEquipmentProfile({ ...homeGym, plates: [{ weight: 5, count: 1.5 }] })).not.toBeNull();
+    expect(validateEquipmentProfile({ ...homeGym, cable_stack_step: 0 })).not.toBeNull();
+  });
+});
+
+describe('Progression with Equipment', () => {
+  const easyLogs: Log[] = Array.from({ length: 6 }, (_, i) => ({
+    id: i + 1,
+    session_id: Math.floor(i / 3) + 1,
+    exercise_id: 1,
+    set_number: (i % 3) + 1,
+    weight: 60,
+    weight_unit: 'kg',
+    reps: 10,
+    rir: 4,
+    target_rir: 2,
+    session_date: new Date(2024, 0, 1 + Math.floor(i / 3)),
+    created_at: new Date(2024, 0, 1 + Math.floor(i / 3)),
+  }));
+
+  it('should recommend the next loadable weight', () => {
+    const rec = analyzeProgression(easyLogs, 'Barbell Bench Press', 'Chest', 'kg', {
+      equipment: 'barbell',
+      profile: homeGym,
+    });
+
+    expect(rec?.shouldProgress).toBe(true);
+    expect(rec?.recommendedWeight).toBe(70);
+  });
+
+  it('should stop progressing at the limit of the equipment', () => {
+    const rec = analyzeProgression(easyLogs, 'Barbell Bench Press', 'Chest', 'kg', {
+      equipment: 'barbell',
+      profile: { ...homeGym, plates: [{ weight: 20, count: 2 }] },
+    });
+
+    expect(rec?.shouldProgress).toBe(false);
+    expect(rec?.recommendedWeight).toBe(60);
+  });
+});
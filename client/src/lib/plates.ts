@@ -0,0 +1,231 @@
+import type { Equipment, EquipmentProfile, WeightUnit } from './db';
+import { convertWeight, WEIGHT_INCREMENTS } from './units';
+
+/**
+ * Loadable weights and plate math for HypertrophyOS
+ * Recommendations round to weights the user's equipment can actually make:
+ * bar + plate pairs for barbells, plates alone for loaded bodyweight work,
+ * fixed steps for dumbbells and cable/machine stacks.
+ */
+
+export const DEFAULT_EQUIPMENT_PROFILES: Record<WeightUnit, EquipmentProfile> = {
+  kg: {
+    unit: 'kg',
+    bar_weights: [20, 15, 10],
+    plates: [
+      { weight: 25, count: 6 },
+      { weight: 20, count: 6 },
+      { weight: 15, count: 4 },
+      { weight: 10, count: 6 },
+      { weight: 5, count: 6 },
+      { weight: 2.5, count: 6 },
+      { weight: 1.25, count: 4 },
+    ],
+    dumbbell_increment: 2,
+    cable_stack_step: 5,
+  },
+  lb: {
+    unit: 'lb',
+    bar_weights: [45, 35, 25],
+    plates: [
+      { weight: 45, count: 8 },
+      { weight: 35, count: 4 },
+      { weight: 25, count: 4 },
+      { weight: 10, count: 6 },
+      { weight: 5, count: 6 },
+      { weight: 2.5, count: 4 },
+    ],
+    dumbbell_increment: 5,
+    cable_stack_step: 10,
+  },
+};
+
+export type RoundingDirection = 'up' | 'down' | 'nearest';
+
+export interface PlateBreakdown {
+  bar?: number; // Missing for plate-only loading (dip belt, vest)
+  plates: number[]; // Heaviest first; per side when a bar is used
+  total: number;
+  unit: WeightUnit; // The profile's unit
+  exact: boolean; // False when the closest loadable weight was used instead
+}
+
+// Plate math runs on hundredths so 1.25s and 2.5s add up exactly
+const toCents = (weight: number) => Math.round(weight * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Tolerance for float noise when snapping to a step
+const EPSILON = 1e-9;
+
+/**
+ * Every load reachable with the inventory, mapped to the fewest plates that
+ * make it. With inPairs each entry is one side of a bar.
+ */
+function plateCombinations(profile: EquipmentProfile, inPairs: boolean): Map<number, number[]> {
+  let combos = new Map<number, number[]>([[0, []]]);
+  const plates = [...profile.plates].sort((a, b) => b.weight - a.weight);
+
+  for (const plate of plates) {
+    const available = inPairs ? Math.floor(plate.count / 2) : plate.count;
+    const cents = toCents(plate.weight);
+    if (available <= 0 || cents <= 0) continue;
+
+    const next = new Map(combos);
+    for (const [sum, list] of Array.from(combos.entries())) {
+      for (let n = 1; n <= available; n++) {
+        const candidate = [...list, ...Array<number>(n).fill(plate.weight)];
+        const existing = next.get(sum + n * cents);
+        if (!existing || candidate.length < existing.length) next.set(sum + n * cents, candidate);
+      }
+    }
+    combos = next;
+  }
+  return combos;
+}
+
+/**
+ * Barbell loads keyed by total (cents); bars earlier in the profile win ties
+ */
+function barbellLoads(profile: EquipmentProfile): Map<number, { bar: number; plates: number[] }> {
+  const perSide = plateCombinations(profile, true);
+  const loads = new Map<number, { bar: number; plates: number[] }>();
+  for (const bar of profile.bar_weights) {
+    for (const [side, plates] of Array.from(perSide.entries())) {
+      const total = toCents(bar) + 2 * side;
+      if (!loads.has(total)) loads.set(total, { bar, plates });
+    }
+  }
+  return loads;
+}
+
+/**
+ * Pick from sorted candidates; falls back to the closest extreme when
+ * nothing lies in the requested direction
+ */
+function pickFromSet(sorted: number[], target: number, direction: RoundingDirection): number {
+  const below = [...sorted].reverse().find(value => value <= target);
+  const above = sorted.find(value => value >= target);
+  if (direction === 'up') return above ?? sorted[sorted.length - 1];
+  if (direction === 'down') return below ?? sorted[0];
+  if (below === undefined) return above!;
+  if (above === undefined) return below;
+  return target - below <= above - target ? below : above;
+}
+
+function snapToStep(target: number, step: number, direction: RoundingDirection): number {
+  const ratio = target / step;
+  const steps = direction === 'up'
+    ? Math.ceil(ratio - EPSILON)
+    : direction === 'down'
+      ? Math.floor(ratio + EPSILON)
+      : Math.round(ratio);
+  return Math.max(1, steps) * step;
+}
+
+/**
+ * Every loadable weight (profile unit, ascending) for plate-based equipment,
+ * or undefined when the equipment loads in fixed steps
+ */
+function getPlateLoads(equipment: Equipment | undefined, profile: EquipmentProfile): number[] | undefined {
+  if (equipment === 'barbell' && profile.bar_weights.length > 0) {
+    return Array.from(barbellLoads(profile).keys()).sort((a, b) => a - b).map(fromCents);
+  }
+  if (equipment === 'bodyweight') {
+    return Array.from(plateCombinations(profile, false).keys()).sort((a, b) => a - b).map(fromCents);
+  }
+  return undefined;
+}
+
+/**
+ * Load step for fixed-increment equipment (profile unit). Exercises without
+ * equipment fall back to the generic plate increment.
+ */
+function getLoadStep(equipment: Equipment | undefined, profile: EquipmentProfile): number {
+  if (equipment === 'dumbbell') return profile.dumbbell_increment;
+  if (equipment === 'cable' || equipment === 'machine') return profile.cable_stack_step;
+  return WEIGHT_INCREMENTS[profile.unit];
+}
+
+/**
+ * Round a weight (in `unit`) to one the equipment can actually load
+ */
+export function roundToLoadable(
+  weight: number,
+  unit: WeightUnit,
+  equipment: Equipment | undefined,
+  profile: EquipmentProfile,
+  direction: RoundingDirection = 'nearest'
+): number {
+  const target = convertWeight(weight, unit, profile.unit);
+  const loads = getPlateLoads(equipment, profile);
+  const step = getLoadStep(equipment, profile);
+  const loaded = loads
+    ? pickFromSet(loads, target, direction)
+    : step > 0 ? snapToStep(target, step, direction) : target;
+
+  if (profile.unit === unit) return loaded;
+  return parseFloat(convertWeight(loaded, profile.unit, unit).toFixed(1));
+}
+
+/**
+ * Weight of the preferred (first) bar in `unit`
+ */
+export function getPreferredBarWeight(unit: WeightUnit, profile: EquipmentProfile): number | undefined {
+  const bar = profile.bar_weights[0];
+  if (bar === undefined) return undefined;
+  return profile.unit === unit ? bar : parseFloat(convertWeight(bar, profile.unit, unit).toFixed(1));
+}
+
+/**
+ * Whether a weight (in `unit`) can be loaded as-is
+ */
+export function isLoadable(
+  weight: number,
+  unit: WeightUnit,
+  equipment: Equipment | undefined,
+  profile: EquipmentProfile
+): boolean {
+  return Math.abs(roundToLoadable(weight, unit, equipment, profile) - weight) < 0.01;
+}
+
+/**
+ * Bar and plates to load for a weight. Only barbells and loaded bodyweight
+ * movements have a breakdown.
+ */
+export function getPlateBreakdown(
+  weight: number,
+  unit: WeightUnit,
+  equipment: Equipment | undefined,
+  profile: EquipmentProfile
+): PlateBreakdown | null {
+  if (weight <= 0) return null;
+  const target = convertWeight(weight, unit, profile.unit);
+
+  if (equipment === 'barbell' && profile.bar_weights.length > 0) {
+    const loads = barbellLoads(profile);
+    const total = pickFromSet(Array.from(loads.keys()).sort((a, b) => a - b), toCents(target), 'nearest');
+    const { bar, plates } = loads.get(total)!;
+    return { bar, plates, total: fromCents(total), unit: profile.unit, exact: total === toCents(target) };
+  }
+
+  if (equipment === 'bodyweight') {
+    const combos = plateCombinations(profile, false);
+    const total = pickFromSet(Array.from(combos.keys()).sort((a, b) => a - b), toCents(target), 'nearest');
+    return { plates: combos.get(total)!, total: fromCents(total), unit: profile.unit, exact: total === toCents(target) };
+  }
+
+  return null;
+}
+
+/**
+ * Problem with an edited profile, or null when it's usable
+ */
+export function validateEquipmentProfile(profile: EquipmentProfile): string | null {
+  if (profile.bar_weights.some(bar => !(bar > 0))) return 'Bar weights must be positive';
+  if (profile.plates.some(plate => !(plate.weight > 0) || !Number.isInteger(plate.count) || plate.count < 0)) {
+    return 'Plates need a positive weight and a whole, non-negative count';
+  }
+  if (!(profile.dumbbell_increment > 0)) return 'Dumbbell increment must be positive';
+  if (!(profile.cable_stack_step > 0)) return 'Cable stack step must be positive';
+  return null;
+}
@@ -1,4 +1,7 @@
-import type { Log } from './db';
+import type { Equipment, EquipmentProfile, Log, WeightUnit } from './db';
+import { getLogWeight, WEIGHT_INCREMENTS } from './units';
+import { getHardSets } from './setTypes';
+import { roundToLoadable } from './plates';
 
 export interface ProgressionRecommendation {
   shouldProgress: boolean;
@@ -7,6 +10,16 @@ export interface ProgressionRecommendation {
   confidence: 'high' | 'medium' | 'low';
   reason: string;
   increasePercent: number;
+  unit: WeightUnit;
+}
+
+/**
+ * Equipment an exercise is loaded with, so recommendations land on
+ * weights the user can actually set up
+ */
+export interface LoadingContext {
+  equipment?: Equipment;
+  profile: EquipmentProfile;
 }
 
 /**
@@ -17,12 +30,17 @@ export interface ProgressionRecommendation {
  * - If hitting target reps with RIR 0-1, definitely increase
  * - Consider rep performance trend
  * - Recommend 2.5-5% increase for upper body, 5-10% for lower body
+ * - Weights are expressed in the user's preferred unit and, given a loading
+ *   context, rounded up to the next weight their equipment can load
  */
 export function analyzeProgression(
-  recentLogs: Log[],
+  allLogs: Log[],
   exerciseName: string,
-  muscleGroup: string
+  muscleGroup: string,
+  unit: WeightUnit = 'kg',
+  loading?: LoadingContext
 ): ProgressionRecommendation | null {
+  const recentLogs = getHardSets(allLogs);
   if (recentLogs.length < 3) {
     return null; // Need at least 3 sets of data
   }
@@ -37,7 +55,7 @@ export function analyzeProgression(
   
   if (recentSets.length === 0) return null;
 
-  const currentWeight = recentSets[0].weight;
+  const currentWeight = parseFloat(getLogWeight(recentSets[0], unit).toFixed(1));
   const avgRIR = recentSets.reduce((sum, log) => sum + log.rir, 0) / recentSets.length;
   const avgReps = recentSets.reduce((sum, log) => sum + log.reps, 0) / recentSets.length;
   const targetRIR = recentSets[0].target_rir;
@@ -79,10 +97,21 @@ export function analyzeProgression(
   const isLowerBody = ['Quadriceps', 'Hamstrings', 'Glutes', 'Calves'].includes(muscleGroup);
   const increasePercent = isLowerBody ? 5 : 2.5;
   
-  // Round to nearest 2.5kg increment
   const rawIncrease = currentWeight * (increasePercent / 100);
-  const roundedIncrease = Math.ceil(rawIncrease / 2.5) * 2.5;
-  const recommendedWeight = currentWeight + roundedIncrease;
+  let recommendedWeight: number;
+  if (loading) {
+    recommendedWeight = roundToLoadable(currentWeight + rawIncrease, unit, loading.equipment, loading.profile, 'up');
+    // Nothing heavier can be loaded with the available equipment
+    if (shouldProgress && recommendedWeight <= currentWeight) {
+      shouldProgress = false;
+      reason = 'Ready for more load, but this is the heaviest your equipment allows. Add reps instead.';
+      recommendedWeight = currentWeight;
+    }
+  } else {
+    // Round up to the nearest plate increment (2.5 kg / 5 lb)
+    const increment = WEIGHT_INCREMENTS[unit];
+    recommendedWeight = currentWeight + Math.ceil(rawIncrease / increment) * increment;
+  }
 
   return {
     shouldProgress,
@@ -91,6 +120,7 @@ export function analyzeProgression(
     confidence,
     reason,
     increasePercent,
+    unit,
   };
 }
 
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateReadinessScore,
+  describeReadinessAdjustments,
+  getReadinessLevel,
+  scaleSessionTargets,
+} from './readiness';
+import type { Exercise, SessionExercise } from './db';
+
+const exercises = [
+  { id: 1, name: 'Bench Press', muscle_group: 'Chest' },
+  { id: 2, name: 'Barbell Row', muscle_group: 'Back' },
+] as Exercise[];
+
+const sessionExercises = [
+  { id: 10, session_id: 1, exercise_id: 1, target_sets: 4, target_rir: 2 },
+  { id: 11, session_id: 1, exercise_id: 2, target_sets: 3, target_rir: 3 },
+] as SessionExercise[];
+
+describe('Readiness Score', () => {
+  it('should span 0 to 100', () => {
+    expect(calculateReadinessScore({ sleep: 5, energy: 5, stress: 1, soreness: { Chest: 1 } })).toBe(100);
+    expect(calculateReadinessScore({ sleep: 1, energy: 1, stress: 5, soreness: { Chest: 5 } })).toBe(0);
+  });
+
+  it('should treat unrated soreness as none', () => {
+    const unrated = calculateReadinessScore({ sleep: 3, energy: 3, stress: 3, soreness: {} });
+    expect(unrated).toBe(calculateReadinessScore({ sleep: 3, energy: 3, stress: 3, soreness: { Chest: 1 } }));
+    expect(unrated).toBeGreaterThan(calculateReadinessScore({ sleep: 3, energy: 3, stress: 3, soreness: { Chest: 3 } }));
+  });
+
+  it('should map scores to levels', () => {
+    expect(getReadinessLevel(80)).toBe('high');
+    expect(getReadinessLevel(60)).toBe('moderate');
+    expect(getReadinessLevel(40)).toBe('low');
+    expect(getReadinessLevel(10)).toBe('very_low');
+  });
+});
+
+describe('Readiness Target Scaling', () => {
+  it('should leave targets alone when fully ready', () => {
+    expect(scaleSessionTargets(90, {}, sessionExercises, exercises)).toEqual([]);
+  });
+
+  it('should raise RIR when moderately recovered', () => {
+    const adjustments = scaleSessionTargets(60, {}, sessionExercises, exercises);
+
+    expect(adjustments.map(adj => [adj.target_sets, adj.target_rir])).toEqual([[4, 3], [3, 4]]);
+  });
+
+  it('should cut a set for a very sore muscle', () => {
+    const adjustments = scaleSessionTargets(90, { Chest: 4 }, sessionExercises, exercises);
+
+    expect(adjustments).toEqual([
+      { session_exercise_id: 10, original_sets: 4, original_rir: 2, target_sets: 3, target_rir: 2 },
+    ]);
+  });
+
+  it('should deload when readiness is very low', () => {
+    const adjustments = scaleSessionTargets(10, {}, sessionExercises, exercises);
+
+    expect(adjustments.map(adj => adj.target_sets)).toEqual([2, 2]);
+    // RIR is capped at 4
+    expect(adjustments.map(adj => adj.target_rir)).toEqual([4, 4]);
+  });
+
+  it('should summarize the changes', () => {
+    const adjustments = scaleSessionTargets(40, {}, sessionExercises, exercises);
+    expect(describeReadinessAdjustments(adjustments)).toBe('2 fewer sets, higher RIR on 2 exercises');
+    expect(describeReadinessAdjustments([])).toBe('Targets unchanged');
+  });
+});
@@ -0,0 +1,122 @@
+import type { Exercise, MuscleGroup, ReadinessAdjustment, ReadinessCheckIn, SessionExercise } from './db';
+import { HIGH_SORENESS } from './autoregulation';
+import { getDeloadSets } from './deloadGenerator';
+
+/**
+ * Pre-session readiness for HypertrophyOS
+ * A short check-in (sleep, stress, energy, soreness by muscle) before the
+ * first set produces a 0-100 readiness score that scales the day's target
+ * sets and RIR. Very low readiness turns the session into a deload.
+ */
+
+export type ReadinessLevel = 'high' | 'moderate' | 'low' | 'very_low';
+
+export type ReadinessInput = Pick<ReadinessCheckIn, 'sleep' | 'stress' | 'energy' | 'soreness'>;
+
+export const READINESS_LEVEL_LABELS: Record<ReadinessLevel, string> = {
+  high: 'Ready to train',
+  moderate: 'Slightly under-recovered',
+  low: 'Under-recovered',
+  very_low: 'Deload today',
+};
+
+// Highest RIR target a check-in will raise to
+export const MAX_READINESS_RIR = 4;
+
+/**
+ * Readiness score from 0 (wrecked) to 100 (fully recovered). Soreness
+ * counts as the average over the muscles that were rated.
+ */
+export function calculateReadinessScore(input: ReadinessInput): number {
+  const ratings = Object.values(input.soreness).filter((v): v is number => v !== undefined);
+  const avgSoreness = ratings.length > 0 ? ratings.reduce((sum, v) => sum + v, 0) / ratings.length : 1;
+
+  // Each answer normalized to 0 (worst) - 1 (best)
+  const sleep = (input.sleep - 1) / 4;
+  const energy = (input.energy - 1) / 4;
+  const stress = (5 - input.stress) / 4;
+  const soreness = (5 - avgSoreness) / 4;
+
+  return Math.round((sleep * 0.3 + energy * 0.3 + stress * 0.25 + soreness * 0.15) * 100);
+}
+
+export function getReadinessLevel(score: number): ReadinessLevel {
+  if (score >= 75) return 'high';
+  if (score >= 50) return 'moderate';
+  if (score >= 30) return 'low';
+  return 'very_low';
+}
+
+/**
+ * New targets for the session's exercises. Lower readiness raises RIR and
+ * trims sets; a muscle rated as very sore loses a set the same way
+ * autoregulation backs off on high soreness. Only changed exercises are returned.
+ */
+export function scaleSessionTargets(
+  score: number,
+  soreness: Partial<Record<MuscleGroup, number>>,
+  sessionExercises: SessionExercise[],
+  exercises: Exercise[]
+): ReadinessAdjustment[] {
+  const level = getReadinessLevel(score);
+
+  return sessionExercises.flatMap(se => {
+    let sets = se.target_sets;
+    let rir = se.target_rir;
+
+    if (level === 'very_low') {
+      sets = getDeloadSets(sets);
+      rir += 2;
+    } else if (level === 'low') {
+      sets -= 1;
+      rir += 1;
+    } else if (level === 'moderate') {
+      rir += 1;
+    }
+
+    const muscle = exercises.find(ex => ex.id === se.exercise_id)?.muscle_group;
+    if (muscle && (soreness[muscle] ?? 1) >= HIGH_SORENESS && level !== 'very_low') {
+      sets -= 1;
+    }
+
+    sets = Math.max(1, sets);
+    rir = Math.max(se.target_rir, Math.min(rir, MAX_READINESS_RIR));
+    if (sets === se.target_sets && rir === se.target_rir) return [];
+
+    return [{
+      session_exercise_id: se.id!,
+      original_sets: se.target_sets,
+      original_rir: se.target_rir,
+      target_sets: sets,
+      target_rir: rir,
+    }];
+  });
+}
+
+/**
+ * One-line summary of what a check-in changed
+ */
+export function describeReadinessAdjustments(adjustments: ReadinessAdjustment[]): string {
+  if (adjustments.length === 0) return 'Targets unchanged';
+
+  const setsRemoved = adjustments.reduce((sum, adj) => sum + adj.original_sets - adj.target_sets, 0);
+  const rirRaised = adjustments.filter(adj => adj.target_rir > adj.original_rir).length;
+  const parts: string[] = [];
+  if (setsRemoved > 0) parts.push(`${setsRemoved} fewer set${setsRemoved === 1 ? '' : 's'}`);
+  if (rirRaised > 0) parts.push(`higher RIR on ${rirRaised} exercise${rirRaised === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
+/**
+ * Sets and RIR the program planned for a session exercise, before a
+ * check-in scaled them for the day
+ */
+export function getPlannedTargets(
+  sessionExercise: SessionExercise,
+  readiness?: ReadinessCheckIn
+): { sets: number; rir: number } {
+  const adjustment = readiness?.adjustments.find(adj => adj.session_exercise_id === sessionExercise.id);
+  return adjustment
+    ? { sets: adjustment.original_sets, rir: adjustment.original_rir }
+    : { sets: sessionExercise.target_sets, rir: sessionExercise.target_rir };
+}
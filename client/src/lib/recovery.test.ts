@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createSorenessLookup, findPreviousTrainingSession, getLatestRecovery } from './recovery';
+import { calculateFatigueMetrics, checkDeloadNeed } from './deload';
+import type { Exercise, Log, MuscleRecovery } from './db';
+
+const exercises = [
+  { id: 1, name: 'Bench Press', muscle_group: 'Chest' },
+  { id: 2, name: 'Barbell Row', muscle_group: 'Back' },
+] as Exercise[];
+
+const log = (session_id: number, exercise_id: number, day: number, overrides: Partial<Log> = {}): Log => ({
+  session_id,
+  exercise_id,
+  set_number: 1,
+  weight: 60,
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: new Date(2024, 0, day),
+  created_at: new Date(2024, 0, day),
+  ...overrides,
+});
+
+describe('Muscle Recovery', () => {
+  it('should find the last earlier session that trained the muscle', () => {
+    const logs = [log(1, 1, 1), log(2, 2, 3), log(3, 1, 5), log(4, 1, 8)];
+
+    expect(findPreviousTrainingSession('Chest', 4, logs, exercises)).toBe(3);
+    expect(findPreviousTrainingSession('Back', 4, logs, exercises)).toBe(2);
+  });
+
+  it('should ignore warm-ups and muscles never trained', () => {
+    const logs = [log(1, 2, 1, { set_type: 'warmup' })];
+
+    expect(findPreviousTrainingSession('Back', 2, logs, exercises)).toBeUndefined();
+    expect(findPreviousTrainingSession('Quads', 2, logs, exercises)).toBeUndefined();
+  });
+
+  it('should return the latest rating for a muscle', () => {
+    const entries: MuscleRecovery[] = [
+      { muscle_group: 'Chest', session_id: 2, trained_session_id: 1, rating: 'still_sore', recorded_at: new Date(2024, 0, 3) },
+      { muscle_group: 'Chest', session_id: 4, trained_session_id: 2, rating: 'healed_on_time', recorded_at: new Date(2024, 0, 6) },
+      { muscle_group: 'Back', session_id: 5, trained_session_id: 3, rating: 'never_sore', recorded_at: new Date(2024, 0, 7) },
+    ];
+
+    expect(getLatestRecovery(entries, 'Chest')?.rating).toBe('healed_on_time');
+    expect(getLatestRecovery(entries, 'Glutes')).toBeUndefined();
+  });
+
+  it('should rate a set by how its muscle recovered, falling back to legacy soreness', () => {
+    const entries: MuscleRecovery[] = [
+      { muscle_group: 'Chest', session_id: 2, trained_session_id: 1, rating: 'still_sore', recorded_at: new Date(2024, 0, 3) },
+    ];
+    const getSoreness = createSorenessLookup(entries, exercises);
+
+    expect(getSoreness(log(1, 1, 1))).toBe(5);
+    expect(getSoreness(log(1, 2, 1, { feedback_soreness: 2 }))).toBe(2);
+    expect(getSoreness(log(1, 2, 1))).toBeUndefined();
+  });
+
+  it('should count recovery ratings as soreness in fatigue checks', () => {
+    const recent = (session_id: number) => [1, 2].map(set_number =>
+      log(session_id, 1, 1, { set_number, session_date: new Date(), feedback_joint_pain: 1, feedback_pump: 3 })
+    );
+    const logs = [...recent(1), ...recent(2)];
+    const entries: MuscleRecovery[] = [1, 2].map(trained_session_id => ({
+      muscle_group: 'Chest',
+      session_id: trained_session_id + 1,
+      trained_session_id,
+      rating: 'still_sore',
+      recorded_at: new Date(),
+    }));
+    const getSoreness = createSorenessLookup(entries, exercises);
+
+    expect(calculateFatigueMetrics(logs)?.avgSoreness).toBe(0);
+    expect(calculateFatigueMetrics(logs, 14, getSoreness)).toMatchObject({ avgSoreness: 5, consecutiveHighFatigue: 4 });
+    expect(checkDeloadNeed(logs, [], undefined, getSoreness)?.indicators).toContain('High muscle soreness (≥4/5)');
+  });
+});
@@ -0,0 +1,79 @@
+import type { Exercise, Log, MuscleGroup, MuscleRecovery, RecoveryRating } from './db';
+import { getHardSets } from './setTypes';
+
+/**
+ * Per-muscle recovery for HypertrophyOS
+ * Soreness is rated per muscle at the start of the next session that
+ * trains it ("did you recover in time?"), RP style, rather than per
+ * exercise right after training when it hasn't developed yet.
+ */
+
+export const RECOVERY_RATING_LABELS: Record<RecoveryRating, string> = {
+  never_sore: 'Never got sore',
+  healed_early: 'Healed a while ago',
+  healed_on_time: 'Healed just in time',
+  still_sore: 'Still sore',
+};
+
+export const RECOVERY_RATINGS = Object.keys(RECOVERY_RATING_LABELS) as RecoveryRating[];
+
+// Equivalent on the 1-5 soreness scale autoregulation reasons with
+export const RECOVERY_SORENESS: Record<RecoveryRating, number> = {
+  never_sore: 1,
+  healed_early: 2,
+  healed_on_time: 3,
+  still_sore: 5,
+};
+
+/**
+ * Most recent recovery rating for a muscle
+ */
+export function getLatestRecovery(entries: MuscleRecovery[], muscle: MuscleGroup): MuscleRecovery | undefined {
+  return entries
+    .filter(entry => entry.muscle_group === muscle)
+    .reduce<MuscleRecovery | undefined>(
+      (latest, entry) => (!latest || entry.recorded_at > latest.recorded_at ? entry : latest),
+      undefined
+    );
+}
+
+/**
+ * Latest earlier session with working sets for the muscle (as primary
+ * mover), or undefined if it hasn't been trained before
+ */
+export function findPreviousTrainingSession(
+  muscle: MuscleGroup,
+  currentSessionId: number,
+  logs: Log[],
+  exercises: Exercise[]
+): number | undefined {
+  const muscleExercises = new Set(exercises.filter(ex => ex.muscle_group === muscle).map(ex => ex.id));
+  const previous = getHardSets(logs).filter(
+    log => log.session_id !== currentSessionId && muscleExercises.has(log.exercise_id)
+  );
+  if (previous.length === 0) return undefined;
+
+  return previous.reduce((latest, log) => (log.session_date > latest.session_date ? log : latest)).session_id;
+}
+
+/**
+ * Soreness of a set on the 1-5 scale, or undefined if it has none yet
+ */
+export type SorenessLookup = (log: Log) => number | undefined;
+
+// Sets logged before muscles were rated carry their own soreness
+export const getLegacySoreness: SorenessLookup = log => log.feedback_soreness ?? undefined;
+
+/**
+ * Soreness of each set from how its muscle had recovered by the next
+ * session that trained it, falling back to the per-set rating of older logs
+ */
+export function createSorenessLookup(entries: MuscleRecovery[], exercises: Exercise[]): SorenessLookup {
+  const muscleByExercise = new Map(exercises.map(ex => [ex.id!, ex.muscle_group]));
+  const ratings = new Map(entries.map(entry => [`${entry.trained_session_id}|${entry.muscle_group}`, entry.rating]));
+
+  return log => {
+    const rating = ratings.get(`${log.session_id}|${muscleByExercise.get(log.exercise_id)}`);
+    return rating ? RECOVERY_SORENESS[rating] : getLegacySoreness(log);
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getSessionStatus, getSessionsOnDay, moveToDay, planWeekShift } from './schedule';
+import type { Microcycle, WorkoutSession } from './db';
+
+const session = (id: number, day: number, overrides: Partial<WorkoutSession> = {}): WorkoutSession => ({
+  id,
+  microcycle_id: 1,
+  name: `Session ${id}`,
+  scheduled_date: new Date(2024, 0, day, 18, 0),
+  is_completed: false,
+  created_at: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+const microcycle: Microcycle = {
+  id: 1,
+  mesocycle_id: 1,
+  week_number: 1,
+  start_date: new Date(2024, 0, 1),
+  end_date: new Date(2024, 0, 7),
+  created_at: new Date(2024, 0, 1),
+};
+
+describe('Session Schedule', () => {
+  const now = new Date(2024, 0, 3, 9, 0);
+
+  it('should derive status from completion, start and date', () => {
+    expect(getSessionStatus(session(1, 1, { is_completed: true }), now)).toBe('completed');
+    expect(getSessionStatus(session(1, 1, { started_at: new Date(2024, 0, 1) }), now)).toBe('in_progress');
+    expect(getSessionStatus(session(1, 2), now)).toBe('missed');
+    // Later today is still scheduled
+    expect(getSessionStatus(session(1, 3), now)).toBe('scheduled');
+  });
+
+  it('should keep the time of day when moving a session', () => {
+    expect(moveToDay(new Date(2024, 0, 1, 18, 30), new Date(2024, 0, 5))).toEqual(new Date(2024, 0, 5, 18, 30));
+  });
+
+  it('should list sessions on a day', () => {
+    const sessions = [session(1, 1), session(2, 3), session(3, 3, { scheduled_date: new Date(2024, 0, 3, 7) })];
+
+    expect(getSessionsOnDay(sessions, new Date(2024, 0, 3)).map(s => s.id)).toEqual([3, 2]);
+  });
+});
+
+describe('Week Shift', () => {
+  it('should move the missed session to today with the rest of its week', () => {
+    const week = [
+      session(1, 1, { is_completed: true }),
+      session(2, 3),
+      session(3, 5),
+      session(4, 6),
+    ];
+    const shift = planWeekShift(week[1], week, microcycle, new Date(2024, 0, 4, 9));
+
+    expect(shift.days).toBe(1);
+    expect(shift.changes).toEqual([
+      { sessionId: 2, scheduled_date: new Date(2024, 0, 4, 18) },
+      { sessionId: 3, scheduled_date: new Date(2024, 0, 6, 18) },
+      { sessionId: 4, scheduled_date: new Date(2024, 0, 7, 18) },
+    ]);
+    expect(shift.end_date).toBeUndefined();
+  });
+
+  it('should extend the week when sessions move past its end', () => {
+    const week = [session(1, 2), session(2, 6)];
+    const shift = planWeekShift(week[0], week, microcycle, new Date(2024, 0, 4, 9));
+
+    expect(shift.changes.map(c => c.scheduled_date.getDate())).toEqual([4, 8]);
+    expect(shift.end_date).toEqual(new Date(2024, 0, 8));
+  });
+
+  it('should not shift sessions that are not behind', () => {
+    expect(planWeekShift(session(1, 5), [session(1, 5)], microcycle, new Date(2024, 0, 4))).toEqual({ days: 0, changes: [] });
+  });
+});
@@ -0,0 +1,88 @@
+import { addDays, differenceInCalendarDays, isSameDay, startOfDay } from 'date-fns';
+import type { Microcycle, WorkoutSession } from './db';
+
+/**
+ * Training calendar for HypertrophyOS
+ * Session status by date, rescheduling to another day and shifting the
+ * rest of a week when a session is missed.
+ */
+
+export type SessionStatus = 'completed' | 'in_progress' | 'missed' | 'scheduled';
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  completed: 'Completed',
+  in_progress: 'In Progress',
+  missed: 'Missed',
+  scheduled: 'Scheduled',
+};
+
+/**
+ * Missed = not started and scheduled before today
+ */
+export function getSessionStatus(session: WorkoutSession, now: Date = new Date()): SessionStatus {
+  if (session.is_completed) return 'completed';
+  if (session.started_at) return 'in_progress';
+  if (session.scheduled_date < startOfDay(now)) return 'missed';
+  return 'scheduled';
+}
+
+export function getSessionsOnDay(sessions: WorkoutSession[], day: Date): WorkoutSession[] {
+  return sessions
+    .filter(session => isSameDay(session.scheduled_date, day))
+    .sort((a, b) => a.scheduled_date.getTime() - b.scheduled_date.getTime());
+}
+
+/**
+ * Same time of day, on another date
+ */
+export function moveToDay(date: Date, day: Date): Date {
+  const moved = new Date(day);
+  moved.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+  return moved;
+}
+
+export interface ScheduleChange {
+  sessionId: number;
+  scheduled_date: Date;
+}
+
+export interface WeekShift {
+  days: number;
+  changes: ScheduleChange[];
+  end_date?: Date; // New microcycle end when sessions move past it
+}
+
+/**
+ * Push a missed session to today along with every later, not yet started
+ * session of its week, keeping the spacing between them. The week is
+ * extended if sessions move past its end.
+ */
+export function planWeekShift(
+  missed: WorkoutSession,
+  weekSessions: WorkoutSession[],
+  microcycle?: Microcycle,
+  now: Date = new Date()
+): WeekShift {
+  const days = differenceInCalendarDays(now, missed.scheduled_date);
+  if (days <= 0) return { days: 0, changes: [] };
+
+  const changes = weekSessions
+    .filter(session =>
+      !session.is_completed &&
+      !session.started_at &&
+      startOfDay(session.scheduled_date) >= startOfDay(missed.scheduled_date)
+    )
+    .map(session => ({ sessionId: session.id!, scheduled_date: addDays(session.scheduled_date, days) }));
+
+  const lastDate = changes.reduce<Date | undefined>(
+    (latest, change) => (!latest || change.scheduled_date > latest ? change.scheduled_date : latest),
+    undefined
+  );
+  const extendsWeek = microcycle && lastDate && startOfDay(lastDate) > startOfDay(microcycle.end_date);
+
+  return {
+    days,
+    changes,
+    end_date: extendsWeek ? moveToDay(microcycle.end_date, lastDate) : undefined,
+  };
+}
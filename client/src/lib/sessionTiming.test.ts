@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPausedSeconds,
+  getRestSeconds,
+  getSessionDurationSeconds,
+  formatDuration,
+} from './sessionTiming';
+import { calculateTrainingDensity, getSessionTimingTrend } from './advancedAnalytics';
+import type { Log, WorkoutSession } from './db';
+
+const at = (minutes: number, seconds = 0) => new Date(2026, 0, 5, 18, minutes, seconds);
+
+const session: WorkoutSession = {
+  id: 1,
+  microcycle_id: 1,
+  name: 'Upper A',
+  scheduled_date: at(0),
+  started_at: at(0),
+  pauses: [{ started_at: at(20), ended_at: at(30) }],
+  completed_date: at(70),
+  is_completed: true,
+  created_at: at(0),
+};
+
+const makeLog = (startMinute: number, durationSeconds: number, rest_seconds?: number): Log => ({
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id: 1,
+  set_number: 1,
+  weight: 100,
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: at(startMinute),
+  started_at: at(startMinute),
+  ended_at: at(startMinute, durationSeconds),
+  rest_seconds,
+  created_at: at(startMinute, durationSeconds),
+});
+
+describe('Session Timing', () => {
+  it('should exclude pauses from session duration', () => {
+    expect(getSessionDurationSeconds(session)).toBe(60 * 60);
+  });
+
+  it('should count an open pause up to now', () => {
+    const paused = { ...session, completed_date: undefined, pauses: [{ started_at: at(20) }] };
+    expect(getSessionDurationSeconds(paused, at(25))).toBe(20 * 60);
+  });
+
+  it('should only count the overlapping part of a pause', () => {
+    expect(getPausedSeconds(session.pauses, at(25), at(40))).toBe(5 * 60);
+  });
+
+  it('should not count paused time as rest', () => {
+    expect(getRestSeconds(session.pauses, at(19), at(32))).toBe(3 * 60);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(95)).toBe('1:35');
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+});
+
+describe('Training Density', () => {
+  it('should compute density from recorded set times', () => {
+    const logs = [makeLog(1, 40), makeLog(4, 50, 140), makeLog(7, 30, 130)];
+    const metrics = calculateTrainingDensity(session, logs)!;
+
+    expect(metrics.sessionDuration).toBe(3600);
+    expect(metrics.totalWorkTime).toBe(120);
+    expect(metrics.densityScore).toBeCloseTo(120 / 3600);
+    expect(metrics.avgRestBetweenSets).toBe(135);
+    expect(metrics.timedSets).toBe(3);
+  });
+
+  it('should return null for sessions that were never timed', () => {
+    expect(calculateTrainingDensity({ ...session, started_at: undefined }, [])).toBeNull();
+  });
+
+  it('should skip untimed sessions in the trend', () => {
+    const untimed = { ...session, id: 2, started_at: undefined };
+    const trend = getSessionTimingTrend([session, untimed], [makeLog(1, 40)]);
+
+    expect(trend).toHaveLength(1);
+    expect(trend[0].durationMinutes).toBe(60);
+  });
+});
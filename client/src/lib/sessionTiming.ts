@@ -0,0 +1,77 @@
+import type { Log, SessionPause, WorkoutSession } from './db';
+
+/**
+ * Session timing for HypertrophyOS
+ * Sessions record when they started and every pause; sets record when they
+ * started and ended. Durations exclude paused time.
+ */
+
+const seconds = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 1000;
+
+/**
+ * Whether the session is currently paused
+ */
+export function isSessionPaused(session: Pick<WorkoutSession, 'pauses'>): boolean {
+  const last = session.pauses?.[session.pauses.length - 1];
+  return !!last && !last.ended_at;
+}
+
+/**
+ * Seconds of pause overlapping [from, to]; an open pause runs until `to`
+ */
+export function getPausedSeconds(pauses: SessionPause[] = [], from: Date, to: Date): number {
+  return pauses.reduce((total, pause) => {
+    const start = Math.max(pause.started_at.getTime(), from.getTime());
+    const end = Math.min((pause.ended_at ?? to).getTime(), to.getTime());
+    return total + Math.max(0, (end - start) / 1000);
+  }, 0);
+}
+
+/**
+ * Active (unpaused) session length in seconds, up to completion or `now`
+ */
+export function getSessionDurationSeconds(
+  session: Pick<WorkoutSession, 'started_at' | 'pauses' | 'completed_date'>,
+  now: Date = new Date()
+): number | undefined {
+  if (!session.started_at) return undefined;
+  const end = session.completed_date ?? now;
+  return Math.max(0, seconds(session.started_at, end) - getPausedSeconds(session.pauses, session.started_at, end));
+}
+
+/**
+ * Time from starting a set to logging it
+ */
+export function getSetDurationSeconds(log: Pick<Log, 'started_at' | 'ended_at'>): number | undefined {
+  if (!log.started_at || !log.ended_at) return undefined;
+  return Math.max(0, seconds(log.started_at, log.ended_at));
+}
+
+/**
+ * When the most recently logged set of the session ended
+ */
+export function getLastSetEnd(logs: Log[]): Date | undefined {
+  return logs.reduce<Date | undefined>((latest, log) => {
+    const end = log.ended_at ?? log.created_at;
+    return !latest || end > latest ? end : latest;
+  }, undefined);
+}
+
+/**
+ * Rest between the previous set's end and this set's start, excluding pauses
+ */
+export function getRestSeconds(pauses: SessionPause[] = [], previousEnd: Date, setStart: Date): number {
+  return Math.max(0, seconds(previousEnd, setStart) - getPausedSeconds(pauses, previousEnd, setStart));
+}
+
+/**
+ * Format seconds as m:ss (or h:mm:ss past an hour)
+ */
+export function formatDuration(totalSeconds: number): string {
+  const whole = Math.round(totalSeconds);
+  const hours = Math.floor(whole / 3600);
+  const mins = Math.floor((whole % 3600) / 60);
+  const secs = whole % 60;
+  const mmss = `${hours > 0 ? mins.toString().padStart(2, '0') : mins}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
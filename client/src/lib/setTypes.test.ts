@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { planSetRemoval } from './setTypes';
+import type { Log, PainReport } from './db';
+
+const makeLog = (id: number, set_number: number, overrides: Partial<Log> = {}): Log => ({
+  id,
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id: 1,
+  set_number,
+  weight: 100,
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: new Date(),
+  created_at: new Date(),
+  ...overrides,
+});
+
+describe('Set Removal', () => {
+  it('should renumber the sets after the deleted one', () => {
+    const logs = [makeLog(1, 1), makeLog(2, 2), makeLog(3, 3), makeLog(4, 4)];
+    const { removedIds, renumbered } = planSetRemoval(logs, 2);
+
+    expect(removedIds).toEqual([2]);
+    expect(renumbered).toEqual([
+      { id: 3, set_number: 2 },
+      { id: 4, set_number: 3 },
+    ]);
+  });
+
+  it('should remove cluster sets attached to a deleted working set', () => {
+    const logs = [
+      makeLog(1, 1),
+      makeLog(2, 2),
+      makeLog(3, 3, { set_type: 'drop', parent_log_id: 2 }),
+      makeLog(4, 4),
+    ];
+    const { removedIds, renumbered } = planSetRemoval(logs, 2);
+
+    expect(removedIds).toEqual([2, 3]);
+    expect(renumbered).toEqual([{ id: 4, set_number: 2 }]);
+  });
+
+  it('should remove pain reported on the deleted sets', () => {
+    const logs = [makeLog(1, 1), makeLog(2, 2), makeLog(3, 3, { set_type: 'myo_rep', parent_log_id: 2 })];
+    const report = (id: number, log_id?: number): PainReport => ({ id, region: 'shoulder_left', severity: 3, session_id: 1, log_id, reported_at: new Date() });
+
+    const { removedPainReportIds } = planSetRemoval(logs, 2, [report(1, 1), report(2, 2), report(3, 3), report(4)]);
+    expect(removedPainReportIds).toEqual([2, 3]);
+  });
+
+  it('should leave earlier sets untouched when deleting the last set', () => {
+    const logs = [makeLog(1, 1), makeLog(2, 2)];
+    expect(planSetRemoval(logs, 2).renumbered).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { Log, PainReport, SetType } from './db';
+
+/**
+ * Set type classification for HypertrophyOS
+ * Only working sets count as hard sets. Warm-ups are excluded from all
+ * training metrics, and drop/myo-rep/rest-pause sets are treated as
+ * extensions of the working set they belong to.
+ */
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: 'Warm-up',
+  working: 'Working',
+  drop: 'Drop Set',
+  myo_rep: 'Myo-rep',
+  rest_pause: 'Rest-pause',
+};
+
+export const SET_TYPES = Object.keys(SET_TYPE_LABELS) as SetType[];
+
+/**
+ * Set type of a log (logs created before set types are working sets)
+ */
+export function getSetType(log: Pick<Log, 'set_type'>): SetType {
+  return log.set_type ?? 'working';
+}
+
+export function isWarmupSet(log: Pick<Log, 'set_type'>): boolean {
+  return getSetType(log) === 'warmup';
+}
+
+/**
+ * Hard sets drive volume counts, RIR analysis and e1RM tracking
+ */
+export function isHardSet(log: Pick<Log, 'set_type'>): boolean {
+  return getSetType(log) === 'working';
+}
+
+/**
+ * Drop sets, myo-rep clusters and rest-pause mini-sets extend a working set
+ */
+export function isClusterSet(log: Pick<Log, 'set_type'>): boolean {
+  const type = getSetType(log);
+  return type === 'drop' || type === 'myo_rep' || type === 'rest_pause';
+}
+
+export function getHardSets<T extends Pick<Log, 'set_type'>>(logs: T[]): T[] {
+  return logs.filter(isHardSet);
+}
+
+/**
+ * Sets that contribute to volume load (everything except warm-ups)
+ */
+export function getVolumeSets<T extends Pick<Log, 'set_type'>>(logs: T[]): T[] {
+  return logs.filter(log => !isWarmupSet(log));
+}
+
+export interface SetGroup {
+  parent: Log;
+  children: Log[];
+}
+
+/**
+ * Group cluster sets under their parent working set, preserving set order.
+ * Cluster sets whose parent is missing are shown as their own group.
+ */
+export function groupSetsByParent(logs: Log[]): SetGroup[] {
+  const sorted = [...logs].sort((a, b) => a.set_number - b.set_number);
+  const groups: SetGroup[] = [];
+  const groupsById = new Map<number, SetGroup>();
+
+  for (const log of sorted) {
+    const parentGroup = log.parent_log_id !== undefined ? groupsById.get(log.parent_log_id) : undefined;
+    if (isClusterSet(log) && parentGroup) {
+      parentGroup.children.push(log);
+      continue;
+    }
+
+    const group = { parent: log, children: [] };
+    groups.push(group);
+    if (log.id !== undefined) groupsById.set(log.id, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Find the working set a new cluster set should attach to
+ * (the most recent hard set of the exercise)
+ */
+export function findClusterParent(logs: Log[]): Log | undefined {
+  return [...logs]
+    .sort((a, b) => b.set_number - a.set_number)
+    .find(isHardSet);
+}
+
+/**
+ * Remove a logged set (and any cluster sets hanging off it), along with
+ * the pain reported on them, and renumber the exercise's remaining sets
+ * 1..n in their original order
+ */
+export function planSetRemoval(
+  logs: Log[],
+  logId: number,
+  painReports: PainReport[] = []
+): { removedIds: number[]; removedPainReportIds: number[]; renumbered: Array<{ id: number; set_number: number }> } {
+  const removedIds = logs
+    .filter(log => log.id === logId || (log.parent_log_id === logId && isClusterSet(log)))
+    .map(log => log.id!);
+  const removedPainReportIds = painReports
+    .filter(report => report.log_id !== undefined && removedIds.includes(report.log_id))
+    .map(report => report.id!);
+
+  const renumbered = logs
+    .filter(log => !removedIds.includes(log.id!))
+    .sort((a, b) => a.set_number - b.set_number)
+    .map((log, index) => ({ id: log.id!, set_number: index + 1, previous: log.set_number }))
+    .filter(({ set_number, previous }) => set_number !== previous)
+    .map(({ id, set_number }) => ({ id, set_number }));
+
+  return { removedIds, removedPainReportIds, renumbered };
+}
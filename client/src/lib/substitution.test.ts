@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getSubstitutions, getRotationRecommendations } from './substitution';
+import { matchesTaxonomyFilters } from './exerciseTaxonomy';
+import { SEEDED_EXERCISE_TAXONOMY, type Exercise, type MuscleGroup } from './db';
+
+let nextId = 1;
+const libraryExercise = (name: string, muscle_group: MuscleGroup): Exercise => ({
+  id: nextId++,
+  name,
+  muscle_group,
+  ...SEEDED_EXERCISE_TAXONOMY[name],
+  is_custom: false,
+  created_at: new Date(),
+});
+
+const squat = libraryExercise('Barbell Squat', 'Quads');
+const legPress = libraryExercise('Leg Press', 'Quads');
+const legExtension = libraryExercise('Leg Extension', 'Quads');
+const splitSquat = libraryExercise('Bulgarian Split Squat', 'Quads');
+const customQuad: Exercise = {
+  id: nextId++,
+  name: 'Sissy Squat',
+  muscle_group: 'Quads',
+  is_custom: true,
+  created_at: new Date(),
+};
+const bench = libraryExercise('Barbell Bench Press', 'Chest');
+
+const library = [squat, legPress, legExtension, splitSquat, customQuad, bench];
+
+describe('Exercise Substitution', () => {
+  it('should rank the same movement pattern above name matches', () => {
+    const subs = getSubstitutions(squat, library);
+
+    expect(subs[0].exercise.name).toBe('Leg Press');
+    expect(subs[0].similarity).toBe('high');
+    // Split squat is a compound lunge: same class, different pattern
+    expect(subs.find(s => s.exercise === splitSquat)?.similarity).toBe('medium');
+    expect(subs.find(s => s.exercise === legExtension)?.similarity).toBe('low');
+  });
+
+  it('should rate exercises without taxonomy as low similarity', () => {
+    const subs = getSubstitutions(squat, library);
+    expect(subs.find(s => s.exercise === customQuad)?.similarity).toBe('low');
+  });
+
+  it('should only suggest the same muscle group', () => {
+    const subs = getSubstitutions(squat, library);
+    expect(subs.every(s => s.exercise.muscle_group === 'Quads')).toBe(true);
+    expect(subs.some(s => s.exercise.id === squat.id)).toBe(false);
+  });
+
+  it('should put the lowest-stress equipment first for injuries', () => {
+    const subs = getSubstitutions(squat, library, 'injury');
+
+    expect(['machine', 'cable']).toContain(subs[0].exercise.equipment);
+    expect(subs[0].reason).toContain('Lower-stress');
+  });
+
+  it('should prefer a new implement on the same pattern when rotating', () => {
+    const result = getRotationRecommendations(squat.id!, 8, library);
+
+    expect(result.shouldRotate).toBe(true);
+    expect(result.urgency).toBe('high');
+    expect(result.alternatives[0]).toBe(legPress);
+  });
+});
+
+describe('Exercise Taxonomy Filters', () => {
+  it('should match on equipment, pattern and laterality', () => {
+    expect(matchesTaxonomyFilters(legPress, { equipment: 'machine', movementPattern: 'squat' })).toBe(true);
+    expect(matchesTaxonomyFilters(squat, { equipment: 'machine' })).toBe(false);
+    expect(matchesTaxonomyFilters(splitSquat, { laterality: 'unilateral' })).toBe(true);
+  });
+
+  it('should treat exercises without laterality as bilateral', () => {
+    expect(matchesTaxonomyFilters(customQuad, { laterality: 'bilateral' })).toBe(true);
+    expect(matchesTaxonomyFilters(customQuad, { equipment: 'barbell' })).toBe(false);
+  });
+});
@@ -1,8 +1,14 @@
 import type { Exercise } from './db';
+import {
+  EQUIPMENT_LABELS,
+  EQUIPMENT_STRESS,
+  MOVEMENT_PATTERN_LABELS,
+  isCompoundExercise,
+} from './exerciseTaxonomy';
 
 /**
  * Exercise substitution recommendations based on muscle groups
- * and movement patterns
+ * and the exercise taxonomy (movement pattern and equipment)
  */
 
 export interface SubstitutionRecommendation {
@@ -11,76 +17,97 @@ export interface SubstitutionRecommendation {
   similarity: 'high' | 'medium' | 'low';
 }
 
+const SIMILARITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Same movement pattern is high similarity, same compound/isolation
+ * class is medium, anything else (or missing metadata) is low
+ */
+function rateSimilarity(current: Exercise, candidate: Exercise): SubstitutionRecommendation['similarity'] {
+  if (current.movement_pattern && current.movement_pattern === candidate.movement_pattern) return 'high';
+  const currentIsCompound = isCompoundExercise(current);
+  const candidateIsCompound = isCompoundExercise(candidate);
+  if (currentIsCompound !== undefined && currentIsCompound === candidateIsCompound) return 'medium';
+  return 'low';
+}
+
+function describeSubstitution(
+  current: Exercise,
+  candidate: Exercise,
+  similarity: SubstitutionRecommendation['similarity']
+): string {
+  const equipment = candidate.equipment ? `${EQUIPMENT_LABELS[candidate.equipment]} ` : '';
+  if (similarity === 'high') {
+    const pattern = MOVEMENT_PATTERN_LABELS[candidate.movement_pattern!].toLowerCase();
+    return candidate.equipment && candidate.equipment !== current.equipment
+      ? `Same ${pattern} pattern using ${EQUIPMENT_LABELS[candidate.equipment].toLowerCase()}`
+      : `Same ${pattern} pattern for ${candidate.muscle_group}`;
+  }
+  const isCompound = isCompoundExercise(candidate);
+  const kind = isCompound === undefined ? '' : isCompound ? 'compound ' : 'isolation ';
+  return similarity === 'medium'
+    ? `Similar ${equipment.toLowerCase()}${kind}movement for ${candidate.muscle_group}`
+    : `Alternative ${equipment.toLowerCase()}${kind}movement for ${candidate.muscle_group}`;
+}
+
+/**
+ * Lower than the current exercise's equipment stress (unknown equipment
+ * never counts as lower)
+ */
+function isLowerStress(current: Exercise, candidate: Exercise): boolean {
+  if (!candidate.equipment) return false;
+  const currentStress = current.equipment ? EQUIPMENT_STRESS[current.equipment] : Infinity;
+  return EQUIPMENT_STRESS[candidate.equipment] < currentStress;
+}
+
 /**
  * Get substitution recommendations for an exercise
- * Based on muscle group and movement pattern
+ * Based on muscle group, movement pattern and equipment
  */
 export function getSubstitutions(
   currentExercise: Exercise,
   allExercises: Exercise[],
   reason?: 'rotation' | 'injury' | 'preference'
 ): SubstitutionRecommendation[] {
-  const recommendations: SubstitutionRecommendation[] = [];
-
   // Filter exercises from same muscle group, excluding current
   const sameMuscleGroup = allExercises.filter(
     ex => ex.muscle_group === currentExercise.muscle_group && ex.id !== currentExercise.id
   );
 
-  // Categorize by movement pattern similarity
-  for (const exercise of sameMuscleGroup) {
-    let similarity: 'high' | 'medium' | 'low' = 'medium';
-    let recommendationReason = '';
-
-    // High similarity: same compound/isolation type
-    const currentIsCompound = isCompoundMovement(currentExercise.name);
-    const candidateIsCompound = isCompoundMovement(exercise.name);
-
-    if (currentIsCompound === candidateIsCompound) {
-      similarity = 'high';
-      recommendationReason = `Similar ${currentIsCompound ? 'compound' : 'isolation'} movement for ${exercise.muscle_group}`;
-    } else {
-      similarity = 'medium';
-      recommendationReason = `Alternative ${candidateIsCompound ? 'compound' : 'isolation'} movement for ${exercise.muscle_group}`;
-    }
+  const recommendations = sameMuscleGroup.map(exercise => {
+    const similarity = rateSimilarity(currentExercise, exercise);
+    let recommendationReason = describeSubstitution(currentExercise, exercise, similarity);
 
     // Adjust reason based on substitution context
     if (reason === 'rotation') {
-      recommendationReason = `Fresh alternative after extended use of ${currentExercise.name}`;
-    } else if (reason === 'injury') {
-      recommendationReason = `Lower-stress alternative for ${exercise.muscle_group}`;
+      recommendationReason = similarity === 'high'
+        ? `Fresh ${MOVEMENT_PATTERN_LABELS[exercise.movement_pattern!].toLowerCase()} variation after extended use of ${currentExercise.name}`
+        : `Fresh alternative after extended use of ${currentExercise.name}`;
+    } else if (reason === 'injury' && isLowerStress(currentExercise, exercise)) {
+      recommendationReason = `Lower-stress ${EQUIPMENT_LABELS[exercise.equipment!].toLowerCase()} alternative for ${exercise.muscle_group}`;
     }
 
-    recommendations.push({
-      exercise,
-      reason: recommendationReason,
-      similarity,
-    });
-  }
+    return { exercise, reason: recommendationReason, similarity };
+  });
+
+  const stress = (ex: Exercise) => (ex.equipment ? EQUIPMENT_STRESS[ex.equipment] : Infinity);
+  const changesEquipment = (ex: Exercise) => (ex.equipment !== currentExercise.equipment ? 0 : 1);
 
-  // Sort by similarity (high first)
   recommendations.sort((a, b) => {
-    const order = { high: 0, medium: 1, low: 2 };
-    return order[a.similarity] - order[b.similarity];
+    // Injury: least joint stress first, then closest movement
+    if (reason === 'injury' && stress(a.exercise) !== stress(b.exercise)) {
+      return stress(a.exercise) - stress(b.exercise);
+    }
+    const bySimilarity = SIMILARITY_ORDER[a.similarity] - SIMILARITY_ORDER[b.similarity];
+    if (bySimilarity !== 0) return bySimilarity;
+    // Rotation: a new implement on the same pattern is the freshest stimulus
+    if (reason === 'rotation') return changesEquipment(a.exercise) - changesEquipment(b.exercise);
+    return 0;
   });
 
   return recommendations.slice(0, 5); // Return top 5
 }
 
-/**
- * Determine if exercise is compound or isolation
- * Simple heuristic based on common exercise names
- */
-function isCompoundMovement(exerciseName: string): boolean {
-  const compoundKeywords = [
-    'squat', 'deadlift', 'press', 'row', 'pull-up', 'chin-up',
-    'lunge', 'dip', 'clean', 'snatch', 'push-up'
-  ];
-
-  const lowerName = exerciseName.toLowerCase();
-  return compoundKeywords.some(keyword => lowerName.includes(keyword));
-}
-
 /**
  * Get rotation recommendations based on exercise age
  */
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getExerciseGroups, getGroupAdvance, getNextGroupStart } from './supersets';
+import type { SessionExercise } from './db';
+
+const makeExercise = (id: number, order: number, group?: string, sets: number = 3): SessionExercise => ({
+  id,
+  session_id: 1,
+  exercise_id: id * 10,
+  order_index: order,
+  target_sets: sets,
+  target_reps_min: 8,
+  target_reps_max: 12,
+  target_rir: 2,
+  superset_group: group,
+  created_at: new Date(),
+});
+
+describe('Superset Grouping', () => {
+  const sessionExercises = [
+    makeExercise(1, 0),
+    makeExercise(2, 1, 'A'),
+    makeExercise(3, 2, 'A'),
+    makeExercise(4, 3, 'B'),
+    makeExercise(5, 4, 'B'),
+    makeExercise(6, 5, 'B'),
+  ];
+
+  describe('getExerciseGroups', () => {
+    it('should group exercises sharing a label in order', () => {
+      const groups = getExerciseGroups(sessionExercises);
+
+      expect(groups).toHaveLength(3);
+      expect(groups[0].kind).toBe('single');
+      expect(groups[1].kind).toBe('superset');
+      expect(groups[1].members.map(m => m.id)).toEqual([2, 3]);
+      expect(groups[2].kind).toBe('giant_set');
+    });
+  });
+
+  describe('getGroupAdvance', () => {
+    it('should rest after every set of a straight-set exercise', () => {
+      const [single] = getExerciseGroups(sessionExercises);
+      const advance = getGroupAdvance(single, 1, { 1: 1 });
+
+      expect(advance).toEqual({ nextSessionExerciseId: null, startRest: true });
+    });
+
+    it('should move to the partner exercise without resting mid-round', () => {
+      const superset = getExerciseGroups(sessionExercises)[1];
+      const advance = getGroupAdvance(superset, 2, { 2: 1, 3: 0 });
+
+      expect(advance).toEqual({ nextSessionExerciseId: 3, startRest: false });
+    });
+
+    it('should rest after the last exercise and restart the round', () => {
+      const superset = getExerciseGroups(sessionExercises)[1];
+      const advance = getGroupAdvance(superset, 3, { 2: 1, 3: 1 });
+
+      expect(advance).toEqual({ nextSessionExerciseId: 2, startRest: true });
+    });
+
+    it('should skip members that have finished their sets', () => {
+      const giantSet = getExerciseGroups(sessionExercises)[2];
+      const advance = getGroupAdvance(giantSet, 4, { 4: 2, 5: 3, 6: 2 });
+
+      expect(advance).toEqual({ nextSessionExerciseId: 6, startRest: false });
+    });
+
+    it('should stay put once the whole group is done', () => {
+      const superset = getExerciseGroups(sessionExercises)[1];
+      const advance = getGroupAdvance(superset, 3, { 2: 3, 3: 3 });
+
+      expect(advance).toEqual({ nextSessionExerciseId: null, startRest: true });
+    });
+  });
+
+  describe('getNextGroupStart', () => {
+    it('should return the first exercise of the following group', () => {
+      expect(getNextGroupStart(sessionExercises, 3)?.id).toBe(4);
+      expect(getNextGroupStart(sessionExercises, 6)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { SessionExercise } from './db';
+
+/**
+ * Superset / giant set / circuit grouping for HypertrophyOS
+ * Session exercises that share a `superset_group` label are performed
+ * back to back, one set each, before resting.
+ */
+
+export const SUPERSET_GROUP_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export type ExerciseGroupKind = 'single' | 'superset' | 'giant_set' | 'circuit';
+
+export interface ExerciseGroup {
+  label?: string;
+  kind: ExerciseGroupKind;
+  members: SessionExercise[];
+}
+
+export function getGroupKind(size: number): ExerciseGroupKind {
+  if (size <= 1) return 'single';
+  if (size === 2) return 'superset';
+  if (size === 3) return 'giant_set';
+  return 'circuit';
+}
+
+export const GROUP_KIND_LABELS: Record<ExerciseGroupKind, string> = {
+  single: 'Straight Sets',
+  superset: 'Superset',
+  giant_set: 'Giant Set',
+  circuit: 'Circuit',
+};
+
+/**
+ * Build exercise groups in session order. Exercises without a label
+ * (or with a label nobody else uses) form single-exercise groups.
+ */
+export function getExerciseGroups(sessionExercises: SessionExercise[]): ExerciseGroup[] {
+  const sorted = [...sessionExercises].sort((a, b) => a.order_index - b.order_index);
+  const groups: ExerciseGroup[] = [];
+  const groupsByLabel = new Map<string, ExerciseGroup>();
+
+  for (const se of sorted) {
+    const label = se.superset_group;
+    const existing = label ? groupsByLabel.get(label) : undefined;
+    if (existing) {
+      existing.members.push(se);
+      existing.kind = getGroupKind(existing.members.length);
+      continue;
+    }
+
+    const group: ExerciseGroup = { label, kind: 'single', members: [se] };
+    groups.push(group);
+    if (label) groupsByLabel.set(label, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Find the group a session exercise belongs to
+ */
+export function findExerciseGroup(
+  sessionExercises: SessionExercise[],
+  sessionExerciseId: number
+): ExerciseGroup | undefined {
+  return getExerciseGroups(sessionExercises).find(group =>
+    group.members.some(member => member.id === sessionExerciseId)
+  );
+}
+
+export interface GroupAdvance {
+  nextSessionExerciseId: number | null; // null = stay on the current exercise
+  startRest: boolean; // true once a full round of the group has been performed
+}
+
+/**
+ * Decide where to go after a working set is logged.
+ *
+ * Within a group we cycle set by set through the members that still have
+ * sets remaining; rest only starts after the last member of the round.
+ * Straight-set exercises stay put and rest after every set.
+ */
+export function getGroupAdvance(
+  group: ExerciseGroup,
+  currentId: number,
+  completedSets: Record<number, number>
+): GroupAdvance {
+  const members = group.members;
+  if (members.length <= 1) {
+    return { nextSessionExerciseId: null, startRest: true };
+  }
+
+  const hasSetsRemaining = (se: SessionExercise) => (completedSets[se.id!] ?? 0) < se.target_sets;
+  const currentPosition = members.findIndex(se => se.id === currentId);
+
+  // Next member later in this round that still needs sets
+  const laterInRound = members.slice(currentPosition + 1).find(hasSetsRemaining);
+  if (laterInRound) {
+    return { nextSessionExerciseId: laterInRound.id!, startRest: false };
+  }
+
+  // Round complete: rest, then start the next round from the first member with work left
+  const nextRoundStart = members.find(hasSetsRemaining);
+  return {
+    nextSessionExerciseId: nextRoundStart ? nextRoundStart.id! : null,
+    startRest: true,
+  };
+}
+
+/**
+ * First exercise of the group that follows the given exercise's group
+ */
+export function getNextGroupStart(
+  sessionExercises: SessionExercise[],
+  sessionExerciseId: number
+): SessionExercise | undefined {
+  const groups = getExerciseGroups(sessionExercises);
+  const groupIndex = groups.findIndex(group =>
+    group.members.some(member => member.id === sessionExerciseId)
+  );
+  return groups[groupIndex + 1]?.members[0];
+}
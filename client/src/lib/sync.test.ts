@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import type { SyncChange, SyncRecord } from '@shared/sync';
+import { applyPushResponse, getNaturalSyncId, hashSyncData, planPull, planPush } from './sync';
+import type { BackupData } from './backup';
+import type { Exercise, LocalChange, Log, SessionExercise, SyncState, WorkoutSession } from './db';
+
+const created = new Date(2024, 0, 1);
+const now = new Date(2024, 0, 2);
+const later = new Date(2024, 0, 3);
+
+const exercise = (id: number, name: string, isCustom = false): Exercise => ({
+  id,
+  name,
+  muscle_group: 'Chest',
+  is_custom: isCustom,
+  created_at: created,
+});
+
+const session: WorkoutSession = {
+  id: 1,
+  microcycle_id: 1,
+  name: 'Upper A',
+  scheduled_date: created,
+  is_completed: true,
+  readiness: {
+    sleep: 4,
+    stress: 2,
+    energy: 4,
+    soreness: {},
+    score: 80,
+    adjustments: [{ session_exercise_id: 1, original_sets: 3, original_rir: 2, target_sets: 4, target_rir: 2 }],
+    recorded_at: created,
+  },
+  created_at: created,
+};
+
+const sessionExercise: SessionExercise = {
+  id: 1,
+  session_id: 1,
+  exercise_id: 2,
+  order_index: 0,
+  target_sets: 3,
+  target_reps_min: 8,
+  target_reps_max: 12,
+  target_rir: 2,
+  created_at: created,
+};
+
+const log = (id: number, overrides: Partial<Log> = {}): Log => ({
+  id,
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id: 2,
+  set_number: id,
+  weight: 100,
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: created,
+  created_at: created,
+  ...overrides,
+});
+
+const data = (): BackupData => ({
+  exercises: [exercise(1, 'Cable Fly'), exercise(2, 'Spoto Press', true)],
+  mesocycles: [{ id: 1, name: 'Block', phase_type: 'Hypertrophy', start_date: created, end_date: created, set_addition_frequency: 1, is_active: true, created_at: created }],
+  microcycles: [{ id: 1, mesocycle_id: 1, week_number: 1, start_date: created, end_date: created, created_at: created }],
+  workout_sessions: [session],
+  session_exercises: [sessionExercise],
+  logs: [log(1), log(2, { set_type: 'drop', parent_log_id: 1 })],
+});
+
+let idCount = 0;
+const createSyncId = () => `uuid-${++idCount}`;
+
+// Every record in `local` written at `at`
+const changedAt = (local: BackupData, at: Date): LocalChange[] =>
+  Object.entries(local).flatMap(([table, records]) =>
+    (records ?? []).map(record => ({ table, local_id: record.id!, modified_at: at.getTime() }) as LocalChange)
+  );
+
+// Sync states as they are after a reset
+const resetStates = (states: SyncState[]): SyncState[] => states.map(({ revision: _revision, ...state }) => ({ ...state, hash: '' }));
+
+// What the server answers when it accepts every change
+const accept = (changes: SyncChange[], fromRevision = 0): SyncRecord[] =>
+  changes.map((change, i) => ({ ...change, base_revision: undefined, revision: fromRevision + i + 1, updated_at: now.getTime() }));
+
+// Sync states after a first push of `data`
+function pushAll(local: BackupData): { states: SyncState[]; records: SyncRecord[] } {
+  const plan = planPush(local, [], createSyncId, changedAt(local, now));
+  const records = accept(plan.changes);
+  return { states: applyPushResponse(plan, records).put, records };
+}
+
+describe('Sync Push', () => {
+  it('should give library records a shared id and others a new one', () => {
+    expect(getNaturalSyncId('settings', {})).toBe('settings');
+    expect(getNaturalSyncId('exercises', exercise(1, ' Cable Fly'))).toBe('library:cable fly');
+    expect(getNaturalSyncId('exercises', exercise(2, 'Spoto Press', true))).toBeUndefined();
+  });
+
+  it('should send references as sync ids, referenced records first', () => {
+    const { changes } = planPush(data(), [], createSyncId, changedAt(data(), now));
+    const ids = new Map(changes.map(c => [`${c.table}:${c.data?.name ?? c.data?.set_number ?? ''}`, c.id]));
+    const drop = changes.find(c => c.table === 'logs' && c.data?.set_type === 'drop')!;
+    const sessionChange = changes.find(c => c.table === 'workout_sessions')!;
+    const sessionExerciseChange = changes.find(c => c.table === 'session_exercises')!;
+
+    expect(changes.map(c => c.table)).toEqual([
+      'exercises', 'exercises', 'mesocycles', 'microcycles', 'workout_sessions', 'session_exercises', 'logs', 'logs',
+    ]);
+    expect(drop).toMatchObject({ deleted: false, modified_at: now.getTime(), base_revision: undefined });
+    expect(drop.data).toMatchObject({ exercise_id: ids.get('exercises:Spoto Press'), parent_log_id: ids.get('logs:1') });
+    expect(drop.data?.id).toBeUndefined();
+    expect((sessionChange.data?.readiness as { adjustments: { session_exercise_id: string }[] }).adjustments[0].session_exercise_id)
+      .toBe(sessionExerciseChange.id);
+    expect(sessionChange.data?.scheduled_date).toBe(created.toISOString());
+  });
+
+  it('should only push records changed since they were synced', () => {
+    const { states } = pushAll(data());
+    const local = data();
+    local.logs![0].reps = 10;
+    local.logs!.pop();
+    local.exercises!.push(exercise(3, 'Pec Deck', true));
+
+    const plan = planPush(local, states, createSyncId);
+    const logState = states.find(s => s.table === 'logs' && s.local_id === 1)!;
+
+    expect(plan.changes.map(c => [c.table, c.deleted])).toEqual([['exercises', false], ['logs', false], ['logs', true]]);
+    expect(plan.changes[1]).toMatchObject({ id: logState.sync_id, base_revision: logState.revision });
+  });
+
+  it('should keep new records unsynced until the server accepts them', () => {
+    const plan = planPush(data(), [], createSyncId);
+    const [first] = plan.changes;
+    const { put } = applyPushResponse(plan, accept([first]));
+
+    expect(put).toHaveLength(plan.states.length);
+    expect(put.find(s => s.sync_id === first.id)).toMatchObject({ revision: 1, hash: hashSyncData(first.data!) });
+    expect(put.filter(s => s.revision === undefined).every(s => s.hash === '')).toBe(true);
+  });
+
+  it('should stamp changes with the time they were made here', () => {
+    const { states } = pushAll(data());
+    const local = data();
+    local.logs![0].reps = 10;
+    local.logs![1].reps = 6;
+
+    const plan = planPush(local, states, createSyncId, [{ table: 'logs', local_id: 1, modified_at: later.getTime() }]);
+
+    // A change made before writes were recorded keeps the synced version's time
+    expect(plan.changes.map(c => c.modified_at)).toEqual([later.getTime(), now.getTime()]);
+  });
+
+  it('should forget records deleted before they were pushed', () => {
+    const plan = planPush(data(), [], createSyncId);
+    const states = applyPushResponse(plan, []).put;
+    const local = data();
+    local.logs!.pop();
+
+    const next = planPush(local, states, createSyncId);
+    expect(next.changes.some(c => c.deleted)).toBe(false);
+    expect(applyPushResponse(next, []).remove).toMatchObject([{ table: 'logs', local_id: 2 }]);
+  });
+});
+
+describe('Sync Pull', () => {
+  it('should add pulled records after local ones and map their references', () => {
+    const { records } = pushAll(data());
+    const existing: BackupData = { exercises: [exercise(1, 'Cable Fly'), exercise(5, 'Dips', true)] };
+
+    const plan = planPull(records, existing, []);
+
+    // The library exercise already here is reused; the custom one is new
+    expect(plan.puts.exercises?.map(e => [e.id, e.name])).toEqual([[1, 'Cable Fly'], [6, 'Spoto Press']]);
+    expect(plan.puts.logs?.map(l => [l.id, l.exercise_id, l.parent_log_id])).toEqual([[1, 6, undefined], [2, 6, 1]]);
+    expect(plan.puts.workout_sessions?.[0].readiness?.adjustments[0].session_exercise_id).toBe(1);
+    expect(plan.puts.logs?.[0].session_date).toEqual(created);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it('should hash pulled records so they are not pushed back', () => {
+    const { records } = pushAll(data());
+    const plan = planPull(records, {}, []);
+    const local = plan.puts as BackupData;
+
+    expect(planPush(local, plan.states.put, createSyncId).changes).toEqual([]);
+  });
+
+  it('should skip changes this device already has', () => {
+    const { states, records } = pushAll(data());
+
+    const plan = planPull(records, data(), states);
+    expect(plan.puts).toEqual({});
+    expect(plan.states.put).toEqual([]);
+  });
+
+  it('should apply updates and tombstones to the synced records', () => {
+    const { states, records } = pushAll(data());
+    const logs = records.filter(r => r.table === 'logs');
+    const updated = { ...logs[0], data: { ...logs[0].data, reps: 12 }, revision: 20 };
+    const deleted = { ...logs[1], data: undefined, deleted: true, revision: 21 };
+
+    const plan = planPull([updated, deleted], data(), states);
+
+    expect(plan.puts.logs).toMatchObject([{ id: 1, reps: 12 }]);
+    expect(plan.deletes.logs).toEqual([2]);
+    expect(plan.states.remove).toMatchObject([{ table: 'logs', local_id: 2 }]);
+    expect(plan.states.put[0].revision).toBe(20);
+  });
+
+  it('should keep a local edit newer than the pulled version after a reset', () => {
+    const { states, records } = pushAll(data());
+    const pulledLog = records.find(r => r.table === 'logs' && r.data?.set_number === 1)!;
+    const local = data();
+    local.logs![0].reps = 10;
+    const edits: LocalChange[] = [{ table: 'logs', local_id: 1, modified_at: later.getTime() }];
+
+    const plan = planPull(records, local, resetStates(states), edits);
+
+    expect(plan.overwritten).toEqual([pulledLog]);
+    expect(plan.puts.logs?.map(l => l.id)).toEqual([2]);
+
+    // The next push sends the edit on top of the server's revision
+    const { changes } = planPush(local, plan.states.put, createSyncId, edits);
+    expect(changes).toMatchObject([
+      { table: 'logs', id: pulledLog.id, modified_at: later.getTime(), base_revision: pulledLog.revision, data: { reps: 10 } },
+    ]);
+  });
+
+  it('should overwrite an older local copy with the pulled version after a reset', () => {
+    const { states, records } = pushAll(data());
+    const logs = records.filter(r => r.table === 'logs');
+    const newer = { ...logs[0], data: { ...logs[0].data, reps: 12 }, modified_at: later.getTime(), revision: 20 };
+    const local = data();
+    local.logs![0].reps = 10;
+
+    const plan = planPull([...records.filter(r => r !== logs[0]), newer], local, resetStates(states), changedAt(local, now));
+
+    expect(plan.overwritten).toEqual([]);
+    expect(plan.puts.logs).toMatchObject([{ id: 1, reps: 12 }, { id: 2 }]);
+    expect(planPush({ ...local, ...plan.puts }, plan.states.put, createSyncId, changedAt(local, now)).changes).toEqual([]);
+  });
+
+  it('should skip records whose references never arrived', () => {
+    const { records } = pushAll(data());
+    const orphan = records.find(r => r.table === 'session_exercises')!;
+
+    expect(planPull([orphan], {}, []).skipped).toEqual([orphan]);
+  });
+});
@@ -0,0 +1,388 @@
+import {
+  SYNC_PAGE_SIZE,
+  SYNC_TABLES,
+  type PullResponse,
+  type PushResponse,
+  type SyncChange,
+  type SyncRecord,
+  type SyncTable,
+} from '@shared/sync';
+import type { LocalChange, SyncState } from './db';
+import {
+  FOREIGN_KEYS,
+  getNestedRecords,
+  getTableRecords,
+  isRecord,
+  parseBackupRecord,
+  stableStringify,
+  type AnyRecord,
+  type BackupData,
+} from './backup';
+import { apiRequest } from './api';
+
+/**
+ * Sync engine for HypertrophyOS
+ * Local records keep their numeric IDs; sync_state gives each one a global
+ * sync id and a hash of the data last pushed or pulled. A push compares
+ * every record with its hash, so changes made anywhere in the app are
+ * picked up, and records that are gone become tombstones. local_changes
+ * says when each record was last written here, which is the change's
+ * modified_at and decides conflicts. Foreign keys travel as sync ids and
+ * are mapped back to local IDs when pulled changes are applied.
+ */
+
+type Reference = number | string;
+
+interface SyncIndex {
+  byLocalId: Map<string, SyncState>;
+  bySyncId: Map<string, SyncState>;
+}
+
+const localKey = (table: SyncTable, localId: Reference) => `${table}|${localId}`;
+const syncKey = (table: SyncTable, syncId: Reference) => `${table}|${syncId}`;
+
+// Hash standing in for a record that is deleted
+const DELETED_HASH = 'deleted';
+
+const getChangeTimes = (localChanges: LocalChange[]) =>
+  new Map(localChanges.map(change => [localKey(change.table, change.local_id), change.modified_at]));
+
+function createIndex(states: SyncState[]): SyncIndex {
+  const index: SyncIndex = { byLocalId: new Map(), bySyncId: new Map() };
+  states.forEach(state => addToIndex(index, state));
+  return index;
+}
+
+function addToIndex(index: SyncIndex, state: SyncState) {
+  index.byLocalId.set(localKey(state.table, state.local_id), state);
+  index.bySyncId.set(syncKey(state.table, state.sync_id), state);
+}
+
+function removeFromIndex(index: SyncIndex, state: SyncState) {
+  index.byLocalId.delete(localKey(state.table, state.local_id));
+  index.bySyncId.delete(syncKey(state.table, state.sync_id));
+}
+
+/**
+ * Sync id shared by records every device creates on its own, so the first
+ * sync of a new device updates them instead of adding duplicates
+ */
+export function getNaturalSyncId(table: SyncTable, record: AnyRecord): string | undefined {
+  if (table === 'settings') return 'settings';
+  if (table === 'volume_landmarks') return `landmarks:${record.muscle_group}`;
+  if (table === 'exercises' && !record.is_custom) return `library:${String(record.name).trim().toLowerCase()}`;
+  return undefined;
+}
+
+/**
+ * Record with its references translated, local IDs to sync ids or back.
+ * Undefined when a required reference can't be translated; optional ones
+ * are dropped.
+ */
+function translateReferences(
+  table: SyncTable,
+  source: AnyRecord,
+  translate: (table: SyncTable, ref: Reference) => Reference | undefined
+): AnyRecord | undefined {
+  const { id: _id, ...record } = source;
+  const translateField = (refTable: SyncTable, value: unknown) =>
+    typeof value === 'number' || typeof value === 'string' ? translate(refTable, value) : undefined;
+
+  for (const fk of FOREIGN_KEYS[table] ?? []) {
+    if (record[fk.field] === undefined) continue;
+    const ref = translateField(fk.table, record[fk.field]);
+    if (ref !== undefined) record[fk.field] = ref;
+    else if (fk.required) return undefined;
+    else delete record[fk.field];
+  }
+
+  if (table === 'logs' && record.parent_log_id !== undefined) {
+    const parent = translateField('logs', record.parent_log_id);
+    if (parent !== undefined) record.parent_log_id = parent;
+    else delete record.parent_log_id;
+  }
+
+  if (table === 'workout_templates') {
+    record.exercises = getNestedRecords(record.exercises).flatMap(ex => {
+      const exerciseId = translateField('exercises', ex.exercise_id);
+      return exerciseId !== undefined ? [{ ...ex, exercise_id: exerciseId }] : [];
+    });
+  }
+
+  if (table === 'workout_sessions' && isRecord(record.readiness)) {
+    record.readiness = {
+      ...record.readiness,
+      adjustments: getNestedRecords(record.readiness.adjustments).flatMap(adj => {
+        const sessionExerciseId = translateField('session_exercises', adj.session_exercise_id);
+        return sessionExerciseId !== undefined ? [{ ...adj, session_exercise_id: sessionExerciseId }] : [];
+      }),
+    };
+  }
+
+  return record;
+}
+
+/**
+ * A local record as it is sent to the server: JSON with sync ids for
+ * references, or undefined while a record it needs isn't synced
+ */
+function toSyncData(table: SyncTable, record: AnyRecord, index: SyncIndex): Record<string, unknown> | undefined {
+  const data = translateReferences(table, record, (refTable, ref) => index.byLocalId.get(localKey(refTable, ref))?.sync_id);
+  return data && JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * 53-bit hash of a record's sync data (cyrb53)
+ */
+export function hashSyncData(data: Record<string, unknown>): string {
+  const text = stableStringify(data);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export interface PushPlan {
+  changes: SyncChange[];
+  states: SyncState[]; // States of the changed records, and of records never synced
+  dropped: SyncState[]; // Records deleted before they were ever pushed
+}
+
+/**
+ * Changes made locally since the last sync: records whose data no longer
+ * matches its hash, and tombstones for synced records that are gone.
+ * Changes are ordered so referenced records come first. A change without
+ * a recorded write time (made before writes were recorded) keeps the time
+ * of the version last synced, or counts as oldest.
+ */
+export function planPush(
+  data: BackupData,
+  states: SyncState[],
+  createSyncId: () => string,
+  localChanges: LocalChange[] = []
+): PushPlan {
+  const index = createIndex(states);
+  const changeTimes = getChangeTimes(localChanges);
+  const modifiedAt = (state: SyncState) => changeTimes.get(localKey(state.table, state.local_id)) ?? state.modified_at ?? 0;
+  const newStates: SyncState[] = [];
+
+  // Every record gets its sync id before any references are translated
+  for (const table of SYNC_TABLES) {
+    for (const record of getTableRecords(data, table)) {
+      if (index.byLocalId.has(localKey(table, record.id!))) continue;
+      const naturalId = getNaturalSyncId(table, record);
+      const syncId = naturalId && !index.bySyncId.has(syncKey(table, naturalId)) ? naturalId : createSyncId();
+      const state: SyncState = { table, local_id: record.id!, sync_id: syncId, hash: '' };
+      addToIndex(index, state);
+      newStates.push(state);
+    }
+  }
+
+  const changes: SyncChange[] = [];
+  const changedStates: SyncState[] = [];
+  const dropped: SyncState[] = [];
+  for (const table of SYNC_TABLES) {
+    const present = new Set<number>();
+    for (const record of getTableRecords(data, table)) {
+      present.add(record.id!);
+      const syncData = toSyncData(table, record, index);
+      if (!syncData) continue;
+
+      const state = index.byLocalId.get(localKey(table, record.id!))!;
+      if (hashSyncData(syncData) === state.hash) continue;
+      changes.push({
+        table,
+        id: state.sync_id,
+        data: syncData,
+        deleted: false,
+        modified_at: modifiedAt(state),
+        base_revision: state.revision,
+      });
+      changedStates.push(state);
+    }
+
+    for (const state of states) {
+      if (state.table !== table || present.has(state.local_id)) continue;
+      // Never pushed, so there's nothing to delete on the server
+      if (state.revision === undefined) {
+        dropped.push(state);
+        continue;
+      }
+      changedStates.push(state);
+      changes.push({ table, id: state.sync_id, deleted: true, modified_at: modifiedAt(state), base_revision: state.revision });
+    }
+  }
+
+  return { changes, states: Array.from(new Set([...newStates, ...changedStates])), dropped };
+}
+
+export interface SyncStateUpdate {
+  put: SyncState[];
+  remove: SyncState[];
+}
+
+/**
+ * Sync states once the server answered a push. Accepted records are synced
+ * at their new revision; conflicts the server won are applied by pulling.
+ */
+export function applyPushResponse(plan: PushPlan, accepted: SyncRecord[]): SyncStateUpdate {
+  const acceptedById = new Map(accepted.map(record => [syncKey(record.table, record.id), record]));
+  const update: SyncStateUpdate = { put: [], remove: [...plan.dropped] };
+
+  for (const state of plan.states) {
+    const record = acceptedById.get(syncKey(state.table, state.sync_id));
+    if (record?.deleted) {
+      update.remove.push(state);
+    } else if (record) {
+      update.put.push({ ...state, hash: hashSyncData(record.data ?? {}), revision: record.revision, modified_at: record.modified_at });
+    } else if (state.revision === undefined) {
+      // Not on the server yet; keeping the sync id keeps references to it stable
+      update.put.push(state);
+    }
+  }
+
+  return update;
+}
+
+export interface PullPlan {
+  puts: Partial<Record<SyncTable, AnyRecord[]>>;
+  deletes: Partial<Record<SyncTable, number[]>>;
+  states: SyncStateUpdate;
+  skipped: SyncRecord[]; // Records whose references aren't synced here
+  overwritten: SyncRecord[]; // Older than a local edit, which is pushed over them
+}
+
+/**
+ * Local writes for changes pulled from the server. New records get their
+ * local IDs while planning so references between them can be mapped;
+ * changes this device pushed itself are ignored. A record edited here
+ * after the pulled version was made, and not yet pushed, keeps the local
+ * edit; its state moves to the pulled revision so the next push replaces it.
+ */
+export function planPull(
+  changes: SyncRecord[],
+  existing: BackupData,
+  states: SyncState[],
+  localChanges: LocalChange[] = []
+): PullPlan {
+  const index = createIndex(states);
+  const plan: PullPlan = { puts: {}, deletes: {}, states: { put: [], remove: [] }, skipped: [], overwritten: [] };
+  const changeTimes = getChangeTimes(localChanges);
+  const localRecords = new Map(
+    SYNC_TABLES.flatMap(table => getTableRecords(existing, table).map(record => [localKey(table, record.id!), record] as const))
+  );
+
+  const hasNewerLocalEdit = (change: SyncRecord, state: SyncState): boolean => {
+    const key = localKey(state.table, state.local_id);
+    if ((changeTimes.get(key) ?? 0) <= change.modified_at) return false;
+    const record = localRecords.get(key);
+    const syncData = record && toSyncData(state.table, record, index);
+    const localHash = record ? syncData && hashSyncData(syncData) : DELETED_HASH;
+    const pulledHash = change.deleted ? DELETED_HASH : hashSyncData(change.data ?? {});
+    return localHash !== undefined && localHash !== state.hash && localHash !== pulledHash;
+  };
+
+  // Only the latest revision of each record matters
+  const latest = new Map<string, SyncRecord>();
+  for (const change of changes) {
+    const key = syncKey(change.table, change.id);
+    if ((latest.get(key)?.revision ?? -1) < change.revision) latest.set(key, change);
+  }
+  const pending = Array.from(latest.values()).filter(change => {
+    const state = index.bySyncId.get(syncKey(change.table, change.id));
+    if ((state?.revision ?? -1) >= change.revision) return false;
+    if (state && hasNewerLocalEdit(change, state)) {
+      plan.overwritten.push(change);
+      plan.states.put.push({ ...state, revision: change.revision, modified_at: change.modified_at });
+      return false;
+    }
+    return true;
+  });
+
+  // Deletes go first, children before the records they reference
+  for (const table of [...SYNC_TABLES].reverse()) {
+    for (const change of pending) {
+      if (change.table !== table || !change.deleted) continue;
+      const state = index.bySyncId.get(syncKey(table, change.id));
+      if (!state) continue;
+      (plan.deletes[table] ??= []).push(state.local_id);
+      plan.states.remove.push(state);
+      removeFromIndex(index, state);
+    }
+  }
+
+  const planned: { table: SyncTable; record: AnyRecord; change: SyncRecord }[] = [];
+  for (const table of SYNC_TABLES) {
+    const current = getTableRecords(existing, table);
+    let nextId = Math.max(0, ...current.map(r => r.id ?? 0), ...states.filter(s => s.table === table).map(s => s.local_id)) + 1;
+
+    // A pulled record that every device has may already exist here unsynced
+    const unsynced = new Map<string, AnyRecord>();
+    for (const record of current) {
+      const naturalId = getNaturalSyncId(table, record);
+      if (naturalId && !index.byLocalId.has(localKey(table, record.id!))) unsynced.set(naturalId, record);
+    }
+
+    // Cluster sets after the sets they hang off
+    const upserts = pending
+      .filter(change => change.table === table && !change.deleted)
+      .sort((a, b) => Number(a.data?.parent_log_id !== undefined) - Number(b.data?.parent_log_id !== undefined));
+
+    for (const change of upserts) {
+      const state = index.bySyncId.get(syncKey(table, change.id));
+      const translated = translateReferences(table, change.data ?? {}, (refTable, ref) =>
+        index.bySyncId.get(syncKey(refTable, ref))?.local_id
+      );
+      const record = translated && parseBackupRecord(table, translated);
+      if (!record) {
+        plan.skipped.push(change);
+        continue;
+      }
+
+      const localId = state?.local_id ?? unsynced.get(change.id)?.id ?? nextId++;
+      const placed = { ...record, id: localId };
+      (plan.puts[table] ??= []).push(placed);
+      const newState: SyncState = {
+        table,
+        local_id: localId,
+        sync_id: change.id,
+        hash: '',
+        revision: change.revision,
+        modified_at: change.modified_at,
+      };
+      if (state) removeFromIndex(index, state);
+      addToIndex(index, newState);
+      planned.push({ table, record: placed, change });
+    }
+  }
+
+  // Check-in adjustments point at session exercises pulled after their session
+  for (const { table, record, change } of planned) {
+    if (table !== 'workout_sessions' || !change.data?.readiness) continue;
+    const translated = translateReferences(table, change.data, (refTable, ref) => index.bySyncId.get(syncKey(refTable, ref))?.local_id);
+    const parsed = translated && parseBackupRecord(table, translated);
+    if (parsed) record.readiness = parsed.readiness;
+  }
+
+  // Hashed as the record will be read back, so it isn't pushed again
+  for (const { table, record } of planned) {
+    const state = index.byLocalId.get(localKey(table, record.id!))!;
+    plan.states.put.push({ ...state, hash: hashSyncData(toSyncData(table, record, index) ?? {}) });
+  }
+
+  return plan;
+}
+
+export async function pullChanges(since: number): Promise<PullResponse> {
+  return await apiRequest<PullResponse>(`/sync/changes?since=${since}&limit=${SYNC_PAGE_SIZE}`);
+}
+
+export async function pushChanges(changes: SyncChange[]): Promise<PushResponse> {
+  return await apiRequest<PushResponse>('/sync/push', { method: 'POST', body: JSON.stringify({ changes }) });
+}
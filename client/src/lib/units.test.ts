@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { convertWeight, getLogWeight, getLogE1RM, formatWeight } from './units';
+import { analyzeProgression } from './progression';
+import type { Log } from './db';
+
+describe('Weight Units', () => {
+  describe('convertWeight', () => {
+    it('should return the same value when units match', () => {
+      expect(convertWeight(100, 'kg', 'kg')).toBe(100);
+      expect(convertWeight(225, 'lb', 'lb')).toBe(225);
+    });
+
+    it('should convert between kilograms and pounds', () => {
+      expect(convertWeight(100, 'kg', 'lb')).toBeCloseTo(220.46, 2);
+      expect(convertWeight(225, 'lb', 'kg')).toBeCloseTo(102.06, 2);
+    });
+
+    it('should round-trip without drift', () => {
+      expect(convertWeight(convertWeight(82.5, 'kg', 'lb'), 'lb', 'kg')).toBeCloseTo(82.5, 10);
+    });
+  });
+
+  describe('log helpers', () => {
+    it('should treat logs without a unit as kilograms', () => {
+      const log = { weight: 100, e1rm: 120 } as Log;
+
+      expect(getLogWeight(log, 'kg')).toBe(100);
+      expect(getLogWeight(log, 'lb')).toBeCloseTo(220.46, 2);
+      expect(getLogE1RM(log, 'lb')).toBeCloseTo(264.55, 2);
+    });
+
+    it('should convert pound logs for kilogram display', () => {
+      const log = { weight: 135, weight_unit: 'lb', e1rm: undefined } as Log;
+
+      expect(getLogWeight(log, 'kg')).toBeCloseTo(61.23, 2);
+      expect(getLogE1RM(log, 'kg')).toBeUndefined();
+    });
+  });
+
+  describe('formatWeight', () => {
+    it('should trim trailing zeros', () => {
+      expect(formatWeight(100, 'kg')).toBe('100 kg');
+      expect(formatWeight(61.234, 'lb')).toBe('61.2 lb');
+    });
+  });
+
+  describe('analyzeProgression', () => {
+    const makeLogs = (weight: number, unit: 'kg' | 'lb'): Log[] =>
+      [0, 1, 2].map(i => ({
+        weight,
+        weight_unit: unit,
+        reps: 10,
+        rir: 4,
+        target_rir: 2,
+        session_date: new Date(2024, 0, 10 - i),
+      })) as Log[];
+
+    it('should round recommendations to 5 lb when training in pounds', () => {
+      const rec = analyzeProgression(makeLogs(135, 'lb'), 'Barbell Bench Press', 'Chest', 'lb');
+
+      expect(rec).not.toBeNull();
+      expect(rec!.unit).toBe('lb');
+      expect(rec!.currentWeight).toBe(135);
+      expect(rec!.recommendedWeight).toBe(140);
+    });
+
+    it('should keep 2.5 kg rounding for kilograms', () => {
+      const rec = analyzeProgression(makeLogs(60, 'kg'), 'Barbell Bench Press', 'Chest');
+
+      expect(rec!.unit).toBe('kg');
+      expect(rec!.recommendedWeight).toBe(62.5);
+    });
+  });
+});
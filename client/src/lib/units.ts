@@ -0,0 +1,66 @@
+import type { Log, WeightUnit } from './db';
+
+/**
+ * Weight unit conversion for HypertrophyOS
+ * Logs keep the unit they were entered in; everything shown to the user
+ * is converted here at read time so stored data is never rewritten.
+ */
+
+export const KG_PER_LB = 0.45359237;
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: 'Kilograms (kg)',
+  lb: 'Pounds (lb)',
+};
+
+/**
+ * Smallest practical load jump for each unit (used for progression rounding)
+ */
+export const WEIGHT_INCREMENTS: Record<WeightUnit, number> = {
+  kg: 2.5,
+  lb: 5,
+};
+
+/**
+ * Convert a weight between units
+ */
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return value;
+  return from === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+}
+
+/**
+ * Unit a log was recorded in (logs created before unit support are kg)
+ */
+export function getLogUnit(log: Pick<Log, 'weight_unit'>): WeightUnit {
+  return log.weight_unit ?? 'kg';
+}
+
+/**
+ * Weight of a logged set expressed in the requested unit
+ */
+export function getLogWeight(log: Pick<Log, 'weight' | 'weight_unit'>, unit: WeightUnit): number {
+  return convertWeight(log.weight, getLogUnit(log), unit);
+}
+
+/**
+ * Estimated 1RM of a logged set expressed in the requested unit
+ */
+export function getLogE1RM(log: Pick<Log, 'e1rm' | 'weight_unit'>, unit: WeightUnit): number | undefined {
+  if (log.e1rm === undefined) return undefined;
+  return convertWeight(log.e1rm, getLogUnit(log), unit);
+}
+
+/**
+ * Volume load (weight × reps) of a logged set in the requested unit
+ */
+export function getLogVolume(log: Pick<Log, 'weight' | 'weight_unit' | 'reps'>, unit: WeightUnit): number {
+  return getLogWeight(log, unit) * log.reps;
+}
+
+/**
+ * Format a weight for display, trimming trailing zeros
+ */
+export function formatWeight(value: number, unit: WeightUnit, decimals: number = 1): string {
+  return `${parseFloat(value.toFixed(decimals))} ${unit}`;
+}
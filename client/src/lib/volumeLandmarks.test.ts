@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_VOLUME_LANDMARKS,
+  capSetIncrease,
+  getVolumeZone,
+  getWeeklyHardSets,
+  resolveLandmarks,
+  validateLandmarks,
+} from './volumeLandmarks';
+import { generateSetRecommendation, type PerformanceMetrics } from './autoregulation';
+import type { Exercise, Log } from './db';
+
+describe('Volume Landmarks', () => {
+  const chest = DEFAULT_VOLUME_LANDMARKS.Chest; // 4 / 8 / 16 / 22
+
+  describe('getVolumeZone', () => {
+    it('should place set counts between the landmarks', () => {
+      expect(getVolumeZone(2, chest)).toBe('below_mv');
+      expect(getVolumeZone(6, chest)).toBe('maintenance');
+      expect(getVolumeZone(12, chest)).toBe('productive');
+      expect(getVolumeZone(20, chest)).toBe('high');
+      expect(getVolumeZone(23, chest)).toBe('over_mrv');
+    });
+  });
+
+  describe('resolveLandmarks', () => {
+    it('should override defaults with stored landmarks', () => {
+      const resolved = resolveLandmarks([
+        { muscle_group: 'Chest', mv: 6, mev: 10, mav: 18, mrv: 24, updated_at: new Date() },
+      ]);
+
+      expect(resolved.Chest.mrv).toBe(24);
+      expect(resolved.Back).toEqual(DEFAULT_VOLUME_LANDMARKS.Back);
+    });
+  });
+
+  describe('validateLandmarks', () => {
+    it('should require ascending landmarks', () => {
+      expect(validateLandmarks(chest)).toBeNull();
+      expect(validateLandmarks({ mv: 4, mev: 12, mav: 10, mrv: 22 })).not.toBeNull();
+    });
+  });
+
+  describe('getWeeklyHardSets', () => {
+    it('should count only this week\'s working sets per muscle', () => {
+      const exercises = [{ id: 1, muscle_group: 'Chest' }] as Exercise[];
+      const wednesday = new Date(2024, 0, 10);
+      const logs = [
+        { exercise_id: 1, session_date: new Date(2024, 0, 8) },
+        { exercise_id: 1, session_date: new Date(2024, 0, 9), set_type: 'warmup' },
+        { exercise_id: 1, session_date: new Date(2024, 0, 14) },
+        { exercise_id: 1, session_date: new Date(2024, 0, 7) }, // Previous Sunday
+      ] as Log[];
+
+      expect(getWeeklyHardSets(logs, exercises, wednesday)).toEqual({ Chest: 2 });
+    });
+  });
+
+  describe('MRV cap', () => {
+    it('should limit increases to the sets left before MRV', () => {
+      expect(capSetIncrease(2, 21, 22)).toBe(1);
+      expect(capSetIncrease(1, 22, 22)).toBe(0);
+      expect(capSetIncrease(-1, 25, 22)).toBe(-1);
+    });
+
+    it('should stop autoregulation from adding sets past MRV', () => {
+      const easyMetrics: PerformanceMetrics = {
+        avgRIR: 0,
+        targetRIR: 2,
+        rirDeviation: -2,
+        avgSoreness: 1,
+        avgPump: 4,
+        avgJointPain: 1,
+        sessionsAnalyzed: 6,
+      };
+
+      const uncapped = generateSetRecommendation(4, easyMetrics);
+      const capped = generateSetRecommendation(4, easyMetrics, 0, { muscleGroup: 'Chest', weeklySets: 22, mrv: 22 });
+
+      expect(uncapped.change).toBe(1);
+      expect(capped.change).toBe(0);
+      expect(capped.reason).toContain('MRV');
+    });
+  });
+});
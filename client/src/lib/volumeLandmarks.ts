@@ -0,0 +1,119 @@
+import { startOfWeek, endOfWeek } from 'date-fns';
+import type { Exercise, Log, MuscleGroup, VolumeLandmarks } from './db';
+import { getFractionalSets } from './muscleContributions';
+
+/**
+ * Volume landmarks for HypertrophyOS
+ * Weekly hard-set ranges per muscle group: maintenance (MV), minimum
+ * effective (MEV), maximum adaptive (MAV) and maximum recoverable (MRV).
+ */
+
+export type LandmarkValues = Pick<VolumeLandmarks, 'mv' | 'mev' | 'mav' | 'mrv'>;
+
+export const DEFAULT_VOLUME_LANDMARKS: Record<MuscleGroup, LandmarkValues> = {
+  Chest: { mv: 4, mev: 8, mav: 16, mrv: 22 },
+  Back: { mv: 6, mev: 10, mav: 18, mrv: 25 },
+  Shoulders: { mv: 4, mev: 8, mav: 19, mrv: 26 },
+  Biceps: { mv: 4, mev: 8, mav: 17, mrv: 26 },
+  Triceps: { mv: 4, mev: 6, mav: 12, mrv: 18 },
+  Quads: { mv: 6, mev: 8, mav: 15, mrv: 20 },
+  Hamstrings: { mv: 3, mev: 6, mav: 13, mrv: 20 },
+  Glutes: { mv: 0, mev: 2, mav: 8, mrv: 16 },
+  Calves: { mv: 6, mev: 8, mav: 14, mrv: 20 },
+  Abs: { mv: 0, mev: 4, mav: 16, mrv: 25 },
+  Forearms: { mv: 0, mev: 2, mav: 8, mrv: 20 },
+};
+
+export const MUSCLE_GROUPS = Object.keys(DEFAULT_VOLUME_LANDMARKS) as MuscleGroup[];
+
+export type VolumeZone = 'below_mv' | 'maintenance' | 'productive' | 'high' | 'over_mrv';
+
+export const VOLUME_ZONE_LABELS: Record<VolumeZone, string> = {
+  below_mv: 'Below MV',
+  maintenance: 'Maintenance',
+  productive: 'Productive',
+  high: 'Near MRV',
+  over_mrv: 'Over MRV',
+};
+
+export interface MuscleVolumeStatus {
+  muscleGroup: MuscleGroup;
+  sets: number;
+  landmarks: LandmarkValues;
+  zone: VolumeZone;
+}
+
+/**
+ * Merge stored landmarks over the defaults
+ */
+export function resolveLandmarks(stored: VolumeLandmarks[]): Record<MuscleGroup, LandmarkValues> {
+  const resolved = { ...DEFAULT_VOLUME_LANDMARKS };
+  for (const row of stored) {
+    resolved[row.muscle_group] = { mv: row.mv, mev: row.mev, mav: row.mav, mrv: row.mrv };
+  }
+  return resolved;
+}
+
+/**
+ * Check that landmarks are in ascending order
+ */
+export function validateLandmarks(values: LandmarkValues): string | null {
+  if ([values.mv, values.mev, values.mav, values.mrv].some(v => isNaN(v) || v < 0)) {
+    return 'Landmarks must be zero or more sets';
+  }
+  if (!(values.mv <= values.mev && values.mev <= values.mav && values.mav <= values.mrv)) {
+    return 'Landmarks must satisfy MV ≤ MEV ≤ MAV ≤ MRV';
+  }
+  return null;
+}
+
+/**
+ * Hard sets per muscle group in the (Monday-start) week containing weekOf.
+ * Secondary muscles are credited fractionally.
+ */
+export function getWeeklyHardSets(
+  logs: Log[],
+  exercises: Exercise[],
+  weekOf: Date = new Date()
+): Partial<Record<MuscleGroup, number>> {
+  const weekStart = startOfWeek(weekOf, { weekStartsOn: 1 });
+  const weekEnd = endOfWeek(weekOf, { weekStartsOn: 1 });
+  const weekLogs = logs.filter(log => log.session_date >= weekStart && log.session_date <= weekEnd);
+
+  return getFractionalSets(weekLogs, exercises);
+}
+
+export function getVolumeZone(sets: number, landmarks: LandmarkValues): VolumeZone {
+  if (sets > landmarks.mrv) return 'over_mrv';
+  if (sets > landmarks.mav) return 'high';
+  if (sets >= landmarks.mev) return 'productive';
+  if (sets >= landmarks.mv) return 'maintenance';
+  return 'below_mv';
+}
+
+/**
+ * Where each muscle sits relative to its landmarks this week
+ */
+export function getMuscleVolumeStatus(
+  weeklySets: Partial<Record<MuscleGroup, number>>,
+  landmarks: Record<MuscleGroup, LandmarkValues>
+): MuscleVolumeStatus[] {
+  return MUSCLE_GROUPS.map(muscleGroup => {
+    const sets = weeklySets[muscleGroup] ?? 0;
+    return {
+      muscleGroup,
+      sets,
+      landmarks: landmarks[muscleGroup],
+      zone: getVolumeZone(sets, landmarks[muscleGroup]),
+    };
+  });
+}
+
+/**
+ * Limit a set increase so weekly volume doesn't exceed MRV.
+ * Reductions pass through unchanged; weekly sets may be fractional.
+ */
+export function capSetIncrease(change: number, weeklySets: number, mrv: number): number {
+  if (change <= 0) return change;
+  return Math.max(0, Math.min(change, Math.floor(mrv - weeklySets)));
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { generateWarmupSets, getWarmupTargetWeight, isFirstExerciseForMuscle } from './warmups';
+import { DEFAULT_EQUIPMENT_PROFILES } from './plates';
+import type { Exercise, Log, SessionExercise } from './db';
+
+const kgProfile = DEFAULT_EQUIPMENT_PROFILES.kg;
+
+const log = (overrides: Partial<Log>): Log => ({
+  session_id: 1,
+  exercise_id: 1,
+  set_number: 1,
+  weight: 100,
+  weight_unit: 'kg',
+  reps: 8,
+  rir: 2,
+  target_rir: 2,
+  session_date: new Date(2024, 0, 1),
+  created_at: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+describe('Warm-up Generator', () => {
+  it('should ramp from the bar to 80% in loadable weights', () => {
+    const warmups = generateWarmupSets(100, 'kg', 'barbell', kgProfile);
+
+    expect(warmups.map(w => [w.weight, w.reps])).toEqual([
+      [20, 10],
+      [40, 5],
+      [60, 3],
+      [80, 1],
+    ]);
+  });
+
+  it('should round warm-ups down to loadable plates', () => {
+    const warmups = generateWarmupSets(72.5, 'kg', 'barbell', kgProfile);
+    // 40% = 29 → 27.5, 60% = 43.5 → 42.5, 80% = 58 → 57.5
+    expect(warmups.map(w => w.weight)).toEqual([20, 27.5, 42.5, 57.5]);
+  });
+
+  it('should drop steps that collapse onto the same load', () => {
+    const warmups = generateWarmupSets(40, 'kg', 'barbell', kgProfile);
+
+    expect(warmups.map(w => w.weight)).toEqual([20, 22.5, 30]);
+  });
+
+  it('should use the equipment step for dumbbells', () => {
+    const warmups = generateWarmupSets(30, 'kg', 'dumbbell', kgProfile);
+    expect(warmups.map(w => w.weight)).toEqual([2, 12, 18, 24]);
+  });
+
+  it('should return nothing without a working weight', () => {
+    expect(generateWarmupSets(0, 'kg', 'barbell', kgProfile)).toEqual([]);
+  });
+});
+
+describe('Warm-up Target Weight', () => {
+  it('should use the heaviest working set of the last session', () => {
+    const logs = [
+      log({ session_id: 1, weight: 90 }),
+      log({ session_id: 2, weight: 95, session_date: new Date(2024, 0, 5) }),
+      log({ session_id: 2, weight: 97.5, session_date: new Date(2024, 0, 5) }),
+      log({ session_id: 2, weight: 120, set_type: 'warmup', session_date: new Date(2024, 0, 5) }),
+    ];
+
+    expect(getWarmupTargetWeight(logs, 'kg', 3)).toBe(97.5);
+  });
+
+  it('should prefer a recommended progression', () => {
+    const logs = [log({ weight: 100 })];
+    const progression = {
+      shouldProgress: true,
+      recommendedWeight: 102.5,
+      currentWeight: 100,
+      confidence: 'high' as const,
+      reason: '',
+      increasePercent: 2.5,
+      unit: 'kg' as const,
+    };
+
+    expect(getWarmupTargetWeight(logs, 'kg', 2, progression)).toBe(102.5);
+  });
+
+  it('should ignore the current session', () => {
+    expect(getWarmupTargetWeight([log({ session_id: 2 })], 'kg', 2)).toBeUndefined();
+  });
+});
+
+describe('First Exercise For Muscle', () => {
+  const exercises = [
+    { id: 1, name: 'Bench', muscle_group: 'Chest' },
+    { id: 2, name: 'Fly', muscle_group: 'Chest' },
+    { id: 3, name: 'Row', muscle_group: 'Back' },
+  ] as Exercise[];
+  const sessionExercises = [
+    { id: 10, exercise_id: 1 },
+    { id: 11, exercise_id: 3 },
+    { id: 12, exercise_id: 2 },
+  ] as SessionExercise[];
+
+  it('should only flag the first exercise of each muscle', () => {
+    expect(isFirstExerciseForMuscle(sessionExercises, exercises, 10)).toBe(true);
+    expect(isFirstExerciseForMuscle(sessionExercises, exercises, 11)).toBe(true);
+    expect(isFirstExerciseForMuscle(sessionExercises, exercises, 12)).toBe(false);
+  });
+});
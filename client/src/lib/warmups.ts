@@ -0,0 +1,96 @@
+import type { Equipment, EquipmentProfile, Exercise, Log, SessionExercise, WeightUnit } from './db';
+import { getLogWeight } from './units';
+import { getHardSets } from './setTypes';
+import { getPreferredBarWeight, roundToLoadable } from './plates';
+import type { ProgressionRecommendation } from './progression';
+
+/**
+ * Warm-up ramps for HypertrophyOS
+ * The first exercise for each muscle in a session gets a ramp of
+ * progressively heavier warm-up sets up to the day's working weight.
+ * Warm-ups are logged as warm-up sets, so they never count as volume.
+ */
+
+export interface WarmupStep {
+  percent: number; // Of the working weight; 0 = the lightest load (empty bar)
+  reps: number;
+}
+
+export interface WarmupSet {
+  weight: number;
+  reps: number;
+  percent: number;
+}
+
+// Bar × 10, 40% × 5, 60% × 3, 80% × 1
+export const DEFAULT_WARMUP_SCHEME: WarmupStep[] = [
+  { percent: 0, reps: 10 },
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 1 },
+];
+
+// Warm-ups stop well short of failure; logged as the chart's "5+"
+export const WARMUP_RIR = 5;
+
+/**
+ * Ramp of loadable warm-up sets below a working weight. Steps that round
+ * to the same load as an earlier step, or reach the working weight, are dropped.
+ */
+export function generateWarmupSets(
+  workingWeight: number,
+  unit: WeightUnit,
+  equipment: Equipment | undefined,
+  profile: EquipmentProfile,
+  scheme: WarmupStep[] = DEFAULT_WARMUP_SCHEME
+): WarmupSet[] {
+  if (workingWeight <= 0) return [];
+
+  const sets: WarmupSet[] = [];
+  const emptyBar = equipment === 'barbell' ? getPreferredBarWeight(unit, profile) : undefined;
+  for (const step of scheme) {
+    const weight = step.percent === 0 && emptyBar !== undefined
+      ? emptyBar
+      : roundToLoadable(workingWeight * (step.percent / 100), unit, equipment, profile, 'down');
+    if (weight >= workingWeight) continue;
+    if (sets.some(set => set.weight >= weight)) continue;
+    sets.push({ weight, reps: step.reps, percent: step.percent });
+  }
+  return sets;
+}
+
+/**
+ * Today's working weight: the progression target when one is recommended,
+ * otherwise the heaviest working set from the last session of the exercise
+ */
+export function getWarmupTargetWeight(
+  exerciseLogs: Log[],
+  unit: WeightUnit,
+  currentSessionId: number,
+  progression?: ProgressionRecommendation | null
+): number | undefined {
+  if (progression?.shouldProgress) return progression.recommendedWeight;
+
+  const previous = getHardSets(exerciseLogs).filter(log => log.session_id !== currentSessionId);
+  if (previous.length === 0) return undefined;
+
+  const lastDate = Math.max(...previous.map(log => log.session_date.getTime()));
+  const lastSession = previous.find(log => log.session_date.getTime() === lastDate)!.session_id;
+  return Math.max(...previous.filter(log => log.session_id === lastSession).map(log => getLogWeight(log, unit)));
+}
+
+/**
+ * Whether no earlier exercise in the session trains the same muscle
+ */
+export function isFirstExerciseForMuscle(
+  sessionExercises: SessionExercise[],
+  exercises: Exercise[],
+  sessionExerciseId: number
+): boolean {
+  const muscleOf = (se: SessionExercise) => exercises.find(ex => ex.id === se.exercise_id)?.muscle_group;
+  const index = sessionExercises.findIndex(se => se.id === sessionExerciseId);
+  if (index < 0) return false;
+
+  const muscle = muscleOf(sessionExercises[index]);
+  return !sessionExercises.slice(0, index).some(se => muscleOf(se) === muscle);
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { isSetAdditionWeek, planWeekProgression, weeksSinceSetIncrease, type WeekProgressionInput } from './weeklyProgression';
+import type { Log, SessionExercise, WorkoutSession } from './db';
+
+const makeSession = (id: number, name: string, is_completed: boolean): WorkoutSession => ({
+  id,
+  microcycle_id: 1,
+  name,
+  scheduled_date: new Date(),
+  is_completed,
+  created_at: new Date(),
+});
+
+const makeSessionExercise = (id: number, session_id: number, target_sets: number, target_rir: number): SessionExercise => ({
+  id,
+  session_id,
+  exercise_id: 7,
+  order_index: 0,
+  target_sets,
+  target_reps_min: 8,
+  target_reps_max: 12,
+  target_rir,
+  created_at: new Date(),
+});
+
+// Easy sets with good recovery: autoregulation recommends adding a set
+const easyLogs: Log[] = [1, 2, 3].map(set_number => ({
+  session_exercise_id: 1,
+  session_id: 1,
+  exercise_id: 7,
+  set_number,
+  weight: 100,
+  reps: 10,
+  rir: 1,
+  target_rir: 3,
+  session_date: new Date(),
+  feedback_soreness: 1,
+  feedback_pump: 4,
+  feedback_joint_pain: 1,
+  created_at: new Date(),
+}));
+
+const makeInput = (overrides: Partial<WeekProgressionInput> = {}): WeekProgressionInput => ({
+  completedWeek: {
+    sessions: [makeSession(1, 'Upper A', true)],
+    sessionExercises: [makeSessionExercise(1, 1, 3, 3)],
+    logs: easyLogs,
+  },
+  nextWeek: {
+    sessions: [makeSession(2, 'Upper A', false)],
+    sessionExercises: [makeSessionExercise(2, 2, 3, 3)],
+  },
+  nextWeekNumber: 2,
+  accumulationWeeks: 4,
+  phaseType: 'Hypertrophy',
+  setAdditionFrequency: 1,
+  isDeload: false,
+  ...overrides,
+});
+
+describe('Weekly Progression', () => {
+  describe('isSetAdditionWeek', () => {
+    it('should follow the set addition frequency', () => {
+      expect(isSetAdditionWeek(1, 1)).toBe(false);
+      expect(isSetAdditionWeek(2, 1)).toBe(true);
+      expect(isSetAdditionWeek(2, 2)).toBe(false);
+      expect(isSetAdditionWeek(3, 2)).toBe(true);
+    });
+  });
+
+  describe('weeksSinceSetIncrease', () => {
+    const weekWithSets = (sessionId: number, sets: number) => ({
+      sessions: [makeSession(sessionId, 'Upper A', true)],
+      sessionExercises: [makeSessionExercise(sessionId, sessionId, sets, 3)],
+    });
+    const next = makeSessionExercise(9, 9, 3, 3);
+
+    it('should count every week when sets never went up', () => {
+      expect(weeksSinceSetIncrease(next, 'Upper A', [weekWithSets(1, 3), weekWithSets(2, 3), weekWithSets(3, 3)])).toBe(3);
+    });
+
+    it('should count from the most recent increase', () => {
+      expect(weeksSinceSetIncrease(next, 'Upper A', [weekWithSets(1, 3), weekWithSets(2, 4), weekWithSets(3, 4)])).toBe(2);
+      expect(weeksSinceSetIncrease(next, 'Upper A', [weekWithSets(1, 3), weekWithSets(2, 4)])).toBe(1);
+    });
+  });
+
+  describe('planWeekProgression', () => {
+    it('should add a set and step RIR down in an addition week', () => {
+      const [update] = planWeekProgression(makeInput());
+
+      expect(update.sessionExerciseId).toBe(2);
+      expect(update.recommendedSets).toBe(4);
+      expect(update.recommendedRIR).toBe(2);
+    });
+
+    it('should hold sets between addition weeks but still lower RIR', () => {
+      const [update] = planWeekProgression(makeInput({ setAdditionFrequency: 2 }));
+
+      expect(update.recommendedSets).toBe(3);
+      expect(update.recommendedRIR).toBe(2);
+      expect(update.reason).toContain('every 2 weeks');
+    });
+
+    it('should add a set after three weeks of stable volume', () => {
+      // RIR on target: only the time-based rule can add a set
+      const onTargetLogs = easyLogs.map(log => ({ ...log, rir: 3, feedback_pump: 3 }));
+      const held = (id: number) => ({
+        sessions: [makeSession(id, 'Upper A', true)],
+        sessionExercises: [makeSessionExercise(id, id, 3, 3)],
+      });
+      const input = makeInput({ nextWeekNumber: 4, accumulationWeeks: 5 });
+      input.completedWeek.logs = onTargetLogs;
+
+      expect(planWeekProgression(input)[0].recommendedSets).toBe(3);
+      expect(planWeekProgression({ ...input, earlierWeeks: [held(10), held(11)] })[0].recommendedSets).toBe(4);
+    });
+
+    it('should progress from the planned sets, not a low-readiness day', () => {
+      const input = makeInput();
+      input.completedWeek.sessions[0].readiness = {
+        sleep: 1,
+        stress: 5,
+        energy: 1,
+        soreness: {},
+        score: 20,
+        adjustments: [{ session_exercise_id: 1, original_sets: 3, original_rir: 3, target_sets: 2, target_rir: 4 }],
+        recorded_at: new Date(),
+      };
+      input.completedWeek.sessionExercises = [makeSessionExercise(1, 1, 2, 4)];
+
+      const [update] = planWeekProgression(input);
+      expect(update.currentSets).toBe(3);
+      expect(update.recommendedSets).toBe(4);
+    });
+
+    it('should leave deload weeks untouched', () => {
+      const [update] = planWeekProgression(makeInput({ isDeload: true }));
+
+      expect(update.recommendedSets).toBe(3);
+      expect(update.recommendedRIR).toBe(3);
+    });
+  });
+});
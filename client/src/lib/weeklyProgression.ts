@@ -0,0 +1,168 @@
+import type { Log, MuscleGroup, PhaseType, SessionExercise, WorkoutSession } from './db';
+import { getExerciseSetRecommendation } from './autoregulation';
+import { PHASE_TARGETS, getWeekTargetRIR } from './mesocycleGenerator';
+import { getPlannedTargets } from './readiness';
+import type { LandmarkValues } from './volumeLandmarks';
+
+/**
+ * Week-over-week progression for HypertrophyOS
+ * When a microcycle is completed, the next week's targets are derived from
+ * it: RIR steps down each accumulation week and sets are added every
+ * `set_addition_frequency` weeks when autoregulation says there's room.
+ * A week's sets are the planned ones; a readiness check-in only changes
+ * its own day.
+ */
+
+export interface WeekData {
+  sessions: WorkoutSession[];
+  sessionExercises: SessionExercise[];
+  logs: Log[];
+}
+
+export type WeekPlan = Omit<WeekData, 'logs'>;
+
+export interface WeekProgressionInput {
+  completedWeek: WeekData;
+  nextWeek: WeekPlan;
+  earlierWeeks?: WeekPlan[]; // Weeks before the completed one, oldest first
+  nextWeekNumber: number;
+  accumulationWeeks: number;
+  phaseType: PhaseType;
+  setAdditionFrequency: number;
+  isDeload: boolean;
+  volume?: {
+    muscleByExercise: Map<number, MuscleGroup>;
+    landmarks: Record<MuscleGroup, LandmarkValues>;
+  };
+}
+
+export interface TargetUpdate {
+  sessionExerciseId: number;
+  exerciseId: number;
+  sessionName: string;
+  currentSets: number;
+  recommendedSets: number;
+  currentRIR: number;
+  recommendedRIR: number;
+  reason: string;
+}
+
+/**
+ * Sets may be added going into this week (week 1 is the baseline)
+ */
+export function isSetAdditionWeek(weekNumber: number, setAdditionFrequency: number): boolean {
+  const frequency = Math.max(1, setAdditionFrequency);
+  return weekNumber > 1 && (weekNumber - 1) % frequency === 0;
+}
+
+/**
+ * Planned sets of the session exercise in `week` that a next-week exercise
+ * continues: same session name and exercise first, then the same exercise anywhere
+ */
+function findPreviousSets(next: SessionExercise, nextSessionName: string, week: WeekPlan): number | undefined {
+  const sessionById = new Map(week.sessions.map(s => [s.id!, s]));
+  const candidates = week.sessionExercises.filter(se => se.exercise_id === next.exercise_id);
+  const previous = candidates.find(se => sessionById.get(se.session_id)?.name === nextSessionName) ?? candidates[0];
+
+  return previous && getPlannedTargets(previous, sessionById.get(previous.session_id)?.readiness).sets;
+}
+
+/**
+ * Weeks the exercise has been held at its current set count, counting back
+ * from the last of `weeks` to the most recent week its sets went up
+ */
+export function weeksSinceSetIncrease(next: SessionExercise, nextSessionName: string, weeks: WeekPlan[]): number {
+  const sets = weeks
+    .map(week => findPreviousSets(next, nextSessionName, week))
+    .filter((count): count is number => count !== undefined);
+
+  let held = sets.length > 0 ? 1 : 0;
+  for (let i = sets.length - 1; i > 0 && sets[i] <= sets[i - 1]; i--) held++;
+  return held;
+}
+
+/**
+ * Plan the next week's set and RIR targets from the completed week
+ */
+export function planWeekProgression(input: WeekProgressionInput): TargetUpdate[] {
+  const { completedWeek, nextWeek, nextWeekNumber, isDeload } = input;
+  const sessionById = new Map(nextWeek.sessions.map(s => [s.id!, s]));
+  const canAddSets = isSetAdditionWeek(nextWeekNumber, input.setAdditionFrequency);
+  const weekRIR = getWeekTargetRIR(nextWeekNumber - 1, input.accumulationWeeks, PHASE_TARGETS[input.phaseType].rir);
+  const history = [...(input.earlierWeeks ?? []), completedWeek];
+
+  const planned = nextWeek.sessionExercises.map(next => {
+    const sessionName = sessionById.get(next.session_id)?.name ?? '';
+    return {
+      next,
+      sessionName,
+      currentSets: findPreviousSets(next, sessionName, completedWeek) ?? next.target_sets,
+      weeksHeld: weeksSinceSetIncrease(next, sessionName, history),
+    };
+  });
+
+  // Running weekly set count per muscle so additions stop at MRV
+  const weeklySets = new Map<MuscleGroup, number>();
+  for (const { next, currentSets } of planned) {
+    const muscle = input.volume?.muscleByExercise.get(next.exercise_id);
+    if (muscle) weeklySets.set(muscle, (weeklySets.get(muscle) ?? 0) + currentSets);
+  }
+
+  return planned.map(({ next, sessionName, currentSets, weeksHeld }) => {
+    const muscle = input.volume?.muscleByExercise.get(next.exercise_id);
+
+    const base = {
+      sessionExerciseId: next.id!,
+      exerciseId: next.exercise_id,
+      sessionName,
+      currentSets,
+      currentRIR: next.target_rir,
+    };
+
+    // Deload weeks keep the volume and RIR they were generated with
+    if (isDeload) {
+      return {
+        ...base,
+        currentSets: next.target_sets,
+        recommendedSets: next.target_sets,
+        recommendedRIR: next.target_rir,
+        reason: 'Deload week: targets unchanged.',
+      };
+    }
+
+    const recommendation = getExerciseSetRecommendation(
+      next.exercise_id,
+      currentSets,
+      completedWeek.logs,
+      weeksHeld,
+      muscle && input.volume
+        ? { muscleGroup: muscle, weeklySets: weeklySets.get(muscle) ?? 0, mrv: input.volume.landmarks[muscle].mrv }
+        : undefined
+    );
+
+    if (!recommendation) {
+      return {
+        ...base,
+        recommendedSets: currentSets,
+        recommendedRIR: weekRIR,
+        reason: 'No sets logged last week. Keeping volume.',
+      };
+    }
+
+    // Reductions always apply; additions wait for a set addition week
+    let change = recommendation.change;
+    let reason = recommendation.reason;
+    if (change > 0 && !canAddSets) {
+      change = 0;
+      reason = `${recommendation.reason} Holding volume: sets are added every ${input.setAdditionFrequency} weeks.`;
+    }
+    if (muscle) weeklySets.set(muscle, (weeklySets.get(muscle) ?? 0) + change);
+
+    return {
+      ...base,
+      recommendedSets: Math.max(1, currentSets + change),
+      recommendedRIR: weekRIR,
+      reason,
+    };
+  });
+}
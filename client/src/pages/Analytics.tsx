@@ -1,15 +1,23 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Link } from 'wouter';
-import { ArrowLeft, TrendingUp, Calendar, Dumbbell, Target, Activity, AlertCircle, Scale } from 'lucide-react';
+import { ArrowLeft, TrendingUp, Calendar, Dumbbell, Target, Activity, AlertCircle, Scale, Timer, HeartCrack, TrendingDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { useExercises, useLogs } from '@/hooks/useDatabase';
-import type { Exercise, Log } from '@/lib/db';
+import { useExercises, useLogs, useWeightUnit, useVolumeLandmarks, useWorkoutSessions, usePainReports, useDeloadEvents, useMuscleRecovery } from '@/hooks/useDatabase';
+import type { BodyRegion, Exercise, Log } from '@/lib/db';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
 import { format, subDays, isAfter } from 'date-fns';
-import { calculateFatigueIndex, analyzeMuscleGroupBalance, calculateTrainingDensity } from '@/lib/advancedAnalytics';
+import { calculateFatigueIndex, analyzeMuscleGroupBalance, getSessionTimingTrend } from '@/lib/advancedAnalytics';
+import { formatDuration } from '@/lib/sessionTiming';
+import { getLogWeight, getLogE1RM, getLogVolume } from '@/lib/units';
+import { isHardSet, isWarmupSet } from '@/lib/setTypes';
+import { getMuscleContributions, formatSetCount } from '@/lib/muscleContributions';
+import { getWeeklyHardSets, getMuscleVolumeStatus, VOLUME_ZONE_LABELS, type VolumeZone } from '@/lib/volumeLandmarks';
+import { BODY_REGION_LABELS, getPainCulprits, getPainTrend } from '@/lib/pain';
+import { createSorenessLookup } from '@/lib/recovery';
+import { analyzeDeloadRebounds, getOptimalDeloadFrequency, DEFAULT_DELOAD_FREQUENCY, REBOUND_WINDOW_WEEKS } from '@/lib/deloadRebound';
 
 const MUSCLE_GROUP_COLORS: Record<string, string> = {
   Chest: '#ef4444',
@@ -24,9 +32,26 @@ const MUSCLE_GROUP_COLORS: Record<string, string> = {
   Abs: '#84cc16',
 };
 
+// Line colors for pain regions, assigned in order of first report
+const PAIN_REGION_COLORS = ['#ef4444', '#f59e0b', '#8b5cf6', '#0ea5e9', '#ec4899', '#10b981', '#f97316', '#6366f1'];
+
+const VOLUME_ZONE_STYLES: Record<VolumeZone, string> = {
+  below_mv: 'bg-muted text-muted-foreground border-border',
+  maintenance: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  productive: 'bg-green-500/10 text-green-500 border-green-500/20',
+  high: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  over_mrv: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
 export default function Analytics() {
   const exercises = useExercises() || [];
   const logs = useLogs() || [];
+  const weightUnit = useWeightUnit();
+  const landmarks = useVolumeLandmarks();
+  const sessions = useWorkoutSessions() || [];
+  const painReports = usePainReports() || [];
+  const deloadEvents = useDeloadEvents() || [];
+  const recovery = useMuscleRecovery() || [];
   const [selectedExercise, setSelectedExercise] = useState<number | 'all'>('all');
   const [dateRange, setDateRange] = useState<number>(30); // days
 
@@ -41,17 +66,18 @@ export default function Analytics() {
     if (selectedExercise === 'all') return [];
 
     const exerciseLogs = filteredLogs
-      .filter((log: Log) => log.exercise_id === selectedExercise)
+      .filter((log: Log) => log.exercise_id === selectedExercise && isHardSet(log))
       .sort((a: Log, b: Log) => a.session_date.getTime() - b.session_date.getTime());
 
     // Group by date and get max e1RM per day
     const dateMap = new Map<string, number>();
     exerciseLogs.forEach((log: Log) => {
-      if (log.e1rm) {
+      const e1rm = getLogE1RM(log, weightUnit);
+      if (e1rm) {
         const dateKey = format(log.session_date, 'yyyy-MM-dd');
         const currentMax = dateMap.get(dateKey) || 0;
-        if (log.e1rm > currentMax) {
-          dateMap.set(dateKey, log.e1rm);
+        if (e1rm > currentMax) {
+          dateMap.set(dateKey, e1rm);
         }
       }
     });
@@ -60,21 +86,21 @@ export default function Analytics() {
       date: format(new Date(date), 'MMM d'),
       e1rm: parseFloat(e1rm.toFixed(1)),
     }));
-  }, [filteredLogs, selectedExercise]);
+  }, [filteredLogs, selectedExercise, weightUnit]);
 
   // Calculate volume data (sets × reps × weight)
   const volumeData = useMemo(() => {
     if (selectedExercise === 'all') return [];
 
     const exerciseLogs = filteredLogs
-      .filter((log: Log) => log.exercise_id === selectedExercise)
+      .filter((log: Log) => log.exercise_id === selectedExercise && !isWarmupSet(log))
       .sort((a: Log, b: Log) => a.session_date.getTime() - b.session_date.getTime());
 
     // Group by date and sum volume
     const dateMap = new Map<string, number>();
     exerciseLogs.forEach((log: Log) => {
       const dateKey = format(log.session_date, 'yyyy-MM-dd');
-      const volume = log.weight * log.reps;
+      const volume = getLogVolume(log, weightUnit);
       const currentVolume = dateMap.get(dateKey) || 0;
       dateMap.set(dateKey, currentVolume + volume);
     });
@@ -83,35 +109,90 @@ export default function Analytics() {
       date: format(new Date(date), 'MMM d'),
       volume: parseFloat(volume.toFixed(0)),
     }));
-  }, [filteredLogs, selectedExercise]);
+  }, [filteredLogs, selectedExercise, weightUnit]);
 
-  // Calculate muscle group distribution
+  // Calculate muscle group distribution (warm-ups excluded, hard sets counted separately,
+  // secondary muscles credited fractionally)
   const muscleGroupData = useMemo(() => {
-    const distribution = new Map<string, number>();
+    const distribution = new Map<string, { volume: number; sets: number }>();
 
     filteredLogs.forEach((log: Log) => {
+      if (isWarmupSet(log)) return;
       const exercise = exercises.find((ex: Exercise) => ex.id === log.exercise_id);
       if (exercise) {
-        const volume = log.weight * log.reps;
-        const current = distribution.get(exercise.muscle_group) || 0;
-        distribution.set(exercise.muscle_group, current + volume);
+        const volume = getLogVolume(log, weightUnit);
+        for (const { muscle_group, weight } of getMuscleContributions(exercise)) {
+          const current = distribution.get(muscle_group) || { volume: 0, sets: 0 };
+          distribution.set(muscle_group, {
+            volume: current.volume + volume * weight,
+            sets: current.sets + (isHardSet(log) ? weight : 0),
+          });
+        }
       }
     });
 
     return Array.from(distribution.entries())
-      .map(([name, value]) => ({
+      .map(([name, data]) => ({
         name,
-        value: parseFloat(value.toFixed(0)),
+        value: parseFloat(data.volume.toFixed(0)),
+        sets: data.sets,
       }))
       .sort((a, b) => b.value - a.value);
-  }, [filteredLogs, exercises]);
+  }, [filteredLogs, exercises, weightUnit]);
 
   // Calculate fatigue index
   const fatigueMetrics = useMemo(() => {
     const recentLogs = filteredLogs.slice(-50); // Last ~50 sets
     const weeklyVolumes = [1000, 1200, 1300, 1400]; // Placeholder
-    return calculateFatigueIndex(recentLogs, weeklyVolumes);
-  }, [filteredLogs]);
+    return calculateFatigueIndex(recentLogs, weeklyVolumes, createSorenessLookup(recovery, exercises));
+  }, [filteredLogs, recovery, exercises]);
+
+  // This week's hard sets per muscle against its volume landmarks
+  const volumeStatus = useMemo(() => {
+    return getMuscleVolumeStatus(getWeeklyHardSets(logs, exercises), landmarks)
+      .filter(status => status.sets > 0);
+  }, [logs, exercises, landmarks]);
+
+  // Recorded duration, density and rest of timed sessions in range
+  const sessionTiming = useMemo(() => {
+    const cutoffDate = subDays(new Date(), dateRange);
+    const inRange = sessions.filter(session => session.completed_date && isAfter(session.completed_date, cutoffDate));
+    return getSessionTimingTrend(inRange, filteredLogs).map(point => ({
+      ...point,
+      label: format(point.date, 'MMM d'),
+      durationMinutes: Math.round(point.durationMinutes),
+      density: Math.round(point.density),
+      avgRest: Math.round(point.avgRest),
+    }));
+  }, [sessions, filteredLogs, dateRange]);
+
+  const timingAverages = useMemo(() => {
+    if (sessionTiming.length === 0) return null;
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    return {
+      duration: average(sessionTiming.map(p => p.durationMinutes)),
+      density: average(sessionTiming.map(p => p.density)),
+      rest: average(sessionTiming.map(p => p.avgRest)),
+    };
+  }, [sessionTiming]);
+
+  // Weekly pain by region and the exercises it was linked to, in range
+  const pain = useMemo(() => {
+    const cutoffDate = subDays(new Date(), dateRange);
+    const inRange = painReports.filter(report => isAfter(report.reported_at, cutoffDate));
+    const regions = Array.from(new Set(inRange.map(report => report.region)));
+    const trend = getPainTrend(inRange).map(point => ({
+      label: format(point.weekStart, 'MMM d'),
+      ...point.regions,
+    }));
+    return { regions, trend, culprits: getPainCulprits(inRange, exercises).slice(0, 5) };
+  }, [painReports, exercises, dateRange]);
+
+  // Pre vs post deload comparisons (newest first) and the learned frequency
+  const deloads = useMemo(() => {
+    const rebounds = analyzeDeloadRebounds(deloadEvents, logs);
+    return { rebounds: [...rebounds].reverse(), frequency: getOptimalDeloadFrequency(rebounds) };
+  }, [deloadEvents, logs]);
 
   // Calculate muscle group balance
   const balanceAnalysis = useMemo(() => {
@@ -123,14 +204,16 @@ export default function Analytics() {
     const records = new Map<number, { weight: number; reps: number; e1rm: number; date: Date }>();
 
     logs.forEach((log: Log) => {
-      if (!log.e1rm) return;
+      if (!isHardSet(log)) return;
+      const e1rm = getLogE1RM(log, weightUnit);
+      if (!e1rm) return;
       
       const current = records.get(log.exercise_id);
-      if (!current || log.e1rm > current.e1rm) {
+      if (!current || e1rm > current.e1rm) {
         records.set(log.exercise_id, {
-          weight: log.weight,
+          weight: parseFloat(getLogWeight(log, weightUnit).toFixed(1)),
           reps: log.reps,
-          e1rm: log.e1rm,
+          e1rm,
           date: log.session_date,
         });
       }
@@ -144,7 +227,7 @@ export default function Analytics() {
       .filter(Boolean)
       .sort((a, b) => b!.e1rm - a!.e1rm)
       .slice(0, 5);
-  }, [logs, exercises]);
+  }, [logs, exercises, weightUnit]);
 
   // Set default exercise when exercises load
   useEffect(() => {
@@ -255,7 +338,7 @@ export default function Analytics() {
                       stroke="#0ea5e9"
                       strokeWidth={2}
                       dot={{ fill: '#0ea5e9', r: 4 }}
-                      name="Estimated 1RM (kg)"
+                      name={`Estimated 1RM (${weightUnit})`}
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -279,7 +362,7 @@ export default function Analytics() {
                       labelStyle={{ color: '#fff' }}
                     />
                     <Legend />
-                    <Bar dataKey="volume" fill="#10b981" name="Volume (kg)" />
+                    <Bar dataKey="volume" fill="#10b981" name={`Volume (${weightUnit})`} />
                   </BarChart>
                 </ResponsiveContainer>
               </Card>
@@ -325,7 +408,9 @@ export default function Analytics() {
                           />
                           <span className="font-medium">{item.name}</span>
                         </div>
-                        <span className="text-muted-foreground">{item.value.toLocaleString()} kg</span>
+                        <span className="text-muted-foreground">
+                          {item.value.toLocaleString()} {weightUnit} · {formatSetCount(item.sets)} hard sets
+                        </span>
                       </div>
                     ))}
                   </div>
@@ -388,6 +473,231 @@ export default function Analytics() {
               </div>
             </Card>
 
+            {/* Session Timing */}
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <Timer className="w-5 h-5" />
+                Session Timing
+              </h2>
+              {!timingAverages ? (
+                <p className="text-sm text-muted-foreground">
+                  No timed sessions in this range. Start the session clock and use Start Set during workouts to track duration, density and rest.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Avg Duration</p>
+                      <p className="text-lg font-semibold">{Math.round(timingAverages.duration)} min</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Avg Density</p>
+                      <p className="text-lg font-semibold">{Math.round(timingAverages.density)}%</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Avg Rest Between Sets</p>
+                      <p className="text-lg font-semibold">{formatDuration(timingAverages.rest)}</p>
+                    </div>
+                  </div>
+                  <ResponsiveContainer width="100%" height={250}>
+                    <LineChart data={sessionTiming}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                      <XAxis dataKey="label" stroke="#888" />
+                      <YAxis yAxisId="minutes" stroke="#888" />
+                      <YAxis yAxisId="seconds" orientation="right" stroke="#888" />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1a1a1a', border: '1px solid #333' }}
+                        labelStyle={{ color: '#fff' }}
+                      />
+                      <Legend />
+                      <Line
+                        yAxisId="minutes"
+                        type="monotone"
+                        dataKey="durationMinutes"
+                        stroke="#0ea5e9"
+                        strokeWidth={2}
+                        name="Duration (min)"
+                      />
+                      <Line
+                        yAxisId="minutes"
+                        type="monotone"
+                        dataKey="density"
+                        stroke="#22c55e"
+                        strokeWidth={2}
+                        name="Density (%)"
+                      />
+                      <Line
+                        yAxisId="seconds"
+                        type="monotone"
+                        dataKey="avgRest"
+                        stroke="#f59e0b"
+                        strokeWidth={2}
+                        name="Avg Rest (s)"
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </Card>
+
+            {/* Deload Rebound */}
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <TrendingDown className="w-5 h-5" />
+                Deload Rebound
+              </h2>
+              {deloads.rebounds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No deloads yet. Deload weeks from generated programs, or weeks marked as deloads, are compared with the {REBOUND_WINDOW_WEEKS} weeks either side.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="p-3 bg-muted rounded-lg">
+                    <p className="text-xs text-muted-foreground">Suggested Deload Frequency</p>
+                    <p className="text-lg font-semibold">
+                      Every {deloads.frequency?.weeks ?? DEFAULT_DELOAD_FREQUENCY} weeks
+                      {deloads.frequency && (
+                        <Badge variant="outline" className="ml-2 capitalize">{deloads.frequency.confidence} confidence</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {deloads.frequency?.reason ?? 'Default until two deloads in a row have been measured'}
+                    </p>
+                  </div>
+                  {deloads.rebounds.map(rebound => {
+                    const best = [...rebound.exercises].sort((a, b) => b.change - a.change).slice(0, 3);
+                    const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+                    const formatFeedback = (value?: number) => value !== undefined ? value.toFixed(1) : '–';
+
+                    return (
+                      <div key={rebound.event.id} className="p-3 border rounded-lg space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium">
+                            {format(rebound.event.start_date, 'MMM d')} - {format(rebound.event.end_date, 'MMM d, yyyy')}
+                          </span>
+                          {rebound.avgE1RMChange !== undefined ? (
+                            <Badge variant="outline" className={rebound.avgE1RMChange > 0 ? 'text-green-500 border-green-500/40' : 'text-muted-foreground'}>
+                              e1RM {formatChange(rebound.avgE1RMChange)}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">{rebound.isComplete ? 'Not enough data' : 'Measuring'}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {rebound.weeksSincePreviousDeload !== undefined && `${rebound.weeksSincePreviousDeload} training weeks before · `}
+                          Joint pain {formatFeedback(rebound.pre.avgJointPain)} → {formatFeedback(rebound.post.avgJointPain)} ·
+                          Pump {formatFeedback(rebound.pre.avgPump)} → {formatFeedback(rebound.post.avgPump)}
+                        </p>
+                        {best.map(ex => (
+                          <div key={ex.exerciseId} className="flex items-center justify-between text-xs">
+                            <span>{exercises.find(e => e.id === ex.exerciseId)?.name ?? 'Unknown'}</span>
+                            <span className="text-muted-foreground">{formatChange(ex.change)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </Card>
+
+            {/* Pain by Region */}
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <HeartCrack className="w-5 h-5" />
+                Pain by Region
+              </h2>
+              {pain.regions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No pain reported in this range. Regions are recorded from exercise feedback when joint pain is 2 or more.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <ResponsiveContainer width="100%" height={250}>
+                    <LineChart data={pain.trend}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                      <XAxis dataKey="label" stroke="#888" />
+                      <YAxis domain={[0, 5]} stroke="#888" />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1a1a1a', border: '1px solid #333' }}
+                        labelStyle={{ color: '#fff' }}
+                        formatter={(value: number) => value.toFixed(1)}
+                      />
+                      <Legend />
+                      {pain.regions.map((region: BodyRegion, index) => (
+                        <Line
+                          key={region}
+                          type="monotone"
+                          dataKey={region}
+                          stroke={PAIN_REGION_COLORS[index % PAIN_REGION_COLORS.length]}
+                          strokeWidth={2}
+                          name={BODY_REGION_LABELS[region]}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Linked Exercises</p>
+                    {pain.culprits.map(culprit => (
+                      <div key={culprit.exercise.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p>{culprit.exercise.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {culprit.regions.map(region => BODY_REGION_LABELS[region]).join(', ')}
+                          </p>
+                        </div>
+                        <span className="text-muted-foreground">
+                          {culprit.reports} report{culprit.reports === 1 ? '' : 's'} · avg {culprit.avgSeverity.toFixed(1)}/5
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </Card>
+
+            {/* Weekly Volume Landmarks */}
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <Target className="w-5 h-5" />
+                Weekly Volume vs Landmarks
+              </h2>
+              {volumeStatus.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No hard sets logged this week yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {volumeStatus.map(({ muscleGroup, sets, landmarks: lm, zone }) => {
+                    const scale = Math.max(lm.mrv, sets) * 1.15;
+                    const pct = (value: number) => `${(value / scale) * 100}%`;
+
+                    return (
+                      <div key={muscleGroup} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span>{muscleGroup}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-muted-foreground">{formatSetCount(sets)} hard sets</span>
+                            <Badge variant="outline" className={VOLUME_ZONE_STYLES[zone]}>
+                              {VOLUME_ZONE_LABELS[zone]}
+                            </Badge>
+                          </div>
+                        </div>
+                        <div className="relative h-3 bg-muted rounded-full overflow-hidden">
+                          <div className="absolute inset-y-0 bg-yellow-500/30" style={{ left: pct(lm.mv), width: pct(lm.mev - lm.mv) }} />
+                          <div className="absolute inset-y-0 bg-green-500/30" style={{ left: pct(lm.mev), width: pct(lm.mav - lm.mev) }} />
+                          <div className="absolute inset-y-0 bg-orange-500/30" style={{ left: pct(lm.mav), width: pct(lm.mrv - lm.mav) }} />
+                          <div className="absolute inset-y-0 w-1 bg-foreground rounded-full" style={{ left: pct(Math.min(sets, scale)) }} />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          MV {lm.mv} · MEV {lm.mev} · MAV {lm.mav} · MRV {lm.mrv}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </Card>
+
             {/* Muscle Group Balance */}
             <Card className="p-6">
               <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
@@ -415,7 +725,7 @@ export default function Analytics() {
                         <div className="flex items-center justify-between text-sm">
                           <span>{mg.muscleGroup}</span>
                           <span className="text-muted-foreground">
-                            {mg.totalSets} sets ({mg.percentage.toFixed(1)}%)
+                            {formatSetCount(mg.totalSets)} sets ({mg.percentage.toFixed(1)}%)
                           </span>
                         </div>
                         <div className="h-2 bg-muted rounded-full overflow-hidden">
@@ -471,12 +781,12 @@ export default function Analytics() {
                         <div>
                           <p className="font-semibold">{record!.exercise.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            {record!.weight}kg × {record!.reps} reps
+                            {record!.weight}{weightUnit} × {record!.reps} reps
                           </p>
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-2xl font-bold text-primary">{record!.e1rm.toFixed(1)} kg</p>
+                        <p className="text-2xl font-bold text-primary">{record!.e1rm.toFixed(1)} {weightUnit}</p>
                         <p className="text-xs text-muted-foreground">
                           {format(record!.date, 'MMM d, yyyy')}
                         </p>
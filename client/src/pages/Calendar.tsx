@@ -0,0 +1,310 @@
+import { useMemo, useState, type HTMLAttributes } from 'react';
+import { Link } from 'wouter';
+import { ArrowLeft, ChevronLeft, ChevronRight, CalendarX, MoveRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  useMesocycles,
+  useMicrocycles,
+  useWorkoutSessions,
+  workoutSessionOperations,
+} from '@/hooks/useDatabase';
+import type { Mesocycle, Microcycle, PhaseType, WorkoutSession } from '@/lib/db';
+import {
+  SESSION_STATUS_LABELS,
+  getSessionStatus,
+  getSessionsOnDay,
+  type SessionStatus,
+} from '@/lib/schedule';
+import { addMonths, addWeeks, format, isSameDay, isSameWeek, startOfMonth, startOfWeek } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type CalendarMode = 'month' | 'week';
+
+// Stand-ins while loading, the same arrays every render so memos keep
+const NO_SESSIONS: WorkoutSession[] = [];
+const NO_MICROCYCLES: Microcycle[] = [];
+const NO_MESOCYCLES: Mesocycle[] = [];
+
+const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const STATUS_STYLES: Record<SessionStatus, string> = {
+  completed: 'bg-green-500/15 text-green-500',
+  in_progress: 'bg-blue-500/15 text-blue-500',
+  missed: 'bg-red-500/15 text-red-500',
+  scheduled: 'bg-card text-foreground',
+};
+
+// Left border of each session, by the phase of its mesocycle
+const PHASE_BORDERS: Record<PhaseType, string> = {
+  Hypertrophy: 'border-l-primary',
+  Metabolite: 'border-l-purple-500',
+  Resensitization: 'border-l-amber-500',
+  Deload: 'border-l-muted-foreground',
+};
+
+export default function TrainingCalendar() {
+  const sessions = useWorkoutSessions() ?? NO_SESSIONS;
+  const microcycles = useMicrocycles() ?? NO_MICROCYCLES;
+  const mesocycles = useMesocycles() ?? NO_MESOCYCLES;
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [focusDate, setFocusDate] = useState(() => new Date());
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+
+  // Deload weeks show as deload whatever the mesocycle's phase
+  const getPhase = (session: WorkoutSession): PhaseType | undefined => {
+    const microcycle = microcycles.find(m => m.id === session.microcycle_id);
+    if (microcycle?.is_deload) return 'Deload';
+    return mesocycles.find(m => m.id === microcycle?.mesocycle_id)?.phase_type;
+  };
+
+  const missedSessions = useMemo(
+    () => sessions
+      .filter(session => getSessionStatus(session) === 'missed')
+      .sort((a, b) => a.scheduled_date.getTime() - b.scheduled_date.getTime()),
+    [sessions]
+  );
+
+  // Each day's sessions, grouped once rather than filtered per day cell
+  const sessionsByDay = useMemo(() => {
+    const byDay = new Map<string, WorkoutSession[]>();
+    for (const session of sessions) {
+      const key = dayKey(session.scheduled_date);
+      if (!byDay.has(key)) byDay.set(key, getSessionsOnDay(sessions, session.scheduled_date));
+    }
+    return byDay;
+  }, [sessions]);
+
+  const handleNavigate = (direction: -1 | 1) => {
+    setFocusDate(prev => mode === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const handleDrop = async (day: Date) => {
+    const session = sessions.find(s => s.id === draggingId);
+    setDraggingId(null);
+    if (!session || isSameDay(session.scheduled_date, day)) return;
+
+    try {
+      await workoutSessionOperations.reschedule(session.id!, day);
+      toast.success(`${session.name} moved to ${format(day, 'EEE, MMM d')}`);
+    } catch (error) {
+      toast.error('Failed to reschedule session');
+      console.error(error);
+    }
+  };
+
+  const handleShiftWeek = async (session: WorkoutSession) => {
+    try {
+      const shift = await workoutSessionOperations.shiftRemainingWeek(session.id!);
+      if (!shift || shift.changes.length === 0) return;
+      toast.success(
+        `Shifted ${shift.changes.length} session${shift.changes.length === 1 ? '' : 's'} by ${shift.days} day${shift.days === 1 ? '' : 's'}`,
+        { description: shift.end_date ? `Week now ends ${format(shift.end_date, 'MMM d')}` : undefined }
+      );
+    } catch (error) {
+      toast.error('Failed to shift week');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-6xl py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/">
+            <Button variant="ghost" className="mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </Link>
+
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Calendar</h1>
+              <p className="text-muted-foreground mt-1">
+                Drag a session to another day to reschedule it
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-md border">
+                {(['month', 'week'] as const).map(value => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={mode === value ? 'default' : 'ghost'}
+                    onClick={() => setMode(value)}
+                    className="capitalize"
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+              <Button size="icon" variant="outline" onClick={() => handleNavigate(-1)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setFocusDate(new Date())}>
+                Today
+              </Button>
+              <Button size="icon" variant="outline" onClick={() => handleNavigate(1)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Missed Sessions */}
+        {missedSessions.length > 0 && (
+          <Card className="p-4 mb-6 border-red-500/20 bg-red-500/5">
+            <h2 className="font-semibold mb-3 flex items-center gap-2">
+              <CalendarX className="w-4 h-4 text-red-500" />
+              Missed Sessions
+            </h2>
+            <div className="space-y-2">
+              {missedSessions.map(session => (
+                <div key={session.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span>
+                    {session.name}
+                    <span className="text-muted-foreground"> · {format(session.scheduled_date, 'EEE, MMM d')}</span>
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => handleShiftWeek(session)}>
+                    <MoveRight className="w-4 h-4 mr-2" />
+                    Shift Remaining Week
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-4">
+          <p className="font-semibold mb-2">
+            {mode === 'month'
+              ? format(focusDate, 'MMMM yyyy')
+              : `Week of ${format(startOfWeek(focusDate, { weekStartsOn: 1 }), 'MMM d, yyyy')}`}
+          </p>
+          <Calendar
+            month={startOfMonth(focusDate)}
+            onMonthChange={setFocusDate}
+            hideNavigation
+            weekStartsOn={1}
+            className="w-full p-0"
+            classNames={{
+              root: 'w-full',
+              month_caption: 'hidden',
+              day: 'relative w-full min-h-24 p-1 align-top border border-border/40 text-left',
+            }}
+            components={{
+              Week: ({ week, ...props }) => {
+                if (mode === 'week' && !week.days.some(day => isSameWeek(day.date, focusDate, { weekStartsOn: 1 }))) {
+                  return <></>;
+                }
+                return <tr {...props} />;
+              },
+              Day: ({ day, modifiers, children, ...props }) => (
+                <CalendarDay
+                  {...props}
+                  date={day.date}
+                  isToday={!!modifiers.today}
+                  isOutside={!!modifiers.outside}
+                  tall={mode === 'week'}
+                  sessions={sessionsByDay.get(dayKey(day.date)) ?? NO_SESSIONS}
+                  getPhase={getPhase}
+                  onSessionDragStart={setDraggingId}
+                  onSessionDrop={handleDrop}
+                />
+              ),
+            }}
+          />
+        </Card>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-2 mt-4">
+          {(Object.keys(SESSION_STATUS_LABELS) as SessionStatus[]).map(status => (
+            <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+              {SESSION_STATUS_LABELS[status]}
+            </Badge>
+          ))}
+          {(Object.keys(PHASE_BORDERS) as PhaseType[]).map(phase => (
+            <Badge key={phase} variant="outline" className={`border-l-4 ${PHASE_BORDERS[phase]}`}>
+              {phase}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CalendarDay({
+  date,
+  isToday,
+  isOutside,
+  tall,
+  sessions,
+  getPhase,
+  onSessionDragStart,
+  onSessionDrop,
+  className,
+  ...props
+}: HTMLAttributes<HTMLTableCellElement> & {
+  date: Date;
+  isToday: boolean;
+  isOutside: boolean;
+  tall: boolean;
+  sessions: WorkoutSession[];
+  getPhase: (session: WorkoutSession) => PhaseType | undefined;
+  onSessionDragStart: (sessionId: number) => void;
+  onSessionDrop: (day: Date) => void;
+}) {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <td
+      {...props}
+      className={cn(className, tall && 'min-h-64', isOver && 'bg-primary/10', isOutside && 'opacity-50')}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        onSessionDrop(date);
+      }}
+    >
+      <span className={`text-xs ${isToday ? 'inline-flex items-center justify-center w-5 h-5 rounded-full bg-primary text-primary-foreground' : 'text-muted-foreground'}`}>
+        {format(date, 'd')}
+      </span>
+      <div className="mt-1 space-y-1">
+        {sessions.map(session => {
+          const status = getSessionStatus(session);
+          const phase = getPhase(session);
+          // History stays where it happened
+          const canMove = status === 'scheduled' || status === 'missed';
+
+          return (
+            <Link key={session.id} href={`/workout/${session.id}`}>
+              <div
+                draggable={canMove}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  onSessionDragStart(session.id!);
+                }}
+                className={`px-1.5 py-0.5 rounded text-xs truncate border border-l-4 cursor-pointer ${STATUS_STYLES[status]} ${phase ? PHASE_BORDERS[phase] : ''} ${canMove ? 'active:cursor-grabbing' : ''}`}
+                title={`${session.name} · ${SESSION_STATUS_LABELS[status]}${phase ? ` · ${phase}` : ''}`}
+              >
+                {session.name}
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </td>
+  );
+}
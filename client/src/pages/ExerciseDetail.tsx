@@ -0,0 +1,150 @@
+import { useMemo } from 'react';
+import { useRoute, Link } from 'wouter';
+import { ArrowLeft, Trophy, Target, Dumbbell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useExercise,
+  useExerciseLogs,
+  useExercisePersonalRecords,
+  useWeightUnit,
+} from '@/hooks/useDatabase';
+import {
+  getRepMaxTable,
+  getRecordSummary,
+  describeRecord,
+  formatRecordValue,
+} from '@/lib/personalRecords';
+import { format } from 'date-fns';
+
+export default function ExerciseDetail() {
+  const [, params] = useRoute('/exercises/:id');
+  const exerciseId = params?.id ? parseInt(params.id) : undefined;
+
+  const exercise = useExercise(exerciseId);
+  const logs = useExerciseLogs(exerciseId);
+  const records = useExercisePersonalRecords(exerciseId);
+  const weightUnit = useWeightUnit();
+
+  const repMaxTable = useMemo(() => getRepMaxTable(logs || [], weightUnit), [logs, weightUnit]);
+  const summary = useMemo(() => getRecordSummary(logs || []), [logs]);
+  const timeline = useMemo(() => [...(records || [])].reverse(), [records]);
+
+  if (!exercise) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { label: 'Best e1RM', value: summary.e1rm, type: 'e1rm' as const },
+    { label: 'Best Set Volume', value: summary.setVolume, type: 'set_volume' as const },
+    { label: 'Best Session Volume', value: summary.sessionVolume, type: 'session_volume' as const },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-4xl py-8">
+        <Link href="/exercises">
+          <Button variant="ghost" className="mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Exercises
+          </Button>
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground">{exercise.name}</h1>
+          <div className="flex items-center gap-2 mt-2">
+            <Badge variant="outline">{exercise.muscle_group}</Badge>
+            <span className="text-sm text-muted-foreground">{logs?.length ?? 0} sets logged</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          {summaryCards.map(card => (
+            <Card key={card.label} className="p-4">
+              <p className="text-xs text-muted-foreground mb-1">{card.label}</p>
+              <p className="text-xl font-bold">
+                {card.value !== undefined ? formatRecordValue({ type: card.type }, card.value, weightUnit) : '—'}
+              </p>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* Rep-max Table */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <Target className="w-5 h-5" />
+              Rep Maxes
+            </h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reps</TableHead>
+                  <TableHead>Best ({weightUnit})</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {repMaxTable.map(entry => (
+                  <TableRow key={entry.reps}>
+                    <TableCell className="font-medium">{entry.reps}RM</TableCell>
+                    <TableCell>{entry.weight !== undefined ? Math.round(entry.weight * 10) / 10 : '—'}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {entry.date ? format(entry.date, 'MMM d, yyyy') : ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+
+          {/* PR Timeline */}
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <Trophy className="w-5 h-5" />
+              PR Timeline
+            </h2>
+            {timeline.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Dumbbell className="w-10 h-10 mx-auto mb-2" />
+                <p className="text-sm">No PRs yet. Beat a previous best to start the timeline.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {timeline.map(record => (
+                  <div key={record.id} className="flex items-start justify-between p-3 bg-muted/50 rounded-lg">
+                    <div>
+                      <p className="font-medium">{describeRecord(record)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(record.achieved_at, 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold">{formatRecordValue(record, record.value, weightUnit)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        was {formatRecordValue(record, record.previous_value, weightUnit)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
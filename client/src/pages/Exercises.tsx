@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Plus, Search, Trash2, Edit2 } from 'lucide-react';
+import { Link } from 'wouter';
+import { Plus, Search, Trash2, Edit2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -21,8 +22,19 @@ import {
 } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { useExercises, exerciseOperations } from '@/hooks/useDatabase';
-import type { MuscleGroup } from '@/lib/db';
+import type { Equipment, Exercise, Laterality, MovementPattern, MuscleContribution, MuscleGroup } from '@/lib/db';
+import { SECONDARY_WEIGHT_OPTIONS } from '@/lib/muscleContributions';
+import {
+  EQUIPMENT_LABELS,
+  EQUIPMENT_OPTIONS,
+  LATERALITY_LABELS,
+  LATERALITY_OPTIONS,
+  MOVEMENT_PATTERN_LABELS,
+  MOVEMENT_PATTERN_OPTIONS,
+  matchesTaxonomyFilters,
+} from '@/lib/exerciseTaxonomy';
 import { toast } from 'sonner';
 import { VideoPlayer } from '@/components/VideoPlayer';
 
@@ -45,10 +57,22 @@ const muscleGroupColors: Record<MuscleGroup, string> = {
   'Forearms': 'bg-gray-500/10 text-gray-500 border-gray-500/20',
 };
 
+type TaxonomyForm = Pick<Exercise, 'equipment' | 'movement_pattern' | 'laterality' | 'is_bodyweight'>;
+
+const emptyTaxonomy: TaxonomyForm = {
+  equipment: undefined,
+  movement_pattern: undefined,
+  laterality: 'bilateral',
+  is_bodyweight: false,
+};
+
 export default function Exercises() {
   const exercises = useExercises();
   const [searchQuery, setSearchQuery] = useState('');
   const [filterMuscleGroup, setFilterMuscleGroup] = useState<MuscleGroup | 'all'>('all');
+  const [filterEquipment, setFilterEquipment] = useState<Equipment | 'all'>('all');
+  const [filterPattern, setFilterPattern] = useState<MovementPattern | 'all'>('all');
+  const [filterLaterality, setFilterLaterality] = useState<Laterality | 'all'>('all');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingExercise, setEditingExercise] = useState<number | null>(null);
   
@@ -57,11 +81,18 @@ export default function Exercises() {
   const [formMuscleGroup, setFormMuscleGroup] = useState<MuscleGroup>('Chest');
   const [formNotes, setFormNotes] = useState('');
   const [formVideoUrl, setFormVideoUrl] = useState('');
+  const [formSecondary, setFormSecondary] = useState<MuscleContribution[]>([]);
+  const [formTaxonomy, setFormTaxonomy] = useState<TaxonomyForm>(emptyTaxonomy);
 
   const filteredExercises = exercises?.filter(ex => {
     const matchesSearch = ex.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesMuscleGroup = filterMuscleGroup === 'all' || ex.muscle_group === filterMuscleGroup;
-    return matchesSearch && matchesMuscleGroup;
+    const matchesTaxonomy = matchesTaxonomyFilters(ex, {
+      equipment: filterEquipment === 'all' ? undefined : filterEquipment,
+      movementPattern: filterPattern === 'all' ? undefined : filterPattern,
+      laterality: filterLaterality === 'all' ? undefined : filterLaterality,
+    });
+    return matchesSearch && matchesMuscleGroup && matchesTaxonomy;
   }) || [];
 
   const handleAdd = async () => {
@@ -74,6 +105,8 @@ export default function Exercises() {
       await exerciseOperations.create({
         name: formName.trim(),
         muscle_group: formMuscleGroup,
+        secondary_muscles: formSecondary.filter(m => m.muscle_group !== formMuscleGroup),
+        ...formTaxonomy,
         is_custom: true,
         video_url: formVideoUrl.trim() || undefined,
         notes: formNotes.trim() || undefined,
@@ -99,6 +132,8 @@ export default function Exercises() {
       await exerciseOperations.update(editingExercise, {
         name: formName.trim(),
         muscle_group: formMuscleGroup,
+        secondary_muscles: formSecondary.filter(m => m.muscle_group !== formMuscleGroup),
+        ...formTaxonomy,
         video_url: formVideoUrl.trim() || undefined,
         notes: formNotes.trim() || undefined,
       });
@@ -130,6 +165,13 @@ export default function Exercises() {
 
     setFormName(exercise.name);
     setFormMuscleGroup(exercise.muscle_group);
+    setFormSecondary(exercise.secondary_muscles || []);
+    setFormTaxonomy({
+      equipment: exercise.equipment,
+      movement_pattern: exercise.movement_pattern,
+      laterality: exercise.laterality ?? 'bilateral',
+      is_bodyweight: exercise.is_bodyweight ?? false,
+    });
     setFormVideoUrl(exercise.video_url || '');
     setFormNotes(exercise.notes || '');
     setEditingExercise(id);
@@ -138,6 +180,8 @@ export default function Exercises() {
   const resetForm = () => {
     setFormName('');
     setFormMuscleGroup('Chest');
+    setFormSecondary([]);
+    setFormTaxonomy(emptyTaxonomy);
     setFormVideoUrl('');
     setFormNotes('');
   };
@@ -197,6 +241,14 @@ export default function Exercises() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <SecondaryMusclesField
+                  primary={formMuscleGroup}
+                  value={formSecondary}
+                  onChange={setFormSecondary}
+                />
+
+                <TaxonomyFields idPrefix="add" value={formTaxonomy} onChange={setFormTaxonomy} />
                 
                 <div className="space-y-2">
                   <Label htmlFor="video_url">Video URL (Optional)</Label>
@@ -234,7 +286,7 @@ export default function Exercises() {
         </div>
 
         {/* Filters */}
-        <div className="flex gap-4 mb-6">
+        <div className="flex gap-4 mb-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
@@ -258,6 +310,44 @@ export default function Exercises() {
           </Select>
         </div>
 
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <Select value={filterEquipment} onValueChange={(v) => setFilterEquipment(v as Equipment | 'all')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Equipment</SelectItem>
+              {EQUIPMENT_OPTIONS.map(equipment => (
+                <SelectItem key={equipment} value={equipment}>{EQUIPMENT_LABELS[equipment]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filterPattern} onValueChange={(v) => setFilterPattern(v as MovementPattern | 'all')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Movement Patterns</SelectItem>
+              {MOVEMENT_PATTERN_OPTIONS.map(pattern => (
+                <SelectItem key={pattern} value={pattern}>{MOVEMENT_PATTERN_LABELS[pattern]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filterLaterality} onValueChange={(v) => setFilterLaterality(v as Laterality | 'all')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Bilateral & Unilateral</SelectItem>
+              {LATERALITY_OPTIONS.map(laterality => (
+                <SelectItem key={laterality} value={laterality}>{LATERALITY_LABELS[laterality]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Exercise List */}
         <div className="space-y-2">
           {filteredExercises.length === 0 ? (
@@ -272,7 +362,9 @@ export default function Exercises() {
               >
                 <div className="flex-1">
                   <div className="flex items-center gap-3">
-                    <h3 className="font-medium text-foreground">{exercise.name}</h3>
+                    <Link href={`/exercises/${exercise.id}`}>
+                      <h3 className="font-medium text-foreground hover:text-primary cursor-pointer">{exercise.name}</h3>
+                    </Link>
                     <Badge variant="outline" className={muscleGroupColors[exercise.muscle_group]}>
                       {exercise.muscle_group}
                     </Badge>
@@ -282,6 +374,27 @@ export default function Exercises() {
                       </Badge>
                     )}
                   </div>
+                  {(exercise.equipment || exercise.movement_pattern) && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      {exercise.equipment && (
+                        <Badge variant="secondary">{EQUIPMENT_LABELS[exercise.equipment]}</Badge>
+                      )}
+                      {exercise.movement_pattern && (
+                        <Badge variant="secondary">{MOVEMENT_PATTERN_LABELS[exercise.movement_pattern]}</Badge>
+                      )}
+                      {exercise.laterality === 'unilateral' && (
+                        <Badge variant="secondary">{LATERALITY_LABELS.unilateral}</Badge>
+                      )}
+                      {exercise.is_bodyweight && exercise.equipment !== 'bodyweight' && (
+                        <Badge variant="secondary">Bodyweight-loaded</Badge>
+                      )}
+                    </div>
+                  )}
+                  {exercise.secondary_muscles && exercise.secondary_muscles.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Also trains: {exercise.secondary_muscles.map(m => `${m.muscle_group} ×${m.weight}`).join(', ')}
+                    </p>
+                  )}
                   {exercise.notes && (
                     <p className="text-sm text-muted-foreground mt-1">{exercise.notes}</p>
                   )}
@@ -349,6 +462,14 @@ export default function Exercises() {
                 </SelectContent>
               </Select>
             </div>
+
+            <SecondaryMusclesField
+              primary={formMuscleGroup}
+              value={formSecondary}
+              onChange={setFormSecondary}
+            />
+
+            <TaxonomyFields idPrefix="edit" value={formTaxonomy} onChange={setFormTaxonomy} />
             
             <div className="space-y-2">
               <Label htmlFor="edit-notes">Notes (Optional)</Label>
@@ -373,3 +494,142 @@ export default function Exercises() {
     </div>
   );
 }
+
+function SecondaryMusclesField({
+  primary,
+  value,
+  onChange,
+}: {
+  primary: MuscleGroup;
+  value: MuscleContribution[];
+  onChange: (value: MuscleContribution[]) => void;
+}) {
+  const available = muscleGroups.filter(
+    mg => mg !== primary && !value.some(m => m.muscle_group === mg)
+  );
+
+  const updateWeight = (muscle: MuscleGroup, weight: number) => {
+    onChange(value.map(m => (m.muscle_group === muscle ? { ...m, weight } : m)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Secondary Muscles (Optional)</Label>
+      {value.filter(m => m.muscle_group !== primary).map(m => (
+        <div key={m.muscle_group} className="flex items-center gap-2">
+          <span className="flex-1 text-sm">{m.muscle_group}</span>
+          <Select value={m.weight.toString()} onValueChange={(v) => updateWeight(m.muscle_group, parseFloat(v))}>
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SECONDARY_WEIGHT_OPTIONS.map(weight => (
+                <SelectItem key={weight} value={weight.toString()}>×{weight} set</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter(other => other.muscle_group !== m.muscle_group))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {available.length > 0 && (
+        <Select value="" onValueChange={(v) => onChange([...value, { muscle_group: v as MuscleGroup, weight: 0.5 }])}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add secondary muscle" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map(mg => (
+              <SelectItem key={mg} value={mg}>{mg}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Each set counts fully for the primary muscle and fractionally for these
+      </p>
+    </div>
+  );
+}
+
+function TaxonomyFields({
+  idPrefix,
+  value,
+  onChange,
+}: {
+  idPrefix: string;
+  value: TaxonomyForm;
+  onChange: (value: TaxonomyForm) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-equipment`}>Equipment</Label>
+        <Select
+          value={value.equipment ?? ''}
+          onValueChange={(v) => onChange({
+            ...value,
+            equipment: v as Equipment,
+            is_bodyweight: v === 'bodyweight' ? true : value.is_bodyweight,
+          })}
+        >
+          <SelectTrigger id={`${idPrefix}-equipment`}>
+            <SelectValue placeholder="Select equipment" />
+          </SelectTrigger>
+          <SelectContent>
+            {EQUIPMENT_OPTIONS.map(equipment => (
+              <SelectItem key={equipment} value={equipment}>{EQUIPMENT_LABELS[equipment]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-pattern`}>Movement Pattern</Label>
+        <Select
+          value={value.movement_pattern ?? ''}
+          onValueChange={(v) => onChange({ ...value, movement_pattern: v as MovementPattern })}
+        >
+          <SelectTrigger id={`${idPrefix}-pattern`}>
+            <SelectValue placeholder="Select pattern" />
+          </SelectTrigger>
+          <SelectContent>
+            {MOVEMENT_PATTERN_OPTIONS.map(pattern => (
+              <SelectItem key={pattern} value={pattern}>{MOVEMENT_PATTERN_LABELS[pattern]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-laterality`}>Laterality</Label>
+        <Select
+          value={value.laterality ?? 'bilateral'}
+          onValueChange={(v) => onChange({ ...value, laterality: v as Laterality })}
+        >
+          <SelectTrigger id={`${idPrefix}-laterality`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LATERALITY_OPTIONS.map(laterality => (
+              <SelectItem key={laterality} value={laterality}>{LATERALITY_LABELS[laterality]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-end justify-between gap-2 pb-2">
+        <Label htmlFor={`${idPrefix}-bodyweight`}>Bodyweight-loaded</Label>
+        <Switch
+          id={`${idPrefix}-bodyweight`}
+          checked={value.is_bodyweight ?? false}
+          onCheckedChange={(checked) => onChange({ ...value, is_bodyweight: checked })}
+        />
+      </div>
+    </div>
+  );
+}
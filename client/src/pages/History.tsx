@@ -12,17 +12,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useWorkoutSessions, useLogs, useExercises, workoutTemplateOperations } from '@/hooks/useDatabase';
+import { useWorkoutSessions, useLogs, useExercises, useWeightUnit, workoutTemplateOperations } from '@/hooks/useDatabase';
 import { db } from '@/lib/db';
 import type { WorkoutSession, Log, Exercise } from '@/lib/db';
 import { format, isAfter, subDays, subMonths } from 'date-fns';
 import { toast } from 'sonner';
 import { SessionComparison } from '@/components/SessionComparison';
+import { getLogVolume } from '@/lib/units';
+import { getPlannedTargets } from '@/lib/readiness';
 
 export default function History() {
   const allSessions = useWorkoutSessions();
   const allLogs = useLogs() || [];
   const exercises = useExercises() || [];
+  const weightUnit = useWeightUnit();
   
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -101,7 +104,7 @@ export default function History() {
     const sessionLogs = allLogs.filter(log => log.session_id === session.id);
     
     const totalSets = sessionLogs.length;
-    const totalVolume = sessionLogs.reduce((sum, log) => sum + (log.weight * log.reps), 0);
+    const totalVolume = sessionLogs.reduce((sum, log) => sum + getLogVolume(log, weightUnit), 0);
     const uniqueExercises = new Set(sessionLogs.map(log => log.exercise_id)).size;
     
     const duration = session.completed_date && session.scheduled_date
@@ -160,15 +163,19 @@ export default function History() {
         return;
       }
 
-      // Create template from session
-      const templateExercises = sessionExercises.map(se => ({
-        exercise_id: se.exercise_id,
-        order_index: se.order_index,
-        target_sets: se.target_sets,
-        target_reps_min: se.target_reps_min,
-        target_reps_max: se.target_reps_max,
-        target_rir: se.target_rir,
-      }));
+      // Create template from session, with the targets planned before any check-in
+      const templateExercises = sessionExercises.map(se => {
+        const planned = getPlannedTargets(se, session.readiness);
+        return {
+          exercise_id: se.exercise_id,
+          order_index: se.order_index,
+          target_sets: planned.sets,
+          target_reps_min: se.target_reps_min,
+          target_reps_max: se.target_reps_max,
+          target_rir: planned.rir,
+          superset_group: se.superset_group,
+        };
+      });
 
       await workoutTemplateOperations.create({
         name: `${session.name} Template`,
@@ -371,7 +378,7 @@ export default function History() {
                         <TrendingUp className="w-4 h-4" />
                         <span className="text-xs">Volume</span>
                       </div>
-                      <p className="text-2xl font-bold">{stats.totalVolume} <span className="text-sm font-normal">kg</span></p>
+                      <p className="text-2xl font-bold">{stats.totalVolume} <span className="text-sm font-normal">{weightUnit}</span></p>
                     </div>
 
                     <div>
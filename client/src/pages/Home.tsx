@@ -1,33 +1,52 @@
 import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
-import { Dumbbell, Calendar, BookOpen, BarChart3, Settings, History as HistoryIcon, FileText } from 'lucide-react';
+import { Dumbbell, Calendar, PlayCircle, BookOpen, BarChart3, Settings, History as HistoryIcon, FileText, CalendarDays } from 'lucide-react';
 import { APP_TITLE } from '@/const';
-import { useActiveMesocycle, useUpcomingWorkouts, useLogs, useExercises } from '@/hooks/useDatabase';
+import { useActiveMesocycle, useLatestActiveSession, useUpcomingWorkouts, useLogs, useExercises, useVolumeLandmarks, usePainReports, useDeloadEvents, useMuscleRecovery } from '@/hooks/useDatabase';
 import { DeloadBanner } from '@/components/DeloadBanner';
 import { checkDeloadNeed } from '@/lib/deload';
+import { analyzeDeloadRebounds, getOptimalDeloadFrequency, getWeeksSinceLastDeload } from '@/lib/deloadRebound';
+import { getWeeklyHardSets, getMuscleVolumeStatus } from '@/lib/volumeLandmarks';
 import { InjuryPreventionAlert } from '@/components/InjuryPreventionAlert';
 import { getAllInjuryRisks, suggestLowerStressAlternatives } from '@/lib/injuryPrevention';
+import { getPainfulJoints } from '@/lib/pain';
+import { createSorenessLookup } from '@/lib/recovery';
 import { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 
 export default function Home() {
   const activeMesocycle = useActiveMesocycle();
   const upcomingWorkouts = useUpcomingWorkouts();
+  const inProgress = useLatestActiveSession();
   const allLogs = useLogs() || [];
   const exercises = useExercises();
+  const landmarks = useVolumeLandmarks();
+  const painReports = usePainReports() || [];
+  const deloadEvents = useDeloadEvents() || [];
+  const recovery = useMuscleRecovery() || [];
   const [deloadDismissed, setDeloadDismissed] = useState(false);
 
-  // Check for deload need
+  // Check for deload need (fatigue plus any muscle trained past its MRV this week,
+  // and time since the last deload against the learned frequency)
   const deloadRecommendation = useMemo(() => {
     if (deloadDismissed) return null;
-    return checkDeloadNeed(allLogs);
-  }, [allLogs, deloadDismissed]);
+    const volumeStatus = getMuscleVolumeStatus(getWeeklyHardSets(allLogs, exercises || []), landmarks);
+    const weeksSinceLastDeload = getWeeksSinceLastDeload(deloadEvents, allLogs);
+    const frequency = getOptimalDeloadFrequency(analyzeDeloadRebounds(deloadEvents, allLogs));
+    return checkDeloadNeed(
+      allLogs,
+      volumeStatus,
+      weeksSinceLastDeload !== undefined ? { weeksSinceLastDeload, deloadFrequency: frequency?.weeks } : undefined,
+      createSorenessLookup(recovery, exercises || [])
+    );
+  }, [allLogs, exercises, landmarks, deloadEvents, recovery, deloadDismissed]);
 
   // Check for injury risks
   const injuryRisks = useMemo(() => {
     if (!exercises) return [];
-    return getAllInjuryRisks(allLogs, exercises);
-  }, [allLogs, exercises]);
+    return getAllInjuryRisks(allLogs, exercises, painReports);
+  }, [allLogs, exercises, painReports]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -45,6 +64,27 @@ export default function Home() {
       </header>
 
       <div className="container max-w-7xl py-12">
+        {/* Resume Workout */}
+        {inProgress && (
+          <div className="mb-6 p-6 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-foreground mb-1">Workout in Progress</h2>
+                <p className="text-xl font-bold text-green-500">{inProgress.session.name}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Exercise {inProgress.active.current_exercise_index + 1} · last active {formatDistanceToNow(inProgress.active.updated_at, { addSuffix: true })}
+                </p>
+              </div>
+              <Link href={`/workout/${inProgress.session.id}`}>
+                <Button>
+                  <PlayCircle className="w-4 h-4 mr-2" />
+                  Resume Workout
+                </Button>
+              </Link>
+            </div>
+          </div>
+        )}
+
         {/* Deload Banner */}
         {deloadRecommendation && deloadRecommendation.needsDeload && (
           <div className="mb-6">
@@ -60,7 +100,8 @@ export default function Home() {
           <div className="mb-6 space-y-4">
             {injuryRisks.slice(0, 2).map((risk) => {
               const exercise = exercises.find(e => e.id === risk.exerciseId);
-              const alternatives = exercise ? suggestLowerStressAlternatives(exercise, exercises) : [];
+              const joints = getPainfulJoints(painReports, { exerciseId: risk.exerciseId });
+              const alternatives = exercise ? suggestLowerStressAlternatives(exercise, exercises, joints) : [];
               return (
                 <InjuryPreventionAlert
                   key={risk.exerciseId}
@@ -160,6 +201,17 @@ export default function Home() {
             </div>
           </Link>
 
+          {/* Calendar */}
+          <Link href="/calendar">
+            <div className="p-8 bg-card border border-border rounded-xl hover:bg-accent/50 transition-colors cursor-pointer">
+              <CalendarDays className="w-12 h-12 text-orange-500 mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Calendar</h2>
+              <p className="text-muted-foreground">
+                See scheduled, completed and missed sessions and reschedule them
+              </p>
+            </div>
+          </Link>
+
           {/* Analytics */}
           <Link href="/analytics">
             <div className="p-8 bg-card border border-border rounded-xl hover:bg-accent/50 transition-colors cursor-pointer">
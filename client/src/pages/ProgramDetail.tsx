@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { useRoute, Link } from 'wouter';
-import { ArrowLeft, Plus, Calendar, Dumbbell, Trash2, FileText } from 'lucide-react';
+import { useRoute, Link, useSearch } from 'wouter';
+import { ArrowLeft, Plus, Calendar, Dumbbell, Trash2, FileText, TrendingUp, TrendingDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -25,8 +25,10 @@ import {
   useMesocycle,
   useMicrocycles,
   useWorkoutSessions,
+  useMicrocycleWeekData,
   useExercises,
   useWorkoutTemplates,
+  mesocycleOperations,
   microcycleOperations,
   workoutSessionOperations,
   sessionExerciseOperations,
@@ -34,10 +36,16 @@ import {
 } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { format, addDays } from 'date-fns';
+import { SUPERSET_GROUP_LABELS } from '@/lib/supersets';
+import { MesocycleWizard } from '@/components/MesocycleWizard';
+import { WeekProgressionDialog } from '@/components/WeekProgressionDialog';
+import type { MesocyclePlan } from '@/lib/mesocycleGenerator';
+import type { Exercise, Mesocycle, Microcycle, PhaseType } from '@/lib/db';
 
 export default function ProgramDetail() {
   const [, params] = useRoute('/programs/:id');
   const mesocycleId = params?.id ? parseInt(params.id) : undefined;
+  const reviewMicrocycleId = parseInt(new URLSearchParams(useSearch()).get('review') ?? '');
   
   const mesocycle = useMesocycle(mesocycleId);
   const microcycles = useMicrocycles(mesocycleId);
@@ -52,6 +60,7 @@ export default function ProgramDetail() {
   const [sessionName, setSessionName] = useState('');
   const [sessionDate, setSessionDate] = useState('');
   const [selectedExercises, setSelectedExercises] = useState<number[]>([]);
+  const [exerciseGroups, setExerciseGroups] = useState<Record<number, string>>({});
   const [selectedTemplateId, setSelectedTemplateId] = useState<number | undefined>();
 
   const handleGenerateMicrocycles = async () => {
@@ -83,6 +92,19 @@ export default function ProgramDetail() {
     }
   };
 
+  const handleGenerateProgram = async (plan: MesocyclePlan, phaseType: PhaseType) => {
+    if (!mesocycle) return;
+
+    try {
+      await mesocycleOperations.applyPlan(mesocycle.id!, plan, phaseType);
+      const sessionCount = plan.microcycles.reduce((sum, week) => sum + week.sessions.length, 0);
+      toast.success(`Generated ${plan.microcycles.length} weeks and ${sessionCount} sessions`);
+    } catch (error) {
+      toast.error('Failed to generate program');
+      console.error(error);
+    }
+  };
+
   const handleAddSession = async () => {
     if (!selectedMicrocycleId || !sessionName.trim() || !sessionDate) {
       toast.error('Please fill all required fields');
@@ -113,6 +135,7 @@ export default function ProgramDetail() {
             target_reps_min: 8,
             target_reps_max: 12,
             target_rir: 2,
+            superset_group: exerciseGroups[selectedExercises[i]],
             created_at: new Date(),
           });
         }
@@ -131,6 +154,7 @@ export default function ProgramDetail() {
     setSessionName('');
     setSessionDate('');
     setSelectedExercises([]);
+    setExerciseGroups({});
     setSelectedTemplateId(undefined);
   };
 
@@ -147,6 +171,13 @@ export default function ProgramDetail() {
     );
   };
 
+  const setExerciseGroup = (exerciseId: number, group: string | undefined) => {
+    setExerciseGroups(prev => {
+      const { [exerciseId]: _, ...rest } = prev;
+      return group ? { ...rest, [exerciseId]: group } : rest;
+    });
+  };
+
   if (!mesocycle) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -186,28 +217,35 @@ export default function ProgramDetail() {
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold">Microcycles (Weeks)</h2>
             {(!microcycles || microcycles.length === 0) && (
-              <Dialog open={isAddMicroDialogOpen} onOpenChange={setIsAddMicroDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Generate Microcycles
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Generate Microcycles</DialogTitle>
-                    <DialogDescription>
-                      This will automatically create weekly microcycles for the entire mesocycle duration
-                    </DialogDescription>
-                  </DialogHeader>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsAddMicroDialogOpen(false)}>
-                      Cancel
+              <div className="flex items-center gap-2">
+                <MesocycleWizard
+                  mesocycle={mesocycle}
+                  exercises={exercises || []}
+                  onGenerate={handleGenerateProgram}
+                />
+                <Dialog open={isAddMicroDialogOpen} onOpenChange={setIsAddMicroDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Generate Microcycles
                     </Button>
-                    <Button onClick={handleGenerateMicrocycles}>Generate</Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Generate Microcycles</DialogTitle>
+                      <DialogDescription>
+                        This will automatically create weekly microcycles for the entire mesocycle duration
+                      </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsAddMicroDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleGenerateMicrocycles}>Generate</Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </div>
             )}
           </div>
 
@@ -218,10 +256,15 @@ export default function ProgramDetail() {
             </div>
           ) : (
             <div className="space-y-4">
-              {microcycles.map(micro => (
+              {microcycles.map((micro, index) => (
                 <MicrocycleCard
                   key={micro.id}
                   microcycle={micro}
+                  previousMicrocycle={microcycles[index - 1]}
+                  mesocycle={mesocycle}
+                  exercises={exercises || []}
+                  accumulationWeeks={microcycles.filter(m => !m.is_deload).length}
+                  autoReview={micro.id === reviewMicrocycleId}
                   onAddSession={(microId) => {
                     setSelectedMicrocycleId(microId);
                     setIsAddSessionDialogOpen(true);
@@ -315,13 +358,33 @@ export default function ProgramDetail() {
                   >
                     <div className="flex items-center justify-between">
                       <span className="font-medium">{exercise.name}</span>
-                      <Badge variant="outline">{exercise.muscle_group}</Badge>
+                      <div className="flex items-center gap-2">
+                        {selectedExercises.includes(exercise.id!) && (
+                          <div onClick={(e) => e.stopPropagation()}>
+                            <Select
+                              value={exerciseGroups[exercise.id!] ?? 'none'}
+                              onValueChange={(value) => setExerciseGroup(exercise.id!, value === 'none' ? undefined : value)}
+                            >
+                              <SelectTrigger className="h-7 w-32 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No superset</SelectItem>
+                                {SUPERSET_GROUP_LABELS.map(label => (
+                                  <SelectItem key={label} value={label}>Superset {label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        <Badge variant="outline">{exercise.muscle_group}</Badge>
+                      </div>
                     </div>
                   </div>
                 ))}
               </div>
               <p className="text-xs text-muted-foreground">
-                {selectedExercises.length} exercise(s) selected
+                {selectedExercises.length} exercise(s) selected. Give exercises the same superset letter to alternate them set by set.
               </p>
             </div>
             )}
@@ -341,33 +404,95 @@ export default function ProgramDetail() {
 
 function MicrocycleCard({
   microcycle,
+  previousMicrocycle,
+  mesocycle,
+  exercises,
+  accumulationWeeks,
+  autoReview,
   onAddSession,
 }: {
   microcycle: any;
+  previousMicrocycle?: Microcycle;
+  mesocycle: Mesocycle;
+  exercises: Exercise[];
+  accumulationWeeks: number;
+  autoReview: boolean;
   onAddSession: (microcycleId: number) => void;
 }) {
   const sessions = useWorkoutSessions(microcycle.id);
+  const previousWeek = useMicrocycleWeekData(previousMicrocycle?.id);
+  const previousSessions = previousWeek?.sessions;
+  const [isReviewOpen, setIsReviewOpen] = useState(autoReview);
+
+  // Targets can be progressed once last week is done and this week hasn't started
+  const canReview =
+    !!previousMicrocycle &&
+    !!previousSessions && previousSessions.length > 0 &&
+    previousSessions.every(s => s.is_completed) &&
+    !!sessions && sessions.length > 0 &&
+    !sessions.some(s => s.is_completed);
+
+  const handleToggleDeload = async () => {
+    try {
+      await microcycleOperations.setDeload(microcycle.id, !microcycle.is_deload);
+      toast.success(microcycle.is_deload ? 'Deload mark removed' : 'Week marked as deload');
+    } catch (error) {
+      toast.error('Failed to update deload week');
+      console.error(error);
+    }
+  };
 
   return (
     <div className="p-5 bg-card border border-border rounded-lg">
       <div className="flex items-center justify-between mb-4">
         <div>
-          <h3 className="font-semibold text-foreground">Week {microcycle.week_number}</h3>
+          <h3 className="font-semibold text-foreground flex items-center gap-2">
+            Week {microcycle.week_number}
+            {microcycle.is_deload && <Badge variant="secondary">Deload</Badge>}
+          </h3>
           <p className="text-sm text-muted-foreground">
             {format(microcycle.start_date, 'MMM d')} - {format(microcycle.end_date, 'MMM d, yyyy')}
           </p>
         </div>
         
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => onAddSession(microcycle.id)}
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add Session
-        </Button>
+        <div className="flex items-center gap-2">
+          {canReview && (
+            <Button
+              variant={microcycle.progression_applied_at ? 'ghost' : 'default'}
+              size="sm"
+              onClick={() => setIsReviewOpen(true)}
+            >
+              <TrendingUp className="w-4 h-4 mr-2" />
+              {microcycle.progression_applied_at ? 'Targets Updated' : 'Review Targets'}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={handleToggleDeload}>
+            <TrendingDown className="w-4 h-4 mr-2" />
+            {microcycle.is_deload ? 'Unmark Deload' : 'Mark Deload'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onAddSession(microcycle.id)}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Session
+          </Button>
+        </div>
       </div>
 
+      {canReview && previousMicrocycle && (
+        <WeekProgressionDialog
+          mesocycle={mesocycle}
+          microcycle={microcycle}
+          previousMicrocycle={previousMicrocycle}
+          accumulationWeeks={accumulationWeeks}
+          exercises={exercises}
+          open={isReviewOpen}
+          onOpenChange={setIsReviewOpen}
+        />
+      )}
+
       {sessions && sessions.length > 0 ? (
         <div className="space-y-2">
           {sessions.map(session => (
@@ -1,30 +1,71 @@
 import { useState } from 'react';
 import { Link } from 'wouter';
-import { ArrowLeft, Download, Upload, Database, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import { ArrowLeft, Download, Upload, Database, FileJson, FileSpreadsheet, FileText, Scale, Calculator, History, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { db } from '@/lib/db';
-import { workoutTemplateOperations } from '@/hooks/useDatabase';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { db, type BackupSnapshot, type E1RMFormula, type WeightUnit } from '@/lib/db';
+import { workoutTemplateOperations, settingsOperations, backupOperations, useWeightUnit, useE1RMFormula, useBackupSnapshots } from '@/hooks/useDatabase';
+import { E1RM_FORMULAS, E1RM_FORMULA_LABELS, E1RM_FORMULA_DESCRIPTIONS } from '@/lib/e1rm';
+import { getLogWeight, getLogE1RM, WEIGHT_UNIT_LABELS } from '@/lib/units';
+import { getSetType } from '@/lib/setTypes';
+import { parseBackup, type BackupParseResult } from '@/lib/backup';
+import { parseWorkoutCSV, type ParsedWorkoutCSV } from '@/lib/csvImport';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { APP_TITLE } from '@/const';
+import { VolumeLandmarksEditor } from '@/components/VolumeLandmarksEditor';
+import { EquipmentProfileEditor } from '@/components/EquipmentProfileEditor';
+import { BackupImportDialog } from '@/components/BackupImportDialog';
+import { WorkoutHistoryImportDialog } from '@/components/WorkoutHistoryImportDialog';
+import { SyncSettings } from '@/components/SyncSettings';
+import { AccountSettings } from '@/components/AccountSettings';
+import { useAccount } from '@/hooks/useAccount';
 
 export default function Settings() {
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const weightUnit = useWeightUnit();
+  const e1rmFormula = useE1RMFormula();
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: BackupParseResult } | null>(null);
+  const [pendingHistoryImport, setPendingHistoryImport] = useState<{ fileName: string; result: ParsedWorkoutCSV } | null>(null);
+  const snapshots = useBackupSnapshots() || [];
+  const account = useAccount();
+
+  const handleWeightUnitChange = async (unit: WeightUnit) => {
+    try {
+      await settingsOperations.update({ weight_unit: unit });
+      toast.success(`Weights will be shown in ${unit}`);
+    } catch (error) {
+      toast.error('Failed to update weight unit');
+      console.error(error);
+    }
+  };
+
+  const handleE1RMFormulaChange = async (formula: E1RMFormula) => {
+    setIsRecomputing(true);
+    try {
+      await settingsOperations.setE1RMFormula(formula);
+      toast.success(`e1RM recalculated with ${E1RM_FORMULA_LABELS[formula]}`);
+    } catch (error) {
+      toast.error('Failed to recalculate e1RM');
+      console.error(error);
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
 
   const handleExportJSON = async () => {
     setIsExporting(true);
     try {
-      const data = {
-        version: '1.0',
-        exportDate: new Date().toISOString(),
-        exercises: await db.exercises.toArray(),
-        mesocycles: await db.mesocycles.toArray(),
-        microcycles: await db.microcycles.toArray(),
-        workout_sessions: await db.workout_sessions.toArray(),
-        session_exercises: await db.session_exercises.toArray(),
-        logs: await db.logs.toArray(),
-      };
+      const data = await backupOperations.export();
 
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
@@ -51,11 +92,13 @@ export default function Settings() {
       const logs = await db.logs.toArray();
       
       // CSV header
-      let csv = 'Date,Exercise ID,Set Number,Weight (kg),Reps,RIR,Target RIR,e1RM,Soreness,Pump,Joint Pain\n';
+      let csv = `Date,Exercise ID,Set Number,Set Type,Weight (${weightUnit}),Reps,RIR,Target RIR,e1RM (${weightUnit}; ${E1RM_FORMULA_LABELS[e1rmFormula]}),Soreness,Pump,Joint Pain\n`;
       
-      // CSV rows
+      // CSV rows (weights converted to the preferred unit)
       for (const log of logs) {
-        csv += `${log.session_date.toISOString()},${log.exercise_id},${log.set_number},${log.weight},${log.reps},${log.rir},${log.target_rir},${log.e1rm || ''},${log.feedback_soreness || ''},${log.feedback_pump || ''},${log.feedback_joint_pain || ''}\n`;
+        const weight = parseFloat(getLogWeight(log, weightUnit).toFixed(2));
+        const e1rm = getLogE1RM(log, weightUnit);
+        csv += `${log.session_date.toISOString()},${log.exercise_id},${log.set_number},${getSetType(log)},${weight},${log.reps},${log.rir},${log.target_rir},${e1rm ? parseFloat(e1rm.toFixed(2)) : ''},${log.feedback_soreness || ''},${log.feedback_pump || ''},${log.feedback_joint_pain || ''}\n`;
       }
 
       const blob = new Blob([csv], { type: 'text/csv' });
@@ -81,40 +124,75 @@ export default function Settings() {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setIsImporting(true);
     try {
       const text = await file.text();
-      const data = JSON.parse(text);
-
-      // Clear existing data
-      await db.transaction('rw', [db.exercises, db.mesocycles, db.microcycles, db.workout_sessions, db.session_exercises, db.logs], async () => {
-        await db.exercises.clear();
-        await db.mesocycles.clear();
-        await db.microcycles.clear();
-        await db.workout_sessions.clear();
-        await db.session_exercises.clear();
-        await db.logs.clear();
+      let result: BackupParseResult;
+      try {
+        result = parseBackup(JSON.parse(text));
+      } catch {
+        result = { success: false, errors: ['The file is not valid JSON'] };
+      }
+      setPendingImport({ fileName: file.name, result });
+    } catch (error) {
+      toast.error('Failed to read backup file');
+      console.error(error);
+    } finally {
+      // Reset file input
+      event.target.value = '';
+    }
+  };
 
-        // Import data
-        if (data.exercises) await db.exercises.bulkAdd(data.exercises);
-        if (data.mesocycles) await db.mesocycles.bulkAdd(data.mesocycles);
-        if (data.microcycles) await db.microcycles.bulkAdd(data.microcycles);
-        if (data.workout_sessions) await db.workout_sessions.bulkAdd(data.workout_sessions);
-        if (data.session_exercises) await db.session_exercises.bulkAdd(data.session_exercises);
-        if (data.logs) await db.logs.bulkAdd(data.logs);
-      });
+  const handleImportHistory = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
 
-      toast.success('Database imported successfully');
+    try {
+      const result = parseWorkoutCSV(await file.text(), weightUnit);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      if (result.workouts.length === 0) {
+        toast.error('No workouts found in the file');
+        return;
+      }
+      setPendingHistoryImport({ fileName: file.name, result });
     } catch (error) {
-      toast.error('Failed to import database');
+      toast.error('Failed to read CSV file');
       console.error(error);
     } finally {
-      setIsImporting(false);
       // Reset file input
       event.target.value = '';
     }
   };
 
+  const handleRestoreSnapshot = async (snapshot: BackupSnapshot) => {
+    if (!confirm(`Restore the data saved ${format(snapshot.created_at, 'MMM d, yyyy h:mm a')}? Your current data is saved as a new snapshot first.`)) return;
+
+    setIsImporting(true);
+    try {
+      await backupOperations.restore(snapshot.id!);
+      toast.success('Snapshot restored');
+    } catch (error) {
+      toast.error('Failed to restore snapshot');
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDownloadSnapshot = (snapshot: BackupSnapshot) => {
+    const blob = new Blob([snapshot.data], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `hypertrophyos-snapshot-${format(snapshot.created_at, 'yyyy-MM-dd-HHmm')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportTemplates = async () => {
     setIsExporting(true);
     try {
@@ -173,8 +251,13 @@ export default function Settings() {
     if (!confirm('This will permanently delete all exercises, programs, and workout logs. Are you absolutely sure?')) return;
 
     try {
-      await db.transaction('rw', [db.exercises, db.mesocycles, db.microcycles, db.workout_sessions, db.session_exercises, db.logs], async () => {
+      await db.transaction('rw', [db.exercises, db.mesocycles, db.microcycles, db.workout_sessions, db.session_exercises, db.logs, db.personal_records, db.active_sessions, db.muscle_recovery, db.pain_reports, db.deload_events], async () => {
         await db.logs.clear();
+        await db.personal_records.clear();
+        await db.active_sessions.clear();
+        await db.muscle_recovery.clear();
+        await db.pain_reports.clear();
+        await db.deload_events.clear();
         await db.session_exercises.clear();
         await db.workout_sessions.clear();
         await db.microcycles.clear();
@@ -206,8 +289,81 @@ export default function Settings() {
           </p>
         </div>
 
-        {/* Data Export Section */}
         <div className="space-y-6">
+          {/* Preferences Section */}
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Preferences</h2>
+            <Card className="p-6">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-sky-500/10 rounded-lg">
+                  <Scale className="w-6 h-6 text-sky-500" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold mb-2">Weight Unit</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Used for logging, recommendations, analytics and CSV export. Existing logs keep the unit they were recorded in.
+                  </p>
+                  <Select value={weightUnit} onValueChange={(v) => handleWeightUnitChange(v as WeightUnit)}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(WEIGHT_UNIT_LABELS) as WeightUnit[]).map(unit => (
+                        <SelectItem key={unit} value={unit}>{WEIGHT_UNIT_LABELS[unit]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </Card>
+            <Card className="p-6 mt-4">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-amber-500/10 rounded-lg">
+                  <Calculator className="w-6 h-6 text-amber-500" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold mb-2">e1RM Formula</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Estimates use reps + RIR as reps to failure. Changing the formula recalculates every logged set and your PRs.
+                  </p>
+                  <Select
+                    value={e1rmFormula}
+                    onValueChange={(v) => handleE1RMFormulaChange(v as E1RMFormula)}
+                    disabled={isRecomputing}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {E1RM_FORMULAS.map(formula => (
+                        <SelectItem key={formula} value={formula}>{E1RM_FORMULA_LABELS[formula]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {isRecomputing ? 'Recalculating...' : E1RM_FORMULA_DESCRIPTIONS[e1rmFormula]}
+                  </p>
+                </div>
+              </div>
+            </Card>
+            <div className="mt-4">
+              <EquipmentProfileEditor />
+            </div>
+            <div className="mt-4">
+              <VolumeLandmarksEditor />
+            </div>
+          </div>
+
+          {/* Sync Section */}
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Sync</h2>
+            <AccountSettings account={account} />
+            <div className="mt-4">
+              <SyncSettings signedIn={account.status === 'signed-in'} />
+            </div>
+          </div>
+
+          {/* Data Export Section */}
           <div>
             <h2 className="text-xl font-semibold mb-4">Data Export</h2>
             <div className="grid md:grid-cols-2 gap-4">
@@ -333,7 +489,7 @@ export default function Settings() {
                 <div className="flex-1">
                   <h3 className="font-semibold mb-2">Import from JSON</h3>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Restore your data from a previous JSON export. This will replace all existing data.
+                    Restore or merge data from a previous JSON export. You'll see what changes before anything is written.
                   </p>
                   <div className="flex items-center gap-3">
                     <input
@@ -361,6 +517,70 @@ export default function Settings() {
                 </div>
               </div>
             </Card>
+
+            <Card className="p-6 mt-4">
+              <div className="flex items-start gap-4">
+                <div className="p-3 bg-green-500/10 rounded-lg">
+                  <FileSpreadsheet className="w-6 h-6 text-green-500" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold mb-2">Import from Another App</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Bring in workout history from a Strong, Hevy or FitNotes CSV export. You'll review how exercise names map to your library first.
+                  </p>
+                  <input
+                    type="file"
+                    accept=".csv"
+                    onChange={handleImportHistory}
+                    className="hidden"
+                    id="import-history-file"
+                  />
+                  <label htmlFor="import-history-file">
+                    <Button asChild variant="outline" className="w-full">
+                      <span>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import CSV
+                      </span>
+                    </Button>
+                  </label>
+                </div>
+              </div>
+            </Card>
+
+            {snapshots.length > 0 && (
+              <Card className="p-6 mt-4">
+                <div className="flex items-start gap-4">
+                  <div className="p-3 bg-blue-500/10 rounded-lg">
+                    <History className="w-6 h-6 text-blue-500" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-semibold mb-2">Snapshots</h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Copies of your data saved automatically before an import overwrote it
+                    </p>
+                    <div className="space-y-2">
+                      {snapshots.map(snapshot => (
+                        <div key={snapshot.id} className="flex items-center justify-between gap-3 text-sm">
+                          <div className="min-w-0">
+                            <p className="font-medium">{format(snapshot.created_at, 'MMM d, yyyy h:mm a')}</p>
+                            <p className="text-xs text-muted-foreground truncate">{snapshot.reason}</p>
+                          </div>
+                          <div className="flex gap-2 shrink-0">
+                            <Button size="sm" variant="ghost" onClick={() => handleDownloadSnapshot(snapshot)}>
+                              <Download className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleRestoreSnapshot(snapshot)} disabled={isImporting}>
+                              <RotateCcw className="w-4 h-4 mr-2" />
+                              Restore
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            )}
           </div>
 
           {/* Danger Zone */}
@@ -387,6 +607,24 @@ export default function Settings() {
             </Card>
           </div>
 
+          {pendingImport && (
+            <BackupImportDialog
+              fileName={pendingImport.fileName}
+              result={pendingImport.result}
+              open={!!pendingImport}
+              onOpenChange={(open) => !open && setPendingImport(null)}
+            />
+          )}
+
+          {pendingHistoryImport && (
+            <WorkoutHistoryImportDialog
+              fileName={pendingHistoryImport.fileName}
+              result={pendingHistoryImport.result}
+              open={!!pendingHistoryImport}
+              onOpenChange={(open) => !open && setPendingHistoryImport(null)}
+            />
+          )}
+
           {/* App Info */}
           <div className="pt-6 border-t border-border">
             <h2 className="text-xl font-semibold mb-4">About</h2>
@@ -179,6 +179,11 @@ export default function Templates() {
                             <Badge variant="outline" className="text-xs">
                               {exercise.muscle_group}
                             </Badge>
+                            {ex.superset_group && (
+                              <Badge variant="secondary" className="text-xs">
+                                Superset {ex.superset_group}
+                              </Badge>
+                            )}
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {ex.target_sets} × {ex.target_reps_min}-{ex.target_reps_max} @ RIR {ex.target_rir}
@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRoute, Link, useLocation } from 'wouter';
-import { ArrowLeft, Plus, Check, Timer, TrendingUp } from 'lucide-react';
+import { ArrowLeft, Plus, Check, Timer, TrendingUp, Pencil, Trash2, Play, Pause, Trophy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -25,8 +25,16 @@ import {
   useSessionExercises,
   useLogs,
   useExercise,
+  useExercises,
+  useWeightUnit,
+  useSessionPersonalRecords,
+  useEquipmentProfile,
+  useSessionMuscleRecovery,
+  activeSessionOperations,
   logOperations,
+  painReportOperations,
   workoutSessionOperations,
+  microcycleOperations,
 } from '@/hooks/useDatabase';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
@@ -34,7 +42,46 @@ import { RestTimer } from '@/components/RestTimer';
 import { ExerciseAutoregulation } from '@/components/ExerciseAutoregulation';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { ProgressionRecommendation } from '@/components/ProgressionRecommendation';
+import { PlateLoadout } from '@/components/PlateLoadout';
+import { WarmupRamp } from '@/components/WarmupRamp';
+import { ReadinessCheckIn } from '@/components/ReadinessCheckIn';
+import { MuscleRecoveryPrompt } from '@/components/MuscleRecoveryPrompt';
+import { findPreviousTrainingSession } from '@/lib/recovery';
+import { BODY_REGIONS, BODY_REGION_LABELS } from '@/lib/pain';
 import { analyzeProgression } from '@/lib/progression';
+import { getLogWeight, getLogE1RM, formatWeight } from '@/lib/units';
+import {
+  SET_TYPES,
+  SET_TYPE_LABELS,
+  getSetType,
+  getHardSets,
+  isClusterSet,
+  isWarmupSet,
+  groupSetsByParent,
+  findClusterParent,
+} from '@/lib/setTypes';
+import type { BodyRegion, Log, PersonalRecord, SetType, WeightUnit, WorkoutSession as WorkoutSessionRecord } from '@/lib/db';
+import { describeRecord, formatRecordValue } from '@/lib/personalRecords';
+import {
+  formatDuration,
+  getLastSetEnd,
+  getRestSeconds,
+  getSessionDurationSeconds,
+  isSessionPaused,
+} from '@/lib/sessionTiming';
+import {
+  WARMUP_RIR,
+  generateWarmupSets,
+  getWarmupTargetWeight,
+  isFirstExerciseForMuscle,
+  type WarmupSet,
+} from '@/lib/warmups';
+import {
+  GROUP_KIND_LABELS,
+  findExerciseGroup,
+  getGroupAdvance,
+  getNextGroupStart,
+} from '@/lib/supersets';
 
 export default function WorkoutSession() {
   const [, params] = useRoute('/workout/:id');
@@ -44,20 +91,106 @@ export default function WorkoutSession() {
   const session = useWorkoutSession(sessionId);
   const sessionExercises = useSessionExercises(sessionId);
   const logs = useLogs(sessionId);
+  const exercises = useExercises();
+  const weightUnit = useWeightUnit();
   
   const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
   const [isFeedbackDialogOpen, setIsFeedbackDialogOpen] = useState(false);
-  const [feedbackExerciseId, setFeedbackExerciseId] = useState<number | null>(null);
+  const [feedbackSessionExerciseId, setFeedbackSessionExerciseId] = useState<number | null>(null);
+  const [restSignal, setRestSignal] = useState(0);
   
   // Logging state
   const [weight, setWeight] = useState('');
   const [reps, setReps] = useState('');
   const [rir, setRir] = useState('2');
+  const [setType, setSetType] = useState<SetType>('working');
+  const [setStartedAt, setSetStartedAt] = useState<Date | null>(null);
   
   // Feedback state
-  const [soreness, setSoreness] = useState('1');
   const [pump, setPump] = useState('3');
   const [jointPain, setJointPain] = useState('1');
+  const [painRegions, setPainRegions] = useState<BodyRegion[]>([]);
+
+  // Saved in-progress state; nothing is persisted until it has been restored
+  const [restoredSessionId, setRestoredSessionId] = useState<number>();
+  const [resumeRestEndsAt, setResumeRestEndsAt] = useState<Date>();
+  const [restState, setRestState] = useState<{ endsAt: Date | null; duration: number }>({
+    endsAt: null,
+    duration: 120,
+  });
+  const isRestored = sessionId !== undefined && restoredSessionId === sessionId;
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    activeSessionOperations.get(sessionId)
+      .then(active => {
+        if (cancelled || !active) return;
+        setCurrentExerciseIndex(active.current_exercise_index);
+        setWeight(active.draft.weight);
+        setReps(active.draft.reps);
+        setRir(active.draft.rir);
+        setSetType(active.draft.set_type);
+        setSetStartedAt(active.set_started_at ?? null);
+        if (active.feedback_session_exercise_id) {
+          setFeedbackSessionExerciseId(active.feedback_session_exercise_id);
+          setIsFeedbackDialogOpen(true);
+        }
+        setResumeRestEndsAt(active.rest_ends_at);
+        setRestState({ endsAt: active.rest_ends_at ?? null, duration: active.rest_duration });
+      })
+      .catch(error => console.error(error))
+      .finally(() => {
+        if (!cancelled) setRestoredSessionId(sessionId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const openFeedbackId = isFeedbackDialogOpen ? feedbackSessionExerciseId ?? undefined : undefined;
+
+  useEffect(() => {
+    if (!sessionId || !isRestored || !session || session.is_completed) return;
+
+    // Only start a resumable record once the workout is actually under way
+    const hasProgress = (logs?.length ?? 0) > 0 || currentExerciseIndex > 0
+      || weight !== '' || reps !== '' || restState.endsAt !== null || setStartedAt !== null;
+    if (!hasProgress) return;
+
+    activeSessionOperations.save(sessionId, {
+      current_exercise_index: currentExerciseIndex,
+      draft: { weight, reps, rir, set_type: setType },
+      feedback_session_exercise_id: openFeedbackId,
+      rest_ends_at: restState.endsAt ?? undefined,
+      rest_duration: restState.duration,
+      set_started_at: setStartedAt ?? undefined,
+    }).catch(error => console.error(error));
+  }, [sessionId, isRestored, session?.is_completed, logs?.length, currentExerciseIndex, weight, reps, rir, setType, openFeedbackId, restState, setStartedAt]);
+
+  // A set starts when asked to, or as soon as the rest period runs out
+  const handleStartSet = useCallback(() => {
+    setSetStartedAt(prev => prev ?? new Date());
+  }, []);
+
+  const handleToggleSessionTimer = async () => {
+    if (!session || !sessionId) return;
+
+    try {
+      if (!session.started_at) {
+        await workoutSessionOperations.start(sessionId);
+      } else if (isSessionPaused(session)) {
+        await workoutSessionOperations.resume(sessionId);
+      } else {
+        await workoutSessionOperations.pause(sessionId);
+      }
+    } catch (error) {
+      toast.error('Failed to update session timer');
+      console.error(error);
+    }
+  };
 
   const currentSessionExercise = sessionExercises?.[currentExerciseIndex];
   const currentExerciseId = currentSessionExercise?.exercise_id;
@@ -65,6 +198,30 @@ export default function WorkoutSession() {
   const currentExerciseLogs = logs?.filter(
     log => log.session_exercise_id === currentSessionExercise?.id
   ) || [];
+  const currentHardSets = getHardSets(currentExerciseLogs);
+  const currentGroup = currentSessionExercise && sessionExercises
+    ? findExerciseGroup(sessionExercises, currentSessionExercise.id!)
+    : undefined;
+
+  // Warm-up ramps and recovery questions belong to a muscle's first exercise
+  const isFirstForMuscle = currentSessionExercise && sessionExercises && exercises
+    ? isFirstExerciseForMuscle(sessionExercises, exercises, currentSessionExercise.id!)
+    : false;
+
+  const goToSessionExercise = (sessionExerciseId: number) => {
+    const index = sessionExercises?.findIndex(se => se.id === sessionExerciseId) ?? -1;
+    if (index >= 0) setCurrentExerciseIndex(index);
+  };
+
+  // Logging a set starts (or resumes) the session clock
+  const ensureSessionRunning = async (startedAt: Date) => {
+    if (!session || !sessionId) return;
+    if (!session.started_at) {
+      await workoutSessionOperations.start(sessionId, startedAt);
+    } else if (isSessionPaused(session)) {
+      await workoutSessionOperations.resume(sessionId);
+    }
+  };
 
   const handleLogSet = async () => {
     if (!currentSessionExercise || !sessionId || !currentExerciseId) return;
@@ -78,27 +235,74 @@ export default function WorkoutSession() {
       return;
     }
 
+    // Drop sets, myo-reps and rest-pause sets extend the last working set
+    const parentLog = isClusterSet({ set_type: setType })
+      ? findClusterParent(currentExerciseLogs)
+      : undefined;
+    if (isClusterSet({ set_type: setType }) && !parentLog) {
+      toast.error(`Log a working set before adding a ${SET_TYPE_LABELS[setType].toLowerCase()}`);
+      return;
+    }
+
     try {
-      await logOperations.create({
+      const endedAt = new Date();
+      await ensureSessionRunning(setStartedAt ?? endedAt);
+
+      const previousEnd = getLastSetEnd(logs || []);
+      const restSeconds = setStartedAt && previousEnd && setStartedAt > previousEnd
+        ? getRestSeconds(session?.pauses, previousEnd, setStartedAt)
+        : undefined;
+
+      const { records } = await logOperations.create({
         session_exercise_id: currentSessionExercise.id!,
         session_id: sessionId,
         exercise_id: currentExerciseId,
         set_number: currentExerciseLogs.length + 1,
+        set_type: setType,
+        parent_log_id: parentLog?.id,
         weight: weightNum,
+        weight_unit: weightUnit,
         reps: repsNum,
         rir: rirNum,
         target_rir: currentSessionExercise.target_rir,
-        session_date: new Date(),
-        created_at: new Date(),
+        session_date: endedAt,
+        started_at: setStartedAt ?? undefined,
+        ended_at: endedAt,
+        rest_seconds: restSeconds,
+        created_at: endedAt,
       });
+      setSetStartedAt(null);
       
-      toast.success(`Set ${currentExerciseLogs.length + 1} logged`);
+      if (records.length > 0) {
+        toast.success(records.length > 1 ? `${records.length} new PRs!` : 'New PR!', {
+          description: records
+            .map(record => `${describeRecord(record)}: ${formatRecordValue(record, record.value, weightUnit)}`)
+            .join(' · '),
+        });
+      } else {
+        toast.success(`${SET_TYPE_LABELS[setType]} set logged`);
+      }
       
-      // Check if we've completed all target sets
-      if (currentExerciseLogs.length + 1 >= currentSessionExercise.target_sets) {
-        // Open feedback dialog
-        setFeedbackExerciseId(currentExerciseId);
-        setIsFeedbackDialogOpen(true);
+      if (setType === 'working') {
+        // Check if we've completed all target (working) sets
+        if (currentHardSets.length + 1 >= currentSessionExercise.target_sets) {
+          // Open feedback dialog
+          setFeedbackSessionExerciseId(currentSessionExercise.id!);
+          setIsFeedbackDialogOpen(true);
+        }
+
+        // Cycle through superset members; rest only after the round's last exercise
+        if (currentGroup && sessionExercises) {
+          const completedSets: Record<number, number> = {};
+          for (const se of sessionExercises) {
+            completedSets[se.id!] = getHardSets(logs?.filter(log => log.session_exercise_id === se.id) || []).length;
+          }
+          completedSets[currentSessionExercise.id!] += 1;
+
+          const advance = getGroupAdvance(currentGroup, currentSessionExercise.id!, completedSets);
+          if (advance.startRest) setRestSignal(Date.now());
+          if (advance.nextSessionExerciseId !== null) goToSessionExercise(advance.nextSessionExerciseId);
+        }
       }
       
       // Clear weight and reps but keep RIR
@@ -110,27 +314,64 @@ export default function WorkoutSession() {
     }
   };
 
+  const handleLogWarmups = async (warmups: WarmupSet[]) => {
+    if (!currentSessionExercise || !sessionId || !currentExerciseId) return;
+
+    try {
+      const endedAt = new Date();
+      await ensureSessionRunning(endedAt);
+
+      for (let index = 0; index < warmups.length; index++) {
+        const warmup = warmups[index];
+        await logOperations.create({
+          session_exercise_id: currentSessionExercise.id!,
+          session_id: sessionId,
+          exercise_id: currentExerciseId,
+          set_number: currentExerciseLogs.length + index + 1,
+          set_type: 'warmup',
+          weight: warmup.weight,
+          weight_unit: weightUnit,
+          reps: warmup.reps,
+          rir: WARMUP_RIR,
+          target_rir: currentSessionExercise.target_rir,
+          session_date: endedAt,
+          ended_at: endedAt,
+          created_at: endedAt,
+        });
+      }
+      toast.success(warmups.length > 1 ? `${warmups.length} warm-up sets logged` : 'Warm-up set logged');
+    } catch (error) {
+      toast.error('Failed to log warm-up');
+      console.error(error);
+    }
+  };
+
   const handleSaveFeedback = async () => {
-    if (!feedbackExerciseId || !sessionId) return;
+    if (!feedbackSessionExerciseId || !sessionId) return;
 
     try {
       // Update the last log with feedback
-      const lastLog = currentExerciseLogs[currentExerciseLogs.length - 1];
+      const feedbackLogs = logs?.filter(log => log.session_exercise_id === feedbackSessionExerciseId) || [];
+      const lastLog = feedbackLogs[feedbackLogs.length - 1];
       if (lastLog) {
+        const severity = parseInt(jointPain);
         await logOperations.update(lastLog.id!, {
-          feedback_soreness: parseInt(soreness),
           feedback_pump: parseInt(pump),
-          feedback_joint_pain: parseInt(jointPain),
+          feedback_joint_pain: severity,
         });
+        // Regions are only asked for once there is some pain
+        await painReportOperations.recordForLog(lastLog, severity, severity >= 2 ? painRegions : []);
       }
       
       toast.success('Feedback saved');
       setIsFeedbackDialogOpen(false);
-      setFeedbackExerciseId(null);
+      setFeedbackSessionExerciseId(null);
+      setPainRegions([]);
       
-      // Move to next exercise if available
-      if (sessionExercises && currentExerciseIndex < sessionExercises.length - 1) {
-        setCurrentExerciseIndex(prev => prev + 1);
+      // Move to the next exercise group if we haven't already cycled to a superset partner
+      if (sessionExercises && currentSessionExercise?.id === feedbackSessionExerciseId) {
+        const next = getNextGroupStart(sessionExercises, feedbackSessionExerciseId);
+        if (next) goToSessionExercise(next.id!);
       }
     } catch (error) {
       toast.error('Failed to save feedback');
@@ -145,6 +386,15 @@ export default function WorkoutSession() {
 
     try {
       await workoutSessionOperations.complete(sessionId);
+
+      // Finishing the last session of the week leads to next week's targets
+      const nextMicrocycle = await microcycleOperations.getNextIfComplete(session!.microcycle_id);
+      if (nextMicrocycle && !nextMicrocycle.progression_applied_at) {
+        toast.success(`Week complete! Review targets for week ${nextMicrocycle.week_number}`);
+        setLocation(`/programs/${nextMicrocycle.mesocycle_id}?review=${nextMicrocycle.id}`);
+        return;
+      }
+
       toast.success('Session completed!');
       setLocation('/');
     } catch (error) {
@@ -153,7 +403,7 @@ export default function WorkoutSession() {
     }
   };
 
-  if (!session || !sessionExercises) {
+  if (!session || !sessionExercises || !isRestored) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <p className="text-muted-foreground">Loading...</p>
@@ -204,13 +454,31 @@ export default function WorkoutSession() {
               </p>
             </div>
             
-            <Button onClick={handleCompleteSession} variant="outline">
-              <Check className="w-4 h-4 mr-2" />
-              Complete Session
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button onClick={handleToggleSessionTimer} variant="outline">
+                {!session.started_at || isSessionPaused(session) ? (
+                  <Play className="w-4 h-4 mr-2" />
+                ) : (
+                  <Pause className="w-4 h-4 mr-2" />
+                )}
+                {!session.started_at ? 'Start Session' : isSessionPaused(session) ? 'Resume' : 'Pause'}
+              </Button>
+              <Button onClick={handleCompleteSession} variant="outline">
+                <Check className="w-4 h-4 mr-2" />
+                Complete Session
+              </Button>
+            </div>
           </div>
+          {session.started_at && <SessionClock session={session} />}
         </div>
 
+        <ReadinessCheckIn
+          session={session}
+          sessionExercises={sessionExercises}
+          exercises={exercises || []}
+          canCheckIn={(logs?.length ?? 0) === 0}
+        />
+
         {/* Exercise Progress */}
         <div className="mb-6">
           <div className="flex items-center gap-2 mb-2">
@@ -232,6 +500,30 @@ export default function WorkoutSession() {
           </p>
         </div>
 
+        {/* Superset / Giant Set Indicator */}
+        {currentGroup && currentGroup.members.length > 1 && (
+          <div className="mb-4 p-3 bg-primary/5 border border-primary/20 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <Badge>{GROUP_KIND_LABELS[currentGroup.kind]} {currentGroup.label}</Badge>
+              <span className="text-xs text-muted-foreground">
+                One set of each, then rest
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {currentGroup.members.map((member, idx) => (
+                <Button
+                  key={member.id}
+                  variant={member.id === currentSessionExercise?.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => goToSessionExercise(member.id!)}
+                >
+                  {currentGroup.label}{idx + 1}. <GroupMemberName exerciseId={member.exercise_id} />
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Current Exercise */}
         {currentSessionExercise && (
           <CurrentExerciseCard
@@ -243,7 +535,15 @@ export default function WorkoutSession() {
             setReps={setReps}
             rir={rir}
             setRir={setRir}
+            setType={setType}
+            setSetType={setSetType}
+            weightUnit={weightUnit}
+            setStartedAt={setStartedAt}
+            onStartSet={handleStartSet}
             onLogSet={handleLogSet}
+            isFirstForMuscle={isFirstForMuscle}
+            exercises={exercises || []}
+            onLogWarmups={handleLogWarmups}
           />
         )}
 
@@ -271,7 +571,13 @@ export default function WorkoutSession() {
 
         {/* Rest Timer */}
         <div className="mt-6">
-          <RestTimer defaultDuration={120} />
+          <RestTimer
+            defaultDuration={restState.duration}
+            startSignal={restSignal}
+            resumeEndsAt={resumeRestEndsAt}
+            onStateChange={setRestState}
+            onComplete={handleStartSet}
+          />
         </div>
       </div>
 
@@ -281,27 +587,11 @@ export default function WorkoutSession() {
           <DialogHeader>
             <DialogTitle>Exercise Feedback</DialogTitle>
             <DialogDescription>
-              How did this exercise feel?
+              How did this exercise feel? Soreness is asked when the muscle is next trained.
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label>Muscle Soreness (1-5)</Label>
-              <Select value={soreness} onValueChange={setSoreness}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="1">1 - None</SelectItem>
-                  <SelectItem value="2">2 - Mild</SelectItem>
-                  <SelectItem value="3">3 - Moderate</SelectItem>
-                  <SelectItem value="4">4 - Sore</SelectItem>
-                  <SelectItem value="5">5 - Very Sore</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            
             <div className="space-y-2">
               <Label>Pump Quality (1-5)</Label>
               <Select value={pump} onValueChange={setPump}>
@@ -333,6 +623,26 @@ export default function WorkoutSession() {
                 </SelectContent>
               </Select>
             </div>
+
+            {parseInt(jointPain) >= 2 && (
+              <div className="space-y-2">
+                <Label>Where does it hurt?</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {BODY_REGIONS.map(region => (
+                    <Button
+                      key={region}
+                      size="sm"
+                      variant={painRegions.includes(region) ? 'default' : 'outline'}
+                      onClick={() => setPainRegions(prev =>
+                        prev.includes(region) ? prev.filter(r => r !== region) : [...prev, region]
+                      )}
+                    >
+                      {BODY_REGION_LABELS[region]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           
           <DialogFooter>
@@ -356,22 +666,52 @@ function CurrentExerciseCard({
   setReps,
   rir,
   setRir,
+  setType,
+  setSetType,
+  weightUnit,
+  setStartedAt,
+  onStartSet,
   onLogSet,
+  isFirstForMuscle,
+  exercises,
+  onLogWarmups,
 }: any) {
   const exercise = useExercise(sessionExercise.exercise_id);
   const allLogs = useLogs();
+  const equipmentProfile = useEquipmentProfile();
+  const sessionRecovery = useSessionMuscleRecovery(sessionExercise.session_id) || [];
+  const sessionRecords = useSessionPersonalRecords(sessionExercise.session_id) || [];
+  const recordsForLog = (log: Log) => sessionRecords.filter(record => record.log_id === log.id);
 
   if (!exercise) return null;
 
-  const setsCompleted = logs.length;
-  const setsRemaining = sessionExercise.target_sets - setsCompleted;
+  const setsCompleted = getHardSets(logs).length;
+  const setGroups = groupSetsByParent(logs);
+  const setsRemaining = Math.max(0, sessionExercise.target_sets - setsCompleted);
 
   // Get progression recommendation
   const exerciseLogs = allLogs?.filter(log => log.exercise_id === exercise.id) || [];
   const progressionRec = exerciseLogs.length >= 3 
-    ? analyzeProgression(exerciseLogs, exercise.name, exercise.muscle_group)
+    ? analyzeProgression(exerciseLogs, exercise.name, exercise.muscle_group, weightUnit, {
+        equipment: exercise.equipment,
+        profile: equipmentProfile,
+      })
     : null;
 
+  // "Did you recover in time?" for the muscle's previous session, before its first working set
+  const trainedSessionId = isFirstForMuscle && setsCompleted === 0
+    ? findPreviousTrainingSession(exercise.muscle_group, sessionExercise.session_id, allLogs || [], exercises)
+    : undefined;
+  const recoveryRating = sessionRecovery.find(entry => entry.muscle_group === exercise.muscle_group)?.rating;
+
+  // Warm-up ramp toward today's working weight, until the first working set
+  const warmupTarget = isFirstForMuscle && setsCompleted === 0
+    ? getWarmupTargetWeight(exerciseLogs, weightUnit, sessionExercise.session_id, progressionRec)
+    : undefined;
+  const warmups = warmupTarget
+    ? generateWarmupSets(warmupTarget, weightUnit, exercise.equipment, equipmentProfile)
+    : [];
+
   return (
     <div className="p-6 bg-card border-2 border-primary rounded-lg">
       <div className="mb-6">
@@ -402,12 +742,31 @@ function CurrentExerciseCard({
             exerciseName={exercise.name}
             onAccept={(newWeight) => {
               setWeight(newWeight.toString());
-              toast.success(`Weight updated to ${newWeight} kg`);
+              toast.success(`Weight updated to ${newWeight} ${weightUnit}`);
             }}
           />
         </div>
       )}
 
+      {trainedSessionId !== undefined && (
+        <MuscleRecoveryPrompt
+          muscle={exercise.muscle_group}
+          sessionId={sessionExercise.session_id}
+          trainedSessionId={trainedSessionId}
+          rating={recoveryRating}
+        />
+      )}
+
+      {warmupTarget !== undefined && (
+        <WarmupRamp
+          warmups={warmups}
+          workingWeight={warmupTarget}
+          loggedCount={logs.filter(isWarmupSet).length}
+          unit={weightUnit}
+          onLog={onLogWarmups}
+        />
+      )}
+
       {/* Autoregulation Recommendation */}
       <ExerciseAutoregulation
         exercise={exercise}
@@ -437,83 +796,317 @@ function CurrentExerciseCard({
         <div className="mb-6">
           <h3 className="font-semibold mb-3">Previous Sets</h3>
           <div className="space-y-2">
-            {logs.map((log: any) => (
-              <div
-                key={log.id}
-                className="flex items-center justify-between p-3 bg-background rounded-lg"
-              >
-                <span className="text-sm font-medium">Set {log.set_number}</span>
-                <div className="flex items-center gap-4 text-sm">
-                  <span>{log.weight} kg × {log.reps} reps</span>
-                  <Badge variant="outline">RIR {log.rir}</Badge>
-                  {log.e1rm && (
-                    <span className="text-muted-foreground">e1RM: {log.e1rm.toFixed(1)} kg</span>
-                  )}
-                </div>
+            {setGroups.map(group => (
+              <div key={group.parent.id} className="space-y-1">
+                <LoggedSetRow log={group.parent} weightUnit={weightUnit} records={recordsForLog(group.parent)} />
+                {group.children.map(child => (
+                  <LoggedSetRow key={child.id} log={child} weightUnit={weightUnit} records={recordsForLog(child)} isChild />
+                ))}
               </div>
             ))}
           </div>
         </div>
       )}
 
+      {setsRemaining === 0 && (
+        <div className="text-center py-4 mb-6 bg-green-500/10 border border-green-500/20 rounded-lg">
+          <Check className="w-8 h-8 mx-auto text-green-500 mb-2" />
+          <p className="font-semibold text-green-500">All sets completed!</p>
+        </div>
+      )}
+
       {/* Log New Set */}
-      {setsRemaining > 0 && (
-        <div>
-          <h3 className="font-semibold mb-3">Log Set {setsCompleted + 1}</h3>
-          <div className="grid grid-cols-3 gap-4 mb-4">
-            <div className="space-y-2">
-              <Label htmlFor="weight">Weight (kg)</Label>
-              <Input
-                id="weight"
-                type="number"
-                step="0.5"
-                value={weight}
-                onChange={(e) => setWeight(e.target.value)}
-                placeholder="0"
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="reps">Reps</Label>
-              <Input
-                id="reps"
-                type="number"
-                value={reps}
-                onChange={(e) => setReps(e.target.value)}
-                placeholder="0"
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="rir">RIR</Label>
-              <Select value={rir} onValueChange={setRir}>
-                <SelectTrigger id="rir">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="0">0 - Failure</SelectItem>
-                  <SelectItem value="1">1</SelectItem>
-                  <SelectItem value="2">2</SelectItem>
-                  <SelectItem value="3">3</SelectItem>
-                  <SelectItem value="4">4</SelectItem>
-                  <SelectItem value="5">5+</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+      <div>
+        <h3 className="font-semibold mb-3">
+          {setsRemaining > 0 ? `Log Set ${setsCompleted + 1}` : 'Log Extra Set'}
+        </h3>
+        <div className="space-y-2 mb-4">
+          <Label htmlFor="set-type">Set Type</Label>
+          <Select value={setType} onValueChange={(v) => setSetType(v as SetType)}>
+            <SelectTrigger id="set-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SET_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{SET_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-3 gap-4 mb-4">
+          <div className="space-y-2">
+            <Label htmlFor="weight">Weight ({weightUnit})</Label>
+            <Input
+              id="weight"
+              type="number"
+              step="0.5"
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              placeholder="0"
+            />
           </div>
           
-          <Button onClick={onLogSet} className="w-full" size="lg">
+          <div className="space-y-2">
+            <Label htmlFor="reps">Reps</Label>
+            <Input
+              id="reps"
+              type="number"
+              value={reps}
+              onChange={(e) => setReps(e.target.value)}
+              placeholder="0"
+            />
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="rir">RIR</Label>
+            <Select value={rir} onValueChange={setRir}>
+              <SelectTrigger id="rir">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">0 - Failure</SelectItem>
+                <SelectItem value="1">1</SelectItem>
+                <SelectItem value="2">2</SelectItem>
+                <SelectItem value="3">3</SelectItem>
+                <SelectItem value="4">4</SelectItem>
+                <SelectItem value="5">5+</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <PlateLoadout
+          weight={weight}
+          unit={weightUnit}
+          exercise={exercise}
+          profile={equipmentProfile}
+          onUseWeight={(loadable) => setWeight(loadable.toString())}
+        />
+        
+        <div className="flex gap-2">
+          {setStartedAt ? (
+            <div className="flex items-center gap-2 px-4 rounded-md border border-primary/40 text-sm text-primary">
+              <Timer className="w-4 h-4" />
+              <ElapsedTime since={setStartedAt} />
+            </div>
+          ) : (
+            <Button onClick={onStartSet} variant="outline" size="lg">
+              <Play className="w-4 h-4 mr-2" />
+              Start Set
+            </Button>
+          )}
+          <Button onClick={onLogSet} className="flex-1" size="lg">
             <Plus className="w-4 h-4 mr-2" />
-            Log Set
+            Log {SET_TYPE_LABELS[setType as SetType]} Set
           </Button>
         </div>
-      )}
+      </div>
+    </div>
+  );
+}
 
-      {setsRemaining === 0 && (
-        <div className="text-center py-4 bg-green-500/10 border border-green-500/20 rounded-lg">
-          <Check className="w-8 h-8 mx-auto text-green-500 mb-2" />
-          <p className="font-semibold text-green-500">All sets completed!</p>
+function useNow(isTicking: boolean) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!isTicking) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isTicking]);
+  return now;
+}
+
+function SessionClock({ session }: { session: WorkoutSessionRecord }) {
+  const paused = isSessionPaused(session);
+  const now = useNow(!paused);
+  const elapsed = getSessionDurationSeconds(session, paused ? session.pauses!.at(-1)!.started_at : now) ?? 0;
+
+  return (
+    <p className="text-sm text-muted-foreground mt-2 flex items-center gap-2">
+      <Timer className="w-4 h-4" />
+      {formatDuration(elapsed)}
+      {paused && <Badge variant="secondary">Paused</Badge>}
+    </p>
+  );
+}
+
+function ElapsedTime({ since }: { since: Date }) {
+  const now = useNow(true);
+  return <>{formatDuration(Math.max(0, (now.getTime() - since.getTime()) / 1000))}</>;
+}
+
+function GroupMemberName({ exerciseId }: { exerciseId: number }) {
+  const exercise = useExercise(exerciseId);
+  return <>{exercise?.name ?? '...'}</>;
+}
+
+function LoggedSetRow({
+  log,
+  weightUnit,
+  records = [],
+  isChild = false,
+}: {
+  log: Log;
+  weightUnit: WeightUnit;
+  records?: PersonalRecord[];
+  isChild?: boolean;
+}) {
+  const setType = getSetType(log);
+  const e1rm = getLogE1RM(log, weightUnit);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editWeight, setEditWeight] = useState('');
+  const [editReps, setEditReps] = useState('');
+  const [editRir, setEditRir] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+
+  const startEditing = () => {
+    setEditWeight(parseFloat(getLogWeight(log, weightUnit).toFixed(2)).toString());
+    setEditReps(log.reps.toString());
+    setEditRir(log.rir.toString());
+    setEditNotes(log.notes || '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const weightNum = parseFloat(editWeight);
+    const repsNum = parseInt(editReps);
+    const rirNum = parseInt(editRir);
+
+    if (isNaN(weightNum) || isNaN(repsNum) || isNaN(rirNum)) {
+      toast.error('Please enter valid numbers');
+      return;
+    }
+
+    try {
+      // Edited weight is in the display unit; e1RM is recalculated on update
+      await logOperations.update(log.id!, {
+        weight: weightNum,
+        weight_unit: weightUnit,
+        reps: repsNum,
+        rir: rirNum,
+        notes: editNotes.trim() || undefined,
+      });
+      toast.success('Set updated');
+      setIsEditing(false);
+    } catch (error) {
+      toast.error('Failed to update set');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    const label = isChild ? SET_TYPE_LABELS[setType].toLowerCase() : `set ${log.set_number}`;
+    const extra = !isChild && setType === 'working' ? ' Any drop sets or myo-reps attached to it are deleted too.' : '';
+    if (!confirm(`Delete ${label}?${extra}`)) return;
+
+    try {
+      await logOperations.delete(log.id!);
+      toast.success('Set deleted');
+    } catch (error) {
+      toast.error('Failed to delete set');
+      console.error(error);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className={`p-3 bg-background rounded-lg space-y-3 ${isChild ? 'ml-6 border-l-2 border-primary/40' : ''}`}>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`edit-weight-${log.id}`} className="text-xs">Weight ({weightUnit})</Label>
+            <Input
+              id={`edit-weight-${log.id}`}
+              type="number"
+              step="0.5"
+              value={editWeight}
+              onChange={(e) => setEditWeight(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`edit-reps-${log.id}`} className="text-xs">Reps</Label>
+            <Input
+              id={`edit-reps-${log.id}`}
+              type="number"
+              value={editReps}
+              onChange={(e) => setEditReps(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`edit-rir-${log.id}`} className="text-xs">RIR</Label>
+            <Select value={editRir} onValueChange={setEditRir}>
+              <SelectTrigger id={`edit-rir-${log.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">0 - Failure</SelectItem>
+                <SelectItem value="1">1</SelectItem>
+                <SelectItem value="2">2</SelectItem>
+                <SelectItem value="3">3</SelectItem>
+                <SelectItem value="4">4</SelectItem>
+                <SelectItem value="5">5+</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Input
+          value={editNotes}
+          onChange={(e) => setEditNotes(e.target.value)}
+          placeholder="Notes (optional)"
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`p-3 bg-background rounded-lg ${
+        isChild ? 'ml-6 border-l-2 border-primary/40' : ''
+      } ${setType === 'warmup' ? 'opacity-70' : ''}`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">
+            {isChild ? SET_TYPE_LABELS[setType] : `Set ${log.set_number}`}
+          </span>
+          {!isChild && setType !== 'working' && (
+            <Badge variant="secondary" className="text-xs">{SET_TYPE_LABELS[setType]}</Badge>
+          )}
+          {records.length > 0 && (
+            <Badge
+              className="text-xs bg-yellow-500/10 text-yellow-500 border-yellow-500/20"
+              variant="outline"
+              title={records.map(describeRecord).join(', ')}
+            >
+              <Trophy className="w-3 h-3 mr-1" />
+              PR
+            </Badge>
+          )}
         </div>
+        <div className="flex items-center gap-4 text-sm">
+          <span>{formatWeight(getLogWeight(log, weightUnit), weightUnit)} × {log.reps} reps</span>
+          <Badge variant="outline">RIR {log.rir}</Badge>
+          {e1rm && setType === 'working' && (
+            <span className="text-muted-foreground">e1RM: {formatWeight(e1rm, weightUnit)}</span>
+          )}
+          <div className="flex items-center">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={startEditing}>
+              <Pencil className="w-3.5 h-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleDelete}>
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        </div>
+      </div>
+      {log.notes && (
+        <p className="text-xs text-muted-foreground mt-1">{log.notes}</p>
       )}
     </div>
   );
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AccountStore } from "./accounts";
+
+let dir: string;
+let accounts: AccountStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "accounts-"));
+  accounts = new AccountStore(path.join(dir, "accounts.json"));
+  await accounts.load();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("Account Store", () => {
+  it("should give a username to only one of two sign-ups at once", async () => {
+    const results = await Promise.all([
+      accounts.createUser("lifter", "first password"),
+      accounts.createUser("lifter", "second password"),
+    ]);
+
+    expect(results).toContainEqual({ error: "taken" });
+    expect(accounts.userCount).toBe(1);
+  });
+
+  it("should make only one of two sign-ups at once the first account", async () => {
+    const results = await Promise.all([
+      accounts.createUser("first", "first password", { allowSignup: false }),
+      accounts.createUser("second", "second password", { allowSignup: false }),
+    ]);
+
+    expect(results.filter(result => "user" in result && result.isFirst)).toHaveLength(1);
+    expect(results).toContainEqual({ error: "closed" });
+    expect(accounts.userCount).toBe(1);
+  });
+
+  it("should only let the first of two open sign-ups claim unowned data", async () => {
+    const results = await Promise.all([
+      accounts.createUser("first", "first password"),
+      accounts.createUser("second", "second password"),
+    ]);
+
+    expect(results.every(result => "user" in result)).toBe(true);
+    expect(results.filter(result => "user" in result && result.isFirst)).toHaveLength(1);
+  });
+
+  it("should sign in with the password the account was created with", async () => {
+    const created = await accounts.createUser("lifter", "correct horse");
+
+    expect(await accounts.authenticate("lifter", "correct horse")).toEqual("user" in created ? created.user : undefined);
+    expect(await accounts.authenticate("lifter", "wrong horse")).toBeUndefined();
+    expect(await accounts.authenticate("nobody", "correct horse")).toBeUndefined();
+  });
+});
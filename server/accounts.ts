@@ -0,0 +1,183 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ONE_YEAR_MS } from "@shared/const";
+import { API_TOKEN_PREFIX, type AccountUser, type ApiTokenInfo, type CreatedApiToken } from "@shared/auth";
+import { JsonFile } from "./jsonFile";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+interface Account extends AccountUser {
+  password_hash: string; // scrypt:<salt>:<hash>, base64
+}
+
+interface Session {
+  token_hash: string;
+  user_id: string;
+  expires_at: number;
+}
+
+interface ApiToken extends ApiTokenInfo {
+  user_id: string;
+  token_hash: string;
+}
+
+interface AccountData {
+  users: Account[];
+  sessions: Session[];
+  tokens: ApiToken[];
+}
+
+export type SignupResult =
+  | { user: AccountUser; isFirst: boolean }
+  | { error: "taken" | "closed" };
+
+const SESSION_LENGTH_MS = ONE_YEAR_MS;
+const KEY_LENGTH = 64;
+// last_used_at is only saved when it's at least this stale
+const TOKEN_USE_RESOLUTION_MS = 60 * 60 * 1000;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [, salt, hash] = stored.split(":");
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Session and API tokens are random, so a plain hash keeps them safe at rest
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const toUser = ({ id, username, created_at }: Account): AccountUser => ({ id, username, created_at });
+const toTokenInfo = ({ id, name, created_at, last_used_at }: ApiToken): ApiTokenInfo => ({ id, name, created_at, last_used_at });
+
+/**
+ * Accounts with hashed passwords, their sign-in sessions and API tokens,
+ * kept in one JSON file
+ */
+export class AccountStore {
+  private file: JsonFile<AccountData>;
+  // Compared against when a username doesn't exist, so a failed sign-in
+  // takes as long either way
+  private dummyHash = hashPassword(randomUUID());
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<AccountData>(filePath, { users: [], sessions: [], tokens: [] });
+  }
+
+  async load() {
+    await this.file.load();
+    const now = Date.now();
+    this.file.data.sessions = this.file.data.sessions.filter(session => session.expires_at > now);
+  }
+
+  private get data() {
+    return this.file.data;
+  }
+
+  get userCount() {
+    return this.data.users.length;
+  }
+
+  /**
+   * Create an account unless the username is taken, or sign-up is closed
+   * and this wouldn't be the first account. Both are decided in the same
+   * synchronous step that adds the account, after the password is hashed,
+   * so sign-ups arriving together can't both pass or both be first.
+   */
+  async createUser(username: string, password: string, { allowSignup = true } = {}): Promise<SignupResult> {
+    const check = (): SignupResult | undefined => {
+      if (!allowSignup && this.data.users.length > 0) return { error: "closed" };
+      if (this.data.users.some(user => user.username === username)) return { error: "taken" };
+      return undefined;
+    };
+    const early = check();
+    if (early) return early;
+
+    const passwordHash = await hashPassword(password);
+    const rejected = check();
+    if (rejected) return rejected;
+    const isFirst = this.data.users.length === 0;
+    const account: Account = { id: randomUUID(), username, password_hash: passwordHash, created_at: Date.now() };
+    this.data.users.push(account);
+    await this.file.save();
+    return { user: toUser(account), isFirst };
+  }
+
+  async authenticate(username: string, password: string): Promise<AccountUser | undefined> {
+    const account = this.data.users.find(user => user.username === username);
+    const valid = await verifyPassword(password, account?.password_hash ?? await this.dummyHash);
+    return account && valid ? toUser(account) : undefined;
+  }
+
+  async changePassword(userId: string, password: string) {
+    const account = this.data.users.find(user => user.id === userId);
+    if (!account) return;
+    account.password_hash = await hashPassword(password);
+    // Other devices have to sign in again
+    this.data.sessions = this.data.sessions.filter(session => session.user_id !== userId);
+    await this.file.save();
+  }
+
+  async createSession(userId: string): Promise<{ token: string; expires_at: number }> {
+    const token = randomBytes(32).toString("base64url");
+    const session: Session = { token_hash: hashToken(token), user_id: userId, expires_at: Date.now() + SESSION_LENGTH_MS };
+    this.data.sessions.push(session);
+    await this.file.save();
+    return { token, expires_at: session.expires_at };
+  }
+
+  userForSession(token: string): AccountUser | undefined {
+    const tokenHash = hashToken(token);
+    const session = this.data.sessions.find(s => s.token_hash === tokenHash && s.expires_at > Date.now());
+    return session && this.findUser(session.user_id);
+  }
+
+  async deleteSession(token: string) {
+    const tokenHash = hashToken(token);
+    this.data.sessions = this.data.sessions.filter(session => session.token_hash !== tokenHash);
+    await this.file.save();
+  }
+
+  async createToken(userId: string, name: string): Promise<CreatedApiToken> {
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiToken: ApiToken = { id: randomUUID(), user_id: userId, name, token_hash: hashToken(token), created_at: Date.now() };
+    this.data.tokens.push(apiToken);
+    await this.file.save();
+    return { ...toTokenInfo(apiToken), token };
+  }
+
+  listTokens(userId: string): ApiTokenInfo[] {
+    return this.data.tokens.filter(token => token.user_id === userId).map(toTokenInfo);
+  }
+
+  async deleteToken(userId: string, tokenId: string): Promise<boolean> {
+    const count = this.data.tokens.length;
+    this.data.tokens = this.data.tokens.filter(token => token.user_id !== userId || token.id !== tokenId);
+    if (this.data.tokens.length === count) return false;
+    await this.file.save();
+    return true;
+  }
+
+  async userForToken(token: string): Promise<AccountUser | undefined> {
+    const tokenHash = hashToken(token);
+    const apiToken = this.data.tokens.find(t => t.token_hash === tokenHash);
+    if (!apiToken) return undefined;
+
+    const now = Date.now();
+    if (now - (apiToken.last_used_at ?? 0) > TOKEN_USE_RESOLUTION_MS) {
+      apiToken.last_used_at = now;
+      await this.file.save();
+    }
+    return this.findUser(apiToken.user_id);
+  }
+
+  private findUser(userId: string): AccountUser | undefined {
+    const account = this.data.users.find(user => user.id === userId);
+    return account && toUser(account);
+  }
+}
@@ -0,0 +1,157 @@
+import express, { type Request, type Response } from "express";
+import { z } from "zod";
+import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { API_TOKEN_PREFIX, MIN_PASSWORD_LENGTH, USERNAME_PATTERN, type AccountUser } from "@shared/auth";
+import type { AccountStore } from "./accounts";
+import type { SyncStore } from "./store";
+import { asyncMiddleware, asyncRoute, errorHandler, HttpError, parseBody } from "./http";
+
+const username = z.string().trim().toLowerCase().regex(USERNAME_PATTERN, {
+  message: "Use 3-32 lowercase letters, digits, dots, dashes or underscores",
+});
+const password = z.string().min(MIN_PASSWORD_LENGTH, {
+  message: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+});
+
+const signupSchema = z.object({ username, password });
+
+// Rules for new accounts aren't applied to existing ones
+const loginSchema = z.object({
+  username: z.string().trim().toLowerCase(),
+  password: z.string(),
+});
+
+const passwordChangeSchema = z.object({
+  current_password: z.string(),
+  new_password: password,
+});
+
+const tokenSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+function setSessionCookie(req: Request, res: Response, token: string) {
+  res.cookie(COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.secure,
+    maxAge: ONE_YEAR_MS,
+    path: "/",
+  });
+}
+
+/**
+ * The signed-in account, set by `authenticate`
+ */
+export function currentUser(res: Response): AccountUser {
+  return res.locals.user;
+}
+
+/**
+ * Sign requests in from the session cookie, or from an API token sent
+ * as `Authorization: Bearer hos_...`; anything else gets a 401
+ */
+export function authenticate(accounts: AccountStore) {
+  return asyncMiddleware(async (req, res) => {
+    const bearer = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    const session = readCookie(req, COOKIE_NAME);
+    const user = bearer?.startsWith(API_TOKEN_PREFIX)
+      ? await accounts.userForToken(bearer)
+      : session ? accounts.userForSession(session) : undefined;
+
+    if (!user) throw new HttpError(401, "Sign in to continue");
+    res.locals.user = user;
+  });
+}
+
+/**
+ * Account sign-up, sign-in and API tokens. Anyone can sign up unless
+ * ALLOW_SIGNUP is "false"; the first account can always be created.
+ * Records synced before accounts existed go to the first account.
+ */
+export function createAuthRouter(accounts: AccountStore, store: SyncStore) {
+  const router = express.Router();
+  const requireUser = authenticate(accounts);
+  router.use(express.json());
+
+  router.post("/signup", asyncRoute(async (req, res) => {
+    const credentials = parseBody(signupSchema, req.body);
+    const result = await accounts.createUser(credentials.username, credentials.password, {
+      allowSignup: process.env.ALLOW_SIGNUP !== "false",
+    });
+    if ("error" in result) {
+      throw result.error === "closed"
+        ? new HttpError(403, "Sign-up is closed on this server")
+        : new HttpError(409, "That username is taken");
+    }
+    const { user } = result;
+    if (result.isFirst) await store.claimUnowned(user.id);
+
+    const { token } = await accounts.createSession(user.id);
+    setSessionCookie(req, res, token);
+    res.status(201).json({ user });
+  }));
+
+  router.post("/login", asyncRoute(async (req, res) => {
+    const credentials = parseBody(loginSchema, req.body);
+    const user = await accounts.authenticate(credentials.username, credentials.password);
+    if (!user) throw new HttpError(401, "Wrong username or password");
+
+    const { token } = await accounts.createSession(user.id);
+    setSessionCookie(req, res, token);
+    res.json({ user });
+  }));
+
+  router.post("/logout", asyncRoute(async (req, res) => {
+    const session = readCookie(req, COOKIE_NAME);
+    if (session) await accounts.deleteSession(session);
+    res.clearCookie(COOKIE_NAME, { path: "/" });
+    res.status(204).end();
+  }));
+
+  router.get("/me", requireUser, (_req, res) => {
+    res.json({ user: currentUser(res) });
+  });
+
+  router.post("/password", requireUser, asyncRoute(async (req, res) => {
+    const body = parseBody(passwordChangeSchema, req.body);
+    const user = currentUser(res);
+    if (!(await accounts.authenticate(user.username, body.current_password))) {
+      throw new HttpError(401, "Current password is wrong");
+    }
+
+    // Every session ends; this one gets a new one
+    await accounts.changePassword(user.id, body.new_password);
+    const { token } = await accounts.createSession(user.id);
+    setSessionCookie(req, res, token);
+    res.status(204).end();
+  }));
+
+  router.get("/tokens", requireUser, (_req, res) => {
+    res.json({ tokens: accounts.listTokens(currentUser(res).id) });
+  });
+
+  router.post("/tokens", requireUser, asyncRoute(async (req, res) => {
+    const { name } = parseBody(tokenSchema, req.body);
+    res.status(201).json(await accounts.createToken(currentUser(res).id, name));
+  }));
+
+  router.delete("/tokens/:id", requireUser, asyncRoute(async (req, res) => {
+    if (!(await accounts.deleteToken(currentUser(res).id, req.params.id))) {
+      throw new HttpError(404, "Token not found");
+    }
+    res.status(204).end();
+  }));
+
+  router.use(errorHandler);
+
+  return router;
+}
@@ -0,0 +1,48 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Express 4 doesn't pass rejected promises on to the error handler
+export function asyncRoute(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+export function asyncMiddleware(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).then(() => next(), next);
+  };
+}
+
+export function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HttpError(400, issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+  }
+  return result.data;
+}
+
+/**
+ * Errors as JSON `{ error }` responses
+ */
+export function errorHandler(error: unknown, _req: Request, res: Response, _next: NextFunction) {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  // Body parser errors (malformed JSON, body too large) carry their status
+  const status = (error as { status?: number }).status;
+  if (status && status < 500) {
+    res.status(status).json({ error: (error as Error).message });
+    return;
+  }
+  console.error(error);
+  res.status(500).json({ error: "Internal server error" });
+}
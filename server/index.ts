@@ -2,6 +2,10 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { AccountStore } from "./accounts";
+import { createAuthRouter } from "./auth";
+import { SyncStore } from "./store";
+import { createSyncRouter } from "./sync";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -10,6 +14,17 @@ async function startServer() {
   const app = express();
   const server = createServer(app);
 
+  const dataDir = process.env.DATA_DIR || path.resolve(process.cwd(), "data");
+  const store = new SyncStore(process.env.SYNC_DATA_PATH || path.join(dataDir, "sync.json"));
+  const accounts = new AccountStore(path.join(dataDir, "accounts.json"));
+  await Promise.all([store.load(), accounts.load()]);
+
+  app.use("/api/auth", createAuthRouter(accounts, store));
+  app.use("/api", createSyncRouter(store, accounts));
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+
   // Serve static files from dist/public in production
   const staticPath =
     process.env.NODE_ENV === "production"
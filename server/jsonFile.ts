@@ -0,0 +1,36 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Data kept in memory and saved as one JSON file. Each save goes to a
+ * temporary file that then replaces the old one, so a crash never leaves
+ * a half-written file behind.
+ */
+export class JsonFile<T> {
+  data: T;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string, initial: T) {
+    this.data = initial;
+  }
+
+  async load() {
+    try {
+      this.data = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  save(): Promise<void> {
+    const contents = JSON.stringify(this.data);
+    // Writes are queued so an older state never lands after a newer one
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, contents);
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writing;
+  }
+}
@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { SyncChange } from "@shared/sync";
+import { SyncStore } from "./store";
+
+const change = (overrides: Partial<SyncChange> = {}): SyncChange => ({
+  table: "logs",
+  id: "log-1",
+  data: { reps: 8 },
+  deleted: false,
+  modified_at: 1000,
+  ...overrides,
+});
+
+let dir: string;
+let store: SyncStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "sync-store-"));
+  store = new SyncStore(path.join(dir, "sync.json"));
+  await store.load();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("Sync Store Push", () => {
+  it("should accept changes made on the current revision", async () => {
+    const first = await store.push("user", [change()]);
+    const second = await store.push("user", [change({ data: { reps: 10 }, modified_at: 500, base_revision: 1 })]);
+
+    expect(first).toMatchObject({ accepted: [{ id: "log-1", revision: 1 }], conflicts: [], cursor: 1 });
+    expect(second.conflicts).toEqual([]);
+    expect(store.get("user", "logs", "log-1")).toMatchObject({ data: { reps: 10 }, modified_at: 500, revision: 2 });
+  });
+
+  it("should let the later modification win a conflict", async () => {
+    await store.push("user", [change()]);
+    await store.push("user", [change({ data: { reps: 9 }, modified_at: 2000, base_revision: 1 })]);
+
+    const stale = await store.push("user", [change({ data: { reps: 7 }, modified_at: 1500, base_revision: 1 })]);
+    expect(stale.accepted).toEqual([]);
+    expect(stale.conflicts).toMatchObject([{ resolution: "server", current: { data: { reps: 9 }, revision: 2 } }]);
+
+    const newer = await store.push("user", [change({ data: { reps: 11 }, modified_at: 3000, base_revision: 1 })]);
+    expect(newer.accepted).toMatchObject([{ data: { reps: 11 }, revision: 3 }]);
+    expect(newer.conflicts).toMatchObject([{ resolution: "client" }]);
+  });
+
+  it("should treat creating a record that exists as a conflict", async () => {
+    await store.push("user", [change()]);
+
+    const { accepted, conflicts } = await store.push("user", [change({ data: { reps: 12 }, modified_at: 900 })]);
+    expect(accepted).toEqual([]);
+    expect(conflicts).toMatchObject([{ resolution: "server" }]);
+  });
+
+  it("should keep tombstones for pulls but not list them", async () => {
+    await store.push("user", [change(), change({ id: "log-2" })]);
+    await store.push("user", [change({ data: { reps: 99 }, deleted: true, modified_at: 2000, base_revision: 1 })]);
+
+    expect(store.list("user", "logs").map(record => record.id)).toEqual(["log-2"]);
+    expect(store.get("user", "logs", "log-1")).toMatchObject({ deleted: true, data: undefined, revision: 3 });
+    expect(store.changes("user", 2, 100).changes).toMatchObject([{ id: "log-1", deleted: true }]);
+  });
+
+  it("should keep every account's records apart", async () => {
+    await store.push("user", [change()]);
+    await store.push("other", [change({ data: { reps: 5 } })]);
+
+    expect(store.get("user", "logs", "log-1")?.data).toEqual({ reps: 8 });
+    expect(store.changes("other", 0, 100).changes).toMatchObject([{ data: { reps: 5 }, revision: 2 }]);
+  });
+
+  it("should store records whose ids match object properties", async () => {
+    await store.push("user", [change({ id: "__proto__" }), change({ id: "constructor" })]);
+
+    expect(store.get("user", "logs", "__proto__")).toMatchObject({ id: "__proto__", revision: 1 });
+    expect(store.get("user", "exercises", "constructor")).toBeUndefined();
+    expect(store.list("user", "logs").map(record => record.id)).toEqual(["__proto__", "constructor"]);
+
+    const reloaded = new SyncStore(path.join(dir, "sync.json"));
+    await reloaded.load();
+    expect(reloaded.get("user", "logs", "__proto__")).toMatchObject({ id: "__proto__", revision: 1 });
+  });
+});
+
+describe("Sync Store Changes", () => {
+  it("should page through changes oldest first", async () => {
+    await store.push("user", [change({ id: "a" }), change({ id: "b" }), change({ id: "c" })]);
+
+    const first = store.changes("user", 0, 2);
+    expect(first).toMatchObject({ cursor: 2, has_more: true });
+    expect(first.changes.map(record => record.id)).toEqual(["a", "b"]);
+
+    expect(store.changes("user", first.cursor, 2)).toMatchObject({ changes: [{ id: "c" }], cursor: 3, has_more: false });
+  });
+
+  it("should give records synced before accounts existed to the claiming account", async () => {
+    const filePath = path.join(dir, "legacy.json");
+    const legacy = { revision: 1, records: { logs: { "log-1": { ...change(), revision: 1, updated_at: 1000 } } } };
+    await fs.writeFile(filePath, JSON.stringify(legacy));
+    const legacyStore = new SyncStore(filePath);
+    await legacyStore.load();
+
+    await legacyStore.claimUnowned("user");
+    expect(legacyStore.get("user", "logs", "log-1")).toMatchObject({ revision: 1 });
+  });
+});
@@ -0,0 +1,128 @@
+import type {
+  PullResponse,
+  PushResponse,
+  SyncChange,
+  SyncConflict,
+  SyncRecord,
+  SyncTable,
+} from "@shared/sync";
+import { JsonFile } from "./jsonFile";
+
+type RecordMap = Record<string, SyncRecord>;
+type UserRecords = Partial<Record<SyncTable, RecordMap>>;
+
+interface StoreData {
+  revision: number;
+  users: Record<string, UserRecords>;
+  records?: UserRecords; // Synced before accounts existed, until an account claims them
+}
+
+// Records are keyed by client-chosen ids, so the maps have no prototype
+// for an id like "__proto__" or "constructor" to collide with
+const createRecordMap = (records: RecordMap = {}): RecordMap => Object.assign(Object.create(null), records);
+
+function toRecordMaps(records: UserRecords): UserRecords {
+  return Object.fromEntries(Object.entries(records).map(([table, map]) => [table, createRecordMap(map)]));
+}
+
+/**
+ * Synced records of every account, kept in one JSON file. Each account
+ * only ever sees its own records; revisions are counted across all
+ * accounts, so a pull may skip numbers.
+ */
+export class SyncStore {
+  private file: JsonFile<StoreData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<StoreData>(filePath, { revision: 0, users: {} });
+  }
+
+  async load() {
+    await this.file.load();
+    const data = this.file.data;
+    data.users = Object.fromEntries(Object.entries(data.users ?? {}).map(([userId, records]) => [userId, toRecordMaps(records)]));
+    if (data.records) data.records = toRecordMaps(data.records);
+  }
+
+  private get data() {
+    return this.file.data;
+  }
+
+  get revision() {
+    return this.data.revision;
+  }
+
+  /**
+   * Give records synced before accounts existed to `userId`
+   */
+  async claimUnowned(userId: string) {
+    if (!this.data.records) return;
+    this.data.users[userId] = this.data.records;
+    delete this.data.records;
+    await this.file.save();
+  }
+
+  /**
+   * Records changed after revision `since`, oldest first
+   */
+  changes(userId: string, since: number, limit: number): PullResponse {
+    const changed = Object.values(this.data.users[userId] ?? {})
+      .flatMap(table => Object.values(table ?? {}))
+      .filter(record => record.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    const page = changed.slice(0, limit);
+    const hasMore = changed.length > limit;
+
+    return {
+      changes: page,
+      cursor: hasMore ? page[page.length - 1].revision : this.data.revision,
+      has_more: hasMore,
+    };
+  }
+
+  list(userId: string, table: SyncTable): SyncRecord[] {
+    return Object.values(this.data.users[userId]?.[table] ?? {}).filter(record => !record.deleted);
+  }
+
+  get(userId: string, table: SyncTable, id: string): SyncRecord | undefined {
+    return this.data.users[userId]?.[table]?.[id];
+  }
+
+  /**
+   * Apply changes in order. A change made on an older revision than the
+   * stored one (or creating a record that already exists) conflicts, and
+   * the later modification wins.
+   */
+  async push(userId: string, changes: SyncChange[]): Promise<PushResponse> {
+    const accepted: SyncRecord[] = [];
+    const conflicts: SyncConflict[] = [];
+    const records = (this.data.users[userId] ??= {});
+    const now = Date.now();
+
+    for (const change of changes) {
+      const table = (records[change.table] ??= createRecordMap());
+      const current = table[change.id];
+
+      if (current && (change.base_revision === undefined || change.base_revision < current.revision)) {
+        const clientWins = change.modified_at > current.modified_at;
+        conflicts.push({ change, current, resolution: clientWins ? "client" : "server" });
+        if (!clientWins) continue;
+      }
+
+      const record: SyncRecord = {
+        table: change.table,
+        id: change.id,
+        data: change.deleted ? undefined : change.data,
+        deleted: change.deleted,
+        modified_at: change.modified_at,
+        revision: ++this.data.revision,
+        updated_at: now,
+      };
+      table[change.id] = record;
+      accepted.push(record);
+    }
+
+    if (accepted.length > 0) await this.file.save();
+    return { accepted, conflicts, cursor: this.data.revision };
+  }
+}
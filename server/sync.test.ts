@@ -0,0 +1,142 @@
+import express from "express";
+import { promises as fs } from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { COOKIE_NAME } from "@shared/const";
+import type { SyncChange } from "@shared/sync";
+import { AccountStore } from "./accounts";
+import { SyncStore } from "./store";
+import { createSyncRouter } from "./sync";
+
+const change = (overrides: Partial<SyncChange> = {}): SyncChange => ({
+  table: "logs",
+  id: "log-1",
+  data: { reps: 8 },
+  deleted: false,
+  modified_at: 1000,
+  ...overrides,
+});
+
+let dir: string;
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "sync-routes-"));
+  const store = new SyncStore(path.join(dir, "sync.json"));
+  const accounts = new AccountStore(path.join(dir, "accounts.json"));
+  await Promise.all([store.load(), accounts.load()]);
+
+  const created = await accounts.createUser("lifter", "correct horse");
+  if ("error" in created) throw new Error(created.error);
+  const { user } = created;
+  cookie = `${COOKIE_NAME}=${(await accounts.createSession(user.id)).token}`;
+
+  const app = express();
+  app.use("/api", createSyncRouter(store, accounts));
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+function request(pathname: string, init: RequestInit = {}) {
+  return fetch(`${baseUrl}${pathname}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Cookie: cookie, ...init.headers },
+  });
+}
+
+const push = (changes: SyncChange[]) => request("/sync/push", { method: "POST", body: JSON.stringify({ changes }) });
+
+describe("Sync Routes", () => {
+  it("should push changes and pull them back", async () => {
+    const pushed = await push([change(), change({ id: "log-2" })]);
+    expect(pushed.status).toBe(200);
+    expect(await pushed.json()).toMatchObject({ accepted: [{ revision: 1 }, { revision: 2 }], conflicts: [], cursor: 2 });
+
+    const page = await request("/sync/changes?since=1&limit=10");
+    expect(await page.json()).toMatchObject({ changes: [{ id: "log-2", revision: 2 }], cursor: 2, has_more: false });
+  });
+
+  it("should report conflicts with their resolution", async () => {
+    await push([change()]);
+    await push([change({ data: { reps: 9 }, modified_at: 2000, base_revision: 1 })]);
+
+    const response = await push([change({ data: { reps: 7 }, modified_at: 1500, base_revision: 1 })]);
+    expect(await response.json()).toMatchObject({
+      accepted: [],
+      conflicts: [{ resolution: "server", current: { data: { reps: 9 }, revision: 2 } }],
+    });
+  });
+
+  it("should reject malformed changes", async () => {
+    const response = await push([change({ data: undefined })]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "changes.0: Changes that don't delete a record need data" });
+  });
+
+  it("should reject invalid revision numbers", async () => {
+    expect((await request("/sync/changes?since=-1")).status).toBe(400);
+  });
+
+  it("should require signing in", async () => {
+    const response = await request("/sync/changes", { headers: { Cookie: "" } });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "Sign in to continue" });
+  });
+
+  it("should leave unknown paths to the 404 handler", async () => {
+    const response = await request("/nope", { headers: { Cookie: "" } });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Not found" });
+  });
+});
+
+describe("Table Routes", () => {
+  it("should list, read, write and delete records", async () => {
+    const written = await request("/tables/logs/log-1", { method: "PUT", body: JSON.stringify({ data: { reps: 8 } }) });
+    expect(written.status).toBe(200);
+    expect(await written.json()).toMatchObject({ id: "log-1", revision: 1 });
+
+    expect(await (await request("/tables/logs")).json()).toMatchObject({ records: [{ id: "log-1" }], revision: 1 });
+    expect(await (await request("/tables/logs/log-1")).json()).toMatchObject({ data: { reps: 8 } });
+
+    expect((await request("/tables/logs/log-1", { method: "DELETE" })).status).toBe(204);
+    expect((await request("/tables/logs/log-1")).status).toBe(404);
+    expect(await (await request("/tables/logs")).json()).toMatchObject({ records: [], revision: 2 });
+  });
+
+  it("should refuse writes based on an outdated revision", async () => {
+    await request("/tables/logs/log-1", { method: "PUT", body: JSON.stringify({ data: { reps: 8 }, modified_at: 2000 }) });
+    await request("/tables/logs/log-1", { method: "PUT", body: JSON.stringify({ data: { reps: 9 }, modified_at: 3000 }) });
+
+    const stale = await request("/tables/logs/log-1", {
+      method: "PUT",
+      body: JSON.stringify({ data: { reps: 7 }, base_revision: 1, modified_at: 2500 }),
+    });
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toMatchObject({ conflict: { resolution: "server", current: { revision: 2 } } });
+  });
+
+  it("should answer unknown tables and records with 404", async () => {
+    expect((await request("/tables/nope")).status).toBe(404);
+    expect((await request("/tables/logs/missing")).status).toBe(404);
+    expect((await request("/tables/logs/missing", { method: "DELETE" })).status).toBe(404);
+  });
+});
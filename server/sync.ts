@@ -0,0 +1,120 @@
+import express from "express";
+import { z } from "zod";
+import { SYNC_PAGE_SIZE, SYNC_TABLES, isSyncTable, type SyncTable } from "@shared/sync";
+import type { AccountStore } from "./accounts";
+import type { SyncStore } from "./store";
+import { authenticate, currentUser } from "./auth";
+import { asyncRoute, errorHandler, HttpError, parseBody } from "./http";
+
+const changeSchema = z.object({
+  table: z.enum(SYNC_TABLES),
+  id: z.string().min(1),
+  data: z.record(z.string(), z.unknown()).optional(),
+  deleted: z.boolean(),
+  modified_at: z.number(),
+  base_revision: z.number().int().nonnegative().optional(),
+}).refine(change => change.deleted || change.data !== undefined, {
+  message: "Changes that don't delete a record need data",
+});
+
+const pushSchema = z.object({
+  changes: z.array(changeSchema),
+});
+
+const putSchema = z.object({
+  data: z.record(z.string(), z.unknown()),
+  base_revision: z.number().int().nonnegative().optional(),
+  modified_at: z.number().optional(),
+});
+
+// Pull pages never grow past this, whatever the client asks for
+const MAX_PAGE_SIZE = 5000;
+
+function parseTable(value: string): SyncTable {
+  if (!isSyncTable(value)) throw new HttpError(404, `Unknown table "${value}"`);
+  return value;
+}
+
+function parseRevision(value: unknown, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const revision = Number(value);
+  if (!Number.isInteger(revision) || revision < 0) throw new HttpError(400, `${name} must be a revision number`);
+  return revision;
+}
+
+/**
+ * REST API over the signed-in account's records, documented in
+ * server/README.md. Sync clients use /sync; /tables reads and writes
+ * single records.
+ */
+export function createSyncRouter(store: SyncStore, accounts: AccountStore) {
+  const router = express.Router();
+  // Per route, so other /api paths still reach the 404 handler and
+  // bodies are only parsed once the request is signed in
+  const requireUser = authenticate(accounts);
+  const parseJson = express.json({ limit: "20mb" });
+
+  router.get("/sync/changes", requireUser, (req, res) => {
+    const since = parseRevision(req.query.since, "since") ?? 0;
+    const limit = Math.min(parseRevision(req.query.limit, "limit") || SYNC_PAGE_SIZE, MAX_PAGE_SIZE);
+    res.json(store.changes(currentUser(res).id, since, limit));
+  });
+
+  router.post("/sync/push", requireUser, parseJson, asyncRoute(async (req, res) => {
+    const { changes } = parseBody(pushSchema, req.body);
+    res.json(await store.push(currentUser(res).id, changes));
+  }));
+
+  router.get("/tables/:table", requireUser, (req, res) => {
+    res.json({ records: store.list(currentUser(res).id, parseTable(req.params.table)), revision: store.revision });
+  });
+
+  router.get("/tables/:table/:id", requireUser, (req, res) => {
+    const record = store.get(currentUser(res).id, parseTable(req.params.table), req.params.id);
+    if (!record || record.deleted) throw new HttpError(404, "Record not found");
+    res.json(record);
+  });
+
+  router.put("/tables/:table/:id", requireUser, parseJson, asyncRoute(async (req, res) => {
+    const userId = currentUser(res).id;
+    const table = parseTable(req.params.table);
+    const body = parseBody(putSchema, req.body);
+    const result = await store.push(userId, [{
+      table,
+      id: req.params.id,
+      data: body.data,
+      deleted: false,
+      modified_at: body.modified_at ?? Date.now(),
+      base_revision: body.base_revision ?? store.get(userId, table, req.params.id)?.revision,
+    }]);
+    if (result.accepted.length === 0) {
+      res.status(409).json({ error: "The record was changed by a newer write", conflict: result.conflicts[0] });
+      return;
+    }
+    res.json(result.accepted[0]);
+  }));
+
+  router.delete("/tables/:table/:id", requireUser, asyncRoute(async (req, res) => {
+    const userId = currentUser(res).id;
+    const table = parseTable(req.params.table);
+    const current = store.get(userId, table, req.params.id);
+    if (!current || current.deleted) throw new HttpError(404, "Record not found");
+
+    const result = await store.push(userId, [{
+      table,
+      id: req.params.id,
+      deleted: true,
+      modified_at: Date.now(),
+      base_revision: parseRevision(req.query.base_revision, "base_revision") ?? current.revision,
+    }]);
+    if (result.accepted.length === 0) {
+      res.status(409).json({ error: "The record was changed by a newer write", conflict: result.conflicts[0] });
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.use(errorHandler);
+
+  return router;
+}
@@ -0,0 +1,33 @@
+/**
+ * Accounts shared by the server and the client. Each account's synced
+ * records are kept apart from everyone else's.
+ */
+
+export const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+// API tokens start with this so they're easy to spot in scripts and logs
+export const API_TOKEN_PREFIX = "hos_";
+
+export interface AccountUser {
+  id: string;
+  username: string;
+  created_at: number;
+}
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  created_at: number;
+  last_used_at?: number;
+}
+
+// Returned once, when the token is created; only its hash is kept
+export interface CreatedApiToken extends ApiTokenInfo {
+  token: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
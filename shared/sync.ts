@@ -0,0 +1,70 @@
+/**
+ * Sync protocol shared by the client sync engine and the server API.
+ * Records are identified by a global `id` (a UUID, or a natural key for
+ * records every device has, like settings) and carry a server `revision`
+ * that increases with every accepted change. Deletes are kept as
+ * tombstones so other devices can pull them.
+ */
+
+// Synced tables, referenced tables first
+export const SYNC_TABLES = [
+  "exercises",
+  "mesocycles",
+  "microcycles",
+  "workout_sessions",
+  "session_exercises",
+  "logs",
+  "workout_templates",
+  "settings",
+  "volume_landmarks",
+  "muscle_recovery",
+  "pain_reports",
+  "deload_events",
+] as const;
+
+export type SyncTable = (typeof SYNC_TABLES)[number];
+
+export function isSyncTable(value: string): value is SyncTable {
+  return (SYNC_TABLES as readonly string[]).includes(value);
+}
+
+// Most changes returned by one pull
+export const SYNC_PAGE_SIZE = 500;
+
+export interface SyncChange {
+  table: SyncTable;
+  id: string;
+  data?: Record<string, unknown>; // Foreign keys are sync ids; missing for deletes
+  deleted: boolean;
+  modified_at: number; // When the device made the change (ms since epoch)
+  base_revision?: number; // Revision the change was made on; missing for new records
+}
+
+export interface SyncRecord extends SyncChange {
+  revision: number;
+  updated_at: number; // When the server accepted it
+}
+
+// A change made on a revision the server has moved past. The later
+// modification wins; `resolution` says whose.
+export interface SyncConflict {
+  change: SyncChange;
+  current: SyncRecord;
+  resolution: "client" | "server";
+}
+
+export interface PullResponse {
+  changes: SyncRecord[];
+  cursor: number; // Pass as `since` to get the next changes
+  has_more: boolean;
+}
+
+export interface PushRequest {
+  changes: SyncChange[];
+}
+
+export interface PushResponse {
+  accepted: SyncRecord[];
+  conflicts: SyncConflict[];
+  cursor: number;
+}
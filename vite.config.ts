@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { jsxLocPlugin } from "@builder.io/vite-plugin-jsx-loc";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
@@ -76,6 +77,10 @@ export default defineConfig({
   },
   envDir: path.resolve(import.meta.dirname),
   root: path.resolve(import.meta.dirname, "client"),
+  test: {
+    // Server tests sit beside the server code, outside the client root
+    dir: path.resolve(import.meta.dirname),
+  },
   build: {
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,
@@ -93,6 +98,10 @@ export default defineConfig({
       "localhost",
       "127.0.0.1",
     ],
+    // API server started with `pnpm dev:server`
+    proxy: {
+      "/api": "http://localhost:3001",
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],